@@ -1,6 +1,8 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
+  // pdfkit reads its font metrics from its own package directory at runtime
+  serverExternalPackages: ['pdfkit'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,82 @@
+/**
+ * Convert stored manual versions to keyframe/delta storage
+ *
+ * Run after applying the schema change that adds ManualVersion.format/data/baseId:
+ *   npm run db:migrate-versions
+ *
+ * Every manual that still has plain JSON versions gets its whole history
+ * re-encoded in creation order. Re-running the script is safe.
+ */
+
+import { prisma } from '../src/lib/prisma'
+import { hashSnapshot, type ManualSnapshot } from '../src/lib/versions'
+import { encodeAfter, readStoredSnapshot } from '../src/lib/version-storage'
+
+async function migrateManual(manualId: string) {
+  const versions = await prisma.manualVersion.findMany({
+    where: { manualId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  })
+
+  let previous: { id: string; chainDepth: number; snapshot: ManualSnapshot } | null = null
+  let bytesBefore = 0
+  let bytesAfter = 0
+
+  for (const { id } of versions) {
+    const version = await prisma.manualVersion.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, format: true, content: true, data: true, baseId: true, chainDepth: true, contentHash: true },
+    })
+
+    // Earlier versions are already re-encoded, so this reads the new chain
+    const snapshot = await readStoredSnapshot(version)
+    const stored = encodeAfter(previous, snapshot)
+
+    bytesBefore += version.content ? Buffer.byteLength(version.content) : version.data?.byteLength ?? 0
+    bytesAfter += stored.data?.byteLength ?? 0
+
+    await prisma.manualVersion.update({
+      where: { id },
+      data: {
+        ...stored,
+        contentHash: version.contentHash ?? (version.content ? hashSnapshot(version.content) : hashSnapshot(JSON.stringify(snapshot))),
+      },
+    })
+
+    previous = { id, chainDepth: stored.chainDepth, snapshot }
+  }
+
+  return { count: versions.length, bytesBefore, bytesAfter }
+}
+
+async function main() {
+  const manuals = await prisma.manualVersion.findMany({
+    where: { format: 'JSON' },
+    distinct: ['manualId'],
+    select: { manualId: true },
+  })
+
+  console.log(`Converting versions of ${manuals.length} manual(s)...`)
+
+  let totalBefore = 0
+  let totalAfter = 0
+
+  for (const { manualId } of manuals) {
+    const result = await migrateManual(manualId)
+    totalBefore += result.bytesBefore
+    totalAfter += result.bytesAfter
+    console.log(`  ${manualId}: ${result.count} version(s), ${result.bytesBefore} -> ${result.bytesAfter} bytes`)
+  }
+
+  console.log(`Done. ${totalBefore} -> ${totalAfter} bytes`)
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Version storage migration failed:', error)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
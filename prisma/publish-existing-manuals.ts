@@ -0,0 +1,46 @@
+/**
+ * Publish the current content of every manual that was never published
+ *
+ * Run once after applying the schema change that adds Manual.publishedVersionId:
+ *   npm run db:publish-manuals
+ *
+ * Viewers and external share links only see published content, so manuals created
+ * before the publish workflow would otherwise look empty to them. Each manual gets a
+ * new named version of its current content, which is published; the latest existing
+ * version may be stale or an auto version the retention cron would thin out.
+ * Re-running the script is safe.
+ */
+
+import { prisma } from '../src/lib/prisma'
+import { createManualVersion } from '../src/lib/versions'
+import { publishVersion } from '../src/lib/publication'
+
+async function main() {
+  const manuals = await prisma.manual.findMany({
+    where: { publishedVersionId: null },
+    select: { id: true, ownerId: true },
+  })
+
+  console.log(`Publishing ${manuals.length} manual(s)...`)
+
+  for (const manual of manuals) {
+    const version = await createManualVersion(manual.id, manual.ownerId, {
+      kind: 'NAMED',
+      summary: '게시 버전',
+    })
+
+    await publishVersion(manual.id, version.id)
+    console.log(`  ${manual.id}: ${version.id}`)
+  }
+
+  console.log('Done.')
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Publishing existing manuals failed:', error)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -61,6 +61,7 @@ async function main() {
       description: '이것은 테스트용 메뉴얼입니다',
       teamId: team.id,
       ownerId: user.id,
+      visibility: 'PRIVATE',
     },
   })
 
@@ -158,6 +159,7 @@ async function main() {
       description: 'API 사용 가이드',
       teamId: team.id,
       ownerId: user.id,
+      visibility: 'PRIVATE',
     },
   })
 
@@ -0,0 +1,157 @@
+/**
+ * Real-time collaboration server for BODY blocks
+ *
+ * Runs next to the Next app (Yjs over WebSocket via Hocuspocus):
+ *   npm run collab
+ *
+ * Clients get a short-lived token from GET /api/manual/[id]/block/[blockId]/collab,
+ * which also enforces manual and section edit permissions. Merged documents are
+ * written back to ContentBlock.content as sanitized HTML, together with the Yjs
+ * state so reconnecting clients merge instead of duplicating content.
+ */
+
+import { Server } from '@hocuspocus/server'
+import { TiptapTransformer } from '@hocuspocus/transformer'
+import { getSchema } from '@tiptap/core'
+import { generateHTML, generateJSON } from '@tiptap/html'
+import { prosemirrorJSONToYXmlFragment } from 'y-prosemirror'
+import * as Y from 'yjs'
+import { prisma } from '../src/lib/prisma'
+import { sanitizeHtml } from '../src/lib/utils'
+import { markManualEdited } from '../src/lib/versions'
+import { notifyManualUpdated } from '../src/lib/notifications'
+import { createRichTextExtensions } from '../src/lib/editor-extensions'
+import { parseCollabDocumentName, verifyCollabToken, type CollabTokenPayload } from '../src/lib/collab'
+
+const PORT = parseInt(process.env.COLLAB_PORT || '1234', 10)
+
+// Tiptap's Collaboration extension stores the document in this fragment
+const FIELD = 'default'
+
+const extensions = createRichTextExtensions()
+const schema = getSchema(extensions)
+
+// HTML last loaded from or written to the database, per open document
+const persistedHtml = new Map<string, string>()
+// User who made the latest change, per open document
+const lastEditors = new Map<string, string>()
+
+interface ConnectionContext {
+  user: CollabTokenPayload
+}
+
+function toHtml(document: Y.Doc): string {
+  return sanitizeHtml(generateHTML(TiptapTransformer.fromYdoc(document, FIELD), extensions))
+}
+
+/**
+ * Replace the document content with the given HTML
+ * Applied as a diff, so connected clients keep their cursors where possible
+ */
+function applyHtml(document: Y.Doc, html: string) {
+  prosemirrorJSONToYXmlFragment(schema, generateJSON(html || '<p></p>', extensions), document.getXmlFragment(FIELD))
+}
+
+function requireBlockId(documentName: string): string {
+  const blockId = parseCollabDocumentName(documentName)
+  if (!blockId) {
+    throw new Error(`Unknown document: ${documentName}`)
+  }
+  return blockId
+}
+
+const server = Server.configure({
+  name: 'menualic-collab',
+  port: PORT,
+  debounce: 2000,
+  maxDebounce: 10000,
+
+  async onAuthenticate({ token, documentName }): Promise<ConnectionContext> {
+    const user = verifyCollabToken(token)
+    if (!user || user.blockId !== parseCollabDocumentName(documentName)) {
+      throw new Error('Unauthorized')
+    }
+    return { user }
+  },
+
+  async onLoadDocument({ documentName, document }) {
+    const block = await prisma.contentBlock.findUnique({
+      where: { id: requireBlockId(documentName) },
+      select: { type: true, content: true, collabState: true },
+    })
+
+    if (!block || block.type !== 'BODY') {
+      throw new Error('Block not found')
+    }
+
+    persistedHtml.set(documentName, block.content)
+
+    // Reuse the stored Yjs state only while it still matches the saved HTML;
+    // the block may have been changed without the collaboration server (restore, API)
+    if (block.collabState) {
+      const stored = new Y.Doc()
+      Y.applyUpdate(stored, block.collabState)
+      if (toHtml(stored) === block.content) {
+        Y.applyUpdate(document, block.collabState)
+        return
+      }
+    }
+
+    applyHtml(document, block.content)
+  },
+
+  async onChange({ documentName, context }) {
+    const { user } = context as ConnectionContext
+    if (user) {
+      lastEditors.set(documentName, user.userId)
+    }
+  },
+
+  async onStoreDocument({ documentName, document, context }) {
+    const blockId = requireBlockId(documentName)
+    const block = await prisma.contentBlock.findUnique({
+      where: { id: blockId },
+      select: { content: true, section: { select: { manualId: true } } },
+    })
+
+    // Block deleted while being edited
+    if (!block) return
+
+    // Written outside of the collaboration server since we last saw it: the database wins
+    if (block.content !== persistedHtml.get(documentName)) {
+      persistedHtml.set(documentName, block.content)
+      applyHtml(document, block.content)
+      return
+    }
+
+    const html = toHtml(document)
+    if (html === block.content) return
+
+    await prisma.contentBlock.update({
+      where: { id: blockId },
+      data: {
+        content: html,
+        collabState: new Uint8Array(Y.encodeStateAsUpdate(document)),
+        revision: { increment: 1 },
+      },
+    })
+    persistedHtml.set(documentName, html)
+
+    const editorId = lastEditors.get(documentName) ?? (context as ConnectionContext | undefined)?.user?.userId
+    if (editorId) {
+      // Update manual's updatedAt and schedule an auto version
+      await markManualEdited(block.section.manualId, editorId)
+      await notifyManualUpdated(block.section.manualId, editorId)
+    }
+  },
+
+  async afterUnloadDocument({ documentName }) {
+    persistedHtml.delete(documentName)
+    lastEditors.delete(documentName)
+  },
+})
+
+server.listen().catch((error) => {
+  console.error('Collaboration server failed to start:', error)
+  process.exit(1)
+})
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { sendMail } from '@/lib/mail'
+import { passwordResetMail } from '@/lib/mail-templates'
 import crypto from 'crypto'
 import { z } from 'zod'
 
@@ -48,15 +50,9 @@ export async function POST(request: NextRequest) {
     })()
     const resetUrl = `${baseUrl}/reset-password/${resetToken}`
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log('\n=================================')
-      console.log('비밀번호 재설정 링크:')
-      console.log(resetUrl)
-      console.log('=================================\n')
-    }
-
-    // TODO: Send email with reset link
-    // await sendPasswordResetEmail(user.email, resetUrl)
+    // Send email with reset link
+    // A failed send is only logged so the response stays identical (prevents email enumeration)
+    await sendMail(passwordResetMail(user.email, resetUrl))
 
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyMemberJoined } from '@/lib/notifications'
 import bcrypt from 'bcryptjs'
 import { z } from 'zod'
 
@@ -78,16 +79,8 @@ export async function POST(request: NextRequest) {
             },
           })
 
-          // Create notification for team owner
-          await prisma.notification.create({
-            data: {
-              userId: invitation.team.ownerId,
-              type: 'MEMBER_JOINED',
-              title: '새 팀원이 가입했습니다',
-              message: `${user.name}님이 팀에 가입했습니다`,
-              relatedId: invitation.teamId,
-            },
-          })
+          // Create notification for team owners
+          await notifyMemberJoined(invitation.teamId, user)
         }
       }
     }
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleApiError, UnauthorizedError } from '@/lib/errors'
+import { sendDailyDigests } from '@/lib/notifications'
+
+// POST /api/cron/notification-digest - Send daily digest mails
+// Called once a day by an external scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authorization = request.headers.get('authorization')
+
+    if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+      throw new UnauthorizedError()
+    }
+
+    const result = await sendDailyDigests()
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
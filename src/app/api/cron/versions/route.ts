@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleApiError, UnauthorizedError } from '@/lib/errors'
+import { createDueAutoVersions, pruneAutoVersions } from '@/lib/versions'
+
+// POST /api/cron/versions - Take due auto versions and apply the retention policy
+// Called every minute by an external scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authorization = request.headers.get('authorization')
+
+    if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+      throw new UnauthorizedError()
+    }
+
+    const snapshots = await createDueAutoVersions()
+    const retention = await pruneAutoVersions()
+
+    return NextResponse.json({
+      success: true,
+      ...snapshots,
+      ...retention,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
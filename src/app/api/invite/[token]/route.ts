@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { notifyMemberJoined } from '@/lib/notifications'
 import { handleApiError, UnauthorizedError, BadRequestError, NotFoundError } from '@/lib/errors'
 
 // GET /api/invite/[token] - Get invitation details
@@ -149,6 +150,8 @@ export async function POST(
       }),
     ])
 
+    await notifyMemberJoined(invitation.teamId, currentUser)
+
     return NextResponse.json({
       success: true,
       team: invitation.team,
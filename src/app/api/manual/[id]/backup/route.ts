@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { createManualBackup } from '@/lib/backup'
+import { contentDisposition, exportFilename } from '@/lib/export'
+
+// GET /api/manual/[id]/backup - Download a backup zip of the manual (restore with POST /api/team/backup)
+// Owner only: the backup includes restricted sections, shares and every version
+export const GET = withManualAccess('share', async (request, { params, manual }) => {
+  const body = await createManualBackup(params.id)
+
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': contentDisposition(exportFilename(`${manual.title}-backup`, 'zip')),
+      'Cache-Control': 'private, no-store',
+    },
+  })
+})
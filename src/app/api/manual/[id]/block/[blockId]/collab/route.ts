@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { NotFoundError, BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
+import { collabColor, collabDocumentName, createCollabToken } from '@/lib/collab'
+
+// GET /api/manual/[id]/block/[blockId]/collab - Issue a token for real-time editing of a BODY block
+export const GET = withManualAccess<{ id: string; blockId: string }>('edit', async (request, { params, userId, session, manual, access }) => {
+  const { id, blockId } = params
+
+  const url = process.env.NEXT_PUBLIC_COLLAB_URL
+  if (!url) {
+    throw new BadRequestError('실시간 공동 편집이 설정되지 않았습니다')
+  }
+
+  const block = await prisma.contentBlock.findFirst({
+    where: {
+      id: blockId,
+      section: { manualId: id },
+    },
+    select: { id: true, type: true, sectionId: true },
+  })
+
+  if (!block) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
+  }
+
+  if (block.type !== 'BODY') {
+    throw new BadRequestError('본문 블록만 공동 편집할 수 있습니다')
+  }
+
+  await requireSectionAccess(id, [block.sectionId], getSectionViewer(manual, userId, access), 'edit')
+
+  const name = session.user.name || session.user.email || '사용자'
+
+  return NextResponse.json({
+    url,
+    document: collabDocumentName(blockId),
+    token: createCollabToken({ userId, name, manualId: id, blockId }),
+    user: { name, color: collabColor(userId) },
+  })
+})
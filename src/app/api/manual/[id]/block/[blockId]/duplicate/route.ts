@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { duplicateBlock, duplicateBlockSchema } from '@/lib/duplication'
+
+// POST /api/manual/[id]/block/[blockId]/duplicate - Copy a block
+export const POST = withManualAccess<{ id: string; blockId: string }>('edit', async (request, { params, userId, manual, access }) => {
+  const { id, blockId } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = duplicateBlockSchema.parse(body)
+
+  const result = await duplicateBlock(
+    { manualId: id, userId, viewer: getSectionViewer(manual, userId, access) },
+    blockId,
+    validatedData
+  )
+
+  // Update the target manual's updatedAt and schedule an auto version
+  await markManualEdited(result.manualId, userId)
+
+  await notifyManualUpdated(result.manualId, userId)
+
+  return NextResponse.json({
+    success: true,
+    ...result,
+  })
+})
@@ -1,180 +1,112 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
 import { z } from 'zod'
+import { NotFoundError, BadRequestError, ConflictError } from '@/lib/errors'
+import { withManualAccess, type ManualRouteContext } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
+import { requireBlockUnlocked } from '@/lib/presence'
 
 const updateBlockSchema = z.object({
   content: z.string().optional(),
   order: z.number().optional(),
+  // Revision the change is based on; writes based on an older revision are rejected
+  revision: z.number().int().optional(),
 })
 
-// PUT /api/manual/[id]/block/[blockId] - Update a block
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; blockId: string }> }
+const BLOCK_SELECT = {
+  id: true,
+  type: true,
+  content: true,
+  order: true,
+  revision: true,
+  sectionId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+/**
+ * Find a block that belongs to the given manual and check edit access on its section
+ * and that no other user holds a lock on it
+ */
+async function findEditableBlock(
+  { params, userId, manual, access }: ManualRouteContext<{ id: string; blockId: string }>
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
-
-    const { id, blockId } = await params
-    const block = await prisma.contentBlock.findUnique({
-      where: { id: blockId },
-      include: {
-        section: {
-          include: {
-            manual: {
-              include: {
-                team: true,
-              },
-            },
-          },
-        },
-      },
-    })
-
-    if (!block) {
-      return NextResponse.json(
-        { error: '블록을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
-
-    // Check permission
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: block.section.manual.teamId,
-      },
-    })
-
-    const isOwner = block.section.manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
-
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
-    }
-
-    let body
-    try {
-      body = await request.json()
-    } catch (e) {
-      return NextResponse.json(
-        { error: '잘못된 요청 형식입니다' },
-        { status: 400 }
-      )
-    }
-    const validatedData = updateBlockSchema.parse(body)
-
-    // Update block
-    const updatedBlock = await prisma.contentBlock.update({
-      where: { id: blockId },
-      data: validatedData,
-    })
-
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
-
-    return NextResponse.json({
-      success: true,
-      block: updatedBlock,
-    })
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: error.errors[0].message },
-        { status: 400 }
-      )
-    }
-
-    console.error('Update block error:', error)
-    return NextResponse.json(
-      { error: '블록 수정 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
+  const block = await prisma.contentBlock.findFirst({
+    where: {
+      id: params.blockId,
+      section: { manualId: params.id },
+    },
+  })
+
+  if (!block) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
   }
+
+  await requireSectionAccess(params.id, [block.sectionId], getSectionViewer(manual, userId, access), 'edit')
+  await requireBlockUnlocked(params.id, block.id, userId)
+
+  return block
 }
 
-// DELETE /api/manual/[id]/block/[blockId] - Delete a block
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; blockId: string }> }
-) {
+// PUT /api/manual/[id]/block/[blockId] - Update a block
+export const PUT = withManualAccess<{ id: string; blockId: string }>('edit', async (request, context) => {
+  const { params, userId } = context
+  const { id, blockId } = params
+
+  await findEditableBlock(context)
+
+  let body
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
-
-    const { id, blockId } = await params
-    const block = await prisma.contentBlock.findUnique({
-      where: { id: blockId },
-      include: {
-        section: {
-          include: {
-            manual: {
-              include: {
-                team: true,
-              },
-            },
-          },
-        },
-      },
-    })
-
-    if (!block) {
-      return NextResponse.json(
-        { error: '블록을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
-
-    // Check permission
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: block.section.manual.teamId,
-      },
-    })
-
-    const isOwner = block.section.manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
-
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
-    }
-
-    // Delete block
-    await prisma.contentBlock.delete({
-      where: { id: blockId },
-    })
-
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    console.error('Delete block error:', error)
-    return NextResponse.json(
-      { error: '블록 삭제 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
   }
-}
+  const { revision, ...data } = updateBlockSchema.parse(body)
+
+  // Update block unless someone else changed it since `revision`
+  const { count } = await prisma.contentBlock.updateMany({
+    where: { id: blockId, ...(revision !== undefined ? { revision } : {}) },
+    data: { ...data, revision: { increment: 1 } },
+  })
+
+  const updatedBlock = await prisma.contentBlock.findUnique({
+    where: { id: blockId },
+    select: BLOCK_SELECT,
+  })
+
+  if (count === 0) {
+    throw new ConflictError('다른 사용자가 이 블록을 먼저 수정했습니다', { block: updatedBlock })
+  }
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    block: updatedBlock,
+  })
+})
+
+// DELETE /api/manual/[id]/block/[blockId] - Delete a block
+export const DELETE = withManualAccess<{ id: string; blockId: string }>('edit', async (request, context) => {
+  const { params, userId } = context
+  const { id, blockId } = params
+
+  await findEditableBlock(context)
+
+  // Delete block
+  await prisma.contentBlock.delete({
+    where: { id: blockId },
+  })
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({ success: true })
+})
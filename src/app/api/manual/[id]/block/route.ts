@@ -1,10 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
 import { z } from 'zod'
-import { handleApiError, UnauthorizedError } from '@/lib/errors'
-import { requireManualEditAccess } from '@/lib/permissions-helpers'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
 
 const addBlockSchema = z.object({
   sectionId: z.string(),
@@ -13,52 +13,41 @@ const addBlockSchema = z.object({
 })
 
 // POST /api/manual/[id]/block - Add a block to a section
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      throw new UnauthorizedError()
-    }
-
-    const { id } = await params
-    await requireManualEditAccess(id, session.user.id)
-
-    const body = await request.json()
-    const validatedData = addBlockSchema.parse(body)
-
-    // Get current max order for this section
-    const maxOrderBlock = await prisma.contentBlock.findFirst({
-      where: { sectionId: validatedData.sectionId },
-      orderBy: { order: 'desc' },
-      select: { order: true },
-    })
-
-    const nextOrder = (maxOrderBlock?.order ?? -1) + 1
-
-    // Create the block
-    const block = await prisma.contentBlock.create({
-      data: {
-        sectionId: validatedData.sectionId,
-        type: validatedData.type,
-        content: validatedData.content,
-        order: nextOrder,
-      },
-    })
-
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
-
-    return NextResponse.json({
-      success: true,
-      block,
-    })
-  } catch (error) {
-    return handleApiError(error)
-  }
-}
+export const POST = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  const body = await request.json()
+  const validatedData = addBlockSchema.parse(body)
+
+  // Section must belong to this manual and not be restricted for the user
+  await requireSectionAccess(id, [validatedData.sectionId], getSectionViewer(manual, userId, access), 'edit')
+
+  // Get current max order for this section
+  const maxOrderBlock = await prisma.contentBlock.findFirst({
+    where: { sectionId: validatedData.sectionId },
+    orderBy: { order: 'desc' },
+    select: { order: true },
+  })
+
+  const nextOrder = (maxOrderBlock?.order ?? -1) + 1
+
+  // Create the block
+  const block = await prisma.contentBlock.create({
+    data: {
+      sectionId: validatedData.sectionId,
+      type: validatedData.type,
+      content: validatedData.content,
+      order: nextOrder,
+    },
+  })
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    block,
+  })
+})
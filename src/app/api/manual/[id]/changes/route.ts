@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { applyManualChanges, manualChangesSchema, requireChangesAccess } from '@/lib/manual-changes'
+
+// POST /api/manual/[id]/changes - Apply a batch of block/section changes atomically
+export const POST = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { changes } = manualChangesSchema.parse(body)
+
+  await requireChangesAccess(id, changes, getSectionViewer(manual, userId, access), userId)
+
+  const result = await applyManualChanges(id, changes)
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    ...result,
+  })
+})
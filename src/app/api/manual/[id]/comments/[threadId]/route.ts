@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { notifyCommentMention } from '@/lib/notifications'
+import {
+  COMMENT_THREAD_INCLUDE,
+  filterMentions,
+  findCommentThread,
+  presentThread,
+  requireThreadModeration,
+} from '@/lib/comments'
+
+const replySchema = z.object({
+  content: z.string().trim().min(1, '댓글 내용을 입력해주세요').max(5000),
+  mentions: z.array(z.string()).max(50).default([]),
+})
+
+const updateThreadSchema = z.object({
+  resolved: z.boolean(),
+})
+
+async function readBody(request: Request) {
+  try {
+    return await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+}
+
+// POST /api/manual/[id]/comments/[threadId] - Reply to a thread
+export const POST = withManualAccess<{ id: string; threadId: string }>('view', async (request, { params, userId, manual, access }) => {
+  const { id, threadId } = params
+
+  const viewer = getSectionViewer(manual, userId, access)
+  const thread = await findCommentThread(id, threadId, viewer)
+  const validatedData = replySchema.parse(await readBody(request))
+
+  const mentions = await filterMentions(id, thread.block.sectionId, validatedData.mentions)
+
+  const comment = await prisma.comment.create({
+    data: {
+      threadId: thread.id,
+      authorId: userId,
+      content: validatedData.content,
+      mentions,
+    },
+    include: {
+      author: { select: { id: true, name: true, profileImage: true } },
+    },
+  })
+
+  // Replying brings a resolved discussion back
+  const updatedThread = await prisma.commentThread.update({
+    where: { id: thread.id },
+    data: { resolvedAt: null, resolvedById: null },
+    include: COMMENT_THREAD_INCLUDE,
+  })
+
+  await notifyCommentMention(manual, mentions, comment.author)
+
+  return NextResponse.json({
+    success: true,
+    thread: await presentThread(id, updatedThread, viewer),
+  })
+})
+
+// PUT /api/manual/[id]/comments/[threadId] - Resolve or reopen a thread
+export const PUT = withManualAccess<{ id: string; threadId: string }>('view', async (request, { params, userId, manual, access }) => {
+  const { id, threadId } = params
+
+  const viewer = getSectionViewer(manual, userId, access)
+  const thread = await findCommentThread(id, threadId, viewer)
+  requireThreadModeration(thread, userId, access.permission)
+
+  const { resolved } = updateThreadSchema.parse(await readBody(request))
+
+  const updatedThread = await prisma.commentThread.update({
+    where: { id: thread.id },
+    data: resolved
+      ? { resolvedAt: new Date(), resolvedById: userId }
+      : { resolvedAt: null, resolvedById: null },
+    include: COMMENT_THREAD_INCLUDE,
+  })
+
+  return NextResponse.json({
+    success: true,
+    thread: await presentThread(id, updatedThread, viewer),
+  })
+})
+
+// DELETE /api/manual/[id]/comments/[threadId] - Delete a thread with its replies
+export const DELETE = withManualAccess<{ id: string; threadId: string }>('view', async (request, { params, userId, manual, access }) => {
+  const { id, threadId } = params
+
+  const thread = await findCommentThread(id, threadId, getSectionViewer(manual, userId, access))
+  requireThreadModeration(thread, userId, access.permission)
+
+  await prisma.commentThread.delete({
+    where: { id: thread.id },
+  })
+
+  return NextResponse.json({ success: true })
+})
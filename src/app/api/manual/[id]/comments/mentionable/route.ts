@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
+import { getMentionableUsers } from '@/lib/comments'
+
+// GET /api/manual/[id]/comments/mentionable?sectionId= - Users who can be @mentioned in a section
+export const GET = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+  const sectionId = new URL(request.url).searchParams.get('sectionId')
+  if (!sectionId) {
+    throw new BadRequestError('sectionId가 필요합니다')
+  }
+
+  await requireSectionAccess(id, [sectionId], getSectionViewer(manual, userId, access), 'view')
+
+  return NextResponse.json({
+    users: await getMentionableUsers(id, sectionId),
+  })
+})
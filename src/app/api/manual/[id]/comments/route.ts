@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { notifyCommentMention } from '@/lib/notifications'
+import { COMMENT_THREAD_INCLUDE, filterMentions, filterVisibleThreads, findCommentableBlock } from '@/lib/comments'
+
+const listCommentsSchema = z.object({
+  sectionId: z.string().optional(),
+  status: z.enum(['open', 'resolved', 'all']).default('all'),
+})
+
+const createThreadSchema = z.object({
+  blockId: z.string(),
+  content: z.string().trim().min(1, '댓글 내용을 입력해주세요').max(5000),
+  mentions: z.array(z.string()).max(50).default([]),
+  // Text of a BODY block the thread is about
+  quote: z.string().max(1000).optional(),
+  rangeStart: z.number().int().min(0).optional(),
+  rangeEnd: z.number().int().min(0).optional(),
+})
+
+// GET /api/manual/[id]/comments - List comment threads (optionally of one section)
+export const GET = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+  const { searchParams } = new URL(request.url)
+  const { sectionId, status } = listCommentsSchema.parse({
+    sectionId: searchParams.get('sectionId') || undefined,
+    status: searchParams.get('status') || undefined,
+  })
+
+  const threads = await prisma.commentThread.findMany({
+    where: {
+      manualId: id,
+      ...(sectionId ? { block: { sectionId } } : {}),
+      ...(status === 'open' ? { resolvedAt: null } : status === 'resolved' ? { resolvedAt: { not: null } } : {}),
+    },
+    include: COMMENT_THREAD_INCLUDE,
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // Hide threads on sections this user cannot see (and draft-only content from non-editors)
+  return NextResponse.json({
+    threads: await filterVisibleThreads(id, threads, getSectionViewer(manual, userId, access)),
+  })
+})
+
+// POST /api/manual/[id]/comments - Start a comment thread on a block
+export const POST = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = createThreadSchema.parse(body)
+
+  const block = await findCommentableBlock(id, validatedData.blockId, getSectionViewer(manual, userId, access))
+
+  // Text ranges only apply to body blocks
+  const quote = block.type === 'BODY' ? validatedData.quote?.trim() || null : null
+  const hasRange =
+    quote !== null &&
+    validatedData.rangeStart !== undefined &&
+    validatedData.rangeEnd !== undefined &&
+    validatedData.rangeStart <= validatedData.rangeEnd
+
+  const mentions = await filterMentions(id, block.sectionId, validatedData.mentions)
+
+  const thread = await prisma.commentThread.create({
+    data: {
+      manualId: id,
+      blockId: block.id,
+      authorId: userId,
+      quote,
+      rangeStart: hasRange ? validatedData.rangeStart : null,
+      rangeEnd: hasRange ? validatedData.rangeEnd : null,
+      comments: {
+        create: {
+          authorId: userId,
+          content: validatedData.content,
+          mentions,
+        },
+      },
+    },
+    include: COMMENT_THREAD_INCLUDE,
+  })
+
+  await notifyCommentMention(manual, mentions, thread.author)
+
+  return NextResponse.json({
+    success: true,
+    thread,
+  })
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { duplicateManual, duplicateManualSchema } from '@/lib/duplication'
+
+// POST /api/manual/[id]/duplicate - Copy the manual into a new manual owned by the user
+export const POST = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { title } = duplicateManualSchema.parse(body)
+
+  const copy = await duplicateManual(
+    { manualId: id, userId, viewer: getSectionViewer(manual, userId, access) },
+    title
+  )
+
+  return NextResponse.json({
+    success: true,
+    manual: copy,
+  })
+})
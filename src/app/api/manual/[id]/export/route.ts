@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import {
+  contentDisposition,
+  exportFilename,
+  exportQuerySchema,
+  loadExportDocument,
+  zipFiles,
+} from '@/lib/export'
+import { renderPdf } from '@/lib/export-pdf'
+import { renderDocx } from '@/lib/export-docx'
+import { renderMarkdown } from '@/lib/export-markdown'
+import { renderHtmlSite } from '@/lib/export-html'
+
+// GET /api/manual/[id]/export?format=pdf|docx|md|html&layout=single|sections&view=published - Download the manual
+// Viewers always get the published revision; editors get the draft unless they ask for the published one
+// Markdown and HTML come as a zip with images in assets/
+export const GET = withManualAccess('view', async (request, { userId, manual, access }) => {
+  const { searchParams } = request.nextUrl
+  const { format, layout, view } = exportQuerySchema.parse({
+    format: searchParams.get('format') || undefined,
+    layout: searchParams.get('layout') || undefined,
+    view: searchParams.get('view') || undefined,
+  })
+
+  const document = await loadExportDocument(manual, userId, access, {
+    published: view === 'published',
+  })
+
+  let body: Uint8Array
+  let contentType: string
+  let filename: string
+
+  switch (format) {
+    case 'pdf':
+      body = await renderPdf(document)
+      contentType = 'application/pdf'
+      filename = exportFilename(document.title, 'pdf')
+      break
+    case 'docx':
+      body = await renderDocx(document)
+      contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      filename = exportFilename(document.title, 'docx')
+      break
+    case 'md':
+      body = zipFiles(await renderMarkdown(document, layout))
+      contentType = 'application/zip'
+      filename = exportFilename(`${document.title}-markdown`, 'zip')
+      break
+    case 'html':
+      body = zipFiles(await renderHtmlSite(document))
+      contentType = 'application/zip'
+      filename = exportFilename(`${document.title}-html`, 'zip')
+      break
+  }
+
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': contentDisposition(filename),
+      'Cache-Control': 'private, no-store',
+    },
+  })
+})
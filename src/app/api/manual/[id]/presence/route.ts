@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { canViewSection, getSectionPermissions, getSectionViewer } from '@/lib/section-permissions'
+import { getLockMode, listPresence, removePresence, updatePresence } from '@/lib/presence'
+
+const heartbeatSchema = z.object({
+  clientId: z.string().min(1).max(64),
+  sectionId: z.string().max(64).nullable().optional(),
+  blockId: z.string().max(64).nullable().optional(),
+  typing: z.boolean().optional(),
+})
+
+// PUT /api/manual/[id]/presence - Heartbeat of an open editor tab, returns who else is here
+export const PUT = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = heartbeatSchema.parse(body)
+
+  // Only editors can hold block locks
+  const update = access.canEdit ? validatedData : { ...validatedData, blockId: null, typing: false }
+  await updatePresence(id, userId, update)
+
+  // Hide where others are in sections this user cannot see
+  const permissions = await getSectionPermissions(id, getSectionViewer(manual, userId, access))
+  const users = (await listPresence(id))
+    .filter((entry) => entry.clientId !== validatedData.clientId)
+    .map((entry) =>
+      entry.sectionId && canViewSection(permissions.get(entry.sectionId))
+        ? entry
+        : { ...entry, sectionId: null, lockedBlockId: null }
+    )
+
+  return NextResponse.json({
+    users,
+    lockMode: getLockMode(),
+  })
+})
+
+// DELETE /api/manual/[id]/presence?clientId= - Leave the manual
+export const DELETE = withManualAccess('view', async (request, { params, userId }) => {
+  const clientId = new URL(request.url).searchParams.get('clientId')
+  if (!clientId) {
+    throw new BadRequestError('clientId가 필요합니다')
+  }
+
+  await removePresence(params.id, userId, clientId)
+
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { notifyManualPublished, notifyReviewCompleted } from '@/lib/notifications'
+import { decideReview, decideReviewSchema } from '@/lib/publication'
+
+// PUT /api/manual/[id]/review/[reviewId] - Approve (publish), request changes or cancel a review
+export const PUT = withManualAccess<{ id: string; reviewId: string }>('edit', async (request, { params, userId, manual }) => {
+  const { id, reviewId } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = decideReviewSchema.parse(body)
+
+  const review = await decideReview(id, reviewId, userId, validatedData)
+
+  if (review.reviewedBy && review.requestedById !== userId) {
+    await notifyReviewCompleted(manual, review.requestedById, review.reviewedBy, review.status === 'APPROVED')
+  }
+  if (review.status === 'APPROVED') {
+    await notifyManualPublished(id, userId)
+  }
+
+  return NextResponse.json({
+    success: true,
+    review,
+  })
+})
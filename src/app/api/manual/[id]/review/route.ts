@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { notifyReviewRequested } from '@/lib/notifications'
+import { REVIEW_INCLUDE, getReviewerIds, submitForReview, submitReviewSchema } from '@/lib/publication'
+
+// GET /api/manual/[id]/review - Publication state, pending review and recent reviews
+export const GET = withManualAccess('edit', async (request, { params, userId, manual }) => {
+  const { id } = params
+
+  const [reviews, reviewerIds, publishedVersion] = await Promise.all([
+    prisma.manualReview.findMany({
+      where: { manualId: id },
+      include: REVIEW_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    }),
+    getReviewerIds(id),
+    manual.publishedVersionId
+      ? prisma.manualVersion.findUnique({
+          where: { id: manual.publishedVersionId },
+          select: { id: true, summary: true, createdAt: true },
+        })
+      : null,
+  ])
+
+  return NextResponse.json({
+    published: publishedVersion && {
+      versionId: publishedVersion.id,
+      summary: publishedVersion.summary,
+      publishedAt: manual.publishedAt?.toISOString() ?? publishedVersion.createdAt.toISOString(),
+    },
+    pendingReview: reviews.find((review) => review.status === 'PENDING') ?? null,
+    reviews,
+    isReviewer: reviewerIds.includes(userId),
+  })
+})
+
+// POST /api/manual/[id]/review - Submit the current draft for review
+export const POST = withManualAccess('edit', async (request, { params, userId, manual }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { message } = submitReviewSchema.parse(body)
+
+  const review = await submitForReview(id, userId, message)
+
+  const reviewerIds = await getReviewerIds(id)
+  await notifyReviewRequested(manual, reviewerIds, review.requestedBy)
+
+  return NextResponse.json({
+    success: true,
+    review,
+  })
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getEditorUsers, setReviewers, updateReviewersSchema } from '@/lib/publication'
+
+// GET /api/manual/[id]/reviewers - Designated reviewers and the editors who can be designated
+export const GET = withManualAccess('edit', async (request, { params }) => {
+  const { id } = params
+
+  const [reviewers, candidates] = await Promise.all([
+    prisma.manualReviewer.findMany({
+      where: { manualId: id },
+      select: { userId: true },
+    }),
+    getEditorUsers(id),
+  ])
+
+  return NextResponse.json({
+    reviewerIds: reviewers.map((reviewer) => reviewer.userId),
+    candidates,
+  })
+})
+
+// PUT /api/manual/[id]/reviewers - Replace the designated reviewers
+export const PUT = withManualAccess('share', async (request, { params }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { userIds } = updateReviewersSchema.parse(body)
+
+  await setReviewers(id, userIds)
+
+  return NextResponse.json({
+    success: true,
+    reviewerIds: Array.from(new Set(userIds)),
+  })
+})
@@ -1,73 +1,32 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { handleApiError, UnauthorizedError, NotFoundError, ForbiddenError } from '@/lib/errors'
-
-// GET /api/manual/[id] - Get manual details
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      throw new UnauthorizedError()
-    }
-
-    const resolvedParams = await params
-    const { id } = resolvedParams
+import { z } from 'zod'
+import { NotFoundError, ForbiddenError, ConflictError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, getSectionPermissions, filterSectionTree, filterSnapshotSections } from '@/lib/section-permissions'
+import { buildSnapshotTree, getPublishedSnapshot } from '@/lib/publication'
+import { markManualEdited } from '@/lib/versions'
+
+const updateManualSchema = z.object({
+  title: z.string().min(1, '메뉴얼 제목을 입력해주세요').max(100, '제목은 최대 100자까지 입력 가능합니다').optional(),
+  description: z.string().max(500, '설명은 최대 500자까지 입력 가능합니다').nullable().optional(),
+  visibility: z.enum(['PRIVATE', 'TEAM']).optional(),
+  // Revision the change is based on; writes based on an older revision are rejected
+  revision: z.number().int().optional(),
+})
+
+// GET /api/manual/[id]?view=published - Get manual details
+// Viewers always get the published revision; editors get the draft unless they ask for the published one
+export const GET = withManualAccess('view', async (request, { params, userId, manual: accessInfo, access }) => {
+  const { id } = params
+  const viewer = getSectionViewer(accessInfo, userId, access)
+
+  if (!access.canEdit || request.nextUrl.searchParams.get('view') === 'published') {
     const manual = await prisma.manual.findUnique({
       where: { id },
       include: {
-        owner: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        team: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        sections: {
-          orderBy: [
-            { order: 'asc' },
-          ],
-          include: {
-            blocks: {
-              orderBy: { order: 'asc' },
-            },
-            children: {
-              orderBy: { order: 'asc' },
-              include: {
-                blocks: {
-                  orderBy: { order: 'asc' },
-                },
-                children: {
-                  orderBy: { order: 'asc' },
-                  include: {
-                    blocks: {
-                      orderBy: { order: 'asc' },
-                    },
-                  },
-                },
-              },
-            },
-          },
-          where: {
-            parentId: null, // Only get top-level sections
-          },
-        },
-        shares: {
-          where: {
-            userId: session.user.id,
-          },
-        },
+        owner: { select: { id: true, name: true, email: true } },
+        team: { select: { id: true, name: true } },
       },
     })
 
@@ -75,88 +34,151 @@ export async function GET(
       throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
     }
 
-    // Check if user has permission to view
-    const isOwner = manual.ownerId === session.user.id
-    const hasShare = manual.shares.length > 0
-
-    // Check if user is in the same team
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: manual.teamId,
-      },
-    })
-
-    if (!isOwner && !hasShare && !teamMember) {
-      throw new ForbiddenError('이 메뉴얼을 볼 권한이 없습니다')
-    }
-
-    // Determine user's permission
-    let permission = 'VIEWER'
-    if (isOwner || teamMember?.role === 'OWNER') {
-      permission = 'OWNER'
-    } else if (teamMember?.role === 'EDITOR') {
-      permission = 'EDITOR'
-    } else if (manual.shares.length > 0) {
-      permission = manual.shares[0].permission
-    }
+    const published = await getPublishedSnapshot(id)
+    const snapshot = published && filterSnapshotSections(published.snapshot, viewer)
 
     return NextResponse.json({
-      manual,
-      permission,
+      manual: {
+        ...manual,
+        title: snapshot?.title ?? manual.title,
+        description: snapshot ? snapshot.description ?? null : manual.description,
+        // The published revision is read-only, even for editors
+        sections: snapshot
+          ? filterSectionTree(
+              buildSnapshotTree(snapshot),
+              new Map(snapshot.sections.map((section) => [section.id, 'VIEWER' as const]))
+            )
+          : [],
+      },
+      permission: access.permission,
+      view: 'published',
+      published: published && {
+        versionId: published.versionId,
+        publishedAt: published.publishedAt?.toISOString() ?? null,
+      },
     })
-  } catch (error) {
-    return handleApiError(error)
   }
-}
-
-// DELETE /api/manual/[id] - Delete a manual
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      throw new UnauthorizedError()
-    }
-
-    const resolvedParams = await params
-    const { id } = resolvedParams
 
-    const manual = await prisma.manual.findUnique({
-      where: { id },
-      include: {
-        team: {
-          include: {
-            members: {
-              where: { userId: session.user.id },
+  const manual = await prisma.manual.findUnique({
+    where: { id },
+    include: {
+      owner: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+      team: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      sections: {
+        orderBy: [
+          { order: 'asc' },
+        ],
+        include: {
+          blocks: {
+            orderBy: { order: 'asc' },
+            omit: { collabState: true },
+          },
+          children: {
+            orderBy: { order: 'asc' },
+            include: {
+              blocks: {
+                orderBy: { order: 'asc' },
+                omit: { collabState: true },
+              },
+              children: {
+                orderBy: { order: 'asc' },
+                include: {
+                  blocks: {
+                    orderBy: { order: 'asc' },
+                    omit: { collabState: true },
+                  },
+                },
+              },
             },
           },
         },
+        where: {
+          parentId: null, // Only get top-level sections
+        },
       },
-    })
+    },
+  })
 
-    if (!manual) {
-      throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
-    }
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
 
-    // Check if user is owner or team owner
-    const isOwner = manual.ownerId === session.user.id
-    const isTeamOwner = manual.team.members.some(m => m.role === 'OWNER')
+  // Hide restricted sections the user cannot see
+  const sectionPermissions = await getSectionPermissions(id, viewer)
+
+  return NextResponse.json({
+    manual: {
+      ...manual,
+      sections: filterSectionTree(manual.sections, sectionPermissions),
+    },
+    permission: access.permission,
+    view: 'draft',
+    published: manual.publishedVersionId
+      ? { versionId: manual.publishedVersionId, publishedAt: manual.publishedAt?.toISOString() ?? null }
+      : null,
+  })
+})
+
+// PUT /api/manual/[id] - Update manual title, description or visibility
+export const PUT = withManualAccess('edit', async (request, { params, userId, access }) => {
+  const { id } = params
+
+  const body = await request.json()
+  const { revision, ...validatedData } = updateManualSchema.parse(body)
+
+  // Changing who can see the manual is a sharing decision
+  if (validatedData.visibility !== undefined && !access.canShare) {
+    throw new ForbiddenError('공개 범위를 변경할 권한이 없습니다')
+  }
 
-    if (!isOwner && !isTeamOwner) {
-      throw new ForbiddenError('메뉴얼을 삭제할 권한이 없습니다')
-    }
+  // Title and description are part of version snapshots
+  const contentChanged = validatedData.title !== undefined || validatedData.description !== undefined
 
-    // Delete manual (will cascade to sections, blocks, shares, versions)
-    await prisma.manual.delete({
-      where: { id },
+  // Update manual unless someone else changed it since `revision`
+  const { count } = await prisma.manual.updateMany({
+    where: { id, ...(revision !== undefined ? { revision } : {}) },
+    data: { ...validatedData, ...(contentChanged ? { revision: { increment: 1 } } : {}) },
+  })
+
+  const manual = await prisma.manual.findUnique({
+    where: { id },
+  })
+
+  if (count === 0) {
+    throw new ConflictError('다른 사용자가 이 메뉴얼을 먼저 수정했습니다', {
+      manual: manual && { id: manual.id, title: manual.title, description: manual.description, revision: manual.revision },
     })
+  }
 
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    return handleApiError(error)
+  if (contentChanged) {
+    await markManualEdited(id, userId)
   }
-}
+
+  return NextResponse.json({
+    success: true,
+    manual,
+  })
+})
+
+// DELETE /api/manual/[id] - Delete a manual
+export const DELETE = withManualAccess('delete', async (request, { params }) => {
+  const { id } = params
+
+  // Delete manual (will cascade to sections, blocks, shares, versions)
+  await prisma.manual.delete({
+    where: { id },
+  })
+
+  return NextResponse.json({ success: true })
+})
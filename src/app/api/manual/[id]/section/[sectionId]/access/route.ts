@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { NotFoundError, BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+
+const accessRuleSchema = z
+  .object({
+    userId: z.string().optional(),
+    role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).optional(),
+    permission: z.enum(['EDITOR', 'VIEWER']),
+  })
+  .refine((rule) => (rule.userId ? !rule.role : !!rule.role), {
+    message: '규칙 대상은 사용자 또는 역할 중 하나여야 합니다',
+  })
+
+const updateAccessSchema = z.object({
+  restricted: z.boolean(),
+  rules: z.array(accessRuleSchema).max(100),
+})
+
+async function findSectionWithRules(manualId: string, sectionId: string) {
+  const section = await prisma.manualSection.findFirst({
+    where: { id: sectionId, manualId },
+    include: {
+      accessRules: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+
+  if (!section) {
+    throw new NotFoundError('섹션을 찾을 수 없습니다')
+  }
+
+  return section
+}
+
+function toResponse(section: Awaited<ReturnType<typeof findSectionWithRules>>) {
+  return {
+    sectionId: section.id,
+    restricted: section.restricted,
+    rules: section.accessRules.map((rule) => ({
+      id: rule.id,
+      userId: rule.userId,
+      userName: rule.user?.name ?? null,
+      userEmail: rule.user?.email ?? null,
+      role: rule.role,
+      permission: rule.permission,
+    })),
+  }
+}
+
+// GET /api/manual/[id]/section/[sectionId]/access - Get section access restriction
+export const GET = withManualAccess<{ id: string; sectionId: string }>('share', async (request, { params, manual }) => {
+  const { id, sectionId } = params
+
+  const section = await findSectionWithRules(id, sectionId)
+
+  const teamMembers = await prisma.teamMember.findMany({
+    where: { teamId: manual.teamId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  })
+
+  return NextResponse.json({
+    ...toResponse(section),
+    teamMembers: teamMembers.map((member) => ({
+      id: member.userId,
+      name: member.user.name,
+      email: member.user.email,
+      role: member.role,
+    })),
+  })
+})
+
+// PUT /api/manual/[id]/section/[sectionId]/access - Replace section access restriction
+export const PUT = withManualAccess<{ id: string; sectionId: string }>('share', async (request, { params, manual }) => {
+  const { id, sectionId } = params
+
+  await findSectionWithRules(id, sectionId)
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = updateAccessSchema.parse(body)
+
+  // User rules may only target members of the manual's team
+  const ruleUserIds = validatedData.rules
+    .map((rule) => rule.userId)
+    .filter((userId): userId is string => !!userId)
+
+  if (ruleUserIds.length > 0) {
+    const memberCount = await prisma.teamMember.count({
+      where: {
+        teamId: manual.teamId,
+        userId: { in: ruleUserIds },
+      },
+    })
+
+    if (memberCount !== new Set(ruleUserIds).size) {
+      throw new BadRequestError('팀원에게만 섹션 접근 권한을 줄 수 있습니다')
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.sectionAccessRule.deleteMany({
+      where: { sectionId },
+    }),
+    prisma.sectionAccessRule.createMany({
+      data: validatedData.restricted
+        ? validatedData.rules.map((rule) => ({
+            sectionId,
+            userId: rule.userId ?? null,
+            role: rule.role ?? null,
+            permission: rule.permission,
+          }))
+        : [],
+    }),
+    prisma.manualSection.update({
+      where: { id: sectionId },
+      data: { restricted: validatedData.restricted },
+    }),
+  ])
+
+  const section = await findSectionWithRules(id, sectionId)
+
+  return NextResponse.json({
+    success: true,
+    ...toResponse(section),
+  })
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { duplicateSection, duplicateSectionSchema } from '@/lib/duplication'
+
+// POST /api/manual/[id]/section/[sectionId]/duplicate - Copy a section with its sub-sections and blocks
+export const POST = withManualAccess<{ id: string; sectionId: string }>('edit', async (request, { params, userId, manual, access }) => {
+  const { id, sectionId } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = duplicateSectionSchema.parse(body)
+
+  const result = await duplicateSection(
+    { manualId: id, userId, viewer: getSectionViewer(manual, userId, access) },
+    sectionId,
+    validatedData
+  )
+
+  // Update the target manual's updatedAt and schedule an auto version
+  await markManualEdited(result.manualId, userId)
+
+  await notifyManualUpdated(result.manualId, userId)
+
+  return NextResponse.json({
+    success: true,
+    ...result,
+  })
+})
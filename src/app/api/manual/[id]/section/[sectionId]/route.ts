@@ -1,172 +1,99 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
 import { z } from 'zod'
+import { NotFoundError, BadRequestError, ConflictError } from '@/lib/errors'
+import { withManualAccess, type ManualRouteContext } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess, collectSectionSubtree } from '@/lib/section-permissions'
 
 const updateSectionSchema = z.object({
   title: z.string().min(1, '섹션 제목을 입력해주세요').optional(),
   order: z.number().optional(),
+  // Revision the change is based on; writes based on an older revision are rejected
+  revision: z.number().int().optional(),
 })
 
-// PUT /api/manual/[id]/section/[sectionId] - Update a section
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; sectionId: string }> }
+/**
+ * Find a section that belongs to the given manual and check edit access
+ * With `withDescendants`, every sub-section must be editable as well
+ */
+async function findEditableSection(
+  { params, userId, manual, access }: ManualRouteContext<{ id: string; sectionId: string }>,
+  withDescendants = false
 ) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
-
-    const { id, sectionId } = await params
-    const section = await prisma.manualSection.findUnique({
-      where: { id: sectionId },
-      include: {
-        manual: {
-          include: {
-            team: true,
-          },
-        },
-      },
-    })
-
-    if (!section) {
-      return NextResponse.json(
-        { error: '섹션을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
-
-    // Check permission
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: section.manual.teamId,
-      },
-    })
-
-    const isOwner = section.manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
-
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
-    }
-
-    let body
-    try {
-      body = await request.json()
-    } catch (e) {
-      return NextResponse.json(
-        { error: '잘못된 요청 형식입니다' },
-        { status: 400 }
-      )
-    }
-    const validatedData = updateSectionSchema.parse(body)
-
-    // Update section
-    const updatedSection = await prisma.manualSection.update({
-      where: { id: sectionId },
-      data: validatedData,
-    })
-
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
-
-    return NextResponse.json({
-      success: true,
-      section: updatedSection,
-    })
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: error.errors[0].message },
-        { status: 400 }
-      )
-    }
-
-    console.error('Update section error:', error)
-    return NextResponse.json(
-      { error: '섹션 수정 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
+  const sections = await prisma.manualSection.findMany({
+    where: { manualId: params.id },
+    select: { id: true, parentId: true },
+  })
+
+  if (!sections.some((section) => section.id === params.sectionId)) {
+    throw new NotFoundError('섹션을 찾을 수 없습니다')
   }
+
+  const sectionIds = withDescendants
+    ? collectSectionSubtree(sections, params.sectionId)
+    : [params.sectionId]
+
+  await requireSectionAccess(params.id, sectionIds, getSectionViewer(manual, userId, access), 'edit')
 }
 
-// DELETE /api/manual/[id]/section/[sectionId] - Delete a section
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; sectionId: string }> }
-) {
+// PUT /api/manual/[id]/section/[sectionId] - Update a section
+export const PUT = withManualAccess<{ id: string; sectionId: string }>('edit', async (request, context) => {
+  const { params, userId } = context
+  const { id, sectionId } = params
+
+  await findEditableSection(context)
+
+  let body
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
-
-    const { id, sectionId } = await params
-    const section = await prisma.manualSection.findUnique({
-      where: { id: sectionId },
-      include: {
-        manual: {
-          include: {
-            team: true,
-          },
-        },
-      },
-    })
-
-    if (!section) {
-      return NextResponse.json(
-        { error: '섹션을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
-
-    // Check permission
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: section.manual.teamId,
-      },
-    })
-
-    const isOwner = section.manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
-
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
-    }
-
-    // Delete section (will cascade to blocks and child sections)
-    await prisma.manualSection.delete({
-      where: { id: sectionId },
-    })
-
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    console.error('Delete section error:', error)
-    return NextResponse.json(
-      { error: '섹션 삭제 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
   }
-}
+  const { revision, ...data } = updateSectionSchema.parse(body)
+
+  // Update section unless someone else changed it since `revision`
+  const { count } = await prisma.manualSection.updateMany({
+    where: { id: sectionId, ...(revision !== undefined ? { revision } : {}) },
+    data: { ...data, revision: { increment: 1 } },
+  })
+
+  const updatedSection = await prisma.manualSection.findUnique({
+    where: { id: sectionId },
+  })
+
+  if (count === 0) {
+    throw new ConflictError('다른 사용자가 이 섹션을 먼저 수정했습니다', { section: updatedSection })
+  }
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    section: updatedSection,
+  })
+})
+
+// DELETE /api/manual/[id]/section/[sectionId] - Delete a section
+export const DELETE = withManualAccess<{ id: string; sectionId: string }>('edit', async (request, context) => {
+  const { params, userId } = context
+  const { id, sectionId } = params
+
+  await findEditableSection(context, true)
+
+  // Delete section (will cascade to blocks and child sections)
+  await prisma.manualSection.delete({
+    where: { id: sectionId },
+  })
+
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
+
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({ success: true })
+})
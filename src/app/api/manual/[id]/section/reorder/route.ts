@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
 import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
 
 const reorderSectionSchema = z.object({
   sections: z.array(
@@ -14,90 +17,39 @@ const reorderSectionSchema = z.object({
 })
 
 // PUT /api/manual/[id]/section/reorder - Reorder sections
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
-
-    const { id } = await params
-    const manual = await prisma.manual.findUnique({
-      where: { id },
-      include: {
-        team: true,
-      },
-    })
-
-    if (!manual) {
-      return NextResponse.json(
-        { error: '메뉴얼을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
-
-    // Check permission
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: manual.teamId,
-      },
-    })
-
-    const isOwner = manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
+export const PUT = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
 
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
-    }
-
-    let body
-    try {
-      body = await request.json()
-    } catch (e) {
-      return NextResponse.json(
-        { error: '잘못된 요청 형식입니다' },
-        { status: 400 }
-      )
-    }
-    const validatedData = reorderSectionSchema.parse(body)
-
-    // Update all section orders in a transaction
-    await prisma.$transaction(
-      validatedData.sections.map((section) =>
-        prisma.manualSection.update({
-          where: { id: section.id },
-          data: { order: section.order },
-        })
-      )
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = reorderSectionSchema.parse(body)
+
+  await requireSectionAccess(
+    id,
+    validatedData.sections.map((section) => section.id),
+    getSectionViewer(manual, userId, access),
+    'edit'
+  )
+
+  // Update all section orders in a transaction
+  // Scoped to this manual so section IDs from other manuals are ignored
+  await prisma.$transaction(
+    validatedData.sections.map((section) =>
+      prisma.manualSection.updateMany({
+        where: { id: section.id, manualId: id },
+        data: { order: section.order },
+      })
     )
+  )
 
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
 
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: error.errors[0].message },
-        { status: 400 }
-      )
-    }
+  await notifyManualUpdated(id, userId)
 
-    console.error('Reorder sections error:', error)
-    return NextResponse.json(
-      { error: '섹션 순서 변경 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
-  }
-}
+  return NextResponse.json({ success: true })
+})
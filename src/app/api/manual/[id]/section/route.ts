@@ -1,10 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
 import { z } from 'zod'
-import { handleApiError, UnauthorizedError } from '@/lib/errors'
-import { requireManualEditAccess } from '@/lib/permissions-helpers'
+import { NotFoundError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer, requireSectionAccess } from '@/lib/section-permissions'
 
 const addSectionSchema = z.object({
   title: z.string().min(1, '섹션 제목을 입력해주세요'),
@@ -12,67 +13,56 @@ const addSectionSchema = z.object({
 })
 
 // POST /api/manual/[id]/section - Add a new section
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      throw new UnauthorizedError()
-    }
-
-    const { id } = await params
-    await requireManualEditAccess(id, session.user.id)
+export const POST = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
 
-    const body = await request.json()
-    const validatedData = addSectionSchema.parse(body)
+  const body = await request.json()
+  const validatedData = addSectionSchema.parse(body)
 
-    // Determine depth based on parent
-    let depth = 1
-    if (validatedData.parentId) {
-      const parent = await prisma.manualSection.findUnique({
-        where: { id: validatedData.parentId },
-      })
-      if (parent) {
-        depth = parent.depth + 1
-      }
+  // Determine depth based on parent
+  let depth = 1
+  if (validatedData.parentId) {
+    const parent = await prisma.manualSection.findFirst({
+      where: { id: validatedData.parentId, manualId: id },
+    })
+    if (!parent) {
+      throw new NotFoundError('상위 섹션을 찾을 수 없습니다')
     }
+    // Sub-sections inherit the parent's restriction, so the parent must be editable
+    await requireSectionAccess(id, [parent.id], getSectionViewer(manual, userId, access), 'edit')
+    depth = parent.depth + 1
+  }
 
-    // Get current max order for this level
-    const maxOrderSection = await prisma.manualSection.findFirst({
-      where: {
-        manualId: id,
-        parentId: validatedData.parentId || null,
-      },
-      orderBy: { order: 'desc' },
-      select: { order: true },
-    })
+  // Get current max order for this level
+  const maxOrderSection = await prisma.manualSection.findFirst({
+    where: {
+      manualId: id,
+      parentId: validatedData.parentId || null,
+    },
+    orderBy: { order: 'desc' },
+    select: { order: true },
+  })
 
-    const nextOrder = (maxOrderSection?.order ?? -1) + 1
+  const nextOrder = (maxOrderSection?.order ?? -1) + 1
 
-    // Create the section
-    const section = await prisma.manualSection.create({
-      data: {
-        manualId: id,
-        title: validatedData.title,
-        parentId: validatedData.parentId || null,
-        depth,
-        order: nextOrder,
-      },
-    })
+  // Create the section
+  const section = await prisma.manualSection.create({
+    data: {
+      manualId: id,
+      title: validatedData.title,
+      parentId: validatedData.parentId || null,
+      depth,
+      order: nextOrder,
+    },
+  })
 
-    // Update manual's updatedAt
-    await prisma.manual.update({
-      where: { id },
-      data: { updatedAt: new Date() },
-    })
+  // Update manual's updatedAt and schedule an auto version
+  await markManualEdited(id, userId)
 
-    return NextResponse.json({
-      success: true,
-      section,
-    })
-  } catch (error) {
-    return handleApiError(error)
-  }
-}
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    section,
+  })
+})
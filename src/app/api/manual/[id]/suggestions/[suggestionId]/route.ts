@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import type { ManualChange } from '@/lib/manual-changes'
+import { SUGGESTION_INCLUDE, findOwnPendingSuggestion, reviseSuggestedChange } from '@/lib/suggestions'
+
+const updateSuggestionSchema = z.object({
+  content: z.string().optional(),
+  title: z.string().min(1, '섹션 제목을 입력해주세요').optional(),
+})
+
+// PUT /api/manual/[id]/suggestions/[suggestionId] - Revise own pending suggestion
+export const PUT = withManualAccess<{ id: string; suggestionId: string }>('view', async (request, { params, userId }) => {
+  const { id, suggestionId } = params
+
+  const suggestion = await findOwnPendingSuggestion(id, suggestionId, userId)
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const patch = updateSuggestionSchema.parse(body)
+
+  const updatedSuggestion = await prisma.suggestion.update({
+    where: { id: suggestion.id },
+    data: { change: reviseSuggestedChange(suggestion.change as ManualChange, patch) },
+    include: SUGGESTION_INCLUDE,
+  })
+
+  return NextResponse.json({
+    success: true,
+    suggestion: updatedSuggestion,
+  })
+})
+
+// DELETE /api/manual/[id]/suggestions/[suggestionId] - Withdraw own pending suggestion
+export const DELETE = withManualAccess<{ id: string; suggestionId: string }>('view', async (request, { params, userId }) => {
+  const { id, suggestionId } = params
+
+  const suggestion = await findOwnPendingSuggestion(id, suggestionId, userId)
+
+  await prisma.suggestion.delete({
+    where: { id: suggestion.id },
+  })
+
+  return NextResponse.json({ success: true })
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { markManualEdited } from '@/lib/versions'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import { reviewSuggestions, reviewSuggestionsSchema } from '@/lib/suggestions'
+
+// POST /api/manual/[id]/suggestions/review - Accept or reject suggestions (one or many)
+export const POST = withManualAccess('edit', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { ids, action } = reviewSuggestionsSchema.parse(body)
+
+  const result = await reviewSuggestions(id, ids, action, {
+    userId,
+    viewer: getSectionViewer(manual, userId, access),
+  })
+
+  if (result) {
+    // Accepted changes count as the reviewer's edit
+    await markManualEdited(id, userId)
+    await notifyManualUpdated(id, userId)
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...result,
+  })
+})
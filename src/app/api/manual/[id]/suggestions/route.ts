@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionViewer } from '@/lib/section-permissions'
+import {
+  SUGGESTION_INCLUDE,
+  createSuggestion,
+  filterVisibleSuggestions,
+  suggestionChangeSchema,
+} from '@/lib/suggestions'
+
+const listSuggestionsSchema = z.object({
+  status: z.enum(['pending', 'all']).default('pending'),
+})
+
+const createSuggestionSchema = z.object({
+  change: suggestionChangeSchema,
+})
+
+// GET /api/manual/[id]/suggestions - List suggested changes
+export const GET = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+  const { searchParams } = new URL(request.url)
+  const { status } = listSuggestionsSchema.parse({
+    status: searchParams.get('status') || undefined,
+  })
+
+  const suggestions = await prisma.suggestion.findMany({
+    where: {
+      manualId: id,
+      ...(status === 'pending' ? { status: 'PENDING' as const } : {}),
+    },
+    include: SUGGESTION_INCLUDE,
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // Hide suggestions on sections this user cannot see (and draft-only content from non-editors)
+  return NextResponse.json({
+    suggestions: await filterVisibleSuggestions(id, suggestions, getSectionViewer(manual, userId, access)),
+  })
+})
+
+// POST /api/manual/[id]/suggestions - Suggest a block or section change
+export const POST = withManualAccess('view', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const { change } = createSuggestionSchema.parse(body)
+
+  const suggestion = await createSuggestion(id, userId, change, getSectionViewer(manual, userId, access))
+
+  return NextResponse.json({
+    success: true,
+    suggestion,
+  })
+})
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { BadRequestError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { getSectionPermissions, getSectionViewer } from '@/lib/section-permissions'
+import { saveTemplateSchema, templateFromManual } from '@/lib/templates'
+
+// POST /api/manual/[id]/template - Save the manual's sections and blocks as a team template (manual owners)
+// Restricted sections are left out: every team member can read templates
+export const POST = withManualAccess('share', async (request, { params, userId, manual, access }) => {
+  const { id } = params
+
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    throw new BadRequestError('잘못된 요청 형식입니다')
+  }
+  const validatedData = saveTemplateSchema.parse(body)
+
+  const content = await templateFromManual(id, {
+    permissions: await getSectionPermissions(id, getSectionViewer(manual, userId, access)),
+    skipRestricted: true,
+  })
+
+  const template = await prisma.manualTemplate.create({
+    data: {
+      name: validatedData.name,
+      description: validatedData.description || null,
+      content,
+      teamId: manual.teamId,
+      createdById: userId,
+    },
+    select: { id: true, name: true, description: true, createdAt: true },
+  })
+
+  return NextResponse.json({
+    success: true,
+    template,
+  })
+})
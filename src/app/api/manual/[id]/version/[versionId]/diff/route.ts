@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { NotFoundError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import { filterSnapshotSections, getSectionViewer } from '@/lib/section-permissions'
+import { buildManualSnapshot } from '@/lib/versions'
+import { loadVersionSnapshot } from '@/lib/version-storage'
+import { diffSnapshots } from '@/lib/version-diff'
+
+async function findVersion(manualId: string, versionId: string) {
+  const version = await prisma.manualVersion.findUnique({
+    where: {
+      id: versionId,
+      manualId,
+    },
+    select: {
+      id: true,
+      kind: true,
+      summary: true,
+      createdAt: true,
+      creator: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  })
+
+  if (!version) {
+    throw new NotFoundError('버전을 찾을 수 없습니다')
+  }
+
+  return version
+}
+
+function toVersionInfo(version: Awaited<ReturnType<typeof findVersion>>) {
+  return {
+    id: version.id,
+    kind: version.kind,
+    summary: version.summary,
+    createdAt: version.createdAt.toISOString(),
+    creatorName: version.creator.name,
+  }
+}
+
+// GET /api/manual/[id]/version/[versionId]/diff?to=<versionId|current> - Compare a version with another version or the current state
+export const GET = withManualAccess<{ id: string; versionId: string }>('edit', async (request, { params, userId, manual, access }) => {
+  const { id, versionId } = params
+  const to = request.nextUrl.searchParams.get('to') || 'current'
+
+  const fromVersion = await findVersion(id, versionId)
+  const toVersion = to === 'current' ? null : await findVersion(id, to)
+
+  const before = await loadVersionSnapshot(id, fromVersion.id)
+  const after = toVersion ? await loadVersionSnapshot(id, toVersion.id) : await buildManualSnapshot(id)
+
+  // Sections hidden from the viewer are left out on both sides
+  const viewer = getSectionViewer(manual, userId, access)
+  const diff = diffSnapshots(filterSnapshotSections(before, viewer), filterSnapshotSections(after, viewer))
+
+  return NextResponse.json({
+    from: toVersionInfo(fromVersion),
+    to: toVersion ? toVersionInfo(toVersion) : null,
+    diff,
+  })
+})
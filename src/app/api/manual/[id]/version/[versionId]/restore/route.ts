@@ -1,136 +1,89 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { notifyManualUpdated } from '@/lib/notifications'
+import { createAutoVersionIfChanged, markManualEdited } from '@/lib/versions'
+import { loadVersionSnapshot } from '@/lib/version-storage'
+import { getAffectedSectionIds, restoreFromSnapshot, type RestoreScope } from '@/lib/version-restore'
+import { NotFoundError, ForbiddenError } from '@/lib/errors'
+import { withManualAccess } from '@/lib/permissions-helpers'
+import {
+  canEditSection,
+  filterSnapshotSections,
+  getSectionPermissions,
+  getSectionViewer,
+  requireSectionAccess,
+} from '@/lib/section-permissions'
 
-// POST /api/manual/[id]/version/[versionId]/restore - Restore version
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; versionId: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user) {
-      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 })
-    }
+const restoreSchema = z
+  .object({
+    sectionId: z.string().optional(),
+    blockId: z.string().optional(),
+  })
+  .refine((data) => !(data.sectionId && data.blockId), {
+    message: '섹션과 블록 중 하나만 복원할 수 있습니다',
+  })
 
-    const { id, versionId } = await params
+// POST /api/manual/[id]/version/[versionId]/restore - Restore version, or one section/block of it
+export const POST = withManualAccess<{ id: string; versionId: string }>('edit', async (request, { params, userId, manual, access }) => {
+  const { id, versionId } = params
 
-    // Get manual with current state
-    const manual = await prisma.manual.findUnique({
-      where: { id },
-      include: {
-        team: true,
-        sections: {
-          include: {
-            blocks: {
-              orderBy: { order: 'asc' },
-            },
-          },
-          orderBy: { order: 'asc' },
-        },
-      },
-    })
+  let body
+  try {
+    body = await request.json()
+  } catch (e) {
+    body = {}
+  }
+  const validatedData = restoreSchema.parse(body)
 
-    if (!manual) {
-      return NextResponse.json(
-        { error: '메뉴얼을 찾을 수 없습니다' },
-        { status: 404 }
-      )
-    }
+  const scope: RestoreScope = validatedData.sectionId
+    ? { type: 'section', sectionId: validatedData.sectionId }
+    : validatedData.blockId
+      ? { type: 'block', blockId: validatedData.blockId }
+      : { type: 'manual' }
 
-    // Check permission - editor or above can restore
-    const teamMember = await prisma.teamMember.findFirst({
-      where: {
-        userId: session.user.id,
-        teamId: manual.teamId,
-      },
-    })
+  // Get the version to restore
+  const snapshot = await loadVersionSnapshot(id, versionId)
 
-    const isOwner = manual.ownerId === session.user.id
-    const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
+  const viewer = getSectionViewer(manual, userId, access)
 
-    if (!canEdit) {
-      return NextResponse.json(
-        { error: '편집 권한이 없습니다' },
-        { status: 403 }
-      )
+  if (scope.type === 'manual') {
+    // A full restore may touch every section, so restricted sections must all be editable
+    const sectionPermissions = await getSectionPermissions(id, viewer)
+    for (const permission of sectionPermissions.values()) {
+      if (!canEditSection(permission)) {
+        throw new ForbiddenError('접근이 제한된 섹션이 있어 버전을 복원할 수 없습니다')
+      }
     }
+  } else {
+    // Parts of the version the user could not see are not restorable either
+    const visible = filterSnapshotSections(snapshot, viewer)
+    const isVisible = scope.type === 'section'
+      ? visible.sections.some((section) => section.id === scope.sectionId)
+      : visible.sections.some((section) => section.blocks.some((block) => block.id === scope.blockId))
 
-    // Get the version to restore
-    const version = await prisma.manualVersion.findUnique({
-      where: {
-        id: versionId,
-        manualId: id,
-      },
-    })
-
-    if (!version) {
-      return NextResponse.json(
-        { error: '버전을 찾을 수 없습니다' },
-        { status: 404 }
-      )
+    if (!isVisible) {
+      throw new NotFoundError(scope.type === 'section' ? '이 버전에 해당 섹션이 없습니다' : '이 버전에 해당 블록이 없습니다')
     }
 
-    // Parse version content
-    let snapshot
-    try {
-      snapshot = JSON.parse(version.content)
-    } catch (e) {
-      return NextResponse.json(
-        { error: '버전 데이터가 손상되었습니다' },
-        { status: 400 }
-      )
-    }
+    await requireSectionAccess(id, await getAffectedSectionIds(id, snapshot, scope), viewer, 'edit')
+  }
 
-    // Restore version in transaction
-    await prisma.$transaction(async (tx) => {
-      // Delete all current sections and blocks (cascade will handle blocks)
-      await tx.manualSection.deleteMany({
-        where: { manualId: id },
-      })
+  // Keep the current state so the restore itself can be undone
+  await createAutoVersionIfChanged(id, userId, '복원 전 자동 저장')
 
-      // Update manual metadata
-      await tx.manual.update({
-        where: { id },
-        data: {
-          title: snapshot.title,
-          description: snapshot.description,
-          updatedAt: new Date(),
-        },
-      })
+  const result = await restoreFromSnapshot(id, snapshot, scope, { restoreAccess: access.canShare })
 
-      // Recreate sections and blocks
-      for (const section of snapshot.sections) {
-        await tx.manualSection.create({
-          data: {
-            manualId: id,
-            title: section.title,
-            order: section.order,
-            depth: section.depth,
-            parentId: section.parentId,
-            blocks: section.blocks && section.blocks.length > 0 ? {
-              create: section.blocks.map((block: any) => ({
-                type: block.type,
-                content: block.content,
-                order: block.order,
-              })),
-            } : undefined,
-          },
-        })
-      }
-    })
+  await markManualEdited(id, userId)
 
-    return NextResponse.json({
-      success: true,
-      message: '버전이 복원되었습니다',
-    })
-  } catch (error) {
-    console.error('Restore version error:', error)
-    return NextResponse.json(
-      { error: '버전 복원 중 오류가 발생했습니다' },
-      { status: 500 }
-    )
-  }
-}
+  await notifyManualUpdated(id, userId)
+
+  return NextResponse.json({
+    success: true,
+    message: scope.type === 'manual'
+      ? '버전이 복원되었습니다'
+      : scope.type === 'section'
+        ? '섹션이 복원되었습니다'
+        : '블록이 복원되었습니다',
+    result,
+  })
+})
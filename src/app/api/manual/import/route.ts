@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError, BadRequestError, ForbiddenError } from '@/lib/errors'
+import { commitImport, importPreview, MAX_IMPORT_SIZE, parseImportFile } from '@/lib/import'
+
+const importSchema = z.object({
+  // preview parses the file only; commit creates the manual
+  mode: z.enum(['preview', 'commit']).default('preview'),
+  title: z.string().min(1, '메뉴얼 제목을 입력해주세요').max(100, '제목은 최대 100자까지 입력 가능합니다').optional(),
+})
+
+// POST /api/manual/import - Preview or create a manual from a Markdown, HTML, DOCX or zip file
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: {
+        userId: session.user.id,
+      },
+    })
+
+    if (!teamMember) {
+      throw new BadRequestError('팀에 소속되어 있지 않습니다')
+    }
+
+    // Check if user has permission to create manuals (OWNER or EDITOR)
+    if (teamMember.role === 'VIEWER') {
+      throw new ForbiddenError('메뉴얼을 생성할 권한이 없습니다')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const { mode, title } = importSchema.parse({
+      mode: formData.get('mode') || undefined,
+      title: formData.get('title') || undefined,
+    })
+
+    if (!(file instanceof File)) {
+      throw new BadRequestError('파일이 제공되지 않았습니다')
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      throw new BadRequestError('파일 크기는 50MB를 초과할 수 없습니다')
+    }
+
+    const result = await parseImportFile(file.name, new Uint8Array(await file.arrayBuffer()))
+
+    if (mode === 'preview') {
+      return NextResponse.json({ preview: importPreview(result) })
+    }
+
+    const manualId = await commitImport(result, {
+      title: title ?? result.title,
+      teamId: teamMember.teamId,
+      userId: session.user.id,
+    })
+
+    return NextResponse.json({
+      success: true,
+      manualId,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
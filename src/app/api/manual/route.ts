@@ -2,11 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessibleManualWhere } from '@/lib/permissions'
+import { createManualVersion } from '@/lib/versions'
+import { publishVersion } from '@/lib/publication'
+import { copyTemplateSections, getTemplateContent } from '@/lib/templates'
+import { NotFoundError } from '@/lib/errors'
 import { z } from 'zod'
 
 const createManualSchema = z.object({
   title: z.string().min(1, '메뉴얼 제목을 입력해주세요').max(100, '제목은 최대 100자까지 입력 가능합니다'),
   description: z.string().max(500, '설명은 최대 500자까지 입력 가능합니다').optional(),
+  // Built-in or team template to copy sections and blocks from
+  templateId: z.string().optional(),
 })
 
 // GET /api/manual - Get user's manuals
@@ -27,6 +34,7 @@ export async function GET() {
         team: {
           include: {
             manuals: {
+              where: accessibleManualWhere(session.user.id),
               include: {
                 owner: {
                   select: {
@@ -54,16 +62,7 @@ export async function GET() {
       return NextResponse.json({ manuals: [] })
     }
 
-    // Filter manuals based on user permissions
-    const manuals = teamMember.team.manuals.filter(manual => {
-      // User is owner
-      if (manual.ownerId === session.user.id) return true
-      // User has explicit share
-      if (manual.shares.length > 0) return true
-      return false
-    })
-
-    return NextResponse.json({ manuals })
+    return NextResponse.json({ manuals: teamMember.team.manuals })
   } catch (error) {
     console.error('Get manuals error:', error)
     return NextResponse.json(
@@ -110,31 +109,41 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createManualSchema.parse(body)
 
-    // Create manual
-    const manual = await prisma.manual.create({
-      data: {
-        title: validatedData.title,
-        description: validatedData.description,
-        teamId: teamMember.teamId,
-        ownerId: session.user.id,
-      },
-      include: {
-        sections: true,
-      },
-    })
+    const template = validatedData.templateId
+      ? await getTemplateContent(validatedData.templateId, teamMember.teamId)
+      : null
+
+    // Create manual (with a deep copy of the template's structure)
+    const manual = await prisma.$transaction(async (tx) => {
+      const created = await tx.manual.create({
+        data: {
+          title: validatedData.title,
+          description: validatedData.description,
+          teamId: teamMember.teamId,
+          ownerId: session.user.id,
+          // New manuals are private until shared or made team-visible
+          visibility: 'PRIVATE',
+        },
+      })
 
-    // Create initial version
-    await prisma.manualVersion.create({
-      data: {
-        manualId: manual.id,
-        content: JSON.stringify({
-          title: manual.title,
-          sections: [],
-        }),
-        summary: '초기 버전',
-        createdBy: session.user.id,
-      },
+      if (template) {
+        await copyTemplateSections(tx, created.id, session.user.id, template.sections)
+      }
+
+      return tx.manual.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          sections: true,
+        },
+      })
+    }, { timeout: 30000 })
+
+    // Create and publish the initial version, so viewers see the manual from the start
+    const version = await createManualVersion(manual.id, session.user.id, {
+      kind: 'NAMED',
+      summary: '초기 버전',
     })
+    await publishVersion(manual.id, version.id)
 
     return NextResponse.json({
       success: true,
@@ -148,6 +157,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      )
+    }
+
     console.error('Create manual error:', error)
     return NextResponse.json(
       { error: '메뉴얼 생성 중 오류가 발생했습니다' },
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { handleApiError, UnauthorizedError, NotFoundError } from '@/lib/errors'
+
+const updateNotificationSchema = z.object({
+  isRead: z.boolean(),
+})
+
+/**
+ * Find a notification owned by the user
+ * Other users' notifications are reported as not found
+ */
+async function findOwnNotification(id: string, userId: string) {
+  const notification = await prisma.notification.findUnique({
+    where: { id },
+  })
+
+  if (!notification || notification.userId !== userId) {
+    throw new NotFoundError('알림을 찾을 수 없습니다')
+  }
+
+  return notification
+}
+
+// PUT /api/notification/[id] - Mark a notification as read/unread
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const { id } = await params
+    await findOwnNotification(id, session.user.id)
+
+    const body = await request.json()
+    const validatedData = updateNotificationSchema.parse(body)
+
+    const notification = await prisma.notification.update({
+      where: { id },
+      data: { isRead: validatedData.isRead },
+    })
+
+    return NextResponse.json({
+      success: true,
+      notification: {
+        id: notification.id,
+        isRead: notification.isRead,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/notification/[id] - Delete a notification
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const { id } = await params
+    await findOwnNotification(id, session.user.id)
+
+    await prisma.notification.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError } from '@/lib/errors'
+
+// PUT /api/notification/read-all - Mark all notifications as read
+export async function PUT() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId: session.user.id,
+        isRead: false,
+      },
+      data: { isRead: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      updatedCount: result.count,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { handleApiError, UnauthorizedError } from '@/lib/errors'
+
+const listNotificationsSchema = z.object({
+  type: z
+    .enum([
+      'MANUAL_SHARED',
+      'MANUAL_UPDATED',
+      'TEAM_INVITATION',
+      'PERMISSION_CHANGED',
+      'MEMBER_JOINED',
+      'MEMBER_LEFT',
+      'COMMENT_MENTION',
+      'REVIEW_REQUESTED',
+      'REVIEW_COMPLETED',
+    ])
+    .optional(),
+  unreadOnly: z.enum(['true', 'false']).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+})
+
+// GET /api/notification - Get current user's notifications (cursor paging)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const { type, unreadOnly, cursor, limit } = listNotificationsSchema.parse({
+      type: searchParams.get('type') || undefined,
+      unreadOnly: searchParams.get('unreadOnly') || undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    })
+
+    const where = {
+      userId: session.user.id,
+      ...(type && { type }),
+      ...(unreadOnly === 'true' && { isRead: false }),
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        // Fetch one extra row to know whether there is a next page
+        take: limit + 1,
+        ...(cursor && {
+          cursor: { id: cursor },
+          skip: 1,
+        }),
+      }),
+      prisma.notification.count({
+        where: {
+          userId: session.user.id,
+          isRead: false,
+        },
+      }),
+    ])
+
+    const hasMore = notifications.length > limit
+    const page = hasMore ? notifications.slice(0, limit) : notifications
+
+    return NextResponse.json({
+      notifications: page.map((notification) => ({
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        isRead: notification.isRead,
+        relatedId: notification.relatedId,
+        createdAt: notification.createdAt.toISOString(),
+      })),
+      unreadCount,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
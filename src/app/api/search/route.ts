@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessibleManualWhere, manualAccessInclude, resolveManualPermission, toPermissionResult } from '@/lib/permissions'
+import { filterSnapshotSections, getHiddenSectionIds, getSectionViewer } from '@/lib/section-permissions'
+import { loadPublishedSnapshot, searchSnapshot } from '@/lib/publication'
+
+// Published revisions searched per request, most recently published first
+const MAX_PUBLISHED_MANUALS = parseInt(process.env.SEARCH_MAX_PUBLISHED_MANUALS || '50', 10)
 
 // GET /api/search?q={query} - Search across manuals, sections, and blocks
 export async function GET(request: NextRequest) {
@@ -29,33 +35,13 @@ export async function GET(request: NextRequest) {
 
     const searchQuery = query.trim()
 
-    // Get user's teams
-    const userTeams = await prisma.teamMember.findMany({
-      where: { userId: session.user.id },
-      select: { teamId: true },
-    })
-
-    const teamIds = userTeams.map((tm) => tm.teamId)
-
-    // Get manuals user can access (owned + team manuals + shared manuals)
-    const accessibleManualIds = await prisma.manual.findMany({
-      where: {
-        OR: [
-          { ownerId: session.user.id },
-          { teamId: { in: teamIds } },
-          {
-            shares: {
-              some: { userId: session.user.id },
-            },
-          },
-        ],
-      },
-      select: { id: true },
+    // Get manuals user can access (owned, shared, team-visible, or as team owner)
+    const accessibleManuals = await prisma.manual.findMany({
+      where: accessibleManualWhere(session.user.id),
+      include: manualAccessInclude(session.user.id),
     })
 
-    const manualIds = accessibleManualIds.map((m) => m.id)
-
-    if (manualIds.length === 0) {
+    if (accessibleManuals.length === 0) {
       return NextResponse.json({
         success: true,
         results: {
@@ -67,9 +53,26 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    // Editors search the working draft; viewers only the published revision
+    const manualIds: string[] = []
+    const publishedManuals = []
+    for (const manual of accessibleManuals) {
+      const access = toPermissionResult(resolveManualPermission(manual, session.user.id))
+      if (access.canEdit) {
+        manualIds.push(manual.id)
+      } else if (manual.publishedVersionId) {
+        publishedManuals.push({ manual, viewer: getSectionViewer(manual, session.user.id, access) })
+      }
+    }
+    publishedManuals.sort((a, b) => (b.manual.publishedAt?.getTime() ?? 0) - (a.manual.publishedAt?.getTime() ?? 0))
+    publishedManuals.splice(MAX_PUBLISHED_MANUALS)
+
+    // Sections restricted away from this user are excluded from results
+    const hiddenSectionIds = Array.from(await getHiddenSectionIds(session.user.id, manualIds))
+
     // Search in parallel for better performance
     // Note: MySQL is case-insensitive by default, so we don't need mode: 'insensitive'
-    const [manualResults, sectionResults, blockResults] = await Promise.all([
+    const [manualResults, sectionResults, blockResults, teams, owners] = await Promise.all([
       // Search manuals
       prisma.manual.findMany({
         where: {
@@ -105,6 +108,7 @@ export async function GET(request: NextRequest) {
       prisma.manualSection.findMany({
         where: {
           manualId: { in: manualIds },
+          id: { notIn: hiddenSectionIds },
           title: { contains: searchQuery },
         },
         select: {
@@ -138,6 +142,7 @@ export async function GET(request: NextRequest) {
         where: {
           section: {
             manualId: { in: manualIds },
+            id: { notIn: hiddenSectionIds },
           },
           content: { contains: searchQuery },
         },
@@ -166,8 +171,62 @@ export async function GET(request: NextRequest) {
         orderBy: { updatedAt: 'desc' },
         take: 50,
       }),
+
+      // Names shown with results from published revisions
+      prisma.team.findMany({
+        where: { id: { in: publishedManuals.map(({ manual }) => manual.teamId) } },
+        select: { id: true, name: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: publishedManuals.map(({ manual }) => manual.ownerId) } },
+        select: { id: true, name: true },
+      }),
     ])
 
+    // Search published revisions, with the restrictions stored in them
+    for (const { manual, viewer } of publishedManuals) {
+      const snapshot = filterSnapshotSections(
+        await loadPublishedSnapshot(manual.id, manual.publishedVersionId!),
+        viewer
+      )
+      const matches = searchSnapshot(snapshot, searchQuery)
+      const team = teams.find((item) => item.id === manual.teamId)!
+      const manualInfo = { id: manual.id, title: snapshot.title, team: { name: team.name } }
+
+      if (matches.manual) {
+        manualResults.push({
+          id: manual.id,
+          title: snapshot.title,
+          description: snapshot.description ?? null,
+          updatedAt: manual.publishedAt ?? manual.updatedAt,
+          team,
+          owner: owners.find((owner) => owner.id === manual.ownerId)!,
+        })
+      }
+      matches.sections.forEach((section) => {
+        const parent = snapshot.sections.find((item) => item.id === section.parentId)
+        sectionResults.push({
+          id: section.id,
+          title: section.title,
+          depth: section.depth,
+          manual: manualInfo,
+          parent: parent ? { id: parent.id, title: parent.title } : null,
+        })
+      })
+      matches.blocks.forEach((block) => {
+        blockResults.push({
+          id: block.id,
+          type: block.type as (typeof blockResults)[number]['type'],
+          content: block.content,
+          section: { id: block.section.id, title: block.section.title, manual: manualInfo },
+        })
+      })
+    }
+
+    manualResults.splice(20)
+    sectionResults.splice(30)
+    blockResults.splice(50)
+
     // Process block results to extract text preview
     const processedBlocks = blockResults.map((block) => {
       let preview = ''
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { filterSnapshotSections } from '@/lib/section-permissions'
+import { buildSnapshotTree, getPublishedSnapshot } from '@/lib/publication'
 
 // GET /api/share/[token] - Get manual via external share link
 export async function GET(
@@ -28,14 +30,6 @@ export async function GET(
                 name: true,
               },
             },
-            sections: {
-              orderBy: { order: 'asc' },
-              include: {
-                blocks: {
-                  orderBy: { order: 'asc' },
-                },
-              },
-            },
           },
         },
       },
@@ -66,36 +60,25 @@ export async function GET(
 
     const { manual, accessType } = shareLink
 
-    // Build section tree
-    const buildSectionTree = (sections: any[]) => {
-      const sectionMap = new Map()
-      const rootSections: any[] = []
-
-      // First pass: create all sections
-      sections.forEach((section) => {
-        sectionMap.set(section.id, {
-          ...section,
-          children: [],
-        })
-      })
-
-      // Second pass: build tree
-      sections.forEach((section) => {
-        const sectionWithChildren = sectionMap.get(section.id)
-        if (section.parentId) {
-          const parent = sectionMap.get(section.parentId)
-          if (parent) {
-            parent.children.push(sectionWithChildren)
-          }
-        } else {
-          rootSections.push(sectionWithChildren)
-        }
-      })
-
-      return rootSections
+    // External links only ever see the published revision, never the working draft
+    const published = await getPublishedSnapshot(manual.id)
+    if (!published) {
+      return NextResponse.json(
+        { error: '아직 게시되지 않은 매뉴얼입니다' },
+        { status: 404 }
+      )
     }
 
-    const sectionsTree = buildSectionTree(manual.sections)
+    // Restricted sections (and their sub-sections) are never exposed through external links
+    const snapshot = filterSnapshotSections(
+      {
+        ...published.snapshot,
+        sections: published.snapshot.sections.map((section) => ({ ...section, accessRules: [] })),
+      },
+      { userId: null, teamRole: null, permission: 'VIEWER' }
+    )
+
+    const sectionsTree = buildSnapshotTree(snapshot)
 
     // If TITLE_ONLY, remove block content
     let responseSections = sectionsTree
@@ -117,13 +100,13 @@ export async function GET(
       success: true,
       manual: {
         id: manual.id,
-        title: manual.title,
-        description: manual.description,
+        title: snapshot.title,
+        description: snapshot.description ?? null,
         owner: manual.owner,
         team: manual.team,
         sections: responseSections,
         createdAt: manual.createdAt.toISOString(),
-        updatedAt: manual.updatedAt.toISOString(),
+        updatedAt: (published.publishedAt ?? manual.updatedAt).toISOString(),
       },
       accessType,
     })
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError, BadRequestError, ForbiddenError } from '@/lib/errors'
+import { createTeamBackup, MAX_BACKUP_SIZE, readBackup, restoreBackup } from '@/lib/backup'
+import { contentDisposition, exportFilename } from '@/lib/export'
+
+// GET /api/team/backup - Download a backup zip of every manual of the team (owner only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: {
+        userId: session.user.id,
+      },
+      include: {
+        team: true,
+      },
+    })
+
+    if (!teamMember || teamMember.role !== 'OWNER') {
+      throw new ForbiddenError('팀을 백업할 권한이 없습니다')
+    }
+
+    const body = await createTeamBackup(teamMember.teamId)
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': contentDisposition(exportFilename(`${teamMember.team.name}-backup`, 'zip')),
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/team/backup - Restore the manuals of a manual or team backup into the team
+// Team backups need the team owner; a single manual can be restored by anyone who can create manuals
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: {
+        userId: session.user.id,
+      },
+    })
+
+    if (!teamMember) {
+      throw new BadRequestError('팀에 소속되어 있지 않습니다')
+    }
+
+    if (teamMember.role === 'VIEWER') {
+      throw new ForbiddenError('메뉴얼을 생성할 권한이 없습니다')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      throw new BadRequestError('파일이 제공되지 않았습니다')
+    }
+
+    if (file.size > MAX_BACKUP_SIZE) {
+      throw new BadRequestError('파일 크기는 200MB를 초과할 수 없습니다')
+    }
+
+    const { backup, files } = readBackup(file.name, new Uint8Array(await file.arrayBuffer()))
+
+    if (backup.scope === 'team' && teamMember.role !== 'OWNER') {
+      throw new ForbiddenError('팀 백업은 팀 소유자만 복원할 수 있습니다')
+    }
+
+    const result = await restoreBackup(backup, files, {
+      teamId: teamMember.teamId,
+      userId: session.user.id,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
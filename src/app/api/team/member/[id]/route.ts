@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { notifyTeamRoleChanged, notifyMemberLeft } from '@/lib/notifications'
 import { handleApiError, UnauthorizedError, BadRequestError, ForbiddenError, NotFoundError } from '@/lib/errors'
 
 // PUT /api/team/member/[id] - Change member role
@@ -81,6 +82,8 @@ export async function PUT(
       },
     })
 
+    await notifyTeamRoleChanged(currentUserMember.team, updatedMember.userId, role, session.user.id)
+
     return NextResponse.json({ member: updatedMember })
   } catch (error) {
     return handleApiError(error)
@@ -143,6 +146,8 @@ export async function DELETE(
       where: { id: memberId },
     })
 
+    await notifyMemberLeft(currentUserMember.team, memberToRemove.user, session.user.id)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     return handleApiError(error)
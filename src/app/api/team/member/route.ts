@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { handleApiError, UnauthorizedError, BadRequestError, ForbiddenError } from '@/lib/errors'
+import { sendMail } from '@/lib/mail'
+import { invitationMail } from '@/lib/mail-templates'
+import { notifyTeamInvitation } from '@/lib/notifications'
 import crypto from 'crypto'
 
 // POST /api/team/member - Invite a member to team
@@ -116,23 +119,30 @@ export async function POST(request: NextRequest) {
     const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
     const invitationLink = `${baseUrl}/invite/${token}`
 
-    // In development mode, log the invitation link
-    if (process.env.NODE_ENV === 'development') {
-      console.log('\n============================================')
-      console.log('팀 초대 링크가 생성되었습니다:')
-      console.log('============================================')
-      console.log(`받는 사람: ${email}`)
-      console.log(`팀 이름: ${invitation.team.name}`)
-      console.log(`역할: ${role === 'OWNER' ? '소유자' : role === 'EDITOR' ? '편집자' : '뷰어'}`)
-      console.log(`초대자: ${invitation.sender.name}`)
-      console.log(`만료일: ${expiresAt.toLocaleDateString('ko-KR')}`)
-      console.log('\n초대 링크:')
-      console.log(invitationLink)
-      console.log('============================================\n')
-    }
+    // Send invitation email
+    const mailSent = await sendMail(
+      invitationMail({
+        to: email,
+        teamName: invitation.team.name,
+        senderName: invitation.sender.name,
+        roleLabel: role === 'OWNER' ? '소유자' : role === 'EDITOR' ? '편집자' : '뷰어',
+        invitationLink,
+        expiresAt,
+      })
+    )
 
-    // TODO: In production, send email here
-    // await sendInvitationEmail(email, invitationLink, invitation.team.name, invitation.sender.name)
+    // Existing users also get an in-app notification
+    if (existingUser) {
+      await notifyTeamInvitation(
+        existingUser.id,
+        {
+          token,
+          teamName: invitation.team.name,
+          senderName: invitation.sender.name,
+        },
+        session.user.id
+      )
+    }
 
     return NextResponse.json({
       success: true,
@@ -142,6 +152,7 @@ export async function POST(request: NextRequest) {
         role: invitation.role,
         expiresAt: invitation.expiresAt,
       },
+      mailSent,
       invitationLink: process.env.NODE_ENV === 'development' ? invitationLink : undefined,
     })
   } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessibleManualWhere } from '@/lib/permissions'
 import { z } from 'zod'
 
 const createTeamSchema = z.object({
@@ -48,6 +49,7 @@ export async function GET() {
               },
             },
             manuals: {
+              where: accessibleManualWhere(session.user.id),
               select: {
                 id: true,
                 title: true,
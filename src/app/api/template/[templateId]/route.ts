@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError, ForbiddenError, NotFoundError } from '@/lib/errors'
+
+// DELETE /api/template/[templateId] - Delete a team template (its creator or the team owner)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const { templateId } = await params
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: {
+        userId: session.user.id,
+      },
+    })
+
+    const template = teamMember && await prisma.manualTemplate.findFirst({
+      where: { id: templateId, teamId: teamMember.teamId },
+    })
+
+    // Built-in templates are not stored and cannot be deleted
+    if (!teamMember || !template) {
+      throw new NotFoundError('템플릿을 찾을 수 없습니다')
+    }
+
+    if (template.createdById !== session.user.id && teamMember.role !== 'OWNER') {
+      throw new ForbiddenError('템플릿을 삭제할 권한이 없습니다')
+    }
+
+    await prisma.manualTemplate.delete({
+      where: { id: templateId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError, BadRequestError } from '@/lib/errors'
+import { listTemplates } from '@/lib/templates'
+
+// GET /api/template - Built-in templates and templates of the user's team
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const teamMember = await prisma.teamMember.findFirst({
+      where: {
+        userId: session.user.id,
+      },
+    })
+
+    if (!teamMember) {
+      throw new BadRequestError('팀에 소속되어 있지 않습니다')
+    }
+
+    return NextResponse.json({
+      templates: await listTemplates(teamMember.teamId),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
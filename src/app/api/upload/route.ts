@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { handleApiError, UnauthorizedError, BadRequestError } from '@/lib/errors'
+import { requireManualAccess } from '@/lib/permissions-helpers'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { randomUUID } from 'crypto'
@@ -15,10 +17,7 @@ export async function POST(request: NextRequest) {
     const session = await getServerSession(authOptions)
 
     if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: '인증이 필요합니다' },
-        { status: 401 }
-      )
+      throw new UnauthorizedError()
     }
 
     const formData = await request.formData()
@@ -26,63 +25,22 @@ export async function POST(request: NextRequest) {
     const manualId = formData.get('manualId') as string | null
 
     if (!file) {
-      return NextResponse.json(
-        { error: '파일이 제공되지 않았습니다' },
-        { status: 400 }
-      )
+      throw new BadRequestError('파일이 제공되지 않았습니다')
     }
 
     // Check file type
     if (!ALLOWED_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { error: '지원하지 않는 파일 형식입니다. (JPEG, PNG, GIF, WebP만 가능)' },
-        { status: 400 }
-      )
+      throw new BadRequestError('지원하지 않는 파일 형식입니다. (JPEG, PNG, GIF, WebP만 가능)')
     }
 
     // Check file size
     if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: '파일 크기는 10MB를 초과할 수 없습니다' },
-        { status: 400 }
-      )
+      throw new BadRequestError('파일 크기는 10MB를 초과할 수 없습니다')
     }
 
-    // If manualId is provided, verify user has access
+    // If manualId is provided, verify user can edit the manual
     if (manualId) {
-      const manual = await prisma.manual.findUnique({
-        where: { id: manualId },
-        include: {
-          team: {
-            include: {
-              members: {
-                where: { userId: session.user.id }
-              }
-            }
-          },
-          shares: {
-            where: { userId: session.user.id }
-          }
-        }
-      })
-
-      if (!manual) {
-        return NextResponse.json(
-          { error: '메뉴얼을 찾을 수 없습니다' },
-          { status: 404 }
-        )
-      }
-
-      const isOwner = manual.ownerId === session.user.id
-      const isMember = manual.team.members.length > 0
-      const hasSharedAccess = manual.shares.length > 0
-
-      if (!isOwner && !isMember && !hasSharedAccess) {
-        return NextResponse.json(
-          { error: '메뉴얼에 접근할 권한이 없습니다' },
-          { status: 403 }
-        )
-      }
+      await requireManualAccess(manualId, session.user.id, 'edit')
     }
 
     // Create upload directory if it doesn't exist
@@ -145,12 +103,6 @@ export async function POST(request: NextRequest) {
       }
     })
   } catch (error) {
-    return NextResponse.json(
-      {
-        error: '파일 업로드에 실패했습니다',
-        details: error instanceof Error ? error.message : String(error)
-      },
-      { status: 500 }
-    )
+    return handleApiError(error)
   }
 }
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { z } from 'zod'
+import { handleApiError, UnauthorizedError } from '@/lib/errors'
+import type { NotificationType, NotificationChannel } from '@prisma/client'
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'MANUAL_SHARED',
+  'MANUAL_UPDATED',
+  'TEAM_INVITATION',
+  'PERMISSION_CHANGED',
+  'MEMBER_JOINED',
+  'MEMBER_LEFT',
+  'COMMENT_MENTION',
+  'REVIEW_REQUESTED',
+  'REVIEW_COMPLETED',
+]
+
+const updatePreferencesSchema = z.object({
+  preferences: z.array(
+    z.object({
+      type: z.enum([
+        'MANUAL_SHARED',
+        'MANUAL_UPDATED',
+        'TEAM_INVITATION',
+        'PERMISSION_CHANGED',
+        'MEMBER_JOINED',
+        'MEMBER_LEFT',
+        'COMMENT_MENTION',
+        'REVIEW_REQUESTED',
+        'REVIEW_COMPLETED',
+      ]),
+      channel: z.enum(['IN_APP', 'EMAIL_IMMEDIATE', 'DAILY_DIGEST', 'OFF']),
+    })
+  ),
+})
+
+/**
+ * Get preferences for every notification type (missing rows default to IN_APP)
+ */
+async function getPreferences(userId: string) {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId },
+    select: { type: true, channel: true },
+  })
+  const channelByType = new Map(rows.map((row) => [row.type, row.channel]))
+
+  return NOTIFICATION_TYPES.map((type) => ({
+    type,
+    channel: channelByType.get(type) || ('IN_APP' as NotificationChannel),
+  }))
+}
+
+// GET /api/user/notification-preferences - Get notification preferences
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    return NextResponse.json({
+      preferences: await getPreferences(session.user.id),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PUT /api/user/notification-preferences - Update notification preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      throw new UnauthorizedError()
+    }
+
+    const body = await request.json()
+    const validatedData = updatePreferencesSchema.parse(body)
+    const userId = session.user.id
+
+    await prisma.$transaction(
+      validatedData.preferences.map((preference) =>
+        prisma.notificationPreference.upsert({
+          where: {
+            userId_type: {
+              userId,
+              type: preference.type,
+            },
+          },
+          create: {
+            userId,
+            type: preference.type,
+            channel: preference.channel,
+          },
+          update: {
+            channel: preference.channel,
+          },
+        })
+      )
+    )
+
+    return NextResponse.json({
+      success: true,
+      preferences: await getPreferences(userId),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
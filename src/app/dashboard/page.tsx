@@ -6,6 +6,9 @@ import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import SearchBar from '@/components/ui/SearchBar'
 import { handleLogout } from '@/lib/auth-utils'
+import NotificationBell from '@/components/notifications/NotificationBell'
+import CreateManualModal from '@/components/modals/CreateManualModal'
+import ImportManualModal from '@/components/modals/ImportManualModal'
 
 interface Team {
   id: string
@@ -34,6 +37,8 @@ export default function DashboardPage() {
   const [role, setRole] = useState<string>('')
   const [loading, setLoading] = useState(true)
   const [showUserMenu, setShowUserMenu] = useState(false)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -65,69 +70,83 @@ export default function DashboardPage() {
     }
   }
 
-  const handleCreateManual = async () => {
-    const title = prompt('새 메뉴얼 제목을 입력하세요')
+  const handleCreateManual = () => {
+    setShowCreateModal(true)
+  }
 
-    if (!title || title.trim() === '') {
+  const handleManualCreated = (manualId: string) => {
+    setShowCreateModal(false)
+    router.push(`/manual/${manualId}`)
+  }
+
+  const handleManualImported = (manualId: string) => {
+    setShowImportModal(false)
+    router.push(`/manual/${manualId}`)
+  }
+
+  const handleEditManual = async (manualId: string, currentTitle: string) => {
+    const newTitle = prompt('메뉴얼 제목을 입력하세요', currentTitle)
+
+    if (!newTitle || newTitle.trim() === '' || newTitle === currentTitle) {
       return
     }
 
     try {
-      const response = await fetch('/api/manual', {
-        method: 'POST',
+      const response = await fetch(`/api/manual/${manualId}`, {
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: title.trim(),
+          title: newTitle.trim(),
         }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || '메뉴얼 생성에 실패했습니다')
+        throw new Error(data.error || '메뉴얼 수정에 실패했습니다')
       }
 
-      // Refresh team data to show new manual
+      // Refresh team data to show updated manual
       await fetchTeam()
 
-      alert('메뉴얼이 생성되었습니다!')
+      alert('메뉴얼 제목이 수정되었습니다!')
     } catch (error) {
-      alert(error instanceof Error ? error.message : '메뉴얼 생성에 실패했습니다')
+      alert(error instanceof Error ? error.message : '메뉴얼 수정에 실패했습니다')
     }
   }
 
-  const handleEditManual = async (manualId: string, currentTitle: string) => {
-    const newTitle = prompt('메뉴얼 제목을 입력하세요', currentTitle)
+  const handleDuplicateManual = async (manualId: string, currentTitle: string) => {
+    const title = prompt('복제할 메뉴얼의 제목을 입력하세요', `${currentTitle} (사본)`)
 
-    if (!newTitle || newTitle.trim() === '' || newTitle === currentTitle) {
+    if (!title || title.trim() === '') {
       return
     }
 
     try {
-      const response = await fetch(`/api/manual/${manualId}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/manual/${manualId}/duplicate`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: newTitle.trim(),
+          title: title.trim(),
         }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || '메뉴얼 수정에 실패했습니다')
+        throw new Error(data.error || '메뉴얼 복제에 실패했습니다')
       }
 
-      // Refresh team data to show updated manual
+      // Refresh team data to show the copy
       await fetchTeam()
 
-      alert('메뉴얼 제목이 수정되었습니다!')
+      alert('메뉴얼이 복제되었습니다!')
     } catch (error) {
-      alert(error instanceof Error ? error.message : '메뉴얼 수정에 실패했습니다')
+      alert(error instanceof Error ? error.message : '메뉴얼 복제에 실패했습니다')
     }
   }
 
@@ -161,11 +180,7 @@ export default function DashboardPage() {
             </div>
           </div>
           <div className="flex items-center space-x-4">
-            <button className="p-2 hover:bg-gray-100 rounded-lg">
-              <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
-              </svg>
-            </button>
+            <NotificationBell />
             <div className="relative">
               <button
                 onClick={() => setShowUserMenu(!showUserMenu)}
@@ -299,18 +314,32 @@ export default function DashboardPage() {
                         </div>
                       </button>
                       {(role === 'OWNER' || role === 'EDITOR') && (
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleEditManual(manual.id, manual.title)
-                          }}
-                          className="absolute right-2 p-1 opacity-0 group-hover:opacity-100 hover:bg-gray-200 rounded transition-opacity"
-                          title="제목 수정"
-                        >
-                          <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                          </svg>
-                        </button>
+                        <div className="absolute right-2 flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleDuplicateManual(manual.id, manual.title)
+                            }}
+                            className="p-1 hover:bg-gray-200 rounded"
+                            title="복제"
+                          >
+                            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleEditManual(manual.id, manual.title)
+                            }}
+                            className="p-1 hover:bg-gray-200 rounded"
+                            title="제목 수정"
+                          >
+                            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                            </svg>
+                          </button>
+                        </div>
                       )}
                     </div>
                   ))}
@@ -339,12 +368,20 @@ export default function DashboardPage() {
               </p>
 
               {(role === 'OWNER' || role === 'EDITOR') && (
-                <Button size="lg" onClick={handleCreateManual}>
-                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                  </svg>
-                  새 메뉴얼 만들기
-                </Button>
+                <div className="flex justify-center gap-3">
+                  <Button size="lg" onClick={handleCreateManual}>
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    새 메뉴얼 만들기
+                  </Button>
+                  <Button size="lg" variant="outline" onClick={() => setShowImportModal(true)}>
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" />
+                    </svg>
+                    가져오기
+                  </Button>
+                </div>
               )}
 
               <div className="mt-8 pt-8 border-t border-gray-200">
@@ -374,6 +411,20 @@ export default function DashboardPage() {
           </div>
         </main>
       </div>
+
+      <CreateManualModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        currentUserId={session?.user?.id ?? ''}
+        isTeamOwner={role === 'OWNER'}
+        onCreated={handleManualCreated}
+      />
+
+      <ImportManualModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={handleManualImported}
+      />
     </div>
   )
 }
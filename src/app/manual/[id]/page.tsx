@@ -1,13 +1,25 @@
 'use client'
 
-import { useEffect, useState, useRef, useCallback } from 'react'
+import { useEffect, useState, useCallback } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import BlockEditor from '@/components/editor/BlockEditor'
 import ShareSettingsModal from '@/components/modals/ShareSettingsModal'
 import VersionHistoryModal from '@/components/modals/VersionHistoryModal'
+import SectionAccessModal from '@/components/modals/SectionAccessModal'
+import ConflictDialog, { type EditConflict } from '@/components/modals/ConflictDialog'
 import SearchBar from '@/components/ui/SearchBar'
+import PresenceAvatars from '@/components/presence/PresenceAvatars'
+import CommentsPanel, { type CommentDraft } from '@/components/comments/CommentsPanel'
+import SuggestionCard from '@/components/suggestions/SuggestionCard'
+import SuggestionsPanel from '@/components/suggestions/SuggestionsPanel'
+import PublicationPanel from '@/components/publication/PublicationPanel'
+import CopyToModal, { type CopyResult } from '@/components/modals/CopyToModal'
+import type { BlockSuggestionView } from '@/components/editor/SortableBlock'
+import { usePresence } from '@/hooks/usePresence'
+import { useManualChanges, createTempId, type ManualBlockType, type ManualChange, type ManualChangesResult } from '@/hooks/useManualChanges'
+import { useSuggestions, parseSuggestedBlockId, suggestedBlockId, type Suggestion } from '@/hooks/useSuggestions'
 import {
   DndContext,
   closestCenter,
@@ -40,6 +52,7 @@ interface Manual {
     name: string
   }
   sections: Section[]
+  revision: number
   createdAt: string
   updatedAt: string
 }
@@ -49,6 +62,9 @@ interface Section {
   title: string
   order: number
   depth: number
+  restricted?: boolean
+  canEdit?: boolean
+  revision: number
   blocks: Block[]
   children?: Section[]
 }
@@ -58,6 +74,7 @@ interface Block {
   type: string
   content: string
   order: number
+  revision?: number
 }
 
 interface DeletedBlockHistory {
@@ -66,6 +83,65 @@ interface DeletedBlockHistory {
   timestamp: number
 }
 
+type SaveResult<T> = { conflict: false; saved: T } | { conflict: true; current: T | null }
+
+function findBlockInTree(sections: Section[], blockId: string): { block: Block; section: Section } | null {
+  for (const section of sections) {
+    const block = section.blocks.find((b) => b.id === blockId)
+    if (block) {
+      return { block, section }
+    }
+    const found = findBlockInTree(section.children ?? [], blockId)
+    if (found) return found
+  }
+  return null
+}
+
+function updateBlocksInTree(sections: Section[], changes: Map<string, Partial<Block>>): Section[] {
+  return sections.map((section) => ({
+    ...section,
+    blocks: section.blocks.map((block) =>
+      changes.has(block.id) ? { ...block, ...changes.get(block.id) } : block
+    ),
+    ...(section.children ? { children: updateBlocksInTree(section.children, changes) } : {}),
+  }))
+}
+
+function updateSectionBlocks(sections: Section[], sectionId: string, update: (blocks: Block[]) => Block[]): Section[] {
+  return sections.map((section) => ({
+    ...section,
+    blocks: section.id === sectionId ? update(section.blocks) : section.blocks,
+    ...(section.children ? { children: updateSectionBlocks(section.children, sectionId, update) } : {}),
+  }))
+}
+
+function renameSectionInTree(sections: Section[], sectionId: string, title: string): Section[] {
+  return sections.map((section) => ({
+    ...section,
+    title: section.id === sectionId ? title : section.title,
+    ...(section.children ? { children: renameSectionInTree(section.children, sectionId, title) } : {}),
+  }))
+}
+
+/**
+ * Swap temporary IDs for saved ones and take over new revisions
+ */
+function rebaseSectionTree(sections: Section[], result: ManualChangesResult): Section[] {
+  return sections.map((section) => {
+    const sectionId = result.ids[section.id] ?? section.id
+    return {
+      ...section,
+      id: sectionId,
+      revision: result.revisions.sections[sectionId] ?? section.revision,
+      blocks: section.blocks.map((block) => {
+        const blockId = result.ids[block.id] ?? block.id
+        return { ...block, id: blockId, revision: result.revisions.blocks[blockId] ?? block.revision }
+      }),
+      ...(section.children ? { children: rebaseSectionTree(section.children, result) } : {}),
+    }
+  })
+}
+
 export default function ManualPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -82,19 +158,38 @@ export default function ManualPage() {
   const [editingSectionTitle, setEditingSectionTitle] = useState('')
   const [showShareModal, setShowShareModal] = useState(false)
   const [showVersionModal, setShowVersionModal] = useState(false)
-  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved')
-  const [pendingChanges, setPendingChanges] = useState<{
-    blocks: Map<string, string>
-    deletedBlocks: Set<string>
-  }>({
-    blocks: new Map(),
-    deletedBlocks: new Set(),
-  })
+  const [accessSection, setAccessSection] = useState<Section | null>(null)
+  const [copyItem, setCopyItem] = useState<{ kind: 'section' | 'block'; id: string; label: string } | null>(null)
   const [newBlockId, setNewBlockId] = useState<string | null>(null)
   const [deletedBlocksHistory, setDeletedBlocksHistory] = useState<DeletedBlockHistory[]>([])
-  const saveTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const [conflicts, setConflicts] = useState<EditConflict[]>([])
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false)
   const [isLeftSidebarOpen, setIsLeftSidebarOpen] = useState(false)
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState(false)
+  const [rightPanelTab, setRightPanelTab] = useState<'settings' | 'comments' | 'suggestions'>('settings')
+  // Suggestion mode: block and section edits are proposed instead of applied
+  const [suggesting, setSuggesting] = useState(false)
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null)
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({})
+  // Published revision; viewers always see it, editors can switch to it from the draft
+  const [published, setPublished] = useState<{ versionId: string; publishedAt: string | null } | null>(null)
+  const [showPublished, setShowPublished] = useState(false)
+  const [exporting, setExporting] = useState<string | null>(null)
+  const [markdownLayout, setMarkdownLayout] = useState<'single' | 'sections'>('single')
+
+  // Who else has this manual open, and which blocks they are typing in
+  const {
+    users: presenceUsers,
+    lockMode,
+    setActiveBlock,
+    reportTyping,
+  } = usePresence(manualId, selectedSection?.id ?? null, !!manual)
+
+  const { suggestions, suggest, revise, withdraw, review } = useSuggestions(manualId, !!manual, {
+    onError: (message) => alert(message),
+    // Accepted suggestions changed the manual
+    onAccepted: () => fetchManual(true),
+  })
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -135,6 +230,20 @@ export default function ManualPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [status, manualId])
 
+  // Switching between the draft and the published revision reloads the content
+  useEffect(() => {
+    if (manual) {
+      fetchManual(true)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPublished])
+
+  // A comment draft belongs to a block of the selected section
+  useEffect(() => {
+    setCommentDraft(null)
+    setCommentCounts({})
+  }, [selectedSection?.id])
+
   // Auto-scroll to newly created block
   useEffect(() => {
     if (!newBlockId) return
@@ -167,7 +276,7 @@ export default function ManualPage() {
 
   const fetchManual = async (keepCurrentSection = false) => {
     try {
-      const response = await fetch(`/api/manual/${manualId}`)
+      const response = await fetch(`/api/manual/${manualId}${showPublished ? '?view=published' : ''}`)
       const data = await response.json()
 
       if (!response.ok) {
@@ -176,6 +285,7 @@ export default function ManualPage() {
 
       setManual(data.manual)
       setPermission(data.permission)
+      setPublished(data.published)
 
       // Keep current section if requested, otherwise select first section
       if (keepCurrentSection && selectedSection) {
@@ -206,6 +316,86 @@ export default function ManualPage() {
     }
   }
 
+  // Save the draft's sections and blocks as a team template
+  const handleSaveAsTemplate = async () => {
+    const name = prompt('템플릿 이름을 입력하세요', manual?.title ?? '')
+
+    if (!name || name.trim() === '') {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}/template`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '템플릿 저장에 실패했습니다')
+      }
+
+      alert('템플릿으로 저장되었습니다. 새 메뉴얼을 만들 때 선택할 수 있습니다. (접근이 제한된 섹션은 제외됩니다)')
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '템플릿 저장에 실패했습니다')
+    }
+  }
+
+  // Save a download response under the file name the server sent
+  const saveDownload = async (response: Response, fallbackName: string) => {
+    const disposition = response.headers.get('Content-Disposition') || ''
+    const filename = /filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1]
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename ? decodeURIComponent(filename) : fallbackName
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Download the manual as a file (the revision currently shown)
+  const handleExport = async (format: 'pdf' | 'docx' | 'md' | 'html') => {
+    setExporting(format)
+    try {
+      const params = new URLSearchParams({ format })
+      if (format === 'md') params.set('layout', markdownLayout)
+      if (showPublished) params.set('view', 'published')
+
+      const response = await fetch(`/api/manual/${manualId}/export?${params}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '내보내기에 실패했습니다')
+      }
+
+      await saveDownload(response, `${manual?.title ?? 'manual'}.${format === 'md' || format === 'html' ? 'zip' : format}`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '내보내기에 실패했습니다')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  // Download a backup of the whole manual (all sections, files, versions and shares)
+  const handleBackup = async () => {
+    setExporting('backup')
+    try {
+      const response = await fetch(`/api/manual/${manualId}/backup`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '백업에 실패했습니다')
+      }
+
+      await saveDownload(response, `${manual?.title ?? 'manual'}-backup.zip`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '백업에 실패했습니다')
+    } finally {
+      setExporting(null)
+    }
+  }
+
   const findSectionInTree = useCallback((sections: Section[], sectionId: string): Section | null => {
     for (const section of sections) {
       if (section.id === sectionId) {
@@ -219,60 +409,202 @@ export default function ManualPage() {
     return null
   }, [])
 
-  const canEdit = permission === 'OWNER' || permission === 'EDITOR'
+  // The working draft is editable by owners and editors; the published revision never is
+  const canEditDraft = permission === 'OWNER' || permission === 'EDITOR'
+  const canEdit = canEditDraft && !showPublished
 
-  // Save pending changes to server
-  const savePendingChanges = useCallback(async () => {
-    if (pendingChanges.blocks.size === 0 && pendingChanges.deletedBlocks.size === 0) {
-      return
+  // Apply saved values (e.g. new revisions) to blocks anywhere in the section tree
+  const applyBlockChanges = useCallback((changes: Map<string, Partial<Block>>) => {
+    if (changes.size === 0) return
+
+    setManual((prev) => (prev ? { ...prev, sections: updateBlocksInTree(prev.sections, changes) } : prev))
+    setSelectedSection((prev) => (prev ? updateBlocksInTree([prev], changes)[0] : prev))
+  }, [])
+
+  // Save a block based on the revision it was edited from; stale writes come back as conflicts
+  const putBlock = useCallback(async (blockId: string, content: string, revision?: number): Promise<SaveResult<Required<Block>>> => {
+    const response = await fetch(`/api/manual/${manualId}/block/${blockId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content, revision }),
+    })
+
+    const data = await response.json()
+
+    if (response.status === 409) {
+      return { conflict: true, current: data.current?.block ?? null }
     }
+    if (!response.ok) {
+      throw new Error(data.error || '블록 저장에 실패했습니다')
+    }
+    return { conflict: false, saved: data.block }
+  }, [manualId])
+
+  const putSectionTitle = useCallback(async (sectionId: string, title: string, revision?: number): Promise<SaveResult<Section>> => {
+    const response = await fetch(`/api/manual/${manualId}/section/${sectionId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title, revision }),
+    })
 
-    setSaveStatus('saving')
+    const data = await response.json()
 
-    try {
-      // Save updated blocks
-      for (const [blockId, content] of pendingChanges.blocks.entries()) {
-        await fetch(`/api/manual/${manualId}/block/${blockId}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ content }),
-        })
+    if (response.status === 409) {
+      return { conflict: true, current: data.current?.section ?? null }
+    }
+    if (!response.ok) {
+      throw new Error(data.error || '섹션 수정에 실패했습니다')
+    }
+    return { conflict: false, saved: data.section }
+  }, [manualId])
+
+  // Queued block/section changes, saved in batches
+  const { saveStatus: queueStatus, pendingCount, enqueue, flush, hasPendingChanges } = useManualChanges(manualId, {
+    onSaved: (result) => {
+      setManual((prev) => (prev ? { ...prev, sections: rebaseSectionTree(prev.sections, result) } : prev))
+      setSelectedSection((prev) => (prev ? rebaseSectionTree([prev], result)[0] : prev))
+    },
+    onConflict: (change, current) => handleChangeConflict(change, current),
+    onError: async (message) => {
+      alert(message)
+      // Nothing of the batch was saved, show the server state again
+      await fetchManual(true)
+    },
+    // Edits made offline in an earlier session are saved now
+    onRestored: () => fetchManual(true),
+  })
+
+  // Unresolved conflicts are unsaved changes as well
+  const saveStatus = queueStatus !== 'offline' && conflicts.length > 0 ? 'unsaved' : queueStatus
+
+  const handleChangeConflict = (change: ManualChange, current: Record<string, unknown>) => {
+    if (change.op === 'block.delete' && current.lockedBy) {
+      // The block is still on the server, show it again
+      alert(`${current.lockedBy}님이 편집 중인 블록이라 삭제하지 못했습니다`)
+      fetchManual(true)
+    } else if (change.op === 'block.update' && current.block) {
+      const block = current.block as Required<Block>
+      const location = manual ? findBlockInTree(manual.sections, change.id) : null
+
+      // Already saved (e.g. the response was lost while offline)
+      if (change.content === block.content) {
+        applyBlockChanges(new Map([[change.id, { revision: block.revision }]]))
+        return
       }
 
-      // Delete blocks
-      for (const blockId of pendingChanges.deletedBlocks) {
-        await fetch(`/api/manual/${manualId}/block/${blockId}`, {
-          method: 'DELETE',
-        })
+      setConflicts((prev) => [
+        ...prev,
+        {
+          kind: 'block',
+          id: change.id,
+          blockType: block.type,
+          label: location?.section.title ?? '',
+          mine: change.content ?? block.content,
+          theirs: block.content,
+          revision: block.revision,
+        },
+      ])
+    } else if (change.op === 'section.update' && current.section) {
+      const section = current.section as Section
+      if (change.title === section.title) return
+
+      setConflicts((prev) => [
+        ...prev,
+        {
+          kind: 'section',
+          id: change.id,
+          label: section.title,
+          mine: change.title ?? section.title,
+          theirs: section.title,
+          revision: section.revision,
+        },
+      ])
+    } else if (change.op === 'block.update' && current.block === null) {
+      // Deleted by someone else while this change waited
+      const location = manual ? findBlockInTree(manual.sections, change.id) : null
+      if (location) {
+        const remove = (blocks: Block[]) => blocks.filter((block) => block.id !== change.id)
+        setManual((prev) => (prev ? { ...prev, sections: updateSectionBlocks(prev.sections, location.section.id, remove) } : prev))
+        setSelectedSection((prev) => (prev ? updateSectionBlocks([prev], location.section.id, remove)[0] : prev))
       }
+      alert('다른 사용자가 삭제한 블록의 변경 사항은 저장되지 않았습니다')
+    } else if (current.section === null) {
+      alert('다른 사용자가 삭제한 섹션의 변경 사항은 저장되지 않았습니다')
+      fetchManual(true)
+    }
+  }
 
-      // Clear pending changes
-      setPendingChanges({
-        blocks: new Map(),
-        deletedBlocks: new Set(),
-      })
+  // Add a block locally and queue its creation
+  const createBlock = (sectionId: string, type: string, content: string) => {
+    const tempId = createTempId()
+    const insert = (blocks: Block[]) => [
+      ...blocks,
+      { id: tempId, type, content, order: blocks.reduce((max, block) => Math.max(max, block.order), -1) + 1 },
+    ]
 
-      setSaveStatus('saved')
-    } catch (error) {
-      console.error('Failed to save changes:', error)
-      setSaveStatus('unsaved')
-    }
-  }, [manualId, pendingChanges])
+    setManual((prev) => (prev ? { ...prev, sections: updateSectionBlocks(prev.sections, sectionId, insert) } : prev))
+    setSelectedSection((prev) => (prev ? updateSectionBlocks([prev], sectionId, insert)[0] : prev))
 
-  // Schedule auto-save after 3 seconds
-  const scheduleAutoSave = useCallback(() => {
-    if (saveTimerRef.current) {
-      clearTimeout(saveTimerRef.current)
-    }
+    enqueue({ op: 'block.create', tempId, sectionId, type: type as ManualBlockType, content })
+    return tempId
+  }
 
-    setSaveStatus('unsaved')
+  // Resolve the first conflict in the queue
+  const handleResolveConflict = async (resolution: 'mine' | 'theirs' | 'merge', merged?: string) => {
+    const conflict = conflicts[0]
+    if (!conflict) return
 
-    saveTimerRef.current = setTimeout(() => {
-      savePendingChanges()
-    }, 3000) // 3 seconds
-  }, [savePendingChanges])
+    const value = resolution === 'merge' && merged !== undefined ? merged : conflict.mine
+
+    setIsResolvingConflict(true)
+    try {
+      if (resolution === 'theirs') {
+        if (conflict.kind === 'block') {
+          applyBlockChanges(new Map([[conflict.id, { content: conflict.theirs, revision: conflict.revision }]]))
+        } else {
+          await fetchManual(true)
+        }
+      } else {
+        // Overwrite based on the revision we have now seen
+        const result = conflict.kind === 'block'
+          ? await putBlock(conflict.id, value, conflict.revision)
+          : await putSectionTitle(conflict.id, value, conflict.revision)
+
+        if (result.conflict) {
+          // Changed again in the meantime, show the newer value
+          const current = result.current
+          setConflicts((prev) => [
+            ...(current
+              ? [{
+                  ...conflict,
+                  mine: value,
+                  theirs: 'content' in current ? current.content : current.title,
+                  revision: current.revision,
+                }]
+              : []),
+            ...prev.slice(1),
+          ])
+          return
+        }
+
+        if (conflict.kind === 'block') {
+          applyBlockChanges(new Map([[conflict.id, { content: value, revision: result.saved.revision }]]))
+        } else {
+          await fetchManual(true)
+        }
+      }
+
+      setConflicts((prev) => prev.slice(1))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '저장에 실패했습니다')
+    } finally {
+      setIsResolvingConflict(false)
+    }
+  }
 
   // Undo delete block
   const handleUndoDelete = useCallback(async () => {
@@ -280,44 +612,22 @@ export default function ManualPage() {
 
     const lastDeleted = deletedBlocksHistory[deletedBlocksHistory.length - 1]
 
-    try {
-      // Recreate the block
-      const response = await fetch(`/api/manual/${manualId}/block`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sectionId: lastDeleted.sectionId,
-          type: lastDeleted.block.type,
-          content: lastDeleted.block.content,
-        }),
-      })
+    // Recreate the block at the end of its section
+    createBlock(lastDeleted.sectionId, lastDeleted.block.type, lastDeleted.block.content)
 
-      const data = await response.json()
+    // Remove from history
+    setDeletedBlocksHistory(prev => prev.slice(0, -1))
 
-      if (!response.ok) {
-        throw new Error(data.error || '블록 복원에 실패했습니다')
-      }
-
-      // Remove from history
-      setDeletedBlocksHistory(prev => prev.slice(0, -1))
-
-      // Refresh manual data
-      await fetchManual(true)
-    } catch (error) {
-      console.error('Failed to undo delete:', error)
-      alert(error instanceof Error ? error.message : '블록 복원에 실패했습니다')
-    }
-  }, [deletedBlocksHistory, manualId])
+    await flush()
+  }, [deletedBlocksHistory, createBlock, flush])
 
   // Save on page unload
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (pendingChanges.blocks.size > 0 || pendingChanges.deletedBlocks.size > 0) {
+      if (hasPendingChanges()) {
         e.preventDefault()
         e.returnValue = ''
-        savePendingChanges()
+        flush()
       }
     }
 
@@ -325,11 +635,8 @@ export default function ManualPage() {
 
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload)
-      if (saveTimerRef.current) {
-        clearTimeout(saveTimerRef.current)
-      }
     }
-  }, [pendingChanges, savePendingChanges])
+  }, [hasPendingChanges, flush])
 
   // Handle Ctrl+Z for undo delete
   useEffect(() => {
@@ -357,15 +664,6 @@ export default function ManualPage() {
       return
     }
 
-    // Save pending changes first to prevent data loss
-    if (pendingChanges.blocks.size > 0 || pendingChanges.deletedBlocks.size > 0) {
-      // Clear auto-save timer
-      if (saveTimerRef.current) {
-        clearTimeout(saveTimerRef.current)
-      }
-      await savePendingChanges()
-    }
-
     let content = ''
 
     if (initialContent) {
@@ -382,38 +680,31 @@ export default function ManualPage() {
       content = JSON.stringify({ url: '' })
     }
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/block`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sectionId: selectedSection.id,
-          type,
-          content,
-        }),
-      })
+    if (suggesting) {
+      await suggest({ op: 'block.create', tempId: createTempId(), sectionId: selectedSection.id, type, content })
+      return
+    }
 
-      const data = await response.json()
+    // Store new block ID for auto-focus
+    setNewBlockId(createBlock(selectedSection.id, type, content))
 
-      if (!response.ok) {
-        throw new Error(data.error || '블록 추가에 실패했습니다')
-      }
+    // Save right away so the block gets its real ID
+    await flush()
+  }
 
-      // Store new block ID for auto-focus
-      if (data.block && data.block.id) {
-        setNewBlockId(data.block.id)
+  const handleUpdateBlock = async (blockId: string, content: string) => {
+    if (suggesting) {
+      const suggestionId = parseSuggestedBlockId(blockId)
+      if (suggestionId) {
+        await revise(suggestionId, { content })
+      } else {
+        await suggest({ op: 'block.update', id: blockId, content })
       }
-
-      // Refresh manual data while keeping current section
-      await fetchManual(true)
-    } catch (error) {
-      alert(error instanceof Error ? error.message : '블록 추가에 실패했습니다')
+      return
     }
-  }
 
-  const handleUpdateBlock = async (blockId: string, content: string) => {
+    const revision = selectedSection?.blocks.find((block) => block.id === blockId)?.revision
+
     // Update local state immediately
     if (manual && selectedSection) {
       const updatedSections = manual.sections.map((section) => {
@@ -435,20 +726,24 @@ export default function ManualPage() {
       setSelectedSection(newSelectedSection)
     }
 
-    // Add to pending changes
-    setPendingChanges((prev) => {
-      const newBlocks = new Map(prev.blocks)
-      newBlocks.set(blockId, content)
-      return { ...prev, blocks: newBlocks }
-    })
-
-    // Schedule auto-save
-    scheduleAutoSave()
+    // Queue the change, saved together with other changes shortly after
+    enqueue({ op: 'block.update', id: blockId, content, revision })
   }
 
   const handleDeleteBlock = async (blockId: string) => {
     if (!selectedSection) return
 
+    if (suggesting) {
+      // Deleting a suggested block withdraws the suggestion
+      const suggestionId = parseSuggestedBlockId(blockId)
+      if (suggestionId) {
+        await withdraw(suggestionId)
+      } else {
+        await suggest({ op: 'block.delete', id: blockId })
+      }
+      return
+    }
+
     // Find the block to save it in history
     const blockToDelete = selectedSection.blocks.find(b => b.id === blockId)
     if (!blockToDelete) return
@@ -463,30 +758,20 @@ export default function ManualPage() {
       }
     ])
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/block/${blockId}`, {
-        method: 'DELETE',
-      })
-
-      const data = await response.json()
+    // Remove locally, the deletion is saved with the next batch
+    const remove = (blocks: Block[]) => blocks.filter((block) => block.id !== blockId)
+    setManual((prev) => (prev ? { ...prev, sections: updateSectionBlocks(prev.sections, selectedSection.id, remove) } : prev))
+    setSelectedSection((prev) => (prev ? updateSectionBlocks([prev], selectedSection.id, remove)[0] : prev))
 
-      if (!response.ok) {
-        throw new Error(data.error || '블록 삭제에 실패했습니다')
-      }
-
-      // Refresh manual data while keeping current section
-      await fetchManual(true)
-    } catch (error) {
-      console.error('Failed to delete block:', error)
-      alert(error instanceof Error ? error.message : '블록 삭제에 실패했습니다')
-      // Remove from history on error
-      setDeletedBlocksHistory(prev => prev.filter(h => h.block.id !== blockId))
-    }
+    enqueue({ op: 'block.delete', id: blockId })
   }
 
-  const handleReorderBlocks = async (blocks: Block[]) => {
+  const handleReorderBlocks = async (editorBlocks: Block[]) => {
     if (!manual || !selectedSection) return
 
+    // Suggested blocks are shown after the section's blocks and keep their place
+    const blocks = editorBlocks.filter((block) => !parseSuggestedBlockId(block.id))
+
     // Optimistic update - update local state immediately
     const updatedSections = manual.sections.map((section) => {
       if (section.id === selectedSection.id) {
@@ -504,64 +789,70 @@ export default function ManualPage() {
       blocks: blocks,
     })
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/block/reorder`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          blocks: blocks.map((block) => ({
-            id: block.id,
-            order: block.order,
-          })),
-        }),
-      })
+    enqueue({
+      op: 'block.reorder',
+      blocks: blocks.map((block) => ({
+        id: block.id,
+        order: block.order,
+      })),
+    })
+  }
 
-      const data = await response.json()
+  const handleCommentBlock = (blockId: string, range?: { quote: string; rangeStart: number; rangeEnd: number }) => {
+    if (blockId.startsWith('temp-') || parseSuggestedBlockId(blockId)) {
+      alert('블록이 저장된 후에 댓글을 달 수 있습니다.')
+      return
+    }
 
-      if (!response.ok) {
-        throw new Error(data.error || '블록 순서 변경에 실패했습니다')
-      }
-    } catch (error) {
-      console.error('Failed to reorder blocks:', error)
-      alert(error instanceof Error ? error.message : '블록 순서 변경에 실패했습니다')
-      // Revert on error
-      await fetchManual(true)
+    setCommentDraft({ blockId, ...range })
+    setRightPanelTab('comments')
+    setIsRightSidebarOpen(true)
+  }
+
+  const handleDuplicateBlock = async (blockId: string) => {
+    if (blockId.startsWith('temp-') || parseSuggestedBlockId(blockId)) {
+      alert('블록이 저장된 후에 복사할 수 있습니다.')
+      return
     }
+
+    // Copy what the user sees, not what was last saved
+    await flush()
+    setCopyItem({ kind: 'block', id: blockId, label: `${selectedSection?.title ?? ''}의 블록` })
+  }
+
+  const handleCopied = async (result: CopyResult) => {
+    if (result.manualId !== manualId) {
+      alert('다른 메뉴얼에 복사되었습니다.')
+      return
+    }
+
+    await fetchManual(true)
+    if (result.block) {
+      setNewBlockId(result.block.id)
+    }
+  }
+
+  const handleFocusBlock = (blockId: string) => {
+    document.querySelector(`[data-block-id="${blockId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
   }
 
   const handleAddSection = async () => {
     const title = prompt('새 섹션 제목을 입력하세요')
     if (!title) return
 
-    // Save pending changes first to prevent data loss
-    if (pendingChanges.blocks.size > 0 || pendingChanges.deletedBlocks.size > 0) {
-      if (saveTimerRef.current) {
-        clearTimeout(saveTimerRef.current)
-      }
-      await savePendingChanges()
+    if (suggesting) {
+      await suggest({ op: 'section.create', tempId: createTempId(), title })
+      return
     }
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/section`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ title }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || '섹션 추가에 실패했습니다')
-      }
+    enqueue({ op: 'section.create', tempId: createTempId(), title })
+    await flush()
 
-      await fetchManual()
-    } catch (error) {
-      alert(error instanceof Error ? error.message : '섹션 추가에 실패했습니다')
+    if (hasPendingChanges()) {
+      alert('오프라인 상태입니다. 연결되면 섹션이 추가됩니다.')
+      return
     }
+    await fetchManual()
   }
 
   const handleStartEditSection = (section: Section) => {
@@ -575,34 +866,28 @@ export default function ManualPage() {
       return
     }
 
-    // Save pending changes first to prevent data loss
-    if (pendingChanges.blocks.size > 0 || pendingChanges.deletedBlocks.size > 0) {
-      if (saveTimerRef.current) {
-        clearTimeout(saveTimerRef.current)
+    if (suggesting) {
+      const saved = await suggest({ op: 'section.update', id: sectionId, title: editingSectionTitle })
+      if (saved) {
+        setEditingSectionId(null)
+        setEditingSectionTitle('')
       }
-      await savePendingChanges()
+      return
     }
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/section/${sectionId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ title: editingSectionTitle }),
-      })
+    const section = manual ? findSectionInTree(manual.sections, sectionId) : null
+    enqueue({ op: 'section.update', id: sectionId, title: editingSectionTitle, revision: section?.revision })
 
-      const data = await response.json()
+    // Show the new title right away, also while offline
+    setManual((prev) => (prev ? { ...prev, sections: renameSectionInTree(prev.sections, sectionId, editingSectionTitle) } : prev))
+    setSelectedSection((prev) => (prev ? renameSectionInTree([prev], sectionId, editingSectionTitle)[0] : prev))
 
-      if (!response.ok) {
-        throw new Error(data.error || '섹션 수정에 실패했습니다')
-      }
+    setEditingSectionId(null)
+    setEditingSectionTitle('')
+    await flush()
 
-      setEditingSectionId(null)
-      setEditingSectionTitle('')
+    if (!hasPendingChanges()) {
       await fetchManual()
-    } catch (error) {
-      alert(error instanceof Error ? error.message : '섹션 수정에 실패했습니다')
     }
   }
 
@@ -624,42 +909,29 @@ export default function ManualPage() {
       return
     }
 
-    if (!confirm(`"${section.title}" 섹션을 삭제하시겠습니까?`)) {
+    if (!confirm(suggesting ? `"${section.title}" 섹션 삭제를 제안하시겠습니까?` : `"${section.title}" 섹션을 삭제하시겠습니까?`)) {
       return
     }
 
-    // Save pending changes first to prevent data loss
-    if (pendingChanges.blocks.size > 0 || pendingChanges.deletedBlocks.size > 0) {
-      if (saveTimerRef.current) {
-        clearTimeout(saveTimerRef.current)
-      }
-      await savePendingChanges()
+    if (suggesting) {
+      await suggest({ op: 'section.delete', id: section.id })
+      return
     }
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/section/${section.id}`, {
-        method: 'DELETE',
-      })
-
-      if (!response.ok) {
-        const data = await response.json().catch(() => ({ error: '응답 파싱 실패' }))
-        throw new Error(data.error || `섹션 삭제에 실패했습니다 (${response.status})`)
-      }
+    enqueue({ op: 'section.delete', id: section.id })
+    await flush()
 
-      // If this was the selected section, clear selection
-      if (selectedSection?.id === section.id) {
-        setSelectedSection(null)
-      }
+    if (hasPendingChanges()) {
+      alert('오프라인 상태입니다. 연결되면 섹션이 삭제됩니다.')
+      return
+    }
 
-      await fetchManual()
-    } catch (error) {
-      console.error('Delete section error:', error)
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        alert('네트워크 연결을 확인해주세요. 서버와 통신할 수 없습니다.')
-      } else {
-        alert(error instanceof Error ? error.message : '섹션 삭제 중 오류가 발생했습니다')
-      }
+    // If this was the selected section, clear selection
+    if (selectedSection?.id === section.id) {
+      setSelectedSection(null)
     }
+
+    await fetchManual()
   }
 
   const handleSectionDragEnd = async (event: DragEndEvent) => {
@@ -687,30 +959,13 @@ export default function ManualPage() {
       sections: newSections,
     })
 
-    try {
-      const response = await fetch(`/api/manual/${manualId}/section/reorder`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sections: newSections.map((s) => ({
-            id: s.id,
-            order: s.order,
-          })),
-        }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || '섹션 순서 변경에 실패했습니다')
-      }
-    } catch (error) {
-      console.error('Failed to reorder sections:', error)
-      // Revert on error
-      await fetchManual()
-    }
+    enqueue({
+      op: 'section.reorder',
+      sections: newSections.map((s) => ({
+        id: s.id,
+        order: s.order,
+      })),
+    })
   }
 
   if (status === 'loading' || loading) {
@@ -728,6 +983,84 @@ export default function ManualPage() {
     return null
   }
 
+  const sectionTitles = new Map<string, string>()
+  const collectSectionTitles = (sections: Section[]) => {
+    sections.forEach((section) => {
+      sectionTitles.set(section.id, section.title)
+      collectSectionTitles(section.children ?? [])
+    })
+  }
+  collectSectionTitles(manual.sections)
+
+  const blockLocks: Record<string, string> = {}
+  presenceUsers.forEach((user) => {
+    if (user.lockedBlockId && user.userId !== session?.user?.id) {
+      blockLocks[user.lockedBlockId] = user.name
+    }
+  })
+
+  // Pending suggestions of the selected section, marked in the editor
+  const currentUserId = session?.user?.id ?? ''
+  const suggestionCardProps = (suggestion: Suggestion) => ({
+    suggestion,
+    canReview: canEdit,
+    isOwn: suggestion.authorId === currentUserId,
+    onReview: (suggestionId: string, action: 'accept' | 'reject') => review([suggestionId], action),
+    onWithdraw: withdraw,
+  })
+
+  const editorBlocks: Block[] = []
+  const blockSuggestions: Record<string, BlockSuggestionView> = {}
+  if (selectedSection) {
+    const sectionSuggestions = suggestions.filter((suggestion) => suggestion.sectionId === selectedSection.id)
+
+    selectedSection.blocks.forEach((block) => {
+      const blockChanges = sectionSuggestions.filter((suggestion) => suggestion.blockId === block.id)
+      // While suggesting, keep editing on top of one's own suggested content
+      const own = suggesting
+        ? blockChanges.find((suggestion) => suggestion.authorId === currentUserId && suggestion.change.op === 'block.update')
+        : undefined
+      editorBlocks.push(
+        own?.change.op === 'block.update' && own.change.content !== undefined ? { ...block, content: own.change.content } : block
+      )
+
+      if (blockChanges.length > 0) {
+        blockSuggestions[block.id] = {
+          state: blockChanges.some((suggestion) => suggestion.change.op === 'block.delete') ? 'delete' : 'update',
+          footer: blockChanges.map((suggestion) => (
+            <SuggestionCard key={suggestion.id} block={block} {...suggestionCardProps(suggestion)} />
+          )),
+        }
+      }
+    })
+
+    // Suggested blocks follow the section's blocks
+    let order = selectedSection.blocks.length > 0 ? selectedSection.blocks[selectedSection.blocks.length - 1].order : -1
+    sectionSuggestions.forEach((suggestion) => {
+      if (suggestion.change.op !== 'block.create') return
+
+      const blockId = suggestedBlockId(suggestion.id)
+      editorBlocks.push({
+        id: blockId,
+        type: suggestion.change.type,
+        content: suggestion.change.content,
+        order: ++order,
+      })
+      blockSuggestions[blockId] = {
+        state: 'insert',
+        readOnly: !suggesting || suggestion.authorId !== currentUserId,
+        footer: <SuggestionCard {...suggestionCardProps(suggestion)} />,
+      }
+    })
+  }
+
+  const sectionSuggestionCounts = new Map<string, number>()
+  suggestions.forEach((suggestion) => {
+    if (suggestion.sectionId) {
+      sectionSuggestionCounts.set(suggestion.sectionId, (sectionSuggestionCounts.get(suggestion.sectionId) ?? 0) + 1)
+    }
+  })
+
   const SortableSectionItem = ({ section, depth = 0 }: { section: Section; depth?: number }) => {
     const {
       attributes,
@@ -747,6 +1080,10 @@ export default function ManualPage() {
     const isSelected = selectedSection?.id === section.id
     const isEditing = editingSectionId === section.id
     const paddingLeft = depth * 16
+    // Suggestions can be made on any visible section
+    const canEditThisSection = (canEdit && section.canEdit !== false) || suggesting
+    const suggestionCount = sectionSuggestionCounts.get(section.id) ?? 0
+    const sectionUsers = presenceUsers.filter((user) => user.sectionId === section.id)
 
     return (
       <div ref={setNodeRef} style={style}>
@@ -789,7 +1126,7 @@ export default function ManualPage() {
           </div>
         ) : (
           <div className="group flex items-center">
-            {canEdit && (
+            {canEdit && !suggesting && (
               <div
                 {...attributes}
                 {...listeners}
@@ -816,10 +1153,58 @@ export default function ManualPage() {
                   </svg>
                 )}
                 <span className="text-sm">{section.title}</span>
+                {section.restricted && (
+                  <svg className="w-3 h-3 ml-1 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <title>접근 제한된 섹션</title>
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                  </svg>
+                )}
+                {suggestionCount > 0 && (
+                  <span
+                    className="ml-1 px-1.5 text-xs rounded-full bg-amber-100 text-amber-700 flex-shrink-0"
+                    title="대기 중인 제안"
+                  >
+                    {suggestionCount}
+                  </span>
+                )}
+                {sectionUsers.length > 0 && (
+                  <span className="ml-2">
+                    <PresenceAvatars users={sectionUsers} sectionTitles={sectionTitles} max={3} size="sm" />
+                  </span>
+                )}
               </div>
             </button>
-            {canEdit && (
+            {canEditThisSection && (
               <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                {permission === 'OWNER' && !suggesting && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setAccessSection(section)
+                    }}
+                    className="p-1 text-gray-500 hover:text-primary-600"
+                    title="접근 제한 설정"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                    </svg>
+                  </button>
+                )}
+                {!suggesting && (
+                  <button
+                    onClick={async (e) => {
+                      e.stopPropagation()
+                      await flush()
+                      setCopyItem({ kind: 'section', id: section.id, label: section.title })
+                    }}
+                    className="p-1 text-gray-500 hover:text-primary-600"
+                    title="섹션 복사"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                )}
                 <button
                   onClick={(e) => {
                     e.stopPropagation()
@@ -901,9 +1286,41 @@ export default function ManualPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
               </svg>
             </button>
+            <div className="hidden sm:block mr-1">
+              <PresenceAvatars users={presenceUsers} sectionTitles={sectionTitles} />
+            </div>
             <span className="text-xs px-2 py-1 bg-gray-100 rounded text-gray-600 hidden sm:inline">
               {permission === 'OWNER' ? '소유자' : permission === 'EDITOR' ? '편집자' : '뷰어'}
             </span>
+            {canEditDraft && (
+              <button
+                onClick={() => {
+                  setSuggesting(false)
+                  setShowPublished(!showPublished)
+                }}
+                className={`text-xs px-2 py-1 rounded border transition-colors ${
+                  showPublished
+                    ? 'bg-green-100 border-green-300 text-green-800'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+                title="뷰어와 외부 공유 링크에 보이는 게시본을 확인합니다"
+              >
+                {showPublished ? '게시본 보는 중' : '게시본 보기'}
+              </button>
+            )}
+            {!showPublished && (
+              <button
+                onClick={() => setSuggesting(!suggesting)}
+                className={`text-xs px-2 py-1 rounded border transition-colors ${
+                  suggesting
+                    ? 'bg-amber-100 border-amber-300 text-amber-800'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+                title="변경 사항을 바로 적용하지 않고 제안으로 남깁니다"
+              >
+                {suggesting ? '제안 모드 켜짐' : '제안 모드'}
+              </button>
+            )}
             {canEdit && (
               <div className="flex items-center text-xs">
                 {saveStatus === 'saved' && (
@@ -931,6 +1348,16 @@ export default function ManualPage() {
                     <span className="text-orange-600">저장되지 않음</span>
                   </>
                 )}
+                {saveStatus === 'offline' && (
+                  <>
+                    <svg className="w-4 h-4 mr-1 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636a9 9 0 010 12.728M5.636 18.364a9 9 0 010-12.728M3 3l18 18" />
+                    </svg>
+                    <span className="text-gray-600">
+                      오프라인{pendingCount > 0 && ` — ${pendingCount}개 변경 대기 중`}
+                    </span>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -954,7 +1381,7 @@ export default function ManualPage() {
           <div className={`p-4 ${isLeftSidebarOpen ? '' : 'hidden'}`}>
             <div className="flex items-center justify-between mb-3">
               <h2 className="text-sm font-semibold text-gray-700">목차</h2>
-              {canEdit && (
+              {(canEdit || suggesting) && (
                 <button
                   onClick={handleAddSection}
                   className="text-primary-600 hover:text-primary-700"
@@ -1002,6 +1429,13 @@ export default function ManualPage() {
 
         {/* Main Content */}
         <main className="flex-1 overflow-y-auto">
+          {(!canEditDraft || showPublished) && (
+            <div className="px-4 py-2 text-sm border-b print:hidden bg-green-50 border-green-200 text-green-800">
+              {published
+                ? `게시된 버전입니다${published.publishedAt ? ` (${new Date(published.publishedAt).toLocaleString('ko-KR')} 게시)` : ''}`
+                : '아직 게시되지 않은 메뉴얼입니다'}
+            </div>
+          )}
           {/* Print-only header */}
           <header className="print-header hidden print:block mb-8">
             <h1 className="text-4xl font-bold text-gray-900 mb-2">{manual.title}</h1>
@@ -1024,12 +1458,21 @@ export default function ManualPage() {
               </div>
 
               <BlockEditor
-                blocks={selectedSection.blocks}
-                canEdit={canEdit}
+                blocks={editorBlocks}
+                canEdit={suggesting || (canEdit && selectedSection.canEdit !== false)}
                 onUpdateBlock={handleUpdateBlock}
                 onDeleteBlock={handleDeleteBlock}
                 onReorderBlocks={handleReorderBlocks}
                 onAddBlock={handleAddBlock}
+                blockLocks={blockLocks}
+                lockMode={lockMode}
+                onActiveBlockChange={setActiveBlock}
+                onBlockTyping={reportTyping}
+                commentCounts={commentCounts}
+                onCommentBlock={handleCommentBlock}
+                onDuplicateBlock={handleDuplicateBlock}
+                suggesting={suggesting}
+                blockSuggestions={blockSuggestions}
               />
 
               <div className="max-w-4xl mx-auto px-8 pb-6">
@@ -1082,117 +1525,250 @@ export default function ManualPage() {
           isRightSidebarOpen ? 'translate-x-0' : 'translate-x-full lg:translate-x-0'
         }`}>
           <div className={`p-4 ${isRightSidebarOpen ? '' : 'hidden'}`}>
-            <h3 className="text-sm font-semibold text-gray-700 mb-4">설정</h3>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-xs font-medium text-gray-600 mb-1">제목</label>
-                <input
-                  type="text"
-                  value={manual.title}
-                  readOnly
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
-                />
-              </div>
+            <div className="flex gap-4 mb-4 border-b border-gray-200">
+              {(['settings', 'comments', 'suggestions'] as const).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setRightPanelTab(tab)}
+                  className={`pb-2 text-sm font-semibold border-b-2 -mb-px ${
+                    rightPanelTab === tab
+                      ? 'border-primary-600 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {tab === 'settings'
+                    ? '설정'
+                    : tab === 'comments'
+                      ? '댓글'
+                      : `제안${suggestions.length > 0 ? ` (${suggestions.length})` : ''}`}
+                </button>
+              ))}
+            </div>
 
-              {manual.description && (
+            {rightPanelTab === 'comments' ? (
+              selectedSection ? (
+                <CommentsPanel
+                  manualId={manualId}
+                  sectionId={selectedSection.id}
+                  blocks={selectedSection.blocks}
+                  currentUserId={session?.user?.id ?? ''}
+                  canModerate={canEdit}
+                  draft={commentDraft}
+                  onDraftClear={() => setCommentDraft(null)}
+                  onCountsChange={setCommentCounts}
+                  onFocusBlock={handleFocusBlock}
+                />
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-4">좌측에서 섹션을 선택하세요</p>
+              )
+            ) : rightPanelTab === 'suggestions' ? (
+              <SuggestionsPanel
+                suggestions={suggestions}
+                sectionTitles={sectionTitles}
+                currentUserId={currentUserId}
+                canReview={canEdit}
+                onReview={review}
+                onWithdraw={withdraw}
+                onSelectSection={(sectionId) => {
+                  const section = findSectionInTree(manual.sections, sectionId)
+                  if (section) setSelectedSection(section)
+                }}
+              />
+            ) : (
+              <div className="space-y-4">
                 <div>
-                  <label className="block text-xs font-medium text-gray-600 mb-1">설명</label>
-                  <textarea
-                    value={manual.description}
+                  <label className="block text-xs font-medium text-gray-600 mb-1">제목</label>
+                  <input
+                    type="text"
+                    value={manual.title}
                     readOnly
-                    rows={3}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
                   />
                 </div>
-              )}
 
-              <div className="pt-4 border-t border-gray-200">
-                <h4 className="text-xs font-semibold text-gray-700 mb-2">공유</h4>
-                <p className="text-xs text-gray-500 mb-2">팀: {manual.team.name}</p>
+                {manual.description && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">설명</label>
+                    <textarea
+                      value={manual.description}
+                      readOnly
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+                    />
+                  </div>
+                )}
+
+                <div className="pt-4 border-t border-gray-200">
+                  <h4 className="text-xs font-semibold text-gray-700 mb-2">공유</h4>
+                  <p className="text-xs text-gray-500 mb-2">팀: {manual.team.name}</p>
+                  {permission === 'OWNER' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setShowShareModal(true)}
+                    >
+                      공유 설정
+                    </Button>
+                  )}
+                </div>
+
+                {canEditDraft && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <h4 className="text-xs font-semibold text-gray-700 mb-2">게시</h4>
+                    <PublicationPanel
+                      manualId={manualId}
+                      currentUserId={currentUserId}
+                      canManageReviewers={permission === 'OWNER'}
+                      onPublished={() => fetchManual(true)}
+                    />
+                  </div>
+                )}
+
                 {permission === 'OWNER' && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <h4 className="text-xs font-semibold text-gray-700 mb-2">템플릿</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={handleSaveAsTemplate}
+                    >
+                      템플릿으로 저장
+                    </Button>
+                  </div>
+                )}
+
+                {canEditDraft && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <h4 className="text-xs font-semibold text-gray-700 mb-2">버전</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setShowVersionModal(true)}
+                    >
+                      버전 이력 보기
+                    </Button>
+                  </div>
+                )}
+
+                <div className="pt-4 border-t border-gray-200">
+                  <h4 className="text-xs font-semibold text-gray-700 mb-2">출력</h4>
                   <Button
                     variant="outline"
                     size="sm"
                     className="w-full"
-                    onClick={() => setShowShareModal(true)}
+                    onClick={() => window.print()}
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                    </svg>
+                    매뉴얼 출력하기
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full mt-2"
+                    onClick={() => handleExport('pdf')}
+                    disabled={exporting !== null}
                   >
-                    공유 설정
+                    {exporting === 'pdf' ? 'PDF 만드는 중...' : 'PDF로 내보내기'}
                   </Button>
-                )}
-              </div>
-
-              <div className="pt-4 border-t border-gray-200">
-                <h4 className="text-xs font-semibold text-gray-700 mb-2">버전</h4>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full"
-                  onClick={() => setShowVersionModal(true)}
-                >
-                  버전 이력 보기
-                </Button>
-              </div>
-
-              <div className="pt-4 border-t border-gray-200">
-                <h4 className="text-xs font-semibold text-gray-700 mb-2">출력</h4>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full"
-                  onClick={() => window.print()}
-                >
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
-                  </svg>
-                  매뉴얼 출력하기
-                </Button>
-              </div>
-
-              {permission === 'OWNER' && (
-                <div className="pt-4 border-t border-gray-200">
-                  <h4 className="text-xs font-semibold text-gray-700 mb-2">위험 구역</h4>
                   <Button
                     variant="outline"
                     size="sm"
-                    className="w-full text-red-600 hover:bg-red-50 border-red-300"
-                    onClick={async () => {
-                      const userInput = prompt(
-                        `이 메뉴얼을 삭제하시겠습니까?\n\n이 작업은 되돌릴 수 없으며, 모든 섹션과 블록이 함께 삭제됩니다.\n\n계속하려면 메뉴얼 이름을 입력하세요:\n"${manual.title}"`
-                      )
-
-                      if (userInput === null) {
-                        // 사용자가 취소를 누른 경우
-                        return
-                      }
-
-                      if (userInput !== manual.title) {
-                        alert('메뉴얼 이름이 일치하지 않습니다.')
-                        return
-                      }
-
-                      try {
-                        const response = await fetch(`/api/manual/${manualId}`, {
-                          method: 'DELETE',
-                        })
-
-                        if (!response.ok) {
-                          const data = await response.json().catch(() => ({ error: '응답 파싱 실패' }))
-                          throw new Error(data.error || '메뉴얼 삭제에 실패했습니다')
-                        }
-
-                        router.push('/dashboard')
-                      } catch (error) {
-                        console.error('Delete manual error:', error)
-                        alert(error instanceof Error ? error.message : '메뉴얼 삭제 중 오류가 발생했습니다')
-                      }
-                    }}
+                    className="w-full mt-2"
+                    onClick={() => handleExport('docx')}
+                    disabled={exporting !== null}
                   >
-                    메뉴얼 삭제
+                    {exporting === 'docx' ? 'Word 문서 만드는 중...' : 'Word(DOCX)로 내보내기'}
                   </Button>
+                  <div className="flex gap-2 mt-2">
+                    <select
+                      value={markdownLayout}
+                      onChange={(e) => setMarkdownLayout(e.target.value as 'single' | 'sections')}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="single">한 파일</option>
+                      <option value="sections">대제목별 파일</option>
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleExport('md')}
+                      disabled={exporting !== null}
+                    >
+                      {exporting === 'md' ? '만드는 중...' : 'Markdown'}
+                    </Button>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full mt-2"
+                    onClick={() => handleExport('html')}
+                    disabled={exporting !== null}
+                  >
+                    {exporting === 'html' ? 'HTML 만드는 중...' : 'HTML 사이트로 내보내기 (zip)'}
+                  </Button>
+                  {permission === 'OWNER' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full mt-2"
+                      onClick={handleBackup}
+                      disabled={exporting !== null}
+                    >
+                      {exporting === 'backup' ? '백업 만드는 중...' : '백업 다운로드 (버전 포함)'}
+                    </Button>
+                  )}
                 </div>
-              )}
-            </div>
+
+                {permission === 'OWNER' && (
+                  <div className="pt-4 border-t border-gray-200">
+                    <h4 className="text-xs font-semibold text-gray-700 mb-2">위험 구역</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full text-red-600 hover:bg-red-50 border-red-300"
+                      onClick={async () => {
+                        const userInput = prompt(
+                          `이 메뉴얼을 삭제하시겠습니까?\n\n이 작업은 되돌릴 수 없으며, 모든 섹션과 블록이 함께 삭제됩니다.\n\n계속하려면 메뉴얼 이름을 입력하세요:\n"${manual.title}"`
+                        )
+
+                        if (userInput === null) {
+                          // 사용자가 취소를 누른 경우
+                          return
+                        }
+
+                        if (userInput !== manual.title) {
+                          alert('메뉴얼 이름이 일치하지 않습니다.')
+                          return
+                        }
+
+                        try {
+                          const response = await fetch(`/api/manual/${manualId}`, {
+                            method: 'DELETE',
+                          })
+
+                          if (!response.ok) {
+                            const data = await response.json().catch(() => ({ error: '응답 파싱 실패' }))
+                            throw new Error(data.error || '메뉴얼 삭제에 실패했습니다')
+                          }
+
+                          router.push('/dashboard')
+                        } catch (error) {
+                          console.error('Delete manual error:', error)
+                          alert(error instanceof Error ? error.message : '메뉴얼 삭제 중 오류가 발생했습니다')
+                        }
+                      }}
+                    >
+                      메뉴얼 삭제
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </aside>
       </div>
@@ -1214,6 +1790,31 @@ export default function ManualPage() {
             canEdit={canEdit}
             onRestore={async () => await fetchManual()}
           />
+          <CopyToModal
+            isOpen={!!copyItem}
+            onClose={() => setCopyItem(null)}
+            manualId={manual.id}
+            item={copyItem}
+            onCopied={handleCopied}
+          />
+          {accessSection && (
+            <SectionAccessModal
+              isOpen={!!accessSection}
+              onClose={() => setAccessSection(null)}
+              manualId={manual.id}
+              sectionId={accessSection.id}
+              sectionTitle={accessSection.title}
+              onSaved={async () => await fetchManual(true)}
+            />
+          )}
+          <ConflictDialog
+            conflict={conflicts[0] ?? null}
+            remaining={Math.max(conflicts.length - 1, 0)}
+            isSaving={isResolvingConflict}
+            onKeepMine={() => handleResolveConflict('mine')}
+            onTakeTheirs={() => handleResolveConflict('theirs')}
+            onMerge={(merged) => handleResolveConflict('merge', merged)}
+          />
         </>
       )}
     </div>
@@ -0,0 +1,314 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/Button'
+import type { NotificationType } from '@/types'
+import { NOTIFICATION_TYPE_LABELS, getNotificationLink } from '@/lib/notification-utils'
+import { formatDateTime } from '@/lib/utils'
+
+interface NotificationItem {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  isRead: boolean
+  relatedId: string | null
+  createdAt: string
+}
+
+const TYPE_FILTERS: Array<NotificationType | 'ALL'> = [
+  'ALL',
+  'MANUAL_SHARED',
+  'MANUAL_UPDATED',
+  'PERMISSION_CHANGED',
+  'TEAM_INVITATION',
+  'MEMBER_JOINED',
+  'MEMBER_LEFT',
+  'COMMENT_MENTION',
+  'REVIEW_REQUESTED',
+  'REVIEW_COMPLETED',
+]
+
+export default function NotificationsPage() {
+  const { status } = useSession()
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [typeFilter, setTypeFilter] = useState<NotificationType | 'ALL'>('ALL')
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated') {
+      setLoading(true)
+      fetchNotifications(null)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, typeFilter, unreadOnly])
+
+  const fetchNotifications = async (cursor: string | null) => {
+    const params = new URLSearchParams({ limit: '20' })
+    if (typeFilter !== 'ALL') params.set('type', typeFilter)
+    if (unreadOnly) params.set('unreadOnly', 'true')
+    if (cursor) params.set('cursor', cursor)
+
+    try {
+      const response = await fetch(`/api/notification?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '알림을 불러오는데 실패했습니다')
+      }
+
+      setNotifications((prev) => (cursor ? [...prev, ...data.notifications] : data.notifications))
+      setUnreadCount(data.unreadCount)
+      setNextCursor(data.nextCursor)
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+      alert(error instanceof Error ? error.message : '알림을 불러오는데 실패했습니다')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  const handleLoadMore = () => {
+    if (!nextCursor) return
+    setLoadingMore(true)
+    fetchNotifications(nextCursor)
+  }
+
+  const handleToggleRead = async (notification: NotificationItem) => {
+    try {
+      const response = await fetch(`/api/notification/${notification.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isRead: !notification.isRead }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || '알림 상태 변경에 실패했습니다')
+      }
+
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, isRead: !n.isRead } : n))
+      )
+      setUnreadCount((prev) => (notification.isRead ? prev + 1 : Math.max(0, prev - 1)))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '알림 상태 변경에 실패했습니다')
+    }
+  }
+
+  const handleDelete = async (notification: NotificationItem) => {
+    try {
+      const response = await fetch(`/api/notification/${notification.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || '알림 삭제에 실패했습니다')
+      }
+
+      setNotifications((prev) => prev.filter((n) => n.id !== notification.id))
+      if (!notification.isRead) {
+        setUnreadCount((prev) => Math.max(0, prev - 1))
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '알림 삭제에 실패했습니다')
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notification/read-all', {
+        method: 'PUT',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || '알림 상태 변경에 실패했습니다')
+      }
+
+      if (unreadOnly) {
+        setNotifications([])
+        setNextCursor(null)
+      } else {
+        setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })))
+      }
+      setUnreadCount(0)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '알림 상태 변경에 실패했습니다')
+    }
+  }
+
+  const handleOpen = async (notification: NotificationItem) => {
+    const link = getNotificationLink(notification.type, notification.relatedId)
+
+    if (!notification.isRead) {
+      await handleToggleRead(notification)
+    }
+
+    if (link) {
+      router.push(link)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">로딩 중...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/dashboard')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              대시보드
+            </Button>
+            <h1 className="text-xl font-bold text-gray-900">
+              알림
+              {unreadCount > 0 && (
+                <span className="ml-2 text-sm font-medium text-primary-600">
+                  읽지 않음 {unreadCount}개
+                </span>
+              )}
+            </h1>
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
+              모두 읽음으로 표시
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {TYPE_FILTERS.map((type) => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+                typeFilter === type
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              {type === 'ALL' ? '전체' : NOTIFICATION_TYPE_LABELS[type]}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            읽지 않은 알림만
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12">
+            <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            <p className="text-gray-500 text-lg">알림이 없습니다</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`p-4 rounded-lg border transition-all ${
+                  notification.isRead
+                    ? 'bg-white border-gray-200'
+                    : 'bg-primary-50 border-primary-200'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded">
+                        {NOTIFICATION_TYPE_LABELS[notification.type]}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {formatDateTime(notification.createdAt)}
+                      </span>
+                    </div>
+                    <h3 className="font-semibold text-gray-900">{notification.title}</h3>
+                    <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                  </button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleRead(notification)}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={notification.isRead ? '읽지 않음으로 표시' : '읽음으로 표시'}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(notification)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                      title="삭제"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {nextCursor && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={handleLoadMore} isLoading={loadingMore}>
+                  더 보기
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { handleLogout } from '@/lib/auth-utils'
+import NotificationBell from '@/components/notifications/NotificationBell'
+import NotificationPreferences from '@/components/notifications/NotificationPreferences'
 
 interface User {
   id: string
@@ -168,11 +170,7 @@ export default function ProfilePage() {
             </button>
           </div>
           <div className="flex items-center space-x-4">
-            <button className="p-2 hover:bg-gray-100 rounded-lg">
-              <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
-              </svg>
-            </button>
+            <NotificationBell />
             <div className="relative">
               <button
                 onClick={() => setShowUserMenu(!showUserMenu)}
@@ -399,6 +397,9 @@ export default function ProfilePage() {
             )}
           </div>
 
+          {/* Notification Preferences */}
+          <NotificationPreferences />
+
           {/* Back to Dashboard */}
           <div className="flex justify-center pt-4">
             <Button
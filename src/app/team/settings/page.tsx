@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/Button'
 import { handleLogout } from '@/lib/auth-utils'
+import NotificationBell from '@/components/notifications/NotificationBell'
 
 interface TeamMember {
   id: string
@@ -42,6 +43,10 @@ export default function TeamSettingsPage() {
   const [inviteEmail, setInviteEmail] = useState('')
   const [inviteRole, setInviteRole] = useState<'EDITOR' | 'VIEWER'>('VIEWER')
 
+  // Backup & restore
+  const [backingUp, setBackingUp] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/login')
@@ -209,6 +214,58 @@ export default function TeamSettingsPage() {
     }
   }
 
+  const handleDownloadBackup = async () => {
+    setBackingUp(true)
+    try {
+      const response = await fetch('/api/team/backup')
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || '백업에 실패했습니다')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = /filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1]
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename ? decodeURIComponent(filename) : `${team?.name ?? 'team'}-backup.zip`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '백업에 실패했습니다')
+    } finally {
+      setBackingUp(false)
+    }
+  }
+
+  const handleRestoreBackup = async (file: File | undefined) => {
+    if (!file) return
+    if (!confirm(`"${file.name}" 백업의 메뉴얼을 이 팀에 새 메뉴얼로 복원하시겠습니까?`)) return
+
+    setRestoring(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/team/backup', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '복원에 실패했습니다')
+      }
+
+      const warnings = data.warnings.length > 0 ? `\n\n${data.warnings.join('\n')}` : ''
+      alert(`메뉴얼 ${data.manualIds.length}개를 복원했습니다${warnings}`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '복원에 실패했습니다')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
   const handleDeleteTeam = async () => {
     if (!team) return
 
@@ -270,11 +327,7 @@ export default function TeamSettingsPage() {
             </button>
           </div>
           <div className="flex items-center space-x-4">
-            <button className="p-2 hover:bg-gray-100 rounded-lg">
-              <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
-              </svg>
-            </button>
+            <NotificationBell />
             <div className="relative">
               <button
                 onClick={() => setShowUserMenu(!showUserMenu)}
@@ -466,6 +519,35 @@ export default function TeamSettingsPage() {
             </div>
           </div>
 
+          {/* Backup & Restore */}
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-bold text-gray-900 mb-2">백업 및 복원</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              팀의 모든 메뉴얼을 섹션, 블록, 파일, 버전 이력, 공유 설정과 함께 zip 파일로 내려받습니다. 복원하면 백업의 메뉴얼이 이 팀에 새 메뉴얼로 만들어지며, 사용자는 이메일로 연결됩니다.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleDownloadBackup} disabled={backingUp || restoring}>
+                {backingUp ? '백업 만드는 중...' : '팀 백업 다운로드'}
+              </Button>
+              <label
+                className={`inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 cursor-pointer ${
+                  backingUp || restoring ? 'opacity-50 pointer-events-none' : ''
+                }`}
+              >
+                {restoring ? '복원 중...' : '백업에서 복원'}
+                <input
+                  type="file"
+                  accept=".zip,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleRestoreBackup(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+
           {/* Danger Zone */}
           <div className="bg-white rounded-xl shadow-sm p-6 border-2 border-red-200">
             <h2 className="text-lg font-bold text-red-600 mb-2">위험 구역</h2>
@@ -0,0 +1,442 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { timeAgo } from '@/lib/utils'
+import { blockText } from '@/lib/version-diff'
+import MentionTextarea, { activeMentions, type MentionUser } from './MentionTextarea'
+
+interface CommentUser {
+  id: string
+  name: string
+  profileImage: string | null
+}
+
+interface Comment {
+  id: string
+  content: string
+  createdAt: string
+  author: CommentUser
+}
+
+export interface CommentThread {
+  id: string
+  blockId: string
+  authorId: string
+  quote: string | null
+  rangeStart: number | null
+  rangeEnd: number | null
+  resolvedAt: string | null
+  createdAt: string
+  author: CommentUser
+  resolvedBy: CommentUser | null
+  comments: Comment[]
+}
+
+export interface CommentDraft {
+  blockId: string
+  quote?: string
+  rangeStart?: number
+  rangeEnd?: number
+}
+
+interface CommentBlock {
+  id: string
+  type: string
+  content: string
+}
+
+interface CommentsPanelProps {
+  manualId: string
+  sectionId: string
+  blocks: CommentBlock[]
+  currentUserId: string
+  /** OWNER/EDITOR may resolve and delete any thread */
+  canModerate: boolean
+  draft: CommentDraft | null
+  onDraftClear: () => void
+  /** Open thread count per block */
+  onCountsChange: (counts: Record<string, number>) => void
+  onFocusBlock?: (blockId: string) => void
+}
+
+type ThreadFilter = 'open' | 'resolved'
+
+function excerpt(text: string, length = 60) {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Comment text with @mentions of known users highlighted
+ */
+function CommentContent({ content, users }: { content: string; users: MentionUser[] }) {
+  const names = users.map((user) => escapeRegExp(user.name)).filter(Boolean)
+  if (names.length === 0) {
+    return <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{content}</p>
+  }
+
+  const parts = content.split(new RegExp(`(@(?:${names.join('|')}))`, 'g'))
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="text-primary-600 font-medium">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  )
+}
+
+/**
+ * Box for a new comment or reply with @mention tracking
+ */
+function CommentComposer({
+  users,
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  users: MentionUser[]
+  placeholder: string
+  submitLabel: string
+  onSubmit: (content: string, mentions: string[]) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const [content, setContent] = useState('')
+  const [picked, setPicked] = useState<MentionUser[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    if (!content.trim() || isSubmitting) return
+
+    setIsSubmitting(true)
+    const ok = await onSubmit(content.trim(), activeMentions(content, picked))
+    setIsSubmitting(false)
+
+    if (ok) {
+      setContent('')
+      setPicked([])
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={content}
+        onChange={setContent}
+        onMention={(user) => setPicked((prev) => [...prev, user])}
+        users={users}
+        placeholder={placeholder}
+        disabled={isSubmitting}
+        onSubmit={handleSubmit}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            취소
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={!content.trim()} isLoading={isSubmitting}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Comment threads of the current section
+ * Anyone who can view the section can comment, including VIEWERs.
+ */
+export default function CommentsPanel({
+  manualId,
+  sectionId,
+  blocks,
+  currentUserId,
+  canModerate,
+  draft,
+  onDraftClear,
+  onCountsChange,
+  onFocusBlock,
+}: CommentsPanelProps) {
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  const [users, setUsers] = useState<MentionUser[]>([])
+  const [filter, setFilter] = useState<ThreadFilter>('open')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/manual/${manualId}/comments?sectionId=${sectionId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setThreads(data.threads)
+      } else {
+        console.error('Failed to fetch comments:', data.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch comments:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [manualId, sectionId])
+
+  useEffect(() => {
+    setIsLoading(true)
+    fetchThreads()
+  }, [fetchThreads])
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const response = await fetch(`/api/manual/${manualId}/comments/mentionable?sectionId=${sectionId}`)
+        const data = await response.json()
+        if (response.ok) {
+          setUsers(data.users)
+        }
+      } catch (error) {
+        console.error('Failed to fetch mentionable users:', error)
+      }
+    }
+    fetchUsers()
+  }, [manualId, sectionId])
+
+  useEffect(() => {
+    const counts: Record<string, number> = {}
+    threads
+      .filter((thread) => !thread.resolvedAt)
+      .forEach((thread) => {
+        counts[thread.blockId] = (counts[thread.blockId] ?? 0) + 1
+      })
+    onCountsChange(counts)
+  }, [threads, onCountsChange])
+
+  // Show open threads when starting a new one
+  useEffect(() => {
+    if (draft) {
+      setFilter('open')
+    }
+  }, [draft])
+
+  const replaceThread = (thread: CommentThread) => {
+    setThreads((prev) => prev.map((item) => (item.id === thread.id ? thread : item)))
+  }
+
+  const handleCreate = async (content: string, mentions: string[]) => {
+    if (!draft) return false
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...draft, content, mentions }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || '댓글 작성에 실패했습니다')
+        return false
+      }
+
+      setThreads((prev) => [...prev, data.thread])
+      onDraftClear()
+      return true
+    } catch (error) {
+      console.error('Failed to create comment:', error)
+      alert('댓글 작성 중 오류가 발생했습니다')
+      return false
+    }
+  }
+
+  const handleReply = async (threadId: string, content: string, mentions: string[]) => {
+    try {
+      const response = await fetch(`/api/manual/${manualId}/comments/${threadId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content, mentions }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || '답글 작성에 실패했습니다')
+        return false
+      }
+
+      replaceThread(data.thread)
+      return true
+    } catch (error) {
+      console.error('Failed to reply:', error)
+      alert('답글 작성 중 오류가 발생했습니다')
+      return false
+    }
+  }
+
+  const handleResolve = async (thread: CommentThread) => {
+    try {
+      const response = await fetch(`/api/manual/${manualId}/comments/${thread.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resolved: !thread.resolvedAt }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || '댓글 상태 변경에 실패했습니다')
+        return
+      }
+
+      replaceThread(data.thread)
+    } catch (error) {
+      console.error('Failed to update comment thread:', error)
+      alert('댓글 상태 변경 중 오류가 발생했습니다')
+    }
+  }
+
+  const handleDelete = async (thread: CommentThread) => {
+    if (!confirm('이 댓글 스레드를 삭제하시겠습니까?')) return
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}/comments/${thread.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || '댓글 삭제에 실패했습니다')
+        return
+      }
+
+      setThreads((prev) => prev.filter((item) => item.id !== thread.id))
+    } catch (error) {
+      console.error('Failed to delete comment thread:', error)
+      alert('댓글 삭제 중 오류가 발생했습니다')
+    }
+  }
+
+  const blockExcerpt = (blockId: string) => {
+    const block = blocks.find((item) => item.id === blockId)
+    if (!block) return '삭제된 블록'
+    return excerpt(blockText(block)) || '(내용 없음)'
+  }
+
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length
+  const visibleThreads = threads.filter((thread) => (filter === 'open' ? !thread.resolvedAt : !!thread.resolvedAt))
+
+  return (
+    <div className="space-y-4">
+      {draft && (
+        <div className="p-3 border border-primary-200 bg-primary-50 rounded-lg space-y-2">
+          <p className="text-xs text-gray-500">새 댓글 · {blockExcerpt(draft.blockId)}</p>
+          {draft.quote && (
+            <blockquote className="pl-2 border-l-2 border-primary-400 text-xs text-gray-600 italic">
+              {excerpt(draft.quote, 120)}
+            </blockquote>
+          )}
+          <CommentComposer
+            users={users}
+            placeholder="댓글을 입력하세요 (@로 멘션)"
+            submitLabel="댓글 달기"
+            onSubmit={handleCreate}
+            onCancel={onDraftClear}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+        {(['open', 'resolved'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`flex-1 px-3 py-1 text-sm rounded-md ${
+              filter === value ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {value === 'open' ? `열린 댓글 (${openCount})` : `해결됨 (${threads.length - openCount})`}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 text-center py-4">불러오는 중...</p>
+      ) : visibleThreads.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          {filter === 'open' ? '열린 댓글이 없습니다' : '해결된 댓글이 없습니다'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visibleThreads.map((thread) => {
+            const canManage = canModerate || thread.authorId === currentUserId
+            return (
+              <li key={thread.id} className="p-3 border border-gray-200 rounded-lg space-y-3">
+                <button
+                  onClick={() => onFocusBlock?.(thread.blockId)}
+                  className="block w-full text-left text-xs text-gray-500 hover:text-primary-600 truncate"
+                >
+                  {blockExcerpt(thread.blockId)}
+                </button>
+                {thread.quote && (
+                  <blockquote className="pl-2 border-l-2 border-yellow-400 text-xs text-gray-600 italic">
+                    {excerpt(thread.quote, 120)}
+                  </blockquote>
+                )}
+
+                <ul className="space-y-2">
+                  {thread.comments.map((comment) => (
+                    <li key={comment.id}>
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-sm font-medium text-gray-900">{comment.author.name}</span>
+                        <span className="text-xs text-gray-400">{timeAgo(comment.createdAt)}</span>
+                      </div>
+                      <CommentContent content={comment.content} users={users} />
+                    </li>
+                  ))}
+                </ul>
+
+                {thread.resolvedAt && thread.resolvedBy && (
+                  <p className="text-xs text-green-600">
+                    {thread.resolvedBy.name}님이 해결함 · {timeAgo(thread.resolvedAt)}
+                  </p>
+                )}
+
+                {!thread.resolvedAt && (
+                  <CommentComposer
+                    users={users}
+                    placeholder="답글 (@로 멘션)"
+                    submitLabel="답글"
+                    onSubmit={(content, mentions) => handleReply(thread.id, content, mentions)}
+                  />
+                )}
+
+                {canManage && (
+                  <div className="flex justify-end gap-3 text-xs">
+                    <button onClick={() => handleResolve(thread)} className="text-gray-500 hover:text-primary-600">
+                      {thread.resolvedAt ? '다시 열기' : '해결'}
+                    </button>
+                    <button onClick={() => handleDelete(thread)} className="text-gray-500 hover:text-red-600">
+                      삭제
+                    </button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useRef, useState } from 'react'
+
+export interface MentionUser {
+  id: string
+  name: string
+  email: string
+  profileImage: string | null
+}
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  /** Users picked from the @ menu so far */
+  onMention: (user: MentionUser) => void
+  users: MentionUser[]
+  placeholder?: string
+  disabled?: boolean
+  onSubmit?: () => void
+}
+
+/**
+ * `@query` right before the caret, if any
+ */
+function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[2].length - 1, query: match[2] }
+}
+
+/**
+ * IDs of picked users whose @name is still in the text
+ */
+export function activeMentions(text: string, picked: MentionUser[]): string[] {
+  return Array.from(new Set(picked.filter((user) => text.includes(`@${user.name}`)).map((user) => user.id)))
+}
+
+/**
+ * Textarea with an @mention menu of team members
+ * Ctrl/Cmd+Enter submits
+ */
+export default function MentionTextarea({
+  value,
+  onChange,
+  onMention,
+  users,
+  placeholder,
+  disabled,
+  onSubmit,
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = mention
+    ? users
+        .filter((user) => {
+          const query = mention.query.toLowerCase()
+          return user.name.toLowerCase().includes(query) || user.email.toLowerCase().includes(query)
+        })
+        .slice(0, 6)
+    : []
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret))
+    setActiveIndex(0)
+  }
+
+  const pick = (user: MentionUser) => {
+    if (!mention) return
+    const caret = mention.start + mention.query.length + 1
+    const inserted = `@${user.name} `
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret)
+
+    onChange(next)
+    onMention(user)
+    setMention(null)
+
+    const position = mention.start + inserted.length
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(position, position)
+    })
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        disabled={disabled}
+        placeholder={placeholder}
+        rows={2}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={(e) => {
+          if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault()
+              const step = e.key === 'ArrowDown' ? 1 : -1
+              setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length)
+              return
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+              e.preventDefault()
+              pick(suggestions[activeIndex])
+              return
+            }
+            if (e.key === 'Escape') {
+              setMention(null)
+              return
+            }
+          }
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault()
+            onSubmit?.()
+          }
+        }}
+        onBlur={() => setMention(null)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                // Keep the textarea focused
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  pick(user)
+                }}
+                className={`w-full text-left px-3 py-1.5 text-sm ${
+                  index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-medium">{user.name}</span>
+                <span className="ml-2 text-xs text-gray-400">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -16,7 +16,7 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
-import { SortableBlock } from './SortableBlock'
+import { SortableBlock, type BlockSuggestionView } from './SortableBlock'
 import { useParams } from 'next/navigation'
 
 interface Block {
@@ -33,6 +33,19 @@ interface BlockEditorProps {
   onDeleteBlock: (blockId: string) => Promise<void>
   onReorderBlocks: (blocks: Block[]) => Promise<void>
   onAddBlock: (type: 'HEADING1' | 'HEADING2' | 'HEADING3' | 'BODY' | 'IMAGE' | 'VIDEO' | 'TABLE', initialContent?: string) => Promise<void>
+  /** Names of other users typing in blocks, by block ID */
+  blockLocks?: Record<string, string>
+  lockMode?: 'warn' | 'block'
+  onActiveBlockChange?: (blockId: string | null) => void
+  onBlockTyping?: (blockId: string) => void
+  /** Open comment threads per block */
+  commentCounts?: Record<string, number>
+  onCommentBlock?: (blockId: string, range?: { quote: string; rangeStart: number; rangeEnd: number }) => void
+  onDuplicateBlock?: (blockId: string) => void
+  /** Suggestion mode: edits become suggestions */
+  suggesting?: boolean
+  /** Pending suggestions to mark per block */
+  blockSuggestions?: Record<string, BlockSuggestionView>
 }
 
 export default function BlockEditor({
@@ -42,6 +55,15 @@ export default function BlockEditor({
   onDeleteBlock,
   onReorderBlocks,
   onAddBlock,
+  blockLocks,
+  lockMode,
+  onActiveBlockChange,
+  onBlockTyping,
+  commentCounts,
+  onCommentBlock,
+  onDuplicateBlock,
+  suggesting,
+  blockSuggestions,
 }: BlockEditorProps) {
   const params = useParams()
   const manualId = params.id as string
@@ -212,10 +234,20 @@ export default function BlockEditor({
                 {blocks.map((block) => (
                   <SortableBlock
                     key={block.id}
+                    manualId={manualId}
                     block={block}
                     canEdit={canEdit}
                     onUpdate={handleUpdateBlock}
                     onDelete={handleDeleteBlock}
+                    lockedBy={blockLocks?.[block.id]}
+                    lockMode={lockMode}
+                    onActiveChange={onActiveBlockChange}
+                    onTyping={onBlockTyping}
+                    commentCount={commentCounts?.[block.id]}
+                    onComment={onCommentBlock}
+                    onDuplicate={onDuplicateBlock}
+                    suggesting={suggesting}
+                    suggestion={blockSuggestions?.[block.id]}
                   />
                 ))}
               </div>
@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { HocuspocusProvider } from '@hocuspocus/provider'
+import RichTextEditor, { type RichTextCollaboration } from './RichTextEditor'
+import { sanitizeHtml } from '@/lib/utils'
+
+interface CollabSession {
+  url: string
+  document: string
+  token: string
+  user: { name: string; color: string }
+}
+
+interface Collaborator {
+  clientId: number
+  name: string
+  color: string
+}
+
+interface CollaborativeRichTextEditorProps {
+  manualId: string
+  blockId: string
+  content: string
+  /** Rendered when real-time editing is unavailable (server down, not configured) */
+  fallback: ReactNode
+}
+
+async function fetchCollabSession(manualId: string, blockId: string): Promise<CollabSession> {
+  const response = await fetch(`/api/manual/${manualId}/block/${blockId}/collab`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || '공동 편집 연결에 실패했습니다')
+  }
+
+  return data
+}
+
+/**
+ * Rich text editor for a BODY block shared with other editors in real time
+ */
+export default function CollaborativeRichTextEditor({
+  manualId,
+  blockId,
+  content,
+  fallback,
+}: CollaborativeRichTextEditorProps) {
+  const [collaboration, setCollaboration] = useState<RichTextCollaboration | null>(null)
+  const [isSynced, setIsSynced] = useState(false)
+  const [failed, setFailed] = useState(false)
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([])
+
+  useEffect(() => {
+    let provider: HocuspocusProvider | null = null
+    let cancelled = false
+
+    const connect = async () => {
+      try {
+        const session = await fetchCollabSession(manualId, blockId)
+        if (cancelled) return
+
+        let initialToken: string | null = session.token
+        provider = new HocuspocusProvider({
+          url: session.url,
+          name: session.document,
+          // Tokens are short-lived, fetch a fresh one on every reconnect
+          token: async () => {
+            if (initialToken) {
+              const token = initialToken
+              initialToken = null
+              return token
+            }
+            return (await fetchCollabSession(manualId, blockId)).token
+          },
+          onSynced: () => setIsSynced(true),
+          onAuthenticationFailed: () => setFailed(true),
+          onAwarenessUpdate: ({ states }) => {
+            const ownId = provider?.awareness?.clientID
+            setCollaborators(
+              states
+                .filter((state) => state.clientId !== ownId && state.user)
+                .map((state) => ({
+                  clientId: state.clientId,
+                  name: state.user.name,
+                  color: state.user.color,
+                }))
+            )
+          },
+        })
+
+        setCollaboration({ provider, user: session.user })
+      } catch (error) {
+        console.error('Failed to start collaboration:', error)
+        if (!cancelled) setFailed(true)
+      }
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      provider?.destroy()
+      setCollaboration(null)
+      setIsSynced(false)
+      setCollaborators([])
+    }
+  }, [manualId, blockId])
+
+  if (failed) {
+    return <>{fallback}</>
+  }
+
+  // Show the saved content until the shared document has arrived
+  if (!collaboration || !isSynced) {
+    return (
+      <div
+        className="prose prose-sm max-w-none px-1 py-0.5 border border-transparent"
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(content) }}
+      />
+    )
+  }
+
+  return (
+    <div className="relative">
+      {collaborators.length > 0 && (
+        <div className="absolute -top-3 right-2 z-10 flex items-center gap-1">
+          {collaborators.map((collaborator) => (
+            <span
+              key={collaborator.clientId}
+              className="px-1.5 py-0.5 text-xs font-medium text-white rounded"
+              style={{ backgroundColor: collaborator.color }}
+              title={`${collaborator.name} 님이 편집 중입니다`}
+            >
+              {collaborator.name}
+            </span>
+          ))}
+        </div>
+      )}
+      <RichTextEditor
+        key={collaboration.provider.document.guid}
+        content={content}
+        onChange={() => {}}
+        collaboration={collaboration}
+      />
+    </div>
+  )
+}
@@ -1,17 +1,25 @@
 'use client'
 
 import { useEditor, EditorContent } from '@tiptap/react'
-import StarterKit from '@tiptap/starter-kit'
-import Link from '@tiptap/extension-link'
-import Underline from '@tiptap/extension-underline'
+import Collaboration from '@tiptap/extension-collaboration'
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor'
+import type { HocuspocusProvider } from '@hocuspocus/provider'
 import { useEffect, useState } from 'react'
 import { sanitizeHtml } from '@/lib/utils'
+import { createRichTextExtensions } from '@/lib/editor-extensions'
+
+export interface RichTextCollaboration {
+  provider: HocuspocusProvider
+  user: { name: string; color: string }
+}
 
 interface RichTextEditorProps {
   content: string
   onChange: (content: string) => void
   onBlur?: () => void
   readOnly?: boolean
+  /** Edit a shared document instead of `content`; changes are saved by the collaboration server */
+  collaboration?: RichTextCollaboration
 }
 
 export default function RichTextEditor({
@@ -19,24 +27,27 @@ export default function RichTextEditor({
   onChange,
   onBlur,
   readOnly = false,
+  collaboration,
 }: RichTextEditorProps) {
   const [isFocused, setIsFocused] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
 
   const editor = useEditor({
-    extensions: [
-      StarterKit,
-      Link.configure({
-        openOnClick: false,
-        HTMLAttributes: {
-          class: 'text-primary-600 underline cursor-pointer',
-        },
-      }),
-      Underline,
-    ],
-    content,
+    extensions: collaboration
+      ? [
+          ...createRichTextExtensions({ history: false }),
+          Collaboration.configure({ document: collaboration.provider.document }),
+          CollaborationCursor.configure({
+            provider: collaboration.provider,
+            user: collaboration.user,
+          }),
+        ]
+      : createRichTextExtensions(),
+    content: collaboration ? undefined : content,
     editable: !readOnly,
     onUpdate: ({ editor }) => {
+      if (collaboration) return
+
       // Sanitize HTML to prevent XSS attacks
       const sanitized = sanitizeHtml(editor.getHTML())
       onChange(sanitized)
@@ -51,10 +62,11 @@ export default function RichTextEditor({
   })
 
   useEffect(() => {
-    if (editor && content !== editor.getHTML()) {
+    // A shared document is the source of truth while collaborating
+    if (editor && !collaboration && content !== editor.getHTML()) {
       editor.commands.setContent(content)
     }
-  }, [content, editor])
+  }, [content, editor, collaboration])
 
   if (!editor) {
     return null
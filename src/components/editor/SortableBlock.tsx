@@ -4,9 +4,11 @@ import { useState, useRef, useEffect, useCallback } from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import RichTextEditor from './RichTextEditor'
+import CollaborativeRichTextEditor from './CollaborativeRichTextEditor'
 import TableBlock from './TableBlock'
 import ImageBlock from './ImageBlock'
 import { safeJsonParse, isValidUrl } from '@/lib/utils'
+import { blockText } from '@/lib/version-diff'
 
 interface Block {
   id: string
@@ -15,14 +17,62 @@ interface Block {
   order: number
 }
 
+// Real-time co-editing of BODY blocks is enabled when a collaboration server is configured
+const COLLAB_ENABLED = !!process.env.NEXT_PUBLIC_COLLAB_URL
+
+export interface BlockSuggestionView {
+  /** How the block is marked: suggested addition, change or removal */
+  state: 'insert' | 'update' | 'delete'
+  /** Shown under the block (changes, accept/reject) */
+  footer: React.ReactNode
+  /** Suggested blocks of other users cannot be edited */
+  readOnly?: boolean
+}
+
+const SUGGESTION_STATE_CLASSES: Record<BlockSuggestionView['state'], string> = {
+  insert: 'rounded bg-green-50 ring-1 ring-green-300',
+  update: 'rounded ring-1 ring-amber-300',
+  delete: 'rounded bg-red-50 ring-1 ring-red-300 line-through opacity-60',
+}
+
 interface SortableBlockProps {
+  manualId: string
   block: Block
   canEdit: boolean
   onUpdate: (blockId: string, content: string) => Promise<void>
   onDelete: (blockId: string) => Promise<void>
+  /** Name of another user typing in this block */
+  lockedBy?: string
+  lockMode?: 'warn' | 'block'
+  onActiveChange?: (blockId: string | null) => void
+  onTyping?: (blockId: string) => void
+  /** Open comment threads on this block */
+  commentCount?: number
+  /** Start a comment thread, with the selected text of a body block if any */
+  onComment?: (blockId: string, range?: { quote: string; rangeStart: number; rangeEnd: number }) => void
+  /** Copy the block (next to itself or elsewhere) */
+  onDuplicate?: (blockId: string) => void
+  /** Edits are sent as suggestions: no co-editing, locks or reordering */
+  suggesting?: boolean
+  suggestion?: BlockSuggestionView
 }
 
-export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBlockProps) {
+export function SortableBlock({
+  manualId,
+  block,
+  canEdit: canEditBlock,
+  onUpdate,
+  onDelete,
+  lockedBy,
+  lockMode = 'warn',
+  onActiveChange,
+  onTyping,
+  commentCount = 0,
+  onComment,
+  onDuplicate,
+  suggesting = false,
+  suggestion,
+}: SortableBlockProps) {
   const {
     attributes,
     listeners,
@@ -41,6 +91,11 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
   const [isHovered, setIsHovered] = useState(false)
   const [localContent, setLocalContent] = useState('')
 
+  // Co-edited body blocks merge concurrent changes and need no lock
+  const isCollaborative = block.type === 'BODY' && canEditBlock && COLLAB_ENABLED && !suggesting
+  const lockHolder = isCollaborative || suggesting ? undefined : lockedBy
+  const canEdit = canEditBlock && !suggestion?.readOnly && !(lockHolder && lockMode === 'block')
+
   useEffect(() => {
     // BODY and TABLE blocks store content directly (HTML or JSON string)
     if (block.type === 'BODY' || block.type === 'TABLE') {
@@ -118,7 +173,7 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
 
     // Body block with rich text editor
     if (block.type === 'BODY') {
-      return (
+      const editor = (
         <RichTextEditor
           content={block.content}
           onChange={(content) => setLocalContent(content)}
@@ -130,6 +185,19 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
           readOnly={!canEdit}
         />
       )
+
+      if (isCollaborative) {
+        return (
+          <CollaborativeRichTextEditor
+            manualId={manualId}
+            blockId={block.id}
+            content={block.content}
+            fallback={editor}
+          />
+        )
+      }
+
+      return editor
     }
 
     // Table block
@@ -256,6 +324,28 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
     return <div className="text-gray-500">지원하지 않는 블록 타입</div>
   }
 
+  const handleComment = (e: React.MouseEvent<HTMLElement>) => {
+    if (!onComment) return
+
+    // Quote the selected text of a body block
+    const selection = window.getSelection()
+    const blockElement = e.currentTarget.closest('[data-block-id]')
+    const quote = selection?.toString().trim()
+    if (
+      block.type === 'BODY' &&
+      quote &&
+      selection?.anchorNode &&
+      blockElement?.contains(selection.anchorNode)
+    ) {
+      const rangeStart = blockText(block).indexOf(quote)
+      if (rangeStart !== -1) {
+        onComment(block.id, { quote, rangeStart, rangeEnd: rangeStart + quote.length })
+        return
+      }
+    }
+    onComment(block.id)
+  }
+
   return (
     <div
       ref={setNodeRef}
@@ -265,9 +355,16 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
       data-block-type={block.type}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => canEdit && !isCollaborative && !suggesting && onActiveChange?.(block.id)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          onActiveChange?.(null)
+        }
+      }}
+      onInput={() => canEdit && !isCollaborative && !suggesting && onTyping?.(block.id)}
     >
       {/* Drag Handle - Absolute positioned on the left inside padding */}
-      {canEdit && (
+      {canEdit && !suggesting && (
         <div
           {...attributes}
           {...listeners}
@@ -281,8 +378,23 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
         </div>
       )}
 
+      {/* Copy Button - below the drag handle */}
+      {canEdit && !suggesting && onDuplicate && (
+        <div className="absolute left-0 top-9 opacity-0 group-hover:opacity-100 transition-opacity z-10 print:hidden">
+          <button
+            onClick={() => onDuplicate(block.id)}
+            className="p-0.5 hover:bg-gray-100 rounded text-gray-400"
+            title="복사"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          </button>
+        </div>
+      )}
+
       {/* Delete Button - Absolute positioned on the right inside padding */}
-      {canEdit && isHovered && (
+      {canEdit && isHovered && suggestion?.state !== 'delete' && (
         <div className="absolute right-0 top-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
           <button
             onClick={handleDelete}
@@ -296,10 +408,50 @@ export function SortableBlock({ block, canEdit, onUpdate, onDelete }: SortableBl
         </div>
       )}
 
+      {/* Comment Button - below the delete button, kept visible while threads are open */}
+      {onComment && (
+        <div
+          className={`absolute right-0 ${canEdit ? 'top-9' : 'top-2'} z-10 transition-opacity print:hidden ${
+            commentCount > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          }`}
+        >
+          <button
+            // Keep the text selection for the quote
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleComment}
+            className="flex items-center gap-0.5 p-1 hover:bg-gray-100 rounded text-gray-500"
+            title="댓글"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+            </svg>
+            {commentCount > 0 && <span className="text-xs font-medium text-primary-600">{commentCount}</span>}
+          </button>
+        </div>
+      )}
+
+      {/* Another editor is typing in this block */}
+      {lockHolder && (
+        <div className="mb-1 flex items-center gap-1 text-xs text-amber-700">
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+          </svg>
+          {lockMode === 'block'
+            ? `${lockHolder}님이 입력 중입니다 (잠시 후 편집할 수 있습니다)`
+            : `${lockHolder}님이 입력 중입니다`}
+        </div>
+      )}
+
       {/* Block Content */}
-      <div className="w-full">
+      <div
+        className={`w-full ${lockHolder ? 'rounded ring-1 ring-amber-300' : ''} ${
+          suggestion ? SUGGESTION_STATE_CLASSES[suggestion.state] : ''
+        }`}
+      >
         {renderContent()}
       </div>
+
+      {suggestion?.footer}
     </div>
   )
 }
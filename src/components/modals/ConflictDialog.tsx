@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import RichTextEditor from '@/components/editor/RichTextEditor'
+import { TextDiff } from '@/components/versions/VersionDiffView'
+import { blockText, diffWords } from '@/lib/version-diff'
+import { safeJsonParse } from '@/lib/utils'
+
+/**
+ * A local change the server rejected because someone else saved first
+ */
+export interface EditConflict {
+  kind: 'block' | 'section'
+  id: string
+  /** Block type (blocks only) */
+  blockType?: string
+  /** Section title, shown as context */
+  label: string
+  /** Local value (block content or section title) */
+  mine: string
+  /** Current server value */
+  theirs: string
+  /** Current server revision */
+  revision: number
+}
+
+interface ConflictDialogProps {
+  conflict: EditConflict | null
+  /** Conflicts waiting after this one */
+  remaining: number
+  isSaving: boolean
+  onKeepMine: () => void
+  onTakeTheirs: () => void
+  onMerge: (merged: string) => void
+}
+
+function conflictText(conflict: EditConflict, value: string) {
+  return conflict.kind === 'section' ? value : blockText({ type: conflict.blockType ?? 'BODY', content: value })
+}
+
+/**
+ * Whether the merged value can be edited directly for this kind of change
+ */
+function canMerge(conflict: EditConflict) {
+  return conflict.kind === 'section' || ['BODY', 'HEADING1', 'HEADING2', 'HEADING3'].includes(conflict.blockType ?? '')
+}
+
+export default function ConflictDialog({
+  conflict,
+  remaining,
+  isSaving,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+}: ConflictDialogProps) {
+  const [mode, setMode] = useState<'choose' | 'merge'>('choose')
+  const [merged, setMerged] = useState('')
+
+  useEffect(() => {
+    setMode('choose')
+    setMerged(conflict?.mine ?? '')
+  }, [conflict])
+
+  if (!conflict) return null
+
+  const mineText = conflictText(conflict, conflict.mine)
+  const theirsText = conflictText(conflict, conflict.theirs)
+  const isHeading = conflict.kind === 'block' && conflict.blockType?.startsWith('HEADING')
+
+  const renderMergeEditor = () => {
+    if (conflict.kind === 'section') {
+      return (
+        <input
+          type="text"
+          value={merged}
+          onChange={(e) => setMerged(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      )
+    }
+
+    if (isHeading) {
+      const text = safeJsonParse<{ text?: string }>(merged, { text: '' }).text || ''
+      return (
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setMerged(JSON.stringify({ text: e.target.value }))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      )
+    }
+
+    return (
+      <div className="border border-gray-300 rounded-lg p-1">
+        <RichTextEditor content={conflict.mine} onChange={setMerged} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">편집 충돌</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {conflict.kind === 'section' ? '섹션 제목' : '블록'} · {conflict.label}
+            {remaining > 0 && ` (이 밖에 ${remaining}건의 충돌이 더 있습니다)`}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto max-h-[calc(85vh-150px)] space-y-4">
+          <p className="text-sm text-gray-700">
+            내가 편집하는 동안 다른 사용자가 같은 내용을 먼저 저장했습니다. 어떤 내용을 남길지 선택해주세요.
+          </p>
+
+          {mode === 'choose' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="border border-gray-200 rounded-lg">
+                <div className="px-3 py-2 bg-primary-50 text-sm font-medium text-primary-700 rounded-t-lg">내 변경</div>
+                <div className="p-3 text-sm text-gray-800 whitespace-pre-wrap break-words">
+                  {mineText || <span className="text-gray-400">(내용 없음)</span>}
+                </div>
+              </div>
+              <div className="border border-gray-200 rounded-lg">
+                <div className="px-3 py-2 bg-gray-50 text-sm font-medium text-gray-700 rounded-t-lg">다른 사용자의 변경</div>
+                <div className="p-3 text-sm text-gray-800 whitespace-pre-wrap break-words">
+                  {theirsText || <span className="text-gray-400">(내용 없음)</span>}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">차이 (다른 사용자의 변경 → 내 변경)</h3>
+                <div className="p-3 text-sm border border-gray-200 rounded-lg">
+                  <TextDiff parts={diffWords(theirsText, mineText)} />
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">병합 결과</h3>
+                {renderMergeEditor()}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center bg-gray-50">
+          {mode === 'choose' ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setMode('merge')}
+                disabled={isSaving || !canMerge(conflict)}
+                title={canMerge(conflict) ? undefined : '이 블록 형식은 직접 병합할 수 없습니다'}
+              >
+                병합하기
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={onTakeTheirs} disabled={isSaving}>
+                  다른 사용자의 변경 사용
+                </Button>
+                <Button onClick={onKeepMine} disabled={isSaving}>
+                  내 변경 유지
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setMode('choose')} disabled={isSaving}>
+                뒤로
+              </Button>
+              <Button onClick={() => onMerge(merged)} disabled={isSaving || (conflict.kind === 'section' && !merged.trim())}>
+                병합 결과 저장
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+interface ManualOption {
+  id: string
+  title: string
+}
+
+interface SectionNode {
+  id: string
+  title: string
+  depth: number
+  canEdit?: boolean
+  children?: SectionNode[]
+}
+
+export interface CopyResult {
+  manualId: string
+  sectionId?: string
+  block?: { id: string }
+}
+
+interface CopyToModalProps {
+  isOpen: boolean
+  onClose: () => void
+  manualId: string
+  /** Section (with its sub-sections and blocks) or block to copy */
+  item: { kind: 'section' | 'block'; id: string; label: string } | null
+  onCopied: (result: CopyResult) => void
+}
+
+// 위치 값: "next" (원본 바로 다음), "root" (최상위), 또는 섹션 ID
+const NEXT_TO_ORIGINAL = 'next'
+const TOP_LEVEL = 'root'
+
+function flattenSections(sections: SectionNode[]): SectionNode[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children ?? [])])
+}
+
+export default function CopyToModal({
+  isOpen,
+  onClose,
+  manualId,
+  item,
+  onCopied,
+}: CopyToModalProps) {
+  const [manuals, setManuals] = useState<ManualOption[]>([])
+  const [targetManualId, setTargetManualId] = useState(manualId)
+  const [sections, setSections] = useState<SectionNode[]>([])
+  const [canEditTarget, setCanEditTarget] = useState(true)
+  const [placement, setPlacement] = useState(NEXT_TO_ORIGINAL)
+  const [loading, setLoading] = useState(false)
+  const [copying, setCopying] = useState(false)
+
+  const sameManual = targetManualId === manualId
+
+  useEffect(() => {
+    if (isOpen) {
+      setTargetManualId(manualId)
+      setPlacement(NEXT_TO_ORIGINAL)
+      fetchManuals()
+    }
+  }, [isOpen, manualId])
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSections(targetManualId)
+    }
+  }, [isOpen, targetManualId])
+
+  const fetchManuals = async () => {
+    try {
+      const response = await fetch('/api/manual')
+      const data = await response.json()
+
+      if (response.ok) {
+        setManuals(data.manuals || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch manuals:', error)
+    }
+  }
+
+  const fetchSections = async (id: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/manual/${id}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setSections(flattenSections(data.manual.sections))
+        setCanEditTarget(data.permission === 'OWNER' || data.permission === 'EDITOR')
+      }
+    } catch (error) {
+      console.error('Failed to fetch sections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectManual = (id: string) => {
+    setTargetManualId(id)
+    setPlacement(id === manualId ? NEXT_TO_ORIGINAL : item?.kind === 'section' ? TOP_LEVEL : '')
+  }
+
+  const handleCopy = async () => {
+    if (!item) return
+    if (!placement) {
+      alert('복사할 위치를 선택해주세요')
+      return
+    }
+
+    const target = sameManual ? {} : { targetManualId }
+    const body =
+      item.kind === 'section'
+        ? {
+            ...target,
+            ...(placement === NEXT_TO_ORIGINAL ? {} : { parentId: placement === TOP_LEVEL ? null : placement }),
+          }
+        : { ...target, ...(placement === NEXT_TO_ORIGINAL ? {} : { sectionId: placement }) }
+
+    setCopying(true)
+    try {
+      const response = await fetch(`/api/manual/${manualId}/${item.kind}/${item.id}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '복사에 실패했습니다')
+      }
+
+      onCopied(data)
+      onClose()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '복사에 실패했습니다')
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  if (!isOpen || !item) return null
+
+  // Sub-sections go at most 3 levels deep; the server rejects copies that would not fit
+  const targets = sections.filter(
+    (section) => section.canEdit !== false && (item.kind === 'block' || section.depth < 3)
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">{item.kind === 'section' ? '섹션 복사' : '블록 복사'}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="text-sm text-gray-500 mt-1 truncate">{item.label}</p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto max-h-[calc(80vh-140px)] space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">메뉴얼</label>
+            <select
+              value={targetManualId}
+              onChange={(e) => handleSelectManual(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {manuals.map((manual) => (
+                <option key={manual.id} value={manual.id}>
+                  {manual.title}
+                  {manual.id === manualId ? ' (현재 메뉴얼)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">위치</label>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : !canEditTarget ? (
+              <p className="text-sm text-gray-500 py-2">이 메뉴얼을 편집할 권한이 없습니다</p>
+            ) : (
+              <select
+                value={placement}
+                onChange={(e) => setPlacement(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {!sameManual && item.kind === 'block' && <option value="">섹션을 선택하세요</option>}
+                {sameManual && <option value={NEXT_TO_ORIGINAL}>원본 바로 다음</option>}
+                {item.kind === 'section' && <option value={TOP_LEVEL}>최상위</option>}
+                {targets.map((section) => (
+                  <option key={section.id} value={section.id}>
+                    {'  '.repeat(section.depth - 1)}
+                    {section.title}
+                    {item.kind === 'section' ? ' 아래' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            취소
+          </Button>
+          <Button size="sm" onClick={handleCopy} disabled={loading || copying || !canEditTarget}>
+            {copying ? '복사 중...' : '복사'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
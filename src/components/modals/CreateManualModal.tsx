@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+interface Template {
+  id: string
+  name: string
+  description: string | null
+  builtin: boolean
+  sectionCount: number
+  createdBy: { id: string; name: string } | null
+}
+
+interface CreateManualModalProps {
+  isOpen: boolean
+  onClose: () => void
+  currentUserId: string
+  /** Team OWNER may delete any team template */
+  isTeamOwner: boolean
+  onCreated: (manualId: string) => void
+}
+
+export default function CreateManualModal({
+  isOpen,
+  onClose,
+  currentUserId,
+  isTeamOwner,
+  onCreated,
+}: CreateManualModalProps) {
+  const [title, setTitle] = useState('')
+  const [templates, setTemplates] = useState<Template[]>([])
+  // null: 빈 메뉴얼
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle('')
+      setTemplateId(null)
+      fetchTemplates()
+    }
+  }, [isOpen])
+
+  const fetchTemplates = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/template')
+      const data = await response.json()
+
+      if (response.ok) {
+        setTemplates(data.templates || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: Template) => {
+    if (!confirm(`"${template.name}" 템플릿을 삭제하시겠습니까?`)) return
+
+    try {
+      const response = await fetch(`/api/template/${template.id}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '템플릿 삭제에 실패했습니다')
+      }
+
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id))
+      if (templateId === template.id) {
+        setTemplateId(null)
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '템플릿 삭제에 실패했습니다')
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!title.trim()) {
+      alert('메뉴얼 제목을 입력해주세요')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/manual', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: title.trim(),
+          templateId: templateId ?? undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '메뉴얼 생성에 실패했습니다')
+      }
+
+      onCreated(data.manual.id)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '메뉴얼 생성에 실패했습니다')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const options: Array<Template | null> = [null, ...templates]
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">새 메뉴얼</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto max-h-[calc(80vh-140px)] space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">제목</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleCreate()
+              }}
+              maxLength={100}
+              autoFocus
+              placeholder="새 메뉴얼 제목을 입력하세요"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">템플릿</h3>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {options.map((template) => {
+                  const selected = (template?.id ?? null) === templateId
+                  const canDelete = template && !template.builtin && (isTeamOwner || template.createdBy?.id === currentUserId)
+
+                  return (
+                    <div
+                      key={template?.id ?? 'blank'}
+                      onClick={() => setTemplateId(template?.id ?? null)}
+                      className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                        selected ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900">{template ? template.name : '빈 메뉴얼'}</p>
+                        {canDelete && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleDeleteTemplate(template)
+                            }}
+                            className="text-xs text-red-600 hover:text-red-700 flex-shrink-0"
+                          >
+                            삭제
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {template
+                          ? template.description || `섹션 ${template.sectionCount}개`
+                          : '섹션 없이 시작합니다'}
+                      </p>
+                      {template && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {template.builtin ? '기본 템플릿' : `${template.createdBy?.name ?? ''} · 팀 템플릿`}
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            취소
+          </Button>
+          <Button size="sm" onClick={handleCreate} disabled={creating}>
+            {creating ? '생성 중...' : '만들기'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
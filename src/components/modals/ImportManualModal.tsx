@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+interface PreviewSection {
+  title: string
+  blocks: number
+  images: number
+  children: PreviewSection[]
+}
+
+interface ImportPreview {
+  title: string
+  sections: PreviewSection[]
+  stats: { sections: number; blocks: number; images: number; tables: number }
+  warnings: string[]
+}
+
+interface ImportManualModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: (manualId: string) => void
+}
+
+const ACCEPT = '.md,.markdown,.html,.htm,.docx,.zip'
+
+function PreviewTree({ sections, depth = 0 }: { sections: PreviewSection[]; depth?: number }) {
+  return (
+    <ul className={depth > 0 ? 'ml-4 border-l border-gray-200 pl-3' : ''}>
+      {sections.map((section, index) => (
+        <li key={index} className="py-0.5">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className={`truncate ${depth === 0 ? 'font-medium text-gray-900' : 'text-gray-700'}`}>
+              {section.title}
+            </span>
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              블록 {section.blocks}개{section.images > 0 && ` · 이미지 ${section.images}개`}
+            </span>
+          </div>
+          {section.children.length > 0 && <PreviewTree sections={section.children} depth={depth + 1} />}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default function ImportManualModal({ isOpen, onClose, onImported }: ImportManualModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [title, setTitle] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null)
+      setPreview(null)
+      setTitle('')
+    }
+  }, [isOpen])
+
+  const upload = (selected: File, mode: 'preview' | 'commit') => {
+    const formData = new FormData()
+    formData.append('file', selected)
+    formData.append('mode', mode)
+    if (mode === 'commit') {
+      formData.append('title', title.trim())
+    }
+    return fetch('/api/manual/import', {
+      method: 'POST',
+      body: formData,
+    })
+  }
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return
+
+    setFile(selected)
+    setPreview(null)
+    setLoading(true)
+    try {
+      const response = await upload(selected, 'preview')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '파일을 읽을 수 없습니다')
+      }
+
+      setPreview(data.preview)
+      setTitle(data.preview.title)
+    } catch (error) {
+      setFile(null)
+      alert(error instanceof Error ? error.message : '파일을 읽을 수 없습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!file || !preview) return
+    if (!title.trim()) {
+      alert('메뉴얼 제목을 입력해주세요')
+      return
+    }
+
+    setImporting(true)
+    try {
+      const response = await upload(file, 'commit')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '메뉴얼을 가져오지 못했습니다')
+      }
+
+      onImported(data.manualId)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '메뉴얼을 가져오지 못했습니다')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">메뉴얼 가져오기</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto max-h-[calc(80vh-140px)] space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">파일</label>
+            <input
+              type="file"
+              accept={ACCEPT}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              disabled={loading || importing}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Markdown, HTML, Word(DOCX) 파일 또는 이들을 묶은 zip 파일을 가져올 수 있습니다. 제목은 섹션이 되고, 3단계보다 깊은 제목은 제목 블록이 됩니다.
+            </p>
+          </div>
+
+          {loading && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">제목</label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">미리보기</h3>
+                  <span className="text-xs text-gray-500">
+                    섹션 {preview.stats.sections}개 · 블록 {preview.stats.blocks}개 · 표 {preview.stats.tables}개 · 이미지 {preview.stats.images}개
+                  </span>
+                </div>
+                <div className="border border-gray-200 rounded-lg p-3 max-h-64 overflow-y-auto">
+                  <PreviewTree sections={preview.sections} />
+                </div>
+              </div>
+
+              {preview.warnings.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm font-medium text-yellow-800 mb-1">일부 내용을 가져올 수 없습니다</p>
+                  <ul className="text-xs text-yellow-700 list-disc list-inside space-y-0.5">
+                    {preview.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            취소
+          </Button>
+          <Button size="sm" onClick={handleImport} disabled={!preview || importing}>
+            {importing ? '가져오는 중...' : '가져오기'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
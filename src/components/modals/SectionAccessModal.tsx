@@ -0,0 +1,311 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+interface TeamMember {
+  id: string
+  name: string
+  email: string
+  role: 'OWNER' | 'EDITOR' | 'VIEWER'
+}
+
+interface AccessRule {
+  userId: string | null
+  userName?: string | null
+  userEmail?: string | null
+  role: 'OWNER' | 'EDITOR' | 'VIEWER' | null
+  permission: 'EDITOR' | 'VIEWER'
+}
+
+interface SectionAccessModalProps {
+  isOpen: boolean
+  onClose: () => void
+  manualId: string
+  sectionId: string
+  sectionTitle: string
+  onSaved?: () => void
+}
+
+const ROLE_LABELS: Record<'OWNER' | 'EDITOR' | 'VIEWER', string> = {
+  OWNER: '팀 소유자',
+  EDITOR: '팀 편집자',
+  VIEWER: '팀 뷰어',
+}
+
+export default function SectionAccessModal({
+  isOpen,
+  onClose,
+  manualId,
+  sectionId,
+  sectionTitle,
+  onSaved,
+}: SectionAccessModalProps) {
+  const [restricted, setRestricted] = useState(false)
+  const [rules, setRules] = useState<AccessRule[]>([])
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [selectedTarget, setSelectedTarget] = useState<string>('')
+  const [selectedPermission, setSelectedPermission] = useState<'EDITOR' | 'VIEWER'>('VIEWER')
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchAccess()
+    }
+  }, [isOpen, manualId, sectionId])
+
+  const fetchAccess = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/manual/${manualId}/section/${sectionId}/access`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setRestricted(data.restricted)
+        setRules(data.rules || [])
+        setTeamMembers(data.teamMembers || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch section access:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // 대상 값: "user:<id>" 또는 "role:<ROLE>"
+  const handleAddRule = () => {
+    if (!selectedTarget) {
+      alert('대상을 선택해주세요')
+      return
+    }
+
+    const [kind, value] = selectedTarget.split(':')
+    if (kind === 'user') {
+      const member = teamMembers.find((m) => m.id === value)
+      setRules((prev) => [
+        ...prev,
+        {
+          userId: value,
+          userName: member?.name,
+          userEmail: member?.email,
+          role: null,
+          permission: selectedPermission,
+        },
+      ])
+    } else {
+      setRules((prev) => [
+        ...prev,
+        { userId: null, role: value as AccessRule['role'], permission: selectedPermission },
+      ])
+    }
+    setSelectedTarget('')
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/manual/${manualId}/section/${sectionId}/access`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          restricted,
+          rules: rules.map((rule) =>
+            rule.userId
+              ? { userId: rule.userId, permission: rule.permission }
+              : { role: rule.role, permission: rule.permission }
+          ),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '섹션 접근 설정 저장에 실패했습니다')
+      }
+
+      onSaved?.()
+      onClose()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '섹션 접근 설정 저장에 실패했습니다')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const availableMembers = teamMembers.filter(
+    (member) => !rules.some((rule) => rule.userId === member.id)
+  )
+  const availableRoles = (['EDITOR', 'VIEWER'] as const).filter(
+    (role) => !rules.some((rule) => rule.role === role)
+  )
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">섹션 접근 제한</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">{sectionTitle}</p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 overflow-y-auto max-h-[calc(80vh-140px)]">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200">
+                <input
+                  type="checkbox"
+                  checked={restricted}
+                  onChange={(e) => setRestricted(e.target.checked)}
+                  className="mt-1"
+                />
+                <div>
+                  <span className="text-sm font-medium text-gray-900">이 섹션의 접근 제한</span>
+                  <p className="text-xs text-gray-500">
+                    아래 규칙에 해당하는 사용자만 이 섹션과 하위 섹션을 볼 수 있습니다. 메뉴얼 소유자는 항상 접근할 수 있습니다.
+                  </p>
+                </div>
+              </label>
+
+              {restricted && (
+                <>
+                  {/* Add rule */}
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3">규칙 추가</h3>
+                    <div className="flex gap-2">
+                      <select
+                        value={selectedTarget}
+                        onChange={(e) => setSelectedTarget(e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="">대상 선택...</option>
+                        {availableRoles.length > 0 && (
+                          <optgroup label="팀 역할">
+                            {availableRoles.map((role) => (
+                              <option key={role} value={`role:${role}`}>
+                                {ROLE_LABELS[role]} 전체
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {availableMembers.length > 0 && (
+                          <optgroup label="팀원">
+                            {availableMembers.map((member) => (
+                              <option key={member.id} value={`user:${member.id}`}>
+                                {member.name} ({member.email})
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                      <select
+                        value={selectedPermission}
+                        onChange={(e) => setSelectedPermission(e.target.value as 'EDITOR' | 'VIEWER')}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="VIEWER">뷰어</option>
+                        <option value="EDITOR">편집자</option>
+                      </select>
+                      <Button size="sm" onClick={handleAddRule}>
+                        추가
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      섹션 권한은 메뉴얼 권한보다 높아지지 않습니다
+                    </p>
+                  </div>
+
+                  {/* Rule list */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3">
+                      접근 규칙 ({rules.length})
+                    </h3>
+                    {rules.length === 0 ? (
+                      <p className="text-sm text-gray-500 text-center py-4">
+                        규칙이 없으면 메뉴얼 소유자만 이 섹션을 볼 수 있습니다
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {rules.map((rule, index) => (
+                          <div
+                            key={rule.userId ?? rule.role ?? index}
+                            className="flex items-center justify-between p-3 bg-white border border-gray-200 rounded-lg"
+                          >
+                            <div className="flex-1">
+                              {rule.userId ? (
+                                <>
+                                  <p className="text-sm font-medium text-gray-900">{rule.userName}</p>
+                                  <p className="text-xs text-gray-500">{rule.userEmail}</p>
+                                </>
+                              ) : (
+                                <p className="text-sm font-medium text-gray-900">
+                                  {rule.role && ROLE_LABELS[rule.role]} 전체
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={rule.permission}
+                                onChange={(e) =>
+                                  setRules((prev) =>
+                                    prev.map((r, i) =>
+                                      i === index ? { ...r, permission: e.target.value as 'EDITOR' | 'VIEWER' } : r
+                                    )
+                                  )
+                                }
+                                className="px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              >
+                                <option value="VIEWER">뷰어</option>
+                                <option value="EDITOR">편집자</option>
+                              </select>
+                              <button
+                                onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                                title="규칙 삭제"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            취소
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={loading || saving}>
+            {saving ? '저장 중...' : '저장'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
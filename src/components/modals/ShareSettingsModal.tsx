@@ -40,6 +40,7 @@ export default function ShareSettingsModal({
   manualTitle,
 }: ShareSettingsModalProps) {
   const [activeTab, setActiveTab] = useState<'team' | 'external'>('team')
+  const [visibility, setVisibility] = useState<'PRIVATE' | 'TEAM'>('PRIVATE')
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
   const [sharedUsers, setSharedUsers] = useState<ShareUser[]>([])
   const [externalLinks, setExternalLinks] = useState<ExternalLink[]>([])
@@ -61,6 +62,7 @@ export default function ShareSettingsModal({
       const data = await response.json()
 
       if (response.ok) {
+        setVisibility(data.visibility || 'PRIVATE')
         setTeamMembers(data.teamMembers || [])
         setSharedUsers(data.sharedUsers || [])
         setExternalLinks(data.externalLinks || [])
@@ -142,6 +144,28 @@ export default function ShareSettingsModal({
     }
   }
 
+  const handleChangeVisibility = async (newVisibility: 'PRIVATE' | 'TEAM') => {
+    if (newVisibility === visibility) return
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ visibility: newVisibility }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '공개 범위 변경에 실패했습니다')
+      }
+
+      setVisibility(data.manual.visibility)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '공개 범위 변경에 실패했습니다')
+    }
+  }
+
   const handleCreateExternalLink = async () => {
     try {
       const response = await fetch(`/api/manual/${manualId}/share/external`, {
@@ -246,6 +270,30 @@ export default function ShareSettingsModal({
             </div>
           ) : activeTab === 'team' ? (
             <div className="space-y-4">
+              {/* Visibility */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-3">공개 범위</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: 'PRIVATE', label: '비공개', description: '소유자와 공유받은 팀원만 볼 수 있습니다' },
+                    { value: 'TEAM', label: '팀 공개', description: '모든 팀원이 팀 역할에 따라 보거나 편집할 수 있습니다' },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleChangeVisibility(option.value)}
+                      className={`text-left p-3 rounded-lg border transition-colors ${
+                        visibility === option.value
+                          ? 'border-primary-600 bg-primary-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                      <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Add team member */}
               <div className="bg-gray-50 rounded-lg p-4">
                 <h3 className="text-sm font-semibold text-gray-700 mb-3">팀원 추가</h3>
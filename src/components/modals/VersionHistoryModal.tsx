@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/Button'
+import VersionDiffView from '@/components/versions/VersionDiffView'
 
 interface Version {
   id: string
+  kind: 'NAMED' | 'AUTO'
   summary: string | null
   createdAt: string
   creatorName: string
@@ -32,9 +34,11 @@ export default function VersionHistoryModal({
   const [loading, setLoading] = useState(false)
   const [selectedVersion, setSelectedVersion] = useState<string | null>(null)
   const [isRestoring, setIsRestoring] = useState(false)
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
+      setCompareVersionId(null)
       fetchVersions()
     }
   }, [isOpen, manualId])
@@ -142,13 +146,26 @@ export default function VersionHistoryModal({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] overflow-hidden">
+      <div className={`bg-white rounded-lg shadow-xl w-full max-h-[80vh] overflow-hidden ${compareVersionId ? 'max-w-5xl' : 'max-w-2xl'}`}>
         {/* Header */}
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
-            <div>
-              <h2 className="text-xl font-bold text-gray-900">버전 이력</h2>
-              <p className="text-sm text-gray-500 mt-1">{manualTitle}</p>
+            <div className="flex items-center gap-2">
+              {compareVersionId && (
+                <button
+                  onClick={() => setCompareVersionId(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                  title="버전 목록으로"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+              )}
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{compareVersionId ? '버전 비교' : '버전 이력'}</h2>
+                <p className="text-sm text-gray-500 mt-1">{manualTitle}</p>
+              </div>
             </div>
             <button
               onClick={onClose}
@@ -162,7 +179,7 @@ export default function VersionHistoryModal({
         </div>
 
         {/* Actions */}
-        {canEdit && (
+        {canEdit && !compareVersionId && (
           <div className="px-6 py-3 bg-gray-50 border-b border-gray-200">
             <Button size="sm" onClick={handleSaveVersion}>
               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -171,14 +188,27 @@ export default function VersionHistoryModal({
               현재 버전 저장
             </Button>
             <p className="text-xs text-gray-500 mt-2">
-              중요한 변경사항이 있을 때 수동으로 버전을 저장할 수 있습니다
+              편집을 멈추면 자동으로 버전이 저장되며, 중요한 변경사항은 이름을 붙여 직접 저장할 수 있습니다
             </p>
           </div>
         )}
 
         {/* Content */}
         <div className="px-6 py-4 overflow-y-auto max-h-[calc(80vh-200px)]">
-          {loading ? (
+          {compareVersionId ? (
+            <VersionDiffView
+              manualId={manualId}
+              fromVersionId={compareVersionId}
+              versions={versions}
+              canEdit={canEdit}
+              onRestored={async () => {
+                await fetchVersions()
+                if (onRestore) {
+                  await onRestore()
+                }
+              }}
+            />
+          ) : loading ? (
             <div className="flex justify-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
             </div>
@@ -212,6 +242,15 @@ export default function VersionHistoryModal({
                             최신
                           </span>
                         )}
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded ${
+                            version.kind === 'AUTO'
+                              ? 'bg-gray-100 text-gray-600'
+                              : 'bg-primary-100 text-primary-700'
+                          }`}
+                        >
+                          {version.kind === 'AUTO' ? '자동' : '저장됨'}
+                        </span>
                         <span className="text-sm font-medium text-gray-900">
                           {formatDate(version.createdAt)}
                         </span>
@@ -228,22 +267,34 @@ export default function VersionHistoryModal({
                         {new Date(version.createdAt).toLocaleString('ko-KR')}
                       </p>
                     </div>
-                    {canEdit && index !== 0 && (
+                    <div className="flex flex-col gap-2">
                       <Button
                         variant="outline"
                         size="sm"
                         onClick={(e) => {
                           e.stopPropagation()
-                          handleRestoreVersion(version.id)
+                          setCompareVersionId(version.id)
                         }}
-                        disabled={isRestoring}
                       >
-                        <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        복원
+                        비교
                       </Button>
-                    )}
+                      {canEdit && index !== 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleRestoreVersion(version.id)
+                          }}
+                          disabled={isRestoring}
+                        >
+                          <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                          </svg>
+                          복원
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -254,7 +305,7 @@ export default function VersionHistoryModal({
         {/* Footer */}
         <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center bg-gray-50">
           <p className="text-xs text-gray-500">
-            버전은 최대 30일간 보관됩니다
+            자동 버전은 7일간 모두, 90일까지 하루 1개씩 보관됩니다 (직접 저장한 버전은 영구 보관)
           </p>
           <Button variant="outline" onClick={onClose}>
             닫기
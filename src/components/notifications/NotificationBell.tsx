@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import type { NotificationType } from '@/types'
+import { NOTIFICATION_TYPE_LABELS, getNotificationLink } from '@/lib/notification-utils'
+import { timeAgo } from '@/lib/utils'
+
+interface NotificationItem {
+  id: string
+  type: NotificationType
+  title: string
+  message: string
+  isRead: boolean
+  relatedId: string | null
+  createdAt: string
+}
+
+// 읽지 않은 알림 수 갱신 주기 (1분)
+const POLL_INTERVAL = 60 * 1000
+
+export default function NotificationBell() {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notification?limit=10')
+      const data = await response.json()
+
+      if (response.ok) {
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Initial load + polling
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  // Handle click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [])
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      setIsLoading(true)
+      fetchNotifications()
+    }
+    setIsOpen(!isOpen)
+  }
+
+  const handleNotificationClick = async (notification: NotificationItem) => {
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, isRead: true } : n))
+      )
+      setUnreadCount((prev) => Math.max(0, prev - 1))
+
+      try {
+        await fetch(`/api/notification/${notification.id}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ isRead: true }),
+        })
+      } catch (error) {
+        console.error('Failed to mark notification as read:', error)
+      }
+    }
+
+    const link = getNotificationLink(notification.type, notification.relatedId)
+    if (link) {
+      setIsOpen(false)
+      router.push(link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notification/read-all', {
+        method: 'PUT',
+      })
+
+      if (response.ok) {
+        setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })))
+        setUnreadCount(0)
+      }
+    } catch (error) {
+      console.error('Failed to mark all notifications as read:', error)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 hover:bg-gray-100 rounded-lg"
+        title="알림"
+      >
+        <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+            <p className="text-sm font-semibold text-gray-900">알림</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+              >
+                모두 읽음으로 표시
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading && notifications.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="px-4 py-8 text-center">
+                <p className="text-sm text-gray-500">새로운 알림이 없습니다</p>
+              </div>
+            ) : (
+              <div className="py-1">
+                {notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleNotificationClick(notification)}
+                    className={`w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors ${
+                      notification.isRead ? '' : 'bg-primary-50'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.isRead && (
+                        <span className="mt-1.5 w-2 h-2 bg-primary-600 rounded-full flex-shrink-0"></span>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {notification.title}
+                        </p>
+                        <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">
+                          {notification.message}
+                        </p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-xs px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded">
+                            {NOTIFICATION_TYPE_LABELS[notification.type]}
+                          </span>
+                          <span className="text-xs text-gray-400">
+                            {timeAgo(notification.createdAt)}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="px-3 py-2 border-t border-gray-100">
+            <button
+              onClick={() => {
+                setIsOpen(false)
+                router.push('/notifications')
+              }}
+              className="text-xs text-primary-600 hover:text-primary-700 font-medium flex items-center"
+            >
+              모든 알림 보기
+              <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
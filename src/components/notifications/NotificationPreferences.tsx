@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import type { NotificationType, NotificationChannel } from '@/types'
+import { NOTIFICATION_TYPE_LABELS } from '@/lib/notification-utils'
+
+interface Preference {
+  type: NotificationType
+  channel: NotificationChannel
+}
+
+const CHANNEL_OPTIONS: Array<{ value: NotificationChannel; label: string }> = [
+  { value: 'IN_APP', label: '앱 알림만' },
+  { value: 'EMAIL_IMMEDIATE', label: '앱 알림 + 즉시 이메일' },
+  { value: 'DAILY_DIGEST', label: '앱 알림 + 일일 요약 이메일' },
+  { value: 'OFF', label: '받지 않음' },
+]
+
+export default function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preference[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [])
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch('/api/user/notification-preferences')
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreferences(data.preferences)
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification preferences:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleChange = (type: NotificationType, channel: NotificationChannel) => {
+    setPreferences((prev) => prev.map((p) => (p.type === type ? { ...p, channel } : p)))
+    setIsDirty(true)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/user/notification-preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ preferences }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '알림 설정 저장에 실패했습니다')
+      }
+
+      setPreferences(data.preferences)
+      setIsDirty(false)
+      alert('알림 설정이 저장되었습니다')
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '알림 설정 저장에 실패했습니다')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">알림 환경 설정</h3>
+      <p className="text-sm text-gray-600 mb-4">알림 종류별로 받는 방식을 선택할 수 있습니다</p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="divide-y divide-gray-100">
+            {preferences.map((preference) => (
+              <div key={preference.type} className="flex items-center justify-between py-3">
+                <span className="text-sm font-medium text-gray-900">
+                  {NOTIFICATION_TYPE_LABELS[preference.type]}
+                </span>
+                <select
+                  value={preference.channel}
+                  onChange={(e) => handleChange(preference.type, e.target.value as NotificationChannel)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {CHANNEL_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end pt-4">
+            <Button onClick={handleSave} disabled={!isDirty || saving} size="sm">
+              {saving ? '저장 중...' : '설정 저장'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import type { PresenceUser } from '@/hooks/usePresence'
+
+interface PresenceAvatarsProps {
+  users: PresenceUser[]
+  /** Section titles by ID, used to show where each user is */
+  sectionTitles: Map<string, string>
+  max?: number
+  size?: 'sm' | 'md'
+}
+
+const AVATAR_COLORS = [
+  'bg-blue-500', 'bg-red-500', 'bg-green-500', 'bg-amber-500', 'bg-purple-500',
+  'bg-cyan-500', 'bg-pink-500', 'bg-lime-600', 'bg-orange-500', 'bg-indigo-500',
+]
+
+function avatarColor(userId: string) {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length]
+}
+
+/**
+ * Avatars of other users that have the manual open
+ * A user with several tabs is shown once
+ */
+export default function PresenceAvatars({ users, sectionTitles, max = 5, size = 'md' }: PresenceAvatarsProps) {
+  const byUser = new Map<string, { user: PresenceUser; sections: string[] }>()
+  for (const user of users) {
+    const entry = byUser.get(user.userId) ?? { user, sections: [] }
+    const title = user.sectionId ? sectionTitles.get(user.sectionId) : undefined
+    if (title && !entry.sections.includes(title)) {
+      entry.sections.push(title)
+    }
+    byUser.set(user.userId, entry)
+  }
+
+  const entries = Array.from(byUser.values())
+  if (entries.length === 0) return null
+
+  const sizeClass = size === 'sm' ? 'w-5 h-5 text-[10px]' : 'w-8 h-8 text-xs'
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {entries.slice(0, max).map(({ user, sections }) => {
+        const location = sections.length > 0 ? sections.join(', ') : '섹션 선택 안 함'
+        return user.profileImage ? (
+          <img
+            key={user.userId}
+            src={user.profileImage}
+            alt={user.name}
+            title={`${user.name} · ${location}`}
+            className={`${sizeClass} rounded-full ring-2 ring-white object-cover`}
+          />
+        ) : (
+          <span
+            key={user.userId}
+            title={`${user.name} · ${location}`}
+            className={`${sizeClass} ${avatarColor(user.userId)} rounded-full ring-2 ring-white flex items-center justify-center font-medium text-white`}
+          >
+            {user.name.charAt(0).toUpperCase()}
+          </span>
+        )
+      })}
+      {entries.length > max && (
+        <span
+          title={entries.slice(max).map(({ user }) => user.name).join(', ')}
+          className={`${sizeClass} rounded-full ring-2 ring-white bg-gray-200 text-gray-600 flex items-center justify-center font-medium`}
+        >
+          +{entries.length - max}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { timeAgo } from '@/lib/utils'
+
+interface ReviewUser {
+  id: string
+  name: string
+  profileImage: string | null
+}
+
+interface Review {
+  id: string
+  status: 'PENDING' | 'APPROVED' | 'CHANGES_REQUESTED' | 'CANCELLED'
+  message: string | null
+  comment: string | null
+  requestedById: string
+  requestedBy: ReviewUser
+  reviewedBy: ReviewUser | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+interface PublicationState {
+  published: { versionId: string; summary: string | null; publishedAt: string } | null
+  pendingReview: Review | null
+  reviews: Review[]
+  isReviewer: boolean
+}
+
+interface ReviewerCandidate {
+  id: string
+  name: string
+  email: string
+}
+
+interface PublicationPanelProps {
+  manualId: string
+  currentUserId: string
+  /** OWNER may designate reviewers */
+  canManageReviewers: boolean
+  /** A new revision was published */
+  onPublished: () => void
+}
+
+const STATUS_LABELS: Record<Review['status'], string> = {
+  PENDING: '검토 대기',
+  APPROVED: '승인됨',
+  CHANGES_REQUESTED: '수정 요청',
+  CANCELLED: '취소됨',
+}
+
+/**
+ * Published revision, review request/decision and reviewer designation (editors only)
+ */
+export default function PublicationPanel({
+  manualId,
+  currentUserId,
+  canManageReviewers,
+  onPublished,
+}: PublicationPanelProps) {
+  const [state, setState] = useState<PublicationState | null>(null)
+  const [message, setMessage] = useState('')
+  const [comment, setComment] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [showReviewers, setShowReviewers] = useState(false)
+  const [candidates, setCandidates] = useState<ReviewerCandidate[]>([])
+  const [reviewerIds, setReviewerIds] = useState<string[]>([])
+
+  const fetchState = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/manual/${manualId}/review`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setState(data)
+      } else {
+        console.error('Failed to fetch review state:', data.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch review state:', error)
+    }
+  }, [manualId])
+
+  useEffect(() => {
+    fetchState()
+  }, [fetchState])
+
+  useEffect(() => {
+    if (!showReviewers) return
+
+    const fetchReviewers = async () => {
+      try {
+        const response = await fetch(`/api/manual/${manualId}/reviewers`)
+        const data = await response.json()
+        if (response.ok) {
+          setCandidates(data.candidates)
+          setReviewerIds(data.reviewerIds)
+        }
+      } catch (error) {
+        console.error('Failed to fetch reviewers:', error)
+      }
+    }
+    fetchReviewers()
+  }, [manualId, showReviewers])
+
+  const send = async (url: string, init: RequestInit, fallbackError: string) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || fallbackError)
+        await fetchState()
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error(fallbackError, error)
+      alert(fallbackError)
+      return null
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    const data = await send(
+      `/api/manual/${manualId}/review`,
+      { method: 'POST', body: JSON.stringify({ message: message.trim() || undefined }) },
+      '검토 요청에 실패했습니다'
+    )
+    if (!data) return
+
+    setMessage('')
+    await fetchState()
+  }
+
+  const handleDecide = async (action: 'approve' | 'request_changes' | 'cancel') => {
+    const review = state?.pendingReview
+    if (!review) return
+
+    if (action === 'approve' && !confirm('현재 초안을 게시하시겠습니까? 뷰어와 외부 공유 링크에 바로 반영됩니다.')) return
+    if (action === 'request_changes' && !comment.trim()) {
+      alert('수정이 필요한 내용을 입력해주세요')
+      return
+    }
+
+    const data = await send(
+      `/api/manual/${manualId}/review/${review.id}`,
+      { method: 'PUT', body: JSON.stringify({ action, comment: comment.trim() || undefined }) },
+      '검토 처리에 실패했습니다'
+    )
+    if (!data) return
+
+    setComment('')
+    await fetchState()
+    if (action === 'approve') {
+      onPublished()
+    }
+  }
+
+  const handleSaveReviewers = async () => {
+    const data = await send(
+      `/api/manual/${manualId}/reviewers`,
+      { method: 'PUT', body: JSON.stringify({ userIds: reviewerIds }) },
+      '검토자 저장에 실패했습니다'
+    )
+    if (!data) return
+
+    setShowReviewers(false)
+    await fetchState()
+  }
+
+  if (!state) {
+    return <p className="text-xs text-gray-500">불러오는 중...</p>
+  }
+
+  const { published, pendingReview, reviews, isReviewer } = state
+  const lastDecision = reviews.find((review) => review.status !== 'PENDING')
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {published
+          ? `게시됨 · ${timeAgo(published.publishedAt)}${published.summary ? ` · ${published.summary}` : ''}`
+          : '아직 게시된 버전이 없습니다. 뷰어와 외부 링크에는 게시된 버전만 보입니다.'}
+      </p>
+
+      {pendingReview ? (
+        <div className="p-3 border border-amber-200 bg-amber-50 rounded-lg space-y-2">
+          <p className="text-xs text-amber-800">
+            <span className="font-medium">{pendingReview.requestedBy.name}</span>님이 검토를 요청했습니다 ·{' '}
+            {timeAgo(pendingReview.createdAt)}
+          </p>
+          {pendingReview.message && (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{pendingReview.message}</p>
+          )}
+          {isReviewer && (
+            <>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                placeholder="검토 의견 (수정 요청 시 필수)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1" isLoading={isSubmitting} onClick={() => handleDecide('approve')}>
+                  승인 및 게시
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={isSubmitting}
+                  onClick={() => handleDecide('request_changes')}
+                >
+                  수정 요청
+                </Button>
+              </div>
+            </>
+          )}
+          {pendingReview.requestedById === currentUserId && (
+            <button
+              onClick={() => handleDecide('cancel')}
+              disabled={isSubmitting}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              요청 취소
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {lastDecision && lastDecision.status === 'CHANGES_REQUESTED' && (
+            <div className="p-3 border border-red-200 bg-red-50 rounded-lg">
+              <p className="text-xs text-red-700">
+                {lastDecision.reviewedBy?.name ?? '검토자'}님의 수정 요청 · {timeAgo(lastDecision.reviewedAt ?? lastDecision.createdAt)}
+              </p>
+              {lastDecision.comment && (
+                <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap break-words">{lastDecision.comment}</p>
+              )}
+            </div>
+          )}
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={2}
+            placeholder="변경 내용 요약 (선택)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <Button variant="outline" size="sm" className="w-full" isLoading={isSubmitting} onClick={handleSubmit}>
+            검토 요청
+          </Button>
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="space-y-1">
+          {reviews.map((review) => (
+            <li key={review.id} className="flex items-center justify-between text-xs text-gray-500">
+              <span className="truncate">
+                {review.requestedBy.name} · {STATUS_LABELS[review.status]}
+              </span>
+              <span className="flex-shrink-0 ml-2">{timeAgo(review.reviewedAt ?? review.createdAt)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManageReviewers && (
+        showReviewers ? (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">지정하지 않으면 메뉴얼 소유자가 검토합니다</p>
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {candidates.map((user) => (
+                <li key={user.id}>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={reviewerIds.includes(user.id)}
+                      onChange={() =>
+                        setReviewerIds((prev) =>
+                          prev.includes(user.id) ? prev.filter((id) => id !== user.id) : [...prev, user.id]
+                        )
+                      }
+                    />
+                    <span className="truncate">{user.name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" isLoading={isSubmitting} onClick={handleSaveReviewers}>
+                저장
+              </Button>
+              <Button variant="ghost" size="sm" className="flex-1" onClick={() => setShowReviewers(false)}>
+                취소
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={() => setShowReviewers(true)} className="text-xs text-primary-600 hover:text-primary-700">
+            검토자 지정
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { timeAgo } from '@/lib/utils'
+import { blockText, diffWords } from '@/lib/version-diff'
+import { TextDiff } from '@/components/versions/VersionDiffView'
+import type { Suggestion } from '@/hooks/useSuggestions'
+
+interface SuggestionBlock {
+  type: string
+  content: string
+}
+
+export interface SuggestionActionsProps {
+  suggestion: Suggestion
+  canReview: boolean
+  isOwn: boolean
+  onReview: (suggestionId: string, action: 'accept' | 'reject') => void
+  onWithdraw: (suggestionId: string) => void
+}
+
+/**
+ * Short description of a suggested change
+ * @param sectionTitles - Current section titles by ID
+ */
+export function describeSuggestion(suggestion: Suggestion, sectionTitles: Map<string, string>): string {
+  const { change } = suggestion
+  switch (change.op) {
+    case 'block.create':
+      return '블록 추가'
+    case 'block.update':
+      return '블록 수정'
+    case 'block.delete':
+      return '블록 삭제'
+    case 'section.create': {
+      const parent = change.parentId ? sectionTitles.get(change.parentId) : null
+      return parent ? `"${parent}"에 하위 섹션 "${change.title}" 추가` : `섹션 "${change.title}" 추가`
+    }
+    case 'section.update':
+      return `섹션 이름 "${sectionTitles.get(change.id) ?? ''}" → "${change.title}"`
+    case 'section.delete':
+      return `섹션 "${sectionTitles.get(change.id) ?? ''}" 삭제`
+    default:
+      return '변경'
+  }
+}
+
+/**
+ * Accept/reject for reviewers, withdraw for the author
+ */
+export function SuggestionActions({ suggestion, canReview, isOwn, onReview, onWithdraw }: SuggestionActionsProps) {
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      {canReview && (
+        <>
+          <button onClick={() => onReview(suggestion.id, 'accept')} className="font-medium text-green-700 hover:text-green-800">
+            수락
+          </button>
+          <button onClick={() => onReview(suggestion.id, 'reject')} className="font-medium text-red-600 hover:text-red-700">
+            거절
+          </button>
+        </>
+      )}
+      {isOwn && (
+        <button onClick={() => onWithdraw(suggestion.id)} className="text-gray-500 hover:text-gray-700">
+          제안 취소
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Suggested change of a block, shown under the block in the editor
+ * Updates are rendered as insertions/deletions against the current content.
+ */
+export default function SuggestionCard({
+  suggestion,
+  block,
+  ...actions
+}: SuggestionActionsProps & { block?: SuggestionBlock }) {
+  const { change } = suggestion
+
+  let body: React.ReactNode = null
+  if (change.op === 'block.update' && block && change.content !== undefined) {
+    body =
+      block.type === 'TABLE' ? (
+        <p className="text-gray-600">표 내용을 변경하자는 제안입니다</p>
+      ) : (
+        <TextDiff parts={diffWords(blockText(block), blockText({ type: block.type, content: change.content }))} />
+      )
+  } else if (change.op === 'block.delete') {
+    body = <p className="text-gray-600">이 블록을 삭제하자는 제안입니다</p>
+  } else if (change.op === 'block.create') {
+    body = <p className="text-gray-600">이 블록을 추가하자는 제안입니다</p>
+  }
+
+  return (
+    <div className="mt-2 p-3 text-sm border border-amber-200 bg-amber-50 rounded-lg print:hidden">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <p className="text-xs text-amber-800">
+          <span className="font-medium">{suggestion.author.name}</span>님의 제안 · {timeAgo(suggestion.updatedAt)}
+        </p>
+        <SuggestionActions suggestion={suggestion} {...actions} />
+      </div>
+      {body}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { timeAgo } from '@/lib/utils'
+import type { Suggestion } from '@/hooks/useSuggestions'
+import { SuggestionActions, describeSuggestion } from './SuggestionCard'
+
+interface SuggestionsPanelProps {
+  suggestions: Suggestion[]
+  sectionTitles: Map<string, string>
+  currentUserId: string
+  /** OWNER/EDITOR may accept and reject */
+  canReview: boolean
+  onReview: (suggestionIds: string[], action: 'accept' | 'reject') => Promise<boolean>
+  onWithdraw: (suggestionId: string) => void
+  onSelectSection: (sectionId: string) => void
+}
+
+/**
+ * Pending suggestions of the whole manual, reviewed one by one or in bulk
+ */
+export default function SuggestionsPanel({
+  suggestions,
+  sectionTitles,
+  currentUserId,
+  canReview,
+  onReview,
+  onWithdraw,
+  onSelectSection,
+}: SuggestionsPanelProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isReviewing, setIsReviewing] = useState(false)
+
+  // Drop selections of suggestions that are gone
+  const selectedIds = suggestions.filter((suggestion) => selected.has(suggestion.id)).map((suggestion) => suggestion.id)
+  const allSelected = suggestions.length > 0 && selectedIds.length === suggestions.length
+
+  const toggle = (suggestionId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(suggestionId)) {
+        next.delete(suggestionId)
+      } else {
+        next.add(suggestionId)
+      }
+      return next
+    })
+  }
+
+  const handleBulkReview = async (action: 'accept' | 'reject') => {
+    if (selectedIds.length === 0) return
+    if (!confirm(`선택한 제안 ${selectedIds.length}개를 ${action === 'accept' ? '수락' : '거절'}하시겠습니까?`)) return
+
+    setIsReviewing(true)
+    const ok = await onReview(selectedIds, action)
+    setIsReviewing(false)
+
+    if (ok) {
+      setSelected(new Set())
+    }
+  }
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">대기 중인 제안이 없습니다</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {canReview && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(suggestions.map((suggestion) => suggestion.id)))}
+            />
+            전체 선택 ({selectedIds.length}/{suggestions.length})
+          </label>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={selectedIds.length === 0}
+              isLoading={isReviewing}
+              onClick={() => handleBulkReview('accept')}
+            >
+              선택 수락
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              disabled={selectedIds.length === 0 || isReviewing}
+              onClick={() => handleBulkReview('reject')}
+            >
+              선택 거절
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <li key={suggestion.id} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-start gap-2">
+              {canReview && (
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.has(suggestion.id)}
+                  onChange={() => toggle(suggestion.id)}
+                />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm text-gray-900 break-words">{describeSuggestion(suggestion, sectionTitles)}</p>
+                {suggestion.sectionId && (
+                  <button
+                    onClick={() => onSelectSection(suggestion.sectionId!)}
+                    className="block text-xs text-gray-500 hover:text-primary-600 truncate"
+                  >
+                    {sectionTitles.get(suggestion.sectionId) ?? ''}
+                  </button>
+                )}
+                <p className="text-xs text-gray-400">
+                  {suggestion.author.name} · {timeAgo(suggestion.updatedAt)}
+                </p>
+                <SuggestionActions
+                  suggestion={suggestion}
+                  canReview={canReview}
+                  isOwn={suggestion.authorId === currentUserId}
+                  onReview={(suggestionId, action) => onReview([suggestionId], action)}
+                  onWithdraw={onWithdraw}
+                />
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,415 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { BlockDiff, DiffStatus, ManualDiff, SectionDiff, TableDiff, TextDiffPart } from '@/lib/version-diff'
+
+interface VersionOption {
+  id: string
+  createdAt: string
+  summary: string | null
+}
+
+interface VersionDiffViewProps {
+  manualId: string
+  fromVersionId: string
+  versions: VersionOption[]
+  canEdit: boolean
+  onRestored?: () => void | Promise<void>
+}
+
+type DiffMode = 'inline' | 'side'
+
+type RestoreTarget = { sectionId: string } | { blockId: string }
+
+const BLOCK_TYPE_LABELS: Record<string, string> = {
+  HEADING1: '제목 1',
+  HEADING2: '제목 2',
+  HEADING3: '제목 3',
+  BODY: '본문',
+  IMAGE: '이미지',
+  VIDEO: '동영상',
+  TABLE: '표',
+  DIVIDER: '구분선',
+  CODE: '코드',
+}
+
+const STATUS_BADGES: Record<Exclude<DiffStatus, 'unchanged'>, { label: string; className: string }> = {
+  added: { label: '추가', className: 'bg-green-100 text-green-700' },
+  removed: { label: '삭제', className: 'bg-red-100 text-red-700' },
+  modified: { label: '수정', className: 'bg-yellow-100 text-yellow-700' },
+}
+
+function StatusBadges({ status, moved }: { status: DiffStatus; moved: boolean }) {
+  return (
+    <>
+      {status !== 'unchanged' && (
+        <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_BADGES[status].className}`}>
+          {STATUS_BADGES[status].label}
+        </span>
+      )}
+      {moved && (
+        <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-700">이동</span>
+      )}
+    </>
+  )
+}
+
+/**
+ * Word diff rendering
+ * `side` picks which parts to show for one column of the side-by-side view
+ */
+export function TextDiff({ parts, side }: { parts: TextDiffPart[]; side?: 'before' | 'after' }) {
+  return (
+    <span className="whitespace-pre-wrap break-words">
+      {parts.map((part, index) => {
+        if (part.type === 'equal') {
+          return <span key={index}>{part.text}</span>
+        }
+        if (part.type === 'delete') {
+          return side === 'after' ? null : (
+            <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+          )
+        }
+        return side === 'before' ? null : (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        )
+      })}
+    </span>
+  )
+}
+
+const CELL_STATUS_CLASSES: Record<DiffStatus, string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  modified: 'bg-yellow-50',
+  unchanged: '',
+}
+
+function TableDiffView({ table, side }: { table: TableDiff; side?: 'before' | 'after' }) {
+  const rows = Array.from({ length: table.rows }, (_, row) =>
+    table.cells.filter((cell) => cell.row === row)
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-collapse border border-gray-300 text-sm">
+        <tbody>
+          {rows.map((cells, row) => (
+            <tr key={row}>
+              {cells.map((cell) => {
+                // A cell that only exists on the other side is left blank
+                const hidden = (side === 'before' && cell.status === 'added') || (side === 'after' && cell.status === 'removed')
+
+                return (
+                  <td
+                    key={cell.col}
+                    className={`border border-gray-300 px-2 py-1 min-w-[80px] align-top ${
+                      hidden ? 'bg-gray-100' : CELL_STATUS_CLASSES[cell.status]
+                    }`}
+                  >
+                    {hidden ? null : side === 'before' ? (
+                      cell.before
+                    ) : side === 'after' ? (
+                      cell.after
+                    ) : cell.status === 'modified' ? (
+                      <>
+                        <del className="block text-red-700">{cell.before}</del>
+                        <ins className="block text-green-700 no-underline">{cell.after}</ins>
+                      </>
+                    ) : (
+                      cell.after || cell.before
+                    )}
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function BlockContent({ block, side }: { block: BlockDiff; side?: 'before' | 'after' }) {
+  if (block.table) {
+    return <TableDiffView table={block.table} side={side} />
+  }
+  if (block.text && block.text.length > 0) {
+    return <TextDiff parts={block.text} side={side} />
+  }
+  return <span className="text-gray-400">(내용 없음)</span>
+}
+
+function RestoreButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="ml-auto px-2 py-0.5 text-xs text-primary-600 hover:bg-primary-50 rounded"
+    >
+      {label}
+    </button>
+  )
+}
+
+function BlockDiffItem({
+  block,
+  mode,
+  sectionTitles,
+  onRestore,
+}: {
+  block: BlockDiff
+  mode: DiffMode
+  sectionTitles: Map<string, string>
+  onRestore?: (target: RestoreTarget) => void
+}) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-white">
+      <div className="flex items-center gap-2 mb-2 text-xs text-gray-500">
+        <span className="font-medium">{BLOCK_TYPE_LABELS[block.type] || block.type}</span>
+        <StatusBadges status={block.status} moved={block.moved} />
+        {block.fromSectionId && (
+          <span>
+            &lsquo;{sectionTitles.get(block.fromSectionId) || '삭제된 섹션'}&rsquo; 섹션에서 이동
+          </span>
+        )}
+        {block.formatOnly && <span>서식만 변경됨</span>}
+        {onRestore && block.status !== 'added' && block.status !== 'unchanged' && (
+          <RestoreButton label="이 블록 복원" onClick={() => onRestore({ blockId: block.id })} />
+        )}
+      </div>
+      {mode === 'side' && block.status === 'modified' ? (
+        <div className="grid grid-cols-2 gap-3 text-sm text-gray-800">
+          <div className="p-2 bg-gray-50 rounded">
+            <BlockContent block={block} side="before" />
+          </div>
+          <div className="p-2 bg-gray-50 rounded">
+            <BlockContent block={block} side="after" />
+          </div>
+        </div>
+      ) : (
+        <div className={`text-sm text-gray-800 ${block.status === 'removed' ? 'line-through opacity-70' : ''}`}>
+          <BlockContent block={block} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SectionDiffItem({
+  section,
+  mode,
+  showUnchanged,
+  sectionTitles,
+  onRestore,
+}: {
+  section: SectionDiff
+  mode: DiffMode
+  showUnchanged: boolean
+  sectionTitles: Map<string, string>
+  onRestore?: (target: RestoreTarget) => void
+}) {
+  const blocks = showUnchanged
+    ? section.blocks
+    : section.blocks.filter((block) => block.status !== 'unchanged' || block.moved)
+
+  return (
+    <div style={{ marginLeft: `${(section.depth - 1) * 16}px` }}>
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className={`text-sm font-semibold text-gray-900 ${section.status === 'removed' ? 'line-through' : ''}`}>
+          {section.previousTitle && (
+            <del className="text-red-700 bg-red-100 mr-1">{section.previousTitle}</del>
+          )}
+          {section.previousTitle ? (
+            <ins className="text-green-800 bg-green-100 no-underline">{section.title}</ins>
+          ) : (
+            section.title
+          )}
+        </h4>
+        <StatusBadges status={section.status} moved={section.moved} />
+        {onRestore && section.status !== 'added' && section.status !== 'unchanged' && (
+          <RestoreButton label="이 섹션 복원" onClick={() => onRestore({ sectionId: section.id })} />
+        )}
+      </div>
+      {blocks.length > 0 && (
+        <div className="space-y-2">
+          {blocks.map((block) => (
+            <BlockDiffItem
+              key={block.id}
+              block={block}
+              mode={mode}
+              sectionTitles={sectionTitles}
+              onRestore={onRestore}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function VersionDiffView({
+  manualId,
+  fromVersionId,
+  versions,
+  canEdit,
+  onRestored,
+}: VersionDiffViewProps) {
+  const [toVersionId, setToVersionId] = useState<string>('current')
+  const [mode, setMode] = useState<DiffMode>('inline')
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [diff, setDiff] = useState<ManualDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    fetchDiff()
+  }, [manualId, fromVersionId, toVersionId])
+
+  const fetchDiff = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(
+        `/api/manual/${manualId}/version/${fromVersionId}/diff?to=${encodeURIComponent(toVersionId)}`
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || '버전 비교에 실패했습니다')
+      }
+
+      setDiff(data.diff)
+    } catch (error) {
+      console.error('Failed to fetch version diff:', error)
+      alert(error instanceof Error ? error.message : '버전 비교에 실패했습니다')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Restores a section or block of the older version into the current manual
+  const handleRestore = async (target: RestoreTarget) => {
+    const label = 'sectionId' in target ? '섹션' : '블록'
+    if (!confirm(`이 ${label}을(를) 선택한 버전의 내용으로 되돌리시겠습니까?\n\n현재 내용은 새로운 버전으로 저장됩니다.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}/version/${fromVersionId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `${label} 복원에 실패했습니다`)
+      }
+
+      await fetchDiff()
+      if (onRestored) {
+        await onRestored()
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : `${label} 복원에 실패했습니다`)
+    }
+  }
+
+  const sectionTitles = new Map((diff?.sections || []).map((section) => [section.id, section.title]))
+  const visibleSections = (diff?.sections || []).filter(
+    (section) => showUnchanged || section.status !== 'unchanged' || section.moved
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600">비교 대상</span>
+        <select
+          value={toVersionId}
+          onChange={(e) => setToVersionId(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="current">현재 상태</option>
+          {versions
+            .filter((version) => version.id !== fromVersionId)
+            .map((version) => (
+              <option key={version.id} value={version.id}>
+                {new Date(version.createdAt).toLocaleString('ko-KR')}
+                {version.summary ? ` - ${version.summary}` : ''}
+              </option>
+            ))}
+        </select>
+        <div className="flex ml-auto border border-gray-300 rounded-lg overflow-hidden">
+          {([
+            { value: 'inline', label: '인라인' },
+            { value: 'side', label: '나란히' },
+          ] as const).map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setMode(option.value)}
+              className={`px-3 py-1.5 text-xs font-medium ${
+                mode === option.value ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+          />
+          변경 없는 항목 표시
+        </label>
+      </div>
+
+      {loading || !diff ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="flex gap-3 text-xs text-gray-600">
+            <span>추가 {diff.stats.added}</span>
+            <span>삭제 {diff.stats.removed}</span>
+            <span>수정 {diff.stats.modified}</span>
+            <span>이동 {diff.stats.moved}</span>
+          </div>
+
+          {diff.title && (
+            <div className="text-sm">
+              <span className="text-gray-500 mr-2">제목</span>
+              <TextDiff parts={diff.title} />
+            </div>
+          )}
+          {diff.description && (
+            <div className="text-sm">
+              <span className="text-gray-500 mr-2">설명</span>
+              <TextDiff parts={diff.description} />
+            </div>
+          )}
+
+          {visibleSections.length === 0 && !diff.title && !diff.description ? (
+            <p className="text-sm text-gray-500 text-center py-8">변경된 내용이 없습니다</p>
+          ) : (
+            <div className="space-y-4">
+              {visibleSections.map((section) => (
+                <SectionDiffItem
+                  key={section.id}
+                  section={section}
+                  mode={mode}
+                  showUnchanged={showUnchanged}
+                  sectionTitles={sectionTitles}
+                  onRestore={canEdit && toVersionId === 'current' ? handleRestore : undefined}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ManualBlockType, ManualChange, ManualChangesResult } from '@/lib/manual-changes'
+import { loadPendingChanges, savePendingChanges } from '@/lib/offline-queue'
+
+export type { ManualBlockType, ManualChange, ManualChangesResult }
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'offline'
+
+interface ManualChangesOptions {
+  /** A batch was saved; temporary IDs of later changes are already replaced */
+  onSaved: (result: ManualChangesResult) => void
+  /**
+   * A change was rejected because its revision is stale or another user holds a
+   * lock on its block (`current.lockedBy`). The rest of the batch is sent again without it
+   */
+  onConflict: (change: ManualChange, current: Record<string, unknown>) => void
+  /** The batch was rejected and dropped (permission, validation) */
+  onError: (message: string) => void
+  /** Changes left over from an earlier session were saved */
+  onRestored?: () => void
+}
+
+// 마지막 변경 후 자동 저장까지 대기 시간
+const AUTO_SAVE_DELAY = 3 * 1000
+// 연결이 끊겼을 때 다시 저장을 시도하는 간격
+const RETRY_DELAY = 15 * 1000
+
+/**
+ * Temporary ID for an item created on the client, replaced once the batch is saved
+ */
+export function createTempId() {
+  return `temp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function changeTargetId(change: ManualChange): string | null {
+  return 'id' in change ? change.id : null
+}
+
+/**
+ * Add a change to the queue, merging it into queued changes of the same item
+ */
+function mergeChange(queue: ManualChange[], change: ManualChange): ManualChange[] {
+  if (change.op === 'block.update' || change.op === 'section.update') {
+    const createOp = change.op === 'block.update' ? 'block.create' : 'section.create'
+    const index = queue.findIndex(
+      (queued) =>
+        (queued.op === change.op && queued.id === change.id) ||
+        (queued.op === createOp && queued.tempId === change.id)
+    )
+
+    if (index !== -1) {
+      const queued = queue[index]
+      // Keep the revision the first queued update was based on
+      const fields = Object.fromEntries(
+        Object.entries(change).filter(([key, value]) => !['op', 'id', 'revision'].includes(key) && value !== undefined)
+      )
+      return queue.map((item, i) => (i === index ? ({ ...queued, ...fields } as ManualChange) : item))
+    }
+    return [...queue, change]
+  }
+
+  if (change.op === 'block.delete') {
+    const created = queue.some((queued) => queued.op === 'block.create' && queued.tempId === change.id)
+    const rest = queue
+      .filter((queued) => changeTargetId(queued) !== change.id)
+      .filter((queued) => !(queued.op === 'block.create' && queued.tempId === change.id))
+      .map((queued) =>
+        queued.op === 'block.reorder'
+          ? { ...queued, blocks: queued.blocks.filter((block) => block.id !== change.id) }
+          : queued
+      )
+    // Never saved, nothing to delete on the server
+    return created ? rest : [...rest, change]
+  }
+
+  return [...queue, change]
+}
+
+/**
+ * Replace temporary IDs and bump revisions of queued changes after a batch was saved
+ */
+function rebaseChanges(queue: ManualChange[], result: ManualChangesResult): ManualChange[] {
+  const resolve = (id: string) => result.ids[id] ?? id
+
+  return queue.map((change) => {
+    switch (change.op) {
+      case 'block.create':
+        return { ...change, sectionId: resolve(change.sectionId) }
+      case 'block.update': {
+        const id = resolve(change.id)
+        const revision = result.revisions.blocks[id]
+        return { ...change, id, ...(revision !== undefined ? { revision } : {}) }
+      }
+      case 'section.update': {
+        const id = resolve(change.id)
+        const revision = result.revisions.sections[id]
+        return { ...change, id, ...(revision !== undefined ? { revision } : {}) }
+      }
+      case 'block.delete':
+      case 'section.delete':
+        return { ...change, id: resolve(change.id) }
+      case 'block.reorder':
+        return { ...change, blocks: change.blocks.map((block) => ({ ...block, id: resolve(block.id) })) }
+      case 'section.create':
+        return { ...change, ...(change.parentId ? { parentId: resolve(change.parentId) } : {}) }
+      case 'section.reorder':
+        return { ...change, sections: change.sections.map((section) => ({ ...section, id: resolve(section.id) })) }
+    }
+  })
+}
+
+/**
+ * Queue of unsaved block/section changes of a manual
+ * Changes are sent in order as one batch to POST /api/manual/[id]/changes,
+ * a few seconds after the last change or right away with `flush`.
+ * The queue is mirrored to IndexedDB: while offline it keeps growing, and changes
+ * left over from an earlier session are sent when the manual is opened again.
+ */
+export function useManualChanges(manualId: string, options: ManualChangesOptions) {
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved')
+  const [pendingCount, setPendingCount] = useState(0)
+  const queueRef = useRef<ManualChange[]>([])
+  // Batch being sent, stored until the server confirms it
+  const sendingRef = useRef<ManualChange[]>([])
+  const savingRef = useRef<Promise<void> | null>(null)
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const offlineRef = useRef(false)
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }
+
+  const scheduleFlush = (delay: number) => {
+    clearTimer()
+    timerRef.current = setTimeout(() => {
+      flushRef.current()
+    }, delay)
+  }
+
+  // Mirror unsent changes to IndexedDB
+  const persist = useCallback(() => {
+    const pending = [...sendingRef.current, ...queueRef.current]
+    setPendingCount(pending.length)
+    savePendingChanges(manualId, pending).catch((error) => {
+      console.error('Failed to store pending changes:', error)
+    })
+  }, [manualId])
+
+  const goOffline = () => {
+    offlineRef.current = true
+    setSaveStatus('offline')
+  }
+
+  const sendQueue = useCallback(async () => {
+    while (queueRef.current.length > 0) {
+      const batch = queueRef.current
+      queueRef.current = []
+      sendingRef.current = batch
+      setSaveStatus('saving')
+
+      let response: Response
+      let data
+      try {
+        response = await fetch(`/api/manual/${manualId}/changes`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ changes: batch }),
+        })
+        data = await response.json()
+      } catch (error) {
+        // Connection lost: keep the changes and try again later
+        console.error('Failed to save changes:', error)
+        sendingRef.current = []
+        queueRef.current = [...batch, ...queueRef.current]
+        persist()
+        goOffline()
+        scheduleFlush(RETRY_DELAY)
+        return
+      }
+
+      sendingRef.current = []
+      offlineRef.current = false
+
+      if (response.ok) {
+        const result: ManualChangesResult = { ids: data.ids, revisions: data.revisions }
+        queueRef.current = rebaseChanges(queueRef.current, result)
+        persist()
+        optionsRef.current.onSaved(result)
+        continue
+      }
+
+      const index = data.current?.index
+      if (response.status === 409 && typeof index === 'number' && batch[index]) {
+        // Set the stale change aside and send the rest again
+        queueRef.current = [...batch.filter((_, i) => i !== index), ...queueRef.current]
+        persist()
+        optionsRef.current.onConflict(batch[index], data.current)
+        continue
+      }
+
+      if (response.status >= 500) {
+        console.error('Failed to save changes:', data.error)
+        queueRef.current = [...batch, ...queueRef.current]
+        persist()
+        setSaveStatus('unsaved')
+        scheduleFlush(RETRY_DELAY)
+        return
+      }
+
+      persist()
+      optionsRef.current.onError(data.error || '변경 사항 저장에 실패했습니다')
+    }
+
+    setSaveStatus('saved')
+  }, [manualId, persist])
+
+  /**
+   * Send queued changes now, resolves once everything queued so far is saved
+   * (or the connection is lost, see `hasPendingChanges`)
+   */
+  const flush = useCallback(async () => {
+    clearTimer()
+
+    while (savingRef.current) {
+      await savingRef.current
+    }
+    if (queueRef.current.length === 0) return
+
+    if (!navigator.onLine) {
+      goOffline()
+      return
+    }
+
+    const saving = sendQueue()
+    savingRef.current = saving
+    try {
+      await saving
+    } finally {
+      savingRef.current = null
+    }
+  }, [sendQueue])
+
+  const flushRef = useRef(flush)
+  flushRef.current = flush
+
+  /**
+   * Queue a change and schedule an auto-save
+   */
+  const enqueue = useCallback((change: ManualChange) => {
+    queueRef.current = mergeChange(queueRef.current, change)
+    persist()
+    setSaveStatus(offlineRef.current ? 'offline' : 'unsaved')
+    scheduleFlush(AUTO_SAVE_DELAY)
+  }, [persist])
+
+  const hasPendingChanges = useCallback(() => queueRef.current.length > 0 || savingRef.current !== null, [])
+
+  // Send changes left over from an earlier session first
+  useEffect(() => {
+    let cancelled = false
+
+    loadPendingChanges(manualId)
+      .then(async (stored) => {
+        if (cancelled || stored.length === 0) return
+
+        queueRef.current = queueRef.current.reduce(mergeChange, stored)
+        persist()
+        await flushRef.current()
+
+        if (!cancelled && queueRef.current.length === 0) {
+          optionsRef.current.onRestored?.()
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load pending changes:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [manualId, persist])
+
+  // Send as soon as the connection is back
+  useEffect(() => {
+    const handleOnline = () => {
+      offlineRef.current = false
+      flushRef.current()
+    }
+    const handleOffline = () => goOffline()
+
+    if (!navigator.onLine) {
+      goOffline()
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearTimer()
+    }
+  }, [])
+
+  return { saveStatus, pendingCount, enqueue, flush, hasPendingChanges }
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export interface PresenceUser {
+  clientId: string
+  userId: string
+  name: string
+  profileImage: string | null
+  sectionId: string | null
+  lockedBlockId: string | null
+}
+
+export type LockMode = 'warn' | 'block'
+
+// 하트비트 주기 (서버의 PRESENCE_TIMEOUT_MS보다 충분히 짧아야 함)
+const HEARTBEAT_INTERVAL = 10 * 1000
+// 입력 중 상태를 알리는 최소 간격
+const TYPING_THROTTLE = 3 * 1000
+// 블록 간 포커스 이동을 한 번의 하트비트로 묶는 시간
+const FOCUS_DELAY = 300
+
+function createClientId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Report this tab's position in a manual and get who else is there
+ * @param manualId - Manual being shown
+ * @param sectionId - Selected section
+ * @param enabled - Start heartbeats (e.g. once the manual is loaded)
+ */
+export function usePresence(manualId: string, sectionId: string | null, enabled: boolean = true) {
+  const [users, setUsers] = useState<PresenceUser[]>([])
+  const [lockMode, setLockMode] = useState<LockMode>('warn')
+  const clientIdRef = useRef<string | null>(null)
+  const stateRef = useRef<{ sectionId: string | null; blockId: string | null; typing: boolean }>({
+    sectionId,
+    blockId: null,
+    typing: false,
+  })
+  const lastTypingSentRef = useRef(0)
+  const focusTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  const sendHeartbeat = useCallback(async () => {
+    if (!clientIdRef.current) return
+
+    const { sectionId, blockId, typing } = stateRef.current
+    stateRef.current.typing = false
+
+    try {
+      const response = await fetch(`/api/manual/${manualId}/presence`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId: clientIdRef.current, sectionId, blockId, typing }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setUsers(data.users)
+        setLockMode(data.lockMode)
+      }
+    } catch (error) {
+      console.error('Failed to update presence:', error)
+    }
+  }, [manualId])
+
+  // Heartbeats while the manual is open, leave when the tab closes
+  useEffect(() => {
+    if (!enabled) return
+
+    const clientId = clientIdRef.current ?? createClientId()
+    clientIdRef.current = clientId
+
+    const leave = () => {
+      fetch(`/api/manual/${manualId}/presence?clientId=${encodeURIComponent(clientId)}`, {
+        method: 'DELETE',
+        keepalive: true,
+      }).catch(() => {})
+    }
+
+    sendHeartbeat()
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL)
+    window.addEventListener('pagehide', leave)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('pagehide', leave)
+      if (focusTimerRef.current) {
+        clearTimeout(focusTimerRef.current)
+      }
+      leave()
+      setUsers([])
+    }
+  }, [enabled, manualId, sendHeartbeat])
+
+  // Section changes are shown to others right away
+  useEffect(() => {
+    if (stateRef.current.sectionId === sectionId) return
+
+    stateRef.current = { sectionId, blockId: null, typing: false }
+    if (enabled) {
+      sendHeartbeat()
+    }
+  }, [enabled, sectionId, sendHeartbeat])
+
+  /**
+   * The block being edited changed (null when editing stopped)
+   */
+  const setActiveBlock = useCallback((blockId: string | null) => {
+    if (stateRef.current.blockId === blockId) return
+
+    stateRef.current.blockId = blockId
+    stateRef.current.typing = false
+
+    if (focusTimerRef.current) {
+      clearTimeout(focusTimerRef.current)
+    }
+    focusTimerRef.current = setTimeout(sendHeartbeat, FOCUS_DELAY)
+  }, [sendHeartbeat])
+
+  /**
+   * The user typed in a block, keeps its soft lock alive
+   */
+  const reportTyping = useCallback((blockId: string) => {
+    stateRef.current.blockId = blockId
+    stateRef.current.typing = true
+
+    const now = Date.now()
+    if (now - lastTypingSentRef.current >= TYPING_THROTTLE) {
+      lastTypingSentRef.current = now
+      sendHeartbeat()
+    }
+  }, [sendHeartbeat])
+
+  return { users, lockMode, setActiveBlock, reportTyping }
+}
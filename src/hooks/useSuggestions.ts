@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ManualChange, ManualChangesResult } from '@/lib/manual-changes'
+
+export interface Suggestion {
+  id: string
+  change: ManualChange
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED'
+  sectionId: string | null
+  blockId: string | null
+  authorId: string
+  author: {
+    id: string
+    name: string
+    profileImage: string | null
+  }
+  createdAt: string
+  updatedAt: string
+}
+
+// 제안된 새 블록을 편집기에 표시할 때 쓰는 ID 접두사
+export const SUGGESTED_BLOCK_PREFIX = 'suggestion-'
+
+/**
+ * Editor ID of a suggested new block (and back)
+ */
+export function suggestedBlockId(suggestionId: string) {
+  return `${SUGGESTED_BLOCK_PREFIX}${suggestionId}`
+}
+
+export function parseSuggestedBlockId(blockId: string): string | null {
+  return blockId.startsWith(SUGGESTED_BLOCK_PREFIX) ? blockId.slice(SUGGESTED_BLOCK_PREFIX.length) : null
+}
+
+interface SuggestionsOptions {
+  /** A request failed; the message is shown to the user */
+  onError: (message: string) => void
+  /** Suggestions were accepted and applied to the manual */
+  onAccepted?: (result: ManualChangesResult) => void
+}
+
+/**
+ * Pending suggestions of a manual
+ * Suggesting, revising and withdrawing update the list in place; a review that
+ * conflicts with the current manual reloads it.
+ */
+export function useSuggestions(manualId: string, enabled: boolean, options: SuggestionsOptions) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/manual/${manualId}/suggestions`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuggestions(data.suggestions)
+      } else {
+        console.error('Failed to fetch suggestions:', data.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch suggestions:', error)
+    }
+  }, [manualId])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchSuggestions()
+    }
+  }, [enabled, fetchSuggestions])
+
+  /**
+   * Send a request and report its error, resolves to the response data or null
+   */
+  const send = useCallback(async (url: string, init: RequestInit, fallbackError: string) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        optionsRef.current.onError(data.error || fallbackError)
+        if (response.status === 404 || response.status === 409) {
+          await fetchSuggestions()
+        }
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error(fallbackError, error)
+      optionsRef.current.onError(fallbackError)
+      return null
+    }
+  }, [fetchSuggestions])
+
+  const replace = (id: string, suggestion: Suggestion | null) => {
+    setSuggestions((prev) => {
+      if (!suggestion) return prev.filter((item) => item.id !== id)
+      return prev.some((item) => item.id === id)
+        ? prev.map((item) => (item.id === id ? suggestion : item))
+        : [...prev, suggestion]
+    })
+  }
+
+  /**
+   * Suggest a change; edits of an already suggested block or title update that suggestion
+   */
+  const suggest = useCallback(async (change: ManualChange) => {
+    const data = await send(
+      `/api/manual/${manualId}/suggestions`,
+      { method: 'POST', body: JSON.stringify({ change }) },
+      '제안 저장에 실패했습니다'
+    )
+    if (!data) return false
+
+    if (data.suggestion) {
+      replace(data.suggestion.id, data.suggestion)
+    } else {
+      // Changed back to the current content: the earlier suggestion was dropped
+      await fetchSuggestions()
+    }
+    return true
+  }, [manualId, send, fetchSuggestions])
+
+  /**
+   * Change the content or title of an own suggestion
+   */
+  const revise = useCallback(async (suggestionId: string, patch: { content?: string; title?: string }) => {
+    const data = await send(
+      `/api/manual/${manualId}/suggestions/${suggestionId}`,
+      { method: 'PUT', body: JSON.stringify(patch) },
+      '제안 수정에 실패했습니다'
+    )
+    if (!data) return false
+
+    replace(suggestionId, data.suggestion)
+    return true
+  }, [manualId, send])
+
+  const withdraw = useCallback(async (suggestionId: string) => {
+    const data = await send(
+      `/api/manual/${manualId}/suggestions/${suggestionId}`,
+      { method: 'DELETE' },
+      '제안 취소에 실패했습니다'
+    )
+    if (!data) return false
+
+    replace(suggestionId, null)
+    return true
+  }, [manualId, send])
+
+  /**
+   * Accept or reject suggestions (owners and editors)
+   */
+  const review = useCallback(async (suggestionIds: string[], action: 'accept' | 'reject') => {
+    const data = await send(
+      `/api/manual/${manualId}/suggestions/review`,
+      { method: 'POST', body: JSON.stringify({ ids: suggestionIds, action }) },
+      action === 'accept' ? '제안 수락에 실패했습니다' : '제안 거절에 실패했습니다'
+    )
+    if (!data) return false
+
+    setSuggestions((prev) => prev.filter((item) => !suggestionIds.includes(item.id)))
+    if (action === 'accept') {
+      optionsRef.current.onAccepted?.({ ids: data.ids, revisions: data.revisions })
+    }
+    return true
+  }, [manualId, send])
+
+  return { suggestions, fetchSuggestions, suggest, revise, withdraw, review }
+}
@@ -0,0 +1,408 @@
+import { prisma } from '@/test/prisma'
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { strToU8 } from 'fflate'
+import { BadRequestError } from './errors'
+import { createManualBackup, readBackup, restoreBackup } from './backup'
+import { encodeAfter, readStoredSnapshot } from './version-storage'
+import { buildManualSnapshot, hashSnapshot, type ManualSnapshot } from './versions'
+
+const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads')
+
+type Row = Record<string, any>
+
+let sequence = 0
+const db: Record<string, Row[]> = {
+  users: [],
+  members: [],
+  manuals: [],
+  sections: [],
+  blocks: [],
+  rules: [],
+  files: [],
+  versions: [],
+  shares: [],
+  reviewers: [],
+}
+
+function insert(table: Row[], data: Row): Row {
+  const row = { id: `row-${++sequence}`, ...data }
+  table.push(row)
+  return row
+}
+
+const byOrder = (a: Row, b: Row) => a.order - b.order
+const byCreatedAt = (a: Row, b: Row) => a.createdAt.getTime() - b.createdAt.getTime()
+
+// The manual with every relation the backup and snapshot code include
+function loadManual(manual: Row): Row {
+  return {
+    ...manual,
+    sections: db.sections
+      .filter((section) => section.manualId === manual.id)
+      .sort(byOrder)
+      .map((section) => ({
+        ...section,
+        blocks: db.blocks.filter((block) => block.sectionId === section.id).sort(byOrder),
+        accessRules: db.rules
+          .filter((rule) => rule.sectionId === section.id)
+          .map(({ userId, role, permission }) => ({ userId, role, permission })),
+      })),
+    versions: db.versions.filter((version) => version.manualId === manual.id).sort(byCreatedAt),
+    shares: db.shares.filter((share) => share.manualId === manual.id),
+    reviewers: db.reviewers.filter((reviewer) => reviewer.manualId === manual.id),
+  }
+}
+
+prisma.manual = {
+  create: async ({ data }: Row) =>
+    insert(db.manuals, { coverImage: null, publishedVersionId: null, publishedAt: null, createdAt: new Date(), ...data }),
+  update: async ({ where, data }: Row) => Object.assign(db.manuals.find((manual) => manual.id === where.id)!, data),
+  findUnique: async ({ where }: Row) => {
+    const manual = db.manuals.find((row) => row.id === where.id)
+    return manual ? loadManual(manual) : null
+  },
+}
+prisma.manualSection = { create: async ({ data }: Row) => insert(db.sections, data) }
+prisma.contentBlock = { create: async ({ data }: Row) => insert(db.blocks, data) }
+prisma.sectionAccessRule = { createMany: async ({ data }: Row) => db.rules.push(...data) }
+prisma.manualShare = { createMany: async ({ data }: Row) => db.shares.push(...data) }
+prisma.manualReviewer = { createMany: async ({ data }: Row) => db.reviewers.push(...data) }
+prisma.manualVersion = {
+  create: async ({ data }: Row) => insert(db.versions, { createdAt: new Date(), ...data }),
+  findUnique: async ({ where }: Row) => db.versions.find((version) => version.id === where.id) ?? null,
+  findFirst: async ({ where }: Row) =>
+    db.versions.filter((version) => version.manualId === where.manualId).sort(byCreatedAt).pop() ?? null,
+}
+prisma.file = {
+  create: async ({ data }: Row) => insert(db.files, { createdAt: new Date(), ...data }),
+  findMany: async ({ where }: Row) =>
+    db.files
+      .filter((file) =>
+        where.OR.some(
+          (condition: Row) =>
+            (condition.manualId && file.manualId === condition.manualId) ||
+            condition.id?.in.includes(file.id) ||
+            condition.storedFilename?.in.includes(file.storedFilename)
+        )
+      )
+      .sort(byCreatedAt),
+}
+prisma.user = {
+  findMany: async ({ where, select }: Row) =>
+    db.users
+      .filter((user) => (where.id ? where.id.in.includes(user.id) : where.email.in.includes(user.email)))
+      .map((user) => ({
+        ...user,
+        teamMemberships: db.members.filter(
+          (member) => member.userId === user.id && member.teamId === select.teamMemberships?.where.teamId
+        ),
+      })),
+}
+prisma.$transaction = async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma)
+
+/**
+ * A manual as a user sees it, without IDs and stored file names
+ * Uploads and image file IDs are named by the original file name, users by email.
+ */
+async function describeManual(manualId: string) {
+  const manual = loadManual(db.manuals.find((row) => row.id === manualId)!)
+  const files = db.files.filter((file) => file.manualId === manualId)
+  const fileName = new Map<string, string>()
+  db.files.forEach((file) => {
+    fileName.set(file.id, file.filename)
+    fileName.set(file.storedFilename, file.filename)
+  })
+  const email = (userId: string | null) => db.users.find((user) => user.id === userId)?.email ?? userId
+
+  const content = (type: string, value: string) => {
+    const named = value.replace(/\/uploads\/([\w.-]+)/g, (_, name: string) => `/uploads/${fileName.get(name) ?? name}`)
+    if (type !== 'IMAGE') return named
+    const image = JSON.parse(named)
+    return { ...image, fileId: image.fileId && fileName.get(image.fileId) }
+  }
+
+  const tree = (sections: ManualSnapshot['sections'], parentId: string | null = null): unknown[] =>
+    sections
+      .filter((section) => section.parentId === parentId)
+      .sort(byOrder)
+      .map((section) => ({
+        title: section.title,
+        order: section.order,
+        depth: section.depth,
+        restricted: section.restricted,
+        accessRules: section.accessRules?.map((rule) => ({ ...rule, userId: email(rule.userId) })),
+        blocks: section.blocks.map((block) => ({ type: block.type, order: block.order, content: content(block.type, block.content) })),
+        children: tree(sections, section.id),
+      }))
+
+  const versions = []
+  for (const version of manual.versions) {
+    const snapshot = await readStoredSnapshot(version)
+    versions.push({
+      kind: version.kind,
+      summary: version.summary,
+      createdBy: email(version.createdBy),
+      createdAt: version.createdAt.toISOString(),
+      title: snapshot.title,
+      sections: tree(snapshot.sections),
+      published: version.id === manual.publishedVersionId,
+    })
+  }
+
+  return {
+    title: manual.title,
+    description: manual.description,
+    visibility: manual.visibility,
+    coverImage: manual.coverImage && content('', manual.coverImage),
+    owner: email(manual.ownerId),
+    publishedAt: manual.publishedAt?.toISOString() ?? null,
+    sections: tree((await buildManualSnapshot(manualId)).sections),
+    files: await Promise.all(
+      files.map(async (file) => ({
+        filename: file.filename,
+        mimeType: file.mimeType,
+        size: file.size,
+        width: file.width,
+        height: file.height,
+        uploadedBy: email(file.uploadedBy),
+        data: (await readFile(join(UPLOAD_DIR, file.storedFilename))).toString('base64'),
+      }))
+    ),
+    shares: manual.shares.map((share: Row) => ({ user: email(share.userId), permission: share.permission })),
+    reviewers: manual.reviewers.map((reviewer: Row) => email(reviewer.userId)),
+    versions,
+  }
+}
+
+async function uploadFile(manualId: string, filename: string, data: string, uploadedBy: string) {
+  const storedFilename = `backup-test-${randomUUID()}.png`
+  await writeFile(join(UPLOAD_DIR, storedFilename), data)
+  return prisma.file.create({
+    data: {
+      filename,
+      storedFilename,
+      mimeType: 'image/png',
+      size: data.length,
+      path: `/uploads/${storedFilename}`,
+      width: 40,
+      height: 30,
+      uploadedBy,
+      manualId,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    },
+  })
+}
+
+describe('manual backup', () => {
+  let manualId: string
+
+  before(async () => {
+    await mkdir(UPLOAD_DIR, { recursive: true })
+
+    db.users.push(
+      { id: 'owner', email: 'owner@example.com', name: 'Owner' },
+      { id: 'editor', email: 'editor@example.com', name: 'Editor' },
+      { id: 'viewer', email: 'viewer@example.com', name: 'Viewer' }
+    )
+    db.members.push(
+      { userId: 'owner', teamId: 'team-1' },
+      { userId: 'editor', teamId: 'team-1' },
+      { userId: 'viewer', teamId: 'team-1' }
+    )
+
+    const manual = await prisma.manual.create({
+      data: {
+        title: 'Handbook',
+        description: 'For everyone',
+        visibility: 'TEAM',
+        teamId: 'team-1',
+        ownerId: 'owner',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      },
+    })
+    manualId = manual.id
+
+    const diagram = await uploadFile(manualId, 'diagram.png', 'diagram-bytes', 'editor')
+    const cover = await uploadFile(manualId, 'cover.png', 'cover-bytes', 'owner')
+    // Only used by a block that was deleted later (kept in the first version)
+    const old = await uploadFile(manualId, 'old.png', 'old-bytes', 'owner')
+    await prisma.manual.update({ where: { id: manualId }, data: { coverImage: cover.path } })
+
+    const intro = await prisma.manualSection.create({
+      data: { manualId, title: 'Intro', order: 0, depth: 1, parentId: null, restricted: false },
+    })
+    const internal = await prisma.manualSection.create({
+      data: { manualId, title: 'Internal', order: 1, depth: 1, parentId: null, restricted: true },
+    })
+    const details = await prisma.manualSection.create({
+      data: { manualId, title: 'Details', order: 0, depth: 2, parentId: internal.id, restricted: false },
+    })
+    db.rules.push(
+      { sectionId: internal.id, userId: 'editor', role: null, permission: 'EDITOR' },
+      { sectionId: internal.id, userId: null, role: 'VIEWER', permission: 'VIEWER' }
+    )
+
+    await prisma.contentBlock.create({
+      data: { sectionId: intro.id, type: 'HEADING1', order: 0, content: JSON.stringify({ text: 'Welcome' }) },
+    })
+    await prisma.contentBlock.create({
+      data: {
+        sectionId: intro.id,
+        type: 'IMAGE',
+        order: 1,
+        content: JSON.stringify({ url: diagram.path, fileId: diagram.id, width: 40, height: 30 }),
+      },
+    })
+    await prisma.contentBlock.create({
+      data: { sectionId: details.id, type: 'BODY', order: 0, content: `<p>See <img src="${diagram.path}"></p>` },
+    })
+
+    db.shares.push({ manualId, userId: 'viewer', permission: 'VIEWER', sharedAt: new Date('2026-01-02T00:00:00Z') })
+    db.reviewers.push({ manualId, userId: 'editor' })
+
+    // First version: a section that was deleted since, with an image of its own
+    const first: ManualSnapshot = {
+      title: 'Handbook',
+      description: 'For everyone',
+      sections: [
+        {
+          id: 'deleted-section',
+          title: 'Old chapter',
+          order: 0,
+          depth: 1,
+          parentId: null,
+          restricted: false,
+          accessRules: [],
+          blocks: [
+            {
+              id: 'deleted-block',
+              type: 'IMAGE',
+              content: JSON.stringify({ url: old.path, fileId: old.id }),
+              order: 0,
+            },
+          ],
+        },
+      ],
+    }
+    const v1 = await prisma.manualVersion.create({
+      data: {
+        manualId,
+        createdBy: 'owner',
+        ...encodeAfter(null, first),
+        contentHash: hashSnapshot(JSON.stringify(first)),
+        kind: 'NAMED',
+        summary: 'First draft',
+        createdAt: new Date('2026-01-03T00:00:00Z'),
+      },
+    })
+    const current = await buildManualSnapshot(manualId)
+    await prisma.manualVersion.create({
+      data: {
+        manualId,
+        createdBy: 'editor',
+        ...encodeAfter({ id: v1.id, chainDepth: 0, snapshot: first }, current),
+        contentHash: hashSnapshot(JSON.stringify(current)),
+        kind: 'AUTO',
+        summary: null,
+        createdAt: new Date('2026-01-04T00:00:00Z'),
+      },
+    })
+    await prisma.manual.update({
+      where: { id: manualId },
+      data: { publishedVersionId: v1.id, publishedAt: new Date('2026-01-05T00:00:00Z') },
+    })
+  })
+
+  after(async () => {
+    await Promise.all(db.files.map((file) => unlink(join(UPLOAD_DIR, file.storedFilename)).catch(() => undefined)))
+  })
+
+  test('restoring a backup recreates the manual', async () => {
+    const { backup, files } = readBackup('handbook.zip', await createManualBackup(manualId))
+    assert.equal(files.size, 3)
+
+    const result = await restoreBackup(backup, files, { teamId: 'team-1', userId: 'owner' })
+    assert.equal(result.manualIds.length, 1)
+    assert.deepEqual(result.warnings, [])
+
+    const restoredId = result.manualIds[0]
+    assert.notEqual(restoredId, manualId)
+    assert.deepEqual(await describeManual(restoredId), await describeManual(manualId))
+
+    // New rows and files, nothing shared with the original
+    const original = new Set(db.files.filter((file) => file.manualId === manualId).map((file) => file.storedFilename))
+    assert.ok(db.files.filter((file) => file.manualId === restoredId).every((file) => !original.has(file.storedFilename)))
+
+    // The latest version still matches the restored content
+    const restored = loadManual(db.manuals.find((manual) => manual.id === restoredId)!)
+    const latest = restored.versions[restored.versions.length - 1]
+    assert.equal(latest.contentHash, hashSnapshot(JSON.stringify(await buildManualSnapshot(restoredId))))
+  })
+
+  test('a backup of the restored manual matches the original backup', async () => {
+    const { backup, files } = readBackup('handbook.zip', await createManualBackup(manualId))
+    const { manualIds } = await restoreBackup(backup, files, { teamId: 'team-1', userId: 'owner' })
+    const again = readBackup('again.zip', await createManualBackup(manualIds[0]))
+
+    assert.equal(again.backup.manuals[0].versions.length, backup.manuals[0].versions.length)
+    assert.deepEqual(
+      [...again.files.values()].map((data) => Buffer.from(data).toString()).sort(),
+      [...files.values()].map((data) => Buffer.from(data).toString()).sort()
+    )
+  })
+
+  test('users outside the team lose shares and access rules', async () => {
+    db.members.push({ userId: 'owner', teamId: 'team-2' })
+
+    const { backup, files } = readBackup('handbook.zip', await createManualBackup(manualId))
+    const result = await restoreBackup(backup, files, { teamId: 'team-2', userId: 'owner' })
+    const restored = await describeManual(result.manualIds[0])
+
+    assert.match(result.warnings[0], /editor@example\.com, viewer@example\.com/)
+    assert.deepEqual(restored.shares, [])
+    assert.deepEqual(restored.reviewers, [])
+    assert.deepEqual((restored.sections[1] as { accessRules: unknown }).accessRules, [
+      { userId: null, role: 'VIEWER', permission: 'VIEWER' },
+    ])
+    // Authorship is kept for any known user
+    assert.equal(restored.versions[1].createdBy, 'editor@example.com')
+  })
+
+  test('manuals without a published version are published on restore', async () => {
+    const { backup, files } = readBackup('handbook.zip', await createManualBackup(manualId))
+    const [original] = backup.manuals
+
+    const cases: Array<[typeof original, string]> = [
+      [{ ...original, versions: [], publishedVersionId: null }, '초기 버전'],
+      [{ ...original, publishedVersionId: 'unknown-version' }, '게시 버전'],
+    ]
+    for (const [manual, summary] of cases) {
+      const { manualIds } = await restoreBackup({ ...backup, manuals: [manual] }, files, {
+        teamId: 'team-1',
+        userId: 'owner',
+      })
+      const restored = loadManual(db.manuals.find((row) => row.id === manualIds[0])!)
+      const latest = restored.versions[restored.versions.length - 1]
+
+      assert.equal(restored.versions.length, manual.versions.length + 1)
+      assert.deepEqual([latest.kind, latest.summary], ['NAMED', summary])
+      assert.equal(restored.publishedVersionId, latest.id)
+      assert.deepEqual(await readStoredSnapshot(latest), await buildManualSnapshot(restored.id))
+    }
+  })
+
+  test('backups of another format version are rejected', async () => {
+    const { backup } = readBackup('handbook.zip', await createManualBackup(manualId))
+    const json = strToU8(JSON.stringify({ ...backup, version: 2 }))
+
+    assert.throws(() => readBackup('backup.json', json), (error: Error) => {
+      assert.ok(error instanceof BadRequestError)
+      assert.equal(error.message, '지원하지 않는 백업 형식입니다')
+      return true
+    })
+  })
+})
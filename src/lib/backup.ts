@@ -0,0 +1,715 @@
+/**
+ * Backup and restore of manuals and whole teams
+ * A backup is a zip of `backup.json` (validated by backupSchema) and the uploaded files
+ * under `files/`. The JSON keeps the original IDs; restoring creates new rows and remaps
+ * section, block, file and version IDs, users (by email) and upload paths, so a backup
+ * can be restored into another environment or next to its original.
+ *
+ * Included: manuals, sections with access rules, blocks, files, versions (as full
+ * snapshots), shares and reviewers. Comments, suggestions, reviews, external share
+ * links and team templates are not.
+ */
+
+import { randomUUID } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { extname, join } from 'path'
+import { strToU8, strFromU8, zipSync } from 'fflate'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { BadRequestError, NotFoundError } from './errors'
+import { readZip } from './import'
+import { publishVersion } from './publication'
+import { encodeAfter, readStoredSnapshot } from './version-storage'
+import { createManualVersion, hashSnapshot, type ManualSnapshot } from './versions'
+
+export const BACKUP_FORMAT = 'menualic-backup'
+export const BACKUP_VERSION = 1
+
+export const MAX_BACKUP_SIZE = 200 * 1024 * 1024
+const MAX_UNZIPPED_BACKUP_SIZE = 500 * 1024 * 1024
+
+const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads')
+const BACKUP_JSON = 'backup.json'
+const FILES_DIR = 'files/'
+
+const roleSchema = z.enum(['OWNER', 'EDITOR', 'VIEWER'])
+const permissionSchema = z.enum(['EDITOR', 'VIEWER'])
+
+const accessRuleSchema = z.object({
+  userId: z.string().nullable(),
+  role: roleSchema.nullable(),
+  permission: permissionSchema,
+})
+
+const blockSchema = z.object({
+  id: z.string(),
+  type: z.enum(['HEADING1', 'HEADING2', 'HEADING3', 'BODY', 'IMAGE', 'VIDEO', 'TABLE', 'DIVIDER', 'CODE']),
+  content: z.string(),
+  order: z.number().int(),
+})
+
+const sectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  order: z.number().int(),
+  depth: z.number().int().min(1).max(3),
+  parentId: z.string().nullable(),
+  restricted: z.boolean(),
+  accessRules: z.array(accessRuleSchema),
+  blocks: z.array(blockSchema),
+})
+
+// Same shape as ManualSnapshot; older snapshots may lack the access fields
+const snapshotSchema = z.object({
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  sections: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      order: z.number().int(),
+      depth: z.number().int(),
+      parentId: z.string().nullable(),
+      restricted: z.boolean().optional(),
+      accessRules: z
+        .array(z.object({ userId: z.string().nullable(), role: z.string().nullable(), permission: z.string() }))
+        .optional(),
+      blocks: z.array(z.object({ id: z.string(), type: z.string(), content: z.string(), order: z.number().int() })),
+    })
+  ),
+})
+
+const fileSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  storedFilename: z.string().regex(/^[\w-][\w.-]*$/, '파일 이름이 올바르지 않습니다'),
+  mimeType: z.string(),
+  size: z.number().int(),
+  path: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  uploadedBy: z.string(),
+  createdAt: z.coerce.date(),
+})
+
+const versionSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['NAMED', 'AUTO']),
+  summary: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.coerce.date(),
+  snapshot: snapshotSchema,
+})
+
+const manualSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1),
+  description: z.string().nullable(),
+  coverImage: z.string().nullable(),
+  visibility: z.enum(['PRIVATE', 'TEAM']),
+  ownerId: z.string(),
+  createdAt: z.coerce.date(),
+  publishedVersionId: z.string().nullable(),
+  publishedAt: z.coerce.date().nullable(),
+  sections: z.array(sectionSchema),
+  files: z.array(fileSchema),
+  versions: z.array(versionSchema),
+  shares: z.array(z.object({ userId: z.string(), permission: permissionSchema, sharedAt: z.coerce.date() })),
+  reviewers: z.array(z.string()),
+})
+
+export const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  scope: z.enum(['manual', 'team']),
+  exportedAt: z.coerce.date(),
+  team: z.object({ name: z.string(), description: z.string().nullable() }).nullable(),
+  // Users referenced anywhere in the backup; matched by email when restoring
+  users: z.array(z.object({ id: z.string(), email: z.string(), name: z.string() })),
+  manuals: z.array(manualSchema),
+})
+
+export type Backup = z.infer<typeof backupSchema>
+export type BackupManual = z.infer<typeof manualSchema>
+
+export interface RestoreResult {
+  manualIds: string[]
+  warnings: string[]
+}
+
+const UPLOAD_PATH = /\/uploads\/([\w.-]+)/g
+
+/**
+ * Upload file names referenced by block content or a cover image
+ */
+function referencedUploads(content: string | null, names: Set<string>) {
+  for (const match of content?.matchAll(UPLOAD_PATH) ?? []) {
+    names.add(match[1])
+  }
+}
+
+function imageFileId(content: string): string | null {
+  try {
+    const image = JSON.parse(content)
+    return typeof image?.fileId === 'string' ? image.fileId : null
+  } catch (e) {
+    return null
+  }
+}
+
+/**
+ * Everything of one manual, with user IDs collected into `userIds`
+ */
+async function backupManual(manualId: string, userIds: Set<string>): Promise<BackupManual> {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    include: {
+      sections: {
+        include: {
+          blocks: { orderBy: { order: 'asc' }, omit: { collabState: true } },
+          accessRules: { select: { userId: true, role: true, permission: true } },
+        },
+        orderBy: { order: 'asc' },
+      },
+      versions: {
+        select: {
+          id: true,
+          format: true,
+          content: true,
+          data: true,
+          baseId: true,
+          chainDepth: true,
+          kind: true,
+          summary: true,
+          createdBy: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      shares: true,
+      reviewers: true,
+    },
+  })
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  const versions = []
+  for (const version of manual.versions) {
+    versions.push({
+      id: version.id,
+      kind: version.kind,
+      summary: version.summary,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+      snapshot: await readStoredSnapshot(version),
+    })
+  }
+
+  // Files of the manual plus the ones its blocks (now or in any version) point to
+  const fileIds = new Set<string>()
+  const uploads = new Set<string>()
+  referencedUploads(manual.coverImage, uploads)
+  const blocks = [
+    ...manual.sections.flatMap((section) => section.blocks),
+    ...versions.flatMap((version) => version.snapshot.sections.flatMap((section) => section.blocks)),
+  ]
+  for (const block of blocks) {
+    referencedUploads(block.content, uploads)
+    const fileId = block.type === 'IMAGE' ? imageFileId(block.content) : null
+    if (fileId) fileIds.add(fileId)
+  }
+
+  const files = await prisma.file.findMany({
+    where: {
+      OR: [{ manualId }, { id: { in: [...fileIds] } }, { storedFilename: { in: [...uploads] } }],
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  userIds.add(manual.ownerId)
+  manual.sections.forEach((section) => section.accessRules.forEach((rule) => rule.userId && userIds.add(rule.userId)))
+  versions.forEach((version) => userIds.add(version.createdBy))
+  files.forEach((file) => userIds.add(file.uploadedBy))
+  manual.shares.forEach((share) => userIds.add(share.userId))
+  manual.reviewers.forEach((reviewer) => userIds.add(reviewer.userId))
+
+  return {
+    id: manual.id,
+    title: manual.title,
+    description: manual.description,
+    coverImage: manual.coverImage,
+    visibility: manual.visibility,
+    ownerId: manual.ownerId,
+    createdAt: manual.createdAt,
+    publishedVersionId: manual.publishedVersionId,
+    publishedAt: manual.publishedAt,
+    sections: manual.sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      order: section.order,
+      depth: section.depth,
+      parentId: section.parentId,
+      restricted: section.restricted,
+      accessRules: section.accessRules,
+      blocks: section.blocks.map((block) => ({
+        id: block.id,
+        type: block.type,
+        content: block.content,
+        order: block.order,
+      })),
+    })),
+    files: files.map((file) => ({
+      id: file.id,
+      filename: file.filename,
+      storedFilename: file.storedFilename,
+      mimeType: file.mimeType,
+      size: file.size,
+      path: file.path,
+      width: file.width,
+      height: file.height,
+      uploadedBy: file.uploadedBy,
+      createdAt: file.createdAt,
+    })),
+    versions,
+    shares: manual.shares.map((share) => ({
+      userId: share.userId,
+      permission: share.permission,
+      sharedAt: share.sharedAt,
+    })),
+    reviewers: manual.reviewers.map((reviewer) => reviewer.userId),
+  }
+}
+
+/**
+ * Zip of the backup JSON and every uploaded file it references that is still on disk
+ */
+async function packBackup(backup: Backup): Promise<Uint8Array> {
+  const entries: Record<string, Uint8Array> = {
+    [BACKUP_JSON]: strToU8(JSON.stringify(backup, null, 2)),
+  }
+
+  for (const file of backup.manuals.flatMap((manual) => manual.files)) {
+    const name = `${FILES_DIR}${file.storedFilename}`
+    if (entries[name]) continue
+    try {
+      entries[name] = await readFile(join(UPLOAD_DIR, file.storedFilename))
+    } catch (e) {
+      // Missing on disk; restoring reports it
+    }
+  }
+
+  // Images are already compressed
+  return zipSync(entries, { level: 1 })
+}
+
+async function createBackup(
+  scope: Backup['scope'],
+  manualIds: string[],
+  team: Backup['team']
+): Promise<Uint8Array> {
+  const userIds = new Set<string>()
+  const manuals: BackupManual[] = []
+  for (const manualId of manualIds) {
+    manuals.push(await backupManual(manualId, userIds))
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...userIds] } },
+    select: { id: true, email: true, name: true },
+  })
+
+  return packBackup({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    scope,
+    exportedAt: new Date(),
+    team,
+    users,
+    manuals,
+  })
+}
+
+/**
+ * Backup zip of a single manual
+ */
+export function createManualBackup(manualId: string): Promise<Uint8Array> {
+  return createBackup('manual', [manualId], null)
+}
+
+/**
+ * Backup zip of every manual of a team
+ */
+export async function createTeamBackup(teamId: string): Promise<Uint8Array> {
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+    select: { name: true, description: true, manuals: { select: { id: true }, orderBy: { createdAt: 'asc' } } },
+  })
+
+  if (!team) {
+    throw new NotFoundError('팀을 찾을 수 없습니다')
+  }
+
+  return createBackup(
+    'team',
+    team.manuals.map((manual) => manual.id),
+    { name: team.name, description: team.description }
+  )
+}
+
+/**
+ * Read an uploaded backup (the zip, or backup.json alone without files)
+ * @returns The validated backup and the uploaded files by stored file name
+ */
+export function readBackup(filename: string, data: Uint8Array): { backup: Backup; files: Map<string, Uint8Array> } {
+  let json: Uint8Array | undefined
+  const files = new Map<string, Uint8Array>()
+
+  if (extname(filename).toLowerCase() === '.json') {
+    json = data
+  } else {
+    for (const [path, content] of readZip(data, MAX_UNZIPPED_BACKUP_SIZE)) {
+      if (path === BACKUP_JSON) json = content
+      else if (path.startsWith(FILES_DIR)) files.set(path.slice(FILES_DIR.length), content)
+    }
+  }
+
+  if (!json) {
+    throw new BadRequestError('백업 파일에 backup.json이 없습니다')
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(strFromU8(json))
+  } catch (e) {
+    throw new BadRequestError('백업 데이터가 손상되었습니다')
+  }
+
+  const parsed = backupSchema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]
+    throw new BadRequestError(
+      issue.path[0] === 'format' || issue.path[0] === 'version'
+        ? '지원하지 않는 백업 형식입니다'
+        : `백업 데이터가 올바르지 않습니다 (${issue.path.join('.')})`
+    )
+  }
+
+  return { backup: parsed.data, files }
+}
+
+/**
+ * Old-to-new ID mapping; IDs without a new row (deleted sections and blocks that only
+ * exist in versions) get a fresh ID of their own
+ */
+class IdMap {
+  private ids = new Map<string, string>()
+
+  set(oldId: string, newId: string) {
+    this.ids.set(oldId, newId)
+  }
+
+  get(oldId: string): string | undefined {
+    return this.ids.get(oldId)
+  }
+
+  remap(oldId: string): string {
+    let id = this.ids.get(oldId)
+    if (!id) {
+      id = randomUUID()
+      this.ids.set(oldId, id)
+    }
+    return id
+  }
+}
+
+/**
+ * New IDs, users and upload paths for one restored manual
+ */
+interface RestoreMapping {
+  sections: IdMap
+  blocks: IdMap
+  versions: IdMap
+  files: Map<string, string>
+  // Stored file name → new stored file name
+  uploads: Map<string, string>
+  // Backup user ID → local user ID, for users in the target team
+  members: Map<string, string>
+}
+
+function remapContent(type: string, content: string, mapping: RestoreMapping): string {
+  const remapped = content.replace(UPLOAD_PATH, (path, name: string) => {
+    const stored = mapping.uploads.get(name)
+    return stored ? `/uploads/${stored}` : path
+  })
+  if (type !== 'IMAGE') return remapped
+
+  let image: { fileId?: string } & Record<string, unknown>
+  try {
+    image = JSON.parse(remapped)
+  } catch (e) {
+    return remapped
+  }
+  if (!image?.fileId) return remapped
+
+  const { fileId, ...rest } = image
+  const newId = mapping.files.get(fileId)
+  return JSON.stringify(newId ? { ...image, fileId: newId } : rest)
+}
+
+/**
+ * A version snapshot with restored IDs (key order kept, so content hashes still match)
+ */
+function remapSnapshot(snapshot: ManualSnapshot, mapping: RestoreMapping): ManualSnapshot {
+  return {
+    ...snapshot,
+    sections: snapshot.sections.map((section) => ({
+      ...section,
+      id: mapping.sections.remap(section.id),
+      parentId: section.parentId ? mapping.sections.remap(section.parentId) : null,
+      ...(section.accessRules && {
+        accessRules: section.accessRules.flatMap((rule) => {
+          if (!rule.userId) return [rule]
+          const userId = mapping.members.get(rule.userId)
+          return userId ? [{ ...rule, userId }] : []
+        }),
+      }),
+      blocks: section.blocks.map((block) => ({
+        ...block,
+        id: mapping.blocks.remap(block.id),
+        content: remapContent(block.type, block.content, mapping),
+      })),
+    })),
+  }
+}
+
+interface RestoreTarget {
+  teamId: string
+  userId: string
+  // Backup user ID → local user ID by email (any user) and for team members only
+  users: Map<string, string>
+  members: Map<string, string>
+  warnings: Set<string>
+}
+
+async function restoreManual(manual: BackupManual, files: Map<string, Uint8Array>, target: RestoreTarget) {
+  const { teamId, userId, users, members, warnings } = target
+  const mapping: RestoreMapping = {
+    sections: new IdMap(),
+    blocks: new IdMap(),
+    versions: new IdMap(),
+    files: new Map(),
+    uploads: new Map(),
+    members,
+  }
+  const attributed = (id: string) => users.get(id) ?? userId
+
+  await mkdir(UPLOAD_DIR, { recursive: true })
+  const written: string[] = []
+
+  let manualId: string
+  try {
+    for (const storedFilename of new Set(manual.files.map((file) => file.storedFilename))) {
+      const data = files.get(storedFilename)
+      if (!data) {
+        // Restoring next to the original (a JSON-only backup) can keep using the same file
+        if (existsSync(join(UPLOAD_DIR, storedFilename))) {
+          mapping.uploads.set(storedFilename, storedFilename)
+        } else {
+          warnings.add(`백업에 없는 파일은 건너뛰었습니다: ${storedFilename}`)
+        }
+        continue
+      }
+
+      const stored = `${randomUUID()}${extname(storedFilename)}`
+      await writeFile(join(UPLOAD_DIR, stored), data)
+      written.push(join(UPLOAD_DIR, stored))
+      mapping.uploads.set(storedFilename, stored)
+    }
+
+    manualId = await prisma.$transaction(async (tx) => {
+      const created = await tx.manual.create({
+        data: {
+          title: manual.title,
+          description: manual.description,
+          coverImage: manual.coverImage ? remapContent('', manual.coverImage, mapping) : null,
+          visibility: manual.visibility,
+          teamId,
+          ownerId: members.get(manual.ownerId) ?? userId,
+          createdAt: manual.createdAt,
+        },
+      })
+
+      for (const file of manual.files) {
+        const stored = mapping.uploads.get(file.storedFilename)
+        if (!stored) continue
+
+        const copy = await tx.file.create({
+          data: {
+            filename: file.filename,
+            storedFilename: stored,
+            mimeType: file.mimeType,
+            size: file.size,
+            path: `/uploads/${stored}`,
+            width: file.width,
+            height: file.height,
+            uploadedBy: attributed(file.uploadedBy),
+            manualId: created.id,
+            createdAt: file.createdAt,
+          },
+        })
+        mapping.files.set(file.id, copy.id)
+      }
+
+      // Parents before children
+      const sections = [...manual.sections].sort((a, b) => a.depth - b.depth)
+      for (const section of sections) {
+        const parentId = section.parentId ? mapping.sections.get(section.parentId) : null
+        if (parentId === undefined) {
+          throw new BadRequestError('백업 데이터가 손상되었습니다 (상위 섹션 없음)')
+        }
+
+        const { id } = await tx.manualSection.create({
+          data: {
+            manualId: created.id,
+            parentId,
+            title: section.title,
+            order: section.order,
+            depth: section.depth,
+            restricted: section.restricted,
+          },
+        })
+        mapping.sections.set(section.id, id)
+
+        const rules = section.accessRules.flatMap((rule) => {
+          if (!rule.userId) return [{ ...rule, sectionId: id }]
+          const ruleUserId = members.get(rule.userId)
+          return ruleUserId ? [{ ...rule, userId: ruleUserId, sectionId: id }] : []
+        })
+        if (rules.length > 0) {
+          await tx.sectionAccessRule.createMany({ data: rules })
+        }
+
+        for (const block of section.blocks) {
+          const copy = await tx.contentBlock.create({
+            data: {
+              sectionId: id,
+              type: block.type,
+              order: block.order,
+              content: remapContent(block.type, block.content, mapping),
+            },
+            select: { id: true },
+          })
+          mapping.blocks.set(block.id, copy.id)
+        }
+      }
+
+      const shares = manual.shares.flatMap((share) => {
+        const shareUserId = members.get(share.userId)
+        return shareUserId && shareUserId !== created.ownerId
+          ? [{ manualId: created.id, userId: shareUserId, permission: share.permission, sharedAt: share.sharedAt }]
+          : []
+      })
+      if (shares.length > 0) {
+        await tx.manualShare.createMany({ data: shares, skipDuplicates: true })
+      }
+
+      const reviewers = manual.reviewers.flatMap((id) => {
+        const reviewerId = members.get(id)
+        return reviewerId ? [{ manualId: created.id, userId: reviewerId }] : []
+      })
+      if (reviewers.length > 0) {
+        await tx.manualReviewer.createMany({ data: reviewers, skipDuplicates: true })
+      }
+
+      // Versions are stored again as keyframes and deltas of the remapped snapshots
+      let previous: { id: string; chainDepth: number; snapshot: ManualSnapshot } | null = null
+      const versions = [...manual.versions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      for (const version of versions) {
+        const snapshot = remapSnapshot(version.snapshot, mapping)
+        const stored = encodeAfter(previous, snapshot)
+        const copy: { id: string } = await tx.manualVersion.create({
+          data: {
+            manualId: created.id,
+            createdBy: attributed(version.createdBy),
+            ...stored,
+            contentHash: hashSnapshot(JSON.stringify(snapshot)),
+            kind: version.kind,
+            summary: version.summary,
+            createdAt: version.createdAt,
+          },
+          select: { id: true },
+        })
+        mapping.versions.set(version.id, copy.id)
+        previous = { id: copy.id, chainDepth: stored.chainDepth, snapshot }
+      }
+
+      const publishedVersionId = manual.publishedVersionId ? mapping.versions.get(manual.publishedVersionId) : undefined
+      if (publishedVersionId) {
+        await tx.manual.update({
+          where: { id: created.id },
+          data: { publishedVersionId, publishedAt: manual.publishedAt },
+        })
+      }
+
+      return created.id
+    }, { timeout: 120000 })
+  } catch (error) {
+    await Promise.all(written.map((path) => unlink(path).catch(() => undefined)))
+    throw error
+  }
+
+  // Like new manuals, a restored manual is published: without a published version in
+  // the backup, its restored content becomes a named version that is published
+  if (!manual.publishedVersionId || !mapping.versions.get(manual.publishedVersionId)) {
+    const version = await createManualVersion(manualId, userId, {
+      kind: 'NAMED',
+      summary: manual.versions.length === 0 ? '초기 버전' : '게시 버전',
+    })
+    await publishVersion(manualId, version.id)
+  }
+
+  return manualId
+}
+
+/**
+ * Restore the manuals of a backup into a team
+ * Users are matched by email. Owners, shares, reviewers and access rules only keep users
+ * who are members of the team (the manual owner falls back to the restoring user);
+ * versions and files keep any matching user as author.
+ */
+export async function restoreBackup(
+  backup: Backup,
+  files: Map<string, Uint8Array>,
+  { teamId, userId }: { teamId: string; userId: string }
+): Promise<RestoreResult> {
+  const localUsers = await prisma.user.findMany({
+    where: { email: { in: backup.users.map((user) => user.email) } },
+    select: { id: true, email: true, teamMemberships: { where: { teamId }, select: { id: true } } },
+  })
+  const byEmail = new Map(localUsers.map((user) => [user.email.toLowerCase(), user]))
+
+  const target: RestoreTarget = { teamId, userId, users: new Map(), members: new Map(), warnings: new Set() }
+  for (const user of backup.users) {
+    const local = byEmail.get(user.email.toLowerCase())
+    if (!local) continue
+    target.users.set(user.id, local.id)
+    if (local.teamMemberships.length > 0) target.members.set(user.id, local.id)
+  }
+
+  const missing = backup.users.filter((user) => !target.members.has(user.id))
+  if (missing.length > 0) {
+    target.warnings.add(
+      `팀 멤버가 아닌 사용자의 공유·접근 권한은 건너뛰었습니다: ${missing.map((user) => user.email).join(', ')}`
+    )
+  }
+
+  const manualIds: string[] = []
+  for (const manual of backup.manuals) {
+    manualIds.push(await restoreManual(manual, files, target))
+  }
+
+  return { manualIds, warnings: [...target.warnings] }
+}
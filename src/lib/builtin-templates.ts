@@ -0,0 +1,142 @@
+/**
+ * Templates shipped with the app, available to every team
+ */
+
+import type { TemplateBlock, TemplateContent, TemplateSection } from './templates'
+
+export interface BuiltinTemplate {
+  id: string
+  name: string
+  description: string
+  content: TemplateContent
+}
+
+const heading = (level: 1 | 2 | 3, text: string): TemplateBlock => ({
+  type: `HEADING${level}`,
+  content: JSON.stringify({ text }),
+})
+
+const body = (html: string): TemplateBlock => ({ type: 'BODY', content: html })
+
+const table = (header: string[], rows: string[][]): TemplateBlock => {
+  const cells: Record<string, string> = {}
+  ;[header, ...rows].forEach((row, rowIndex) => {
+    row.forEach((value, colIndex) => {
+      if (value) cells[`${rowIndex}-${colIndex}`] = value
+    })
+  })
+  return {
+    type: 'TABLE',
+    content: JSON.stringify({ rows: rows.length + 1, cols: header.length, cells }),
+  }
+}
+
+const section = (title: string, blocks: TemplateBlock[], children: TemplateSection[] = []): TemplateSection => ({
+  title,
+  blocks,
+  children,
+})
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  {
+    id: 'builtin-onboarding',
+    name: '신규 입사자 온보딩 가이드',
+    description: '첫 주 일정, 계정 준비, 팀 소개와 업무 도구 안내',
+    content: {
+      sections: [
+        section('환영합니다', [
+          body('<p>[팀 이름]에 오신 것을 환영합니다. 이 문서는 입사 첫 주에 필요한 내용을 안내합니다.</p>'),
+        ]),
+        section('첫 주 일정', [
+          table(['일차', '할 일', '담당자'], [
+            ['1일차', '계정 발급, 장비 수령', ''],
+            ['2일차', '팀 소개, 업무 도구 교육', ''],
+            ['3~5일차', '온보딩 과제 진행', ''],
+          ]),
+        ]),
+        section('계정과 도구', [], [
+          section('필수 계정', [
+            body('<ul><li><p>이메일</p></li><li><p>메신저</p></li><li><p>[업무 도구]</p></li></ul>'),
+          ]),
+          section('개발 환경', [
+            body('<p>[설치해야 할 프로그램과 설정 방법을 적어주세요]</p>'),
+          ]),
+        ]),
+        section('팀 소개', [
+          body('<p>[팀의 역할과 주요 업무, 함께 일하는 부서를 소개해주세요]</p>'),
+        ]),
+        section('자주 묻는 질문', [
+          heading(3, '휴가는 어떻게 신청하나요?'),
+          body('<p>[답변]</p>'),
+        ]),
+      ],
+    },
+  },
+  {
+    id: 'builtin-sop',
+    name: '표준 운영 절차 (SOP)',
+    description: '목적, 적용 범위, 역할과 책임, 단계별 절차',
+    content: {
+      sections: [
+        section('목적', [
+          body('<p>[이 절차가 필요한 이유와 달성하려는 결과를 적어주세요]</p>'),
+        ]),
+        section('적용 범위', [
+          body('<p>[절차가 적용되는 업무, 부서, 시스템]</p>'),
+        ]),
+        section('역할과 책임', [
+          table(['역할', '책임'], [
+            ['담당자', ''],
+            ['승인자', ''],
+          ]),
+        ]),
+        section('절차', [], [
+          section('1단계', [body('<p>[수행할 작업]</p>')]),
+          section('2단계', [body('<p>[수행할 작업]</p>')]),
+          section('3단계', [body('<p>[수행할 작업]</p>')]),
+        ]),
+        section('관련 문서', [
+          body('<ul><li><p>[문서 이름과 링크]</p></li></ul>'),
+        ]),
+        section('개정 이력', [
+          table(['날짜', '변경 내용', '작성자'], [['', '최초 작성', '']]),
+        ]),
+      ],
+    },
+  },
+  {
+    id: 'builtin-runbook',
+    name: '장애 대응 런북',
+    description: '증상별 점검 순서, 복구 절차, 에스컬레이션 연락처',
+    content: {
+      sections: [
+        section('개요', [
+          body('<p>[대상 서비스와 이 런북을 사용하는 상황]</p>'),
+        ]),
+        section('연락처', [
+          table(['역할', '이름', '연락처'], [
+            ['1차 대응', '', ''],
+            ['에스컬레이션', '', ''],
+          ]),
+        ]),
+        section('증상별 대응', [], [
+          section('[증상 1]', [
+            heading(3, '확인'),
+            body('<ol><li><p>[대시보드, 로그 확인 항목]</p></li></ol>'),
+            heading(3, '조치'),
+            body('<ol><li><p>[복구 절차]</p></li></ol>'),
+          ]),
+          section('[증상 2]', [
+            heading(3, '확인'),
+            body('<ol><li><p>[대시보드, 로그 확인 항목]</p></li></ol>'),
+            heading(3, '조치'),
+            body('<ol><li><p>[복구 절차]</p></li></ol>'),
+          ]),
+        ]),
+        section('사후 조치', [
+          body('<p>장애가 해결되면 원인, 영향 범위, 재발 방지 대책을 기록합니다.</p>'),
+        ]),
+      ],
+    },
+  },
+]
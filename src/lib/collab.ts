@@ -0,0 +1,84 @@
+/**
+ * Real-time collaboration helpers
+ * The Next app checks permissions and hands out short-lived signed tokens; the
+ * collaboration server (server/collab.ts) only has to verify them.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Lifetime of a collaboration token (ms). The client fetches a new one on every (re)connect.
+const TOKEN_TTL_MS = parseInt(process.env.COLLAB_TOKEN_TTL_MS || '60000', 10)
+
+const CURSOR_COLORS = [
+  '#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea',
+  '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4f46e5',
+]
+
+export interface CollabTokenPayload {
+  userId: string
+  name: string
+  manualId: string
+  blockId: string
+  /** Expiry (epoch ms) */
+  exp: number
+}
+
+function getSecret(): string {
+  const secret = process.env.COLLAB_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('COLLAB_SECRET or NEXTAUTH_SECRET must be set')
+  }
+  return secret
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url')
+}
+
+/**
+ * Document name of a BODY block on the collaboration server
+ */
+export function collabDocumentName(blockId: string): string {
+  return `block:${blockId}`
+}
+
+export function parseCollabDocumentName(documentName: string): string | null {
+  return documentName.startsWith('block:') ? documentName.slice('block:'.length) : null
+}
+
+/**
+ * Stable cursor color for a user
+ */
+export function collabColor(userId: string): string {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length]
+}
+
+export function createCollabToken(payload: Omit<CollabTokenPayload, 'exp'>): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + TOKEN_TTL_MS })).toString('base64url')
+  return `${body}.${sign(body)}`
+}
+
+/**
+ * Verify a collaboration token, returns null when invalid or expired
+ */
+export function verifyCollabToken(token: string): CollabTokenPayload | null {
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(sign(body))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as CollabTokenPayload
+    return payload.exp > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,94 @@
+import { prisma } from '@/test/prisma'
+import { beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NotFoundError } from './errors'
+import { filterVisibleThreads, findCommentableBlock } from './comments'
+import { filterVisibleSuggestions } from './suggestions'
+import { encodeKeyframe } from './version-storage'
+import type { ManualSnapshot } from './versions'
+import type { SectionViewer } from './section-permissions'
+
+const VIEWER: SectionViewer = { userId: 'viewer', teamRole: 'VIEWER', permission: 'VIEWER' }
+const EDITOR: SectionViewer = { userId: 'editor', teamRole: 'EDITOR', permission: 'EDITOR' }
+
+const published: ManualSnapshot = {
+  title: 'Handbook',
+  sections: [
+    {
+      id: 'intro',
+      title: 'Intro',
+      order: 0,
+      depth: 1,
+      parentId: null,
+      blocks: [{ id: 'published-block', type: 'BODY', content: '<p>Published <b>text</b></p>', order: 0 }],
+    },
+  ],
+}
+
+// The draft has a block and a section that were never published
+const draftSections = [
+  { id: 'intro', parentId: null, restricted: false, accessRules: [] },
+  { id: 'draft-section', parentId: null, restricted: false, accessRules: [] },
+]
+
+function thread(id: string, blockId: string, sectionId: string, quote: string | null = null) {
+  return { id, blockId, block: { sectionId }, quote, rangeStart: quote ? 0 : null, rangeEnd: quote ? quote.length : null }
+}
+
+describe('comments and suggestions of non-editors', () => {
+  beforeEach(() => {
+    prisma.manualSection = { findMany: async () => draftSections }
+    prisma.manual = { findUnique: async () => ({ publishedVersionId: 'version-1', publishedAt: new Date() }) }
+    prisma.manualVersion = { findUnique: async () => ({ id: 'version-1', ...encodeKeyframe(published) }) }
+  })
+
+  const threads = [
+    thread('on-published', 'published-block', 'intro', 'Published text'),
+    thread('draft-quote', 'published-block', 'intro', 'Draft only text'),
+    thread('on-draft-block', 'draft-block', 'intro'),
+    thread('on-draft-section', 'draft-section-block', 'draft-section'),
+  ]
+
+  test('viewers only get threads on published blocks, without draft quotes', async () => {
+    const visible = await filterVisibleThreads('manual-1', threads, VIEWER)
+
+    assert.deepEqual(visible, [
+      threads[0],
+      { ...threads[1], quote: null, rangeStart: null, rangeEnd: null },
+    ])
+  })
+
+  test('editors get every thread of the draft', async () => {
+    assert.deepEqual(await filterVisibleThreads('manual-1', threads, EDITOR), threads)
+  })
+
+  test('viewers only get suggestions on published sections and blocks', async () => {
+    const suggestions = [
+      { id: 'new-section', sectionId: null, blockId: null },
+      { id: 'new-block', sectionId: 'intro', blockId: null },
+      { id: 'published-block', sectionId: 'intro', blockId: 'published-block' },
+      { id: 'draft-block', sectionId: 'intro', blockId: 'draft-block' },
+      { id: 'draft-section', sectionId: 'draft-section', blockId: null },
+    ]
+
+    const visible = await filterVisibleSuggestions('manual-1', suggestions, VIEWER)
+    assert.deepEqual(visible.map((suggestion) => suggestion.id), ['new-section', 'new-block', 'published-block'])
+    assert.equal((await filterVisibleSuggestions('manual-1', suggestions, EDITOR)).length, suggestions.length)
+  })
+
+  test('viewers cannot comment on draft-only blocks', async () => {
+    prisma.contentBlock = {
+      findFirst: async ({ where }: { where: { id: string } }) => ({ id: where.id, type: 'BODY', sectionId: 'intro' }),
+    }
+
+    assert.equal((await findCommentableBlock('manual-1', 'published-block', VIEWER)).id, 'published-block')
+    await assert.rejects(findCommentableBlock('manual-1', 'draft-block', VIEWER), NotFoundError)
+    assert.equal((await findCommentableBlock('manual-1', 'draft-block', EDITOR)).id, 'draft-block')
+  })
+
+  test('viewers get nothing of unpublished manuals', async () => {
+    prisma.manual = { findUnique: async () => ({ publishedVersionId: null, publishedAt: null }) }
+
+    assert.deepEqual(await filterVisibleThreads('manual-1', threads, VIEWER), [])
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Block comments
+ * Threads are anchored to a content block (optionally to a quoted text range of it)
+ * and follow the block's section permissions: whoever can view the section can
+ * read and write comments, including VIEWERs. Users who cannot edit only see the
+ * published revision, so they only get threads on blocks that are part of it.
+ */
+
+import { prisma } from './prisma'
+import { ForbiddenError, NotFoundError } from './errors'
+import { resolveManualPermission, type Permission } from './permissions'
+import { getPublishedContent, type PublishedContent } from './publication'
+import { blockText } from './version-diff'
+import {
+  SECTION_ACCESS_SELECT,
+  canViewSection,
+  getSectionPermissions,
+  resolveSectionPermissions,
+  type SectionViewer,
+} from './section-permissions'
+
+const COMMENT_USER_SELECT = {
+  id: true,
+  name: true,
+  profileImage: true,
+} as const
+
+export const COMMENT_THREAD_INCLUDE = {
+  author: { select: COMMENT_USER_SELECT },
+  resolvedBy: { select: COMMENT_USER_SELECT },
+  block: { select: { id: true, type: true, sectionId: true } },
+  comments: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      author: { select: COMMENT_USER_SELECT },
+    },
+  },
+} as const
+
+interface ThreadAnchor {
+  blockId: string
+  block: { sectionId: string }
+  quote: string | null
+  rangeStart: number | null
+  rangeEnd: number | null
+}
+
+export interface MentionableUser {
+  id: string
+  name: string
+  email: string
+  profileImage: string | null
+}
+
+/**
+ * A block of the manual whose section the viewer can see
+ */
+export async function findCommentableBlock(manualId: string, blockId: string, viewer: SectionViewer) {
+  const block = await prisma.contentBlock.findFirst({
+    where: { id: blockId, section: { manualId } },
+    select: { id: true, type: true, sectionId: true },
+  })
+
+  if (!block) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
+  }
+
+  const permissions = await getSectionPermissions(manualId, viewer)
+  const published = await getPublishedContent(manualId, viewer)
+  if (!canViewSection(permissions.get(block.sectionId)) || (published && !published.blocks.has(block.id))) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
+  }
+
+  return block
+}
+
+/**
+ * A thread of the manual on a block the viewer can see
+ */
+export async function findCommentThread(manualId: string, threadId: string, viewer: SectionViewer) {
+  const thread = await prisma.commentThread.findFirst({
+    where: { id: threadId, manualId },
+    include: { block: { select: { sectionId: true } } },
+  })
+
+  if (!thread) {
+    throw new NotFoundError('댓글을 찾을 수 없습니다')
+  }
+
+  const permissions = await getSectionPermissions(manualId, viewer)
+  const published = await getPublishedContent(manualId, viewer)
+  if (!canViewSection(permissions.get(thread.block.sectionId)) || (published && !published.blocks.has(thread.blockId))) {
+    throw new NotFoundError('댓글을 찾을 수 없습니다')
+  }
+
+  return thread
+}
+
+/**
+ * Hide the quote of a thread unless the published block still contains it
+ */
+function withPublishedQuote<T extends ThreadAnchor>(thread: T, published: PublishedContent): T {
+  const block = published.blocks.get(thread.blockId)
+  if (!thread.quote || (block && blockText(block).includes(thread.quote))) return thread
+
+  return { ...thread, quote: null, rangeStart: null, rangeEnd: null }
+}
+
+/**
+ * Threads as the viewer may see them
+ * Drops threads on sections the viewer cannot see and, for users who cannot edit,
+ * threads on draft-only blocks and quotes of draft text.
+ */
+export async function filterVisibleThreads<T extends ThreadAnchor>(
+  manualId: string,
+  threads: T[],
+  viewer: SectionViewer
+): Promise<T[]> {
+  const permissions = await getSectionPermissions(manualId, viewer)
+  const visible = threads.filter((thread) => canViewSection(permissions.get(thread.block.sectionId)))
+
+  const published = await getPublishedContent(manualId, viewer)
+  if (!published) return visible
+
+  return visible
+    .filter((thread) => published.blocks.has(thread.blockId))
+    .map((thread) => withPublishedQuote(thread, published))
+}
+
+/**
+ * A single thread as the viewer may see it (the viewer's access was checked before)
+ */
+export async function presentThread<T extends ThreadAnchor>(manualId: string, thread: T, viewer: SectionViewer): Promise<T> {
+  const published = await getPublishedContent(manualId, viewer)
+  return published ? withPublishedQuote(thread, published) : thread
+}
+
+/**
+ * Thread author or manual editors may resolve, reopen and delete a thread
+ */
+export function requireThreadModeration(
+  thread: { authorId: string },
+  userId: string,
+  permission: Permission
+) {
+  if (thread.authorId !== userId && permission !== 'OWNER' && permission !== 'EDITOR') {
+    throw new ForbiddenError('댓글 작성자나 편집자만 할 수 있습니다')
+  }
+}
+
+/**
+ * Team members who can see the given section (candidates for @mentions)
+ */
+export async function getMentionableUsers(manualId: string, sectionId: string): Promise<MentionableUser[]> {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    select: {
+      ownerId: true,
+      visibility: true,
+      team: {
+        select: {
+          ownerId: true,
+          owner: { select: { id: true, name: true, email: true, profileImage: true } },
+          members: {
+            select: {
+              role: true,
+              user: { select: { id: true, name: true, email: true, profileImage: true } },
+            },
+          },
+        },
+      },
+      shares: { select: { userId: true, permission: true } },
+      sections: { select: SECTION_ACCESS_SELECT },
+    },
+  })
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  const candidates = new Map<string, { user: MentionableUser; role: string | null }>()
+  candidates.set(manual.team.owner.id, { user: manual.team.owner, role: 'OWNER' })
+  manual.team.members.forEach((member) => {
+    if (!candidates.has(member.user.id)) {
+      candidates.set(member.user.id, { user: member.user, role: member.role })
+    }
+  })
+
+  const result: MentionableUser[] = []
+  for (const [userId, { user, role }] of candidates) {
+    const permission = resolveManualPermission(
+      {
+        ownerId: manual.ownerId,
+        visibility: manual.visibility,
+        team: { ownerId: manual.team.ownerId, members: role ? [{ role }] : [] },
+        shares: manual.shares.filter((share) => share.userId === userId),
+      },
+      userId
+    )
+    if (permission === 'NONE') continue
+
+    const sectionPermissions = resolveSectionPermissions(manual.sections, {
+      userId,
+      teamRole: manual.team.ownerId === userId ? 'OWNER' : role,
+      permission,
+    })
+    if (canViewSection(sectionPermissions.get(sectionId))) {
+      result.push(user)
+    }
+  }
+
+  return result.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Keep only mentioned users who can see the comment
+ */
+export async function filterMentions(manualId: string, sectionId: string, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return []
+
+  const mentionable = new Set((await getMentionableUsers(manualId, sectionId)).map((user) => user.id))
+  return Array.from(new Set(userIds)).filter((id) => mentionable.has(id))
+}
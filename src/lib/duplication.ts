@@ -0,0 +1,238 @@
+/**
+ * Duplicating manuals, section subtrees and blocks
+ * Copies go into the same manual or another manual the user can edit. Sections the
+ * user cannot see are never copied; restrictions and access rules are kept.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { BadRequestError, ForbiddenError, NotFoundError } from './errors'
+import { requireManualAccess } from './permissions-helpers'
+import {
+  getSectionPermissions,
+  getSectionViewer,
+  requireSectionAccess,
+  type SectionViewer,
+} from './section-permissions'
+import { copyBlockContent, copyTemplateSections, templateDepth, templateFromManual } from './templates'
+import { createManualVersion } from './versions'
+import { publishVersion } from './publication'
+
+const MAX_SECTION_DEPTH = 3
+const COPY_SUFFIX = ' (사본)'
+
+export const duplicateManualSchema = z.object({
+  title: z.string().min(1, '메뉴얼 제목을 입력해주세요').max(100, '제목은 최대 100자까지 입력 가능합니다').optional(),
+})
+
+export const duplicateSectionSchema = z.object({
+  // Another manual the user can edit (defaults to the same manual)
+  targetManualId: z.string().optional(),
+  // Parent of the copy; null for top level. Omitted: next to the original
+  parentId: z.string().nullable().optional(),
+})
+
+export const duplicateBlockSchema = z.object({
+  targetManualId: z.string().optional(),
+  // Section of the copy. Omitted: right after the original
+  sectionId: z.string().optional(),
+})
+
+interface DuplicateSource {
+  manualId: string
+  userId: string
+  viewer: SectionViewer
+}
+
+/**
+ * Manual the copy goes into and the user's section viewer there
+ */
+async function resolveTargetManual(source: DuplicateSource, targetManualId?: string) {
+  if (!targetManualId || targetManualId === source.manualId) {
+    return { manualId: source.manualId, viewer: source.viewer }
+  }
+
+  const { manual, access } = await requireManualAccess(targetManualId, source.userId, 'edit')
+  return { manualId: targetManualId, viewer: getSectionViewer(manual, source.userId, access) }
+}
+
+function copyTitle(title: string, maxLength: number) {
+  return `${title.slice(0, maxLength - COPY_SUFFIX.length)}${COPY_SUFFIX}`
+}
+
+/**
+ * Copy a whole manual (the sections the user can see) into a new manual of the same team
+ * The user becomes the owner of the copy.
+ */
+export async function duplicateManual(source: DuplicateSource, title?: string) {
+  const manual = await prisma.manual.findUnique({
+    where: { id: source.manualId },
+    select: { title: true, description: true, visibility: true, teamId: true },
+  })
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  const teamMember = await prisma.teamMember.findFirst({
+    where: { userId: source.userId, teamId: manual.teamId },
+    select: { role: true },
+  })
+  if (!teamMember || teamMember.role === 'VIEWER') {
+    throw new ForbiddenError('메뉴얼을 생성할 권한이 없습니다')
+  }
+
+  const content = await templateFromManual(source.manualId, {
+    permissions: await getSectionPermissions(source.manualId, source.viewer),
+    withAccess: true,
+  })
+
+  const copy = await prisma.$transaction(async (tx) => {
+    const created = await tx.manual.create({
+      data: {
+        title: title ?? copyTitle(manual.title, 100),
+        description: manual.description,
+        visibility: manual.visibility,
+        teamId: manual.teamId,
+        ownerId: source.userId,
+      },
+    })
+
+    await copyTemplateSections(tx, created.id, source.userId, content.sections)
+
+    return created
+  }, { timeout: 30000 })
+
+  const version = await createManualVersion(copy.id, source.userId, {
+    kind: 'NAMED',
+    summary: '초기 버전',
+  })
+  await publishVersion(copy.id, version.id)
+
+  return copy
+}
+
+/**
+ * Copy a section with all its descendants and blocks
+ * Without a parent the copy is placed right after the original.
+ * @returns The manual and ID of the copied section
+ */
+export async function duplicateSection(
+  source: DuplicateSource,
+  sectionId: string,
+  input: z.infer<typeof duplicateSectionSchema>
+) {
+  const section = await prisma.manualSection.findFirst({
+    where: { id: sectionId, manualId: source.manualId },
+    select: { id: true, parentId: true, order: true, depth: true },
+  })
+
+  if (!section) {
+    throw new NotFoundError('섹션을 찾을 수 없습니다')
+  }
+
+  const permissions = await requireSectionAccess(source.manualId, [section.id], source.viewer, 'view')
+  const content = await templateFromManual(source.manualId, {
+    rootSectionId: section.id,
+    permissions,
+    withAccess: true,
+  })
+
+  const target = await resolveTargetManual(source, input.targetManualId)
+  const nextToOriginal = input.parentId === undefined && target.manualId === source.manualId
+  const parentId = nextToOriginal ? section.parentId : input.parentId ?? null
+
+  let parent: { id: string; depth: number } | null = null
+  if (parentId) {
+    const parentSection = await prisma.manualSection.findFirst({
+      where: { id: parentId, manualId: target.manualId },
+      select: { id: true, depth: true },
+    })
+    if (!parentSection) {
+      throw new NotFoundError('상위 섹션을 찾을 수 없습니다')
+    }
+    // Sub-sections inherit the parent's restriction, so the parent must be editable
+    await requireSectionAccess(target.manualId, [parentSection.id], target.viewer, 'edit')
+    parent = parentSection
+  }
+
+  if ((parent?.depth ?? 0) + templateDepth(content.sections) > MAX_SECTION_DEPTH) {
+    throw new BadRequestError('섹션은 최대 3단계까지 만들 수 있습니다')
+  }
+
+  if (target.manualId === source.manualId) {
+    content.sections[0].title = copyTitle(content.sections[0].title, 191)
+  }
+
+  const [copyId] = await prisma.$transaction(
+    (tx) =>
+      copyTemplateSections(tx, target.manualId, source.userId, content.sections, {
+        parent,
+        order: nextToOriginal ? section.order + 1 : undefined,
+      }),
+    { timeout: 30000 }
+  )
+
+  return { manualId: target.manualId, sectionId: copyId }
+}
+
+/**
+ * Copy a block
+ * Without a section the copy is placed right after the original.
+ * @returns The manual and the copied block
+ */
+export async function duplicateBlock(
+  source: DuplicateSource,
+  blockId: string,
+  input: z.infer<typeof duplicateBlockSchema>
+) {
+  const block = await prisma.contentBlock.findFirst({
+    where: { id: blockId, section: { manualId: source.manualId } },
+    select: { id: true, type: true, content: true, order: true, sectionId: true },
+  })
+
+  if (!block) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
+  }
+
+  await requireSectionAccess(source.manualId, [block.sectionId], source.viewer, 'view')
+
+  const target = await resolveTargetManual(source, input.targetManualId)
+  const nextToOriginal = !input.sectionId && target.manualId === source.manualId
+  const sectionId = nextToOriginal ? block.sectionId : input.sectionId
+
+  if (!sectionId) {
+    throw new BadRequestError('블록을 복사할 섹션을 선택해주세요')
+  }
+  await requireSectionAccess(target.manualId, [sectionId], target.viewer, 'edit')
+
+  const copy = await prisma.$transaction(async (tx) => {
+    let order: number
+    if (nextToOriginal) {
+      order = block.order + 1
+      await tx.contentBlock.updateMany({
+        where: { sectionId, order: { gte: order } },
+        data: { order: { increment: 1 } },
+      })
+    } else {
+      const last = await tx.contentBlock.findFirst({
+        where: { sectionId },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      })
+      order = (last?.order ?? -1) + 1
+    }
+
+    return tx.contentBlock.create({
+      data: {
+        sectionId,
+        type: block.type,
+        order,
+        content: await copyBlockContent(tx, block, target.manualId, source.userId),
+      },
+      omit: { collabState: true },
+    })
+  })
+
+  return { manualId: target.manualId, block: copy }
+}
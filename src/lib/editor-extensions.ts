@@ -0,0 +1,31 @@
+/**
+ * Tiptap extensions for BODY blocks
+ * Shared by the browser editor and the collaboration server so both build the
+ * same ProseMirror schema and produce the same HTML.
+ */
+
+import type { Extensions } from '@tiptap/react'
+import StarterKit from '@tiptap/starter-kit'
+import Link from '@tiptap/extension-link'
+import Underline from '@tiptap/extension-underline'
+
+interface RichTextExtensionOptions {
+  /**
+   * Local undo history. Must be off when collaborating, the collaboration
+   * extension brings its own per-user undo manager.
+   */
+  history?: boolean
+}
+
+export function createRichTextExtensions({ history = true }: RichTextExtensionOptions = {}): Extensions {
+  return [
+    StarterKit.configure(history ? {} : { history: false }),
+    Link.configure({
+      openOnClick: false,
+      HTMLAttributes: {
+        class: 'text-primary-600 underline cursor-pointer',
+      },
+    }),
+    Underline,
+  ]
+}
@@ -8,6 +8,7 @@ interface ErrorResponse {
   error: string
   code?: string
   details?: unknown
+  current?: unknown
 }
 
 /**
@@ -70,6 +71,16 @@ export function handleApiError(error: unknown): NextResponse<ErrorResponse> {
   if (error instanceof BadRequestError) {
     return errorResponse(error.message, 400, 'BAD_REQUEST')
   }
+  if (error instanceof ConflictError) {
+    // Stale writes get the current server value so the client can resolve the conflict
+    if (error.current !== undefined) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, code: 'CONFLICT', current: error.current },
+        { status: 409 }
+      )
+    }
+    return errorResponse(error.message, 409, 'CONFLICT')
+  }
   if (error instanceof ValidationError) {
     return errorResponse(error.message, 400, 'VALIDATION_ERROR')
   }
@@ -154,3 +165,10 @@ export class BadRequestError extends Error {
     this.name = 'BadRequestError'
   }
 }
+
+export class ConflictError extends Error {
+  constructor(message: string = '다른 사용자의 변경과 충돌합니다', public current?: unknown) {
+    super(message)
+    this.name = 'ConflictError'
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Word (DOCX) rendering of an export document
+ * Section depth and heading blocks map to Word heading styles, so the navigation pane
+ * and Word's own table of contents work on the result. Images are embedded at the
+ * size stored on their File record, scaled down to the page width.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type IRunOptions,
+  type ParagraphChild,
+} from 'docx'
+import {
+  isSafeLink,
+  readExportImage,
+  type ExportBlock,
+  type ExportDocument,
+  type ExportSection,
+  type Paragraph as BodyParagraph,
+  type TextRun as BodyRun,
+} from './export'
+import { formatDate } from './utils'
+
+const FONT = 'Malgun Gothic'
+const CODE_FONT = 'Consolas'
+// A4 with 1 inch margins at 96 dpi
+const MAX_IMAGE_WIDTH = 600
+const MAX_IMAGE_HEIGHT = 800
+const INDENT = 720
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+]
+
+function heading(level: number) {
+  return HEADINGS[Math.min(6, Math.max(1, level)) - 1]
+}
+
+/**
+ * Text runs of a string, with line breaks kept
+ */
+function textRuns(text: string, options: Omit<IRunOptions, 'text'> = {}) {
+  return text.split('\n').map((line, index) => new TextRun({ ...options, text: line, break: index > 0 ? 1 : 0 }))
+}
+
+function bodyRuns(runs: BodyRun[]): ParagraphChild[] {
+  return runs.flatMap((run): ParagraphChild[] => {
+    const children = textRuns(run.text, {
+      bold: run.bold,
+      italics: run.italic,
+      underline: run.underline ? {} : undefined,
+      strike: run.strike,
+      font: run.code ? CODE_FONT : undefined,
+      shading: run.code ? { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' } : undefined,
+      style: run.link ? 'Hyperlink' : undefined,
+    })
+    // Links inside the manual (#anchors) have no target in the document
+    return run.link && !run.link.startsWith('#') ? [new ExternalHyperlink({ link: run.link, children })] : children
+  })
+}
+
+function codeParagraph(code: string) {
+  return new Paragraph({
+    children: textRuns(code.replace(/\n$/, ''), { font: CODE_FONT, size: 18 }),
+    shading: { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' },
+    spacing: { before: 120, after: 120 },
+  })
+}
+
+function ruleParagraph() {
+  return new Paragraph({
+    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } },
+  })
+}
+
+/**
+ * Word paragraphs of BODY paragraphs
+ * Each list gets its own numbering instance so ordered lists restart at 1.
+ */
+function bodyParagraphs(paragraphs: BodyParagraph[], headingOffset: number, nextInstance: () => number) {
+  const result: Paragraph[] = []
+  // Numbering instance of the open list at each depth
+  const lists: Array<{ ordered: boolean; instance: number }> = []
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.kind !== 'list') {
+      lists.length = 0
+    }
+
+    switch (paragraph.kind) {
+      case 'heading':
+        result.push(new Paragraph({ heading: heading((paragraph.level ?? 1) + headingOffset), children: bodyRuns(paragraph.runs) }))
+        break
+      case 'quote':
+        result.push(
+          new Paragraph({
+            children: bodyRuns(paragraph.runs),
+            indent: { left: INDENT / 2 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'D1D5DB', space: 8 } },
+          })
+        )
+        break
+      case 'code':
+        result.push(codeParagraph(paragraph.runs.map((run) => run.text).join('')))
+        break
+      case 'rule':
+        result.push(ruleParagraph())
+        break
+      case 'list': {
+        const { ordered, depth, first } = paragraph.list!
+        lists.length = Math.min(lists.length, depth)
+        if (lists.length === depth && lists[depth - 1].ordered !== ordered) {
+          lists.length = depth - 1
+        }
+        while (lists.length < depth) {
+          lists.push({ ordered, instance: nextInstance() })
+        }
+
+        const level = Math.min(depth, 3) - 1
+        result.push(
+          first
+            ? new Paragraph({
+                children: bodyRuns(paragraph.runs),
+                numbering: { reference: ordered ? 'numbers' : 'bullets', level, instance: lists[depth - 1].instance },
+              })
+            : new Paragraph({ children: bodyRuns(paragraph.runs), indent: { left: INDENT * (level + 1) } })
+        )
+        break
+      }
+      default:
+        result.push(new Paragraph({ children: bodyRuns(paragraph.runs) }))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Size of an embedded image: the stored File size, else the editor size, else the file's own
+ */
+function imageSize(block: Extract<ExportBlock, { type: 'image' }>, actual: { width: number; height: number }) {
+  const size = block.fileSize ?? (block.width && block.height ? { width: block.width, height: block.height } : actual)
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / size.width, MAX_IMAGE_HEIGHT / size.height)
+  return { width: Math.round(size.width * scale), height: Math.round(size.height * scale) }
+}
+
+async function imageParagraph(path: string, size: (actual: { width: number; height: number }) => { width: number; height: number }) {
+  const image = await readExportImage(path)
+  if (!image) return null
+
+  return new Paragraph({
+    children: [new ImageRun({ type: image.format, data: image.data, transformation: size(image) })],
+  })
+}
+
+function tableOf(rows: string[][]) {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map(
+      (row, rowIndex) =>
+        new TableRow({
+          // The first row is the header, repeated on every page
+          tableHeader: rowIndex === 0,
+          children: row.map(
+            (cell) =>
+              new TableCell({
+                children: [new Paragraph({ children: textRuns(cell, { bold: rowIndex === 0 }) })],
+                shading: rowIndex === 0 ? { type: ShadingType.CLEAR, fill: 'F9FAFB', color: 'auto' } : undefined,
+                margins: { top: 60, bottom: 60, left: 100, right: 100 },
+              })
+          ),
+        })
+    ),
+  })
+}
+
+async function blockContent(
+  block: ExportBlock,
+  headingOffset: number,
+  nextInstance: () => number
+): Promise<Array<Paragraph | Table>> {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({ heading: heading(block.level + headingOffset), children: textRuns(block.text) })]
+    case 'body':
+      return bodyParagraphs(block.paragraphs, headingOffset, nextInstance)
+    case 'image': {
+      const paragraph = block.path ? await imageParagraph(block.path, (actual) => imageSize(block, actual)) : null
+      return [
+        paragraph ??
+          new Paragraph({ children: textRuns(`[이미지를 불러올 수 없습니다: ${block.url}]`, { color: '6B7280' }) }),
+      ]
+    }
+    case 'video':
+      return [
+        new Paragraph({
+          children: [
+            new TextRun('동영상: '),
+            ...bodyRuns([{ text: block.url, link: isSafeLink(block.url) ? block.url : undefined }]),
+          ],
+        }),
+      ]
+    case 'table':
+      // An empty paragraph keeps consecutive tables from merging
+      return [tableOf(block.rows), new Paragraph({})]
+    case 'divider':
+      return [ruleParagraph()]
+    case 'code':
+      return [
+        ...(block.language ? [new Paragraph({ children: textRuns(block.language, { color: '6B7280', size: 16 }) })] : []),
+        codeParagraph(block.code),
+      ]
+  }
+}
+
+async function sectionContent(section: ExportSection, nextInstance: () => number): Promise<Array<Paragraph | Table>> {
+  const content: Array<Paragraph | Table> = [
+    new Paragraph({
+      heading: heading(section.depth),
+      // Top-level sections start on a new page
+      pageBreakBefore: section.depth === 1,
+      children: textRuns(`${section.number} ${section.title}`),
+    }),
+  ]
+
+  for (const block of section.blocks) {
+    content.push(...(await blockContent(block, section.depth, nextInstance)))
+  }
+  for (const child of section.children) {
+    content.push(...(await sectionContent(child, nextInstance)))
+  }
+
+  return content
+}
+
+function listLevels(ordered: boolean) {
+  return [0, 1, 2].map((level) => ({
+    level,
+    format: ordered ? LevelFormat.DECIMAL : LevelFormat.BULLET,
+    text: ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level],
+    alignment: AlignmentType.LEFT,
+    style: { paragraph: { indent: { left: INDENT * (level + 1), hanging: 360 } } },
+  }))
+}
+
+/**
+ * Render an export document as a Word document
+ */
+export async function renderDocx(document: ExportDocument): Promise<Buffer> {
+  let instance = 0
+  const nextInstance = () => ++instance
+
+  const cover: Paragraph[] = []
+  if (document.coverImage) {
+    const image = await imageParagraph(document.coverImage, (actual) => {
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / actual.width, 360 / actual.height)
+      return { width: Math.round(actual.width * scale), height: Math.round(actual.height * scale) }
+    })
+    if (image) cover.push(image)
+  }
+  cover.push(new Paragraph({ heading: HeadingLevel.TITLE, children: textRuns(document.title) }))
+  if (document.description) {
+    cover.push(new Paragraph({ children: textRuns(document.description, { color: '4B5563' }) }))
+  }
+  cover.push(
+    new Paragraph({
+      children: textRuns(
+        `${document.published ? '게시본' : '작성 중인 버전'} · ${formatDate(document.exportedAt)} 내보냄`,
+        { color: '9CA3AF', size: 18 }
+      ),
+    })
+  )
+
+  const content: Array<Paragraph | Table> = []
+  for (const section of document.sections) {
+    content.push(...(await sectionContent(section, nextInstance)))
+  }
+  if (content.length === 0) {
+    content.push(new Paragraph({ children: [new PageBreak(), new TextRun('내용이 없습니다')] }))
+  }
+
+  const doc = new Document({
+    title: document.title,
+    description: document.description ?? undefined,
+    styles: {
+      default: {
+        document: { run: { font: { ascii: FONT, eastAsia: FONT, hAnsi: FONT }, size: 21 } },
+      },
+    },
+    numbering: {
+      config: [
+        { reference: 'bullets', levels: listLevels(false) },
+        { reference: 'numbers', levels: listLevels(true) },
+      ],
+    },
+    sections: [
+      {
+        properties: { titlePage: true },
+        headers: {
+          default: new Header({
+            children: [new Paragraph({ children: textRuns(document.title, { color: '6B7280', size: 16 }) })],
+          }),
+          first: new Header({ children: [] }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ children: [PageNumber.CURRENT, ' / ', PageNumber.TOTAL_PAGES], color: '6B7280', size: 16 }),
+                ],
+              }),
+            ],
+          }),
+          first: new Footer({ children: [] }),
+        },
+        children: [...cover, ...content],
+      },
+    ],
+  })
+
+  return Packer.toBuffer(doc)
+}
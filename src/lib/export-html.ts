@@ -0,0 +1,278 @@
+/**
+ * Static HTML site export
+ * An index page plus one page per top-level section, each with a sidebar mirroring the
+ * section tree. Everything is relative and self-contained so the site works offline.
+ */
+
+import {
+  ExportAssets,
+  isSafeLink,
+  sectionFilename,
+  type ExportBlock,
+  type ExportDocument,
+  type ExportFiles,
+  type ExportSection,
+  type Paragraph,
+  type TextRun,
+} from './export'
+import { formatDate } from './utils'
+
+const STYLE = `*{box-sizing:border-box}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Apple SD Gothic Neo","Malgun Gothic","Noto Sans KR",sans-serif;color:#111827;line-height:1.7}
+a{color:#2563eb}
+.layout{display:flex;min-height:100vh}
+nav{width:280px;flex-shrink:0;border-right:1px solid #e5e7eb;background:#f9fafb;padding:24px 16px;position:sticky;top:0;height:100vh;overflow-y:auto;font-size:14px}
+nav .title{display:block;font-weight:700;color:#111827;text-decoration:none;margin-bottom:16px}
+nav ul{list-style:none;margin:0;padding-left:12px}
+nav>ul{padding-left:0}
+nav li a{display:block;padding:3px 6px;border-radius:4px;color:#374151;text-decoration:none}
+nav li a:hover{background:#e5e7eb}
+nav li a.current{background:#e0e7ff;color:#1e40af;font-weight:600}
+main{flex:1;min-width:0;max-width:860px;padding:40px 48px}
+main h1,main h2,main h3,main h4,main h5,main h6{line-height:1.3;margin:1.6em 0 .6em}
+.number{color:#6b7280;margin-right:.4em}
+.description{color:#4b5563}
+.meta{color:#9ca3af;font-size:13px}
+.cover{max-width:100%;max-height:360px;display:block;margin:0 0 24px}
+img{max-width:100%;height:auto}
+blockquote{margin:1em 0;padding:.2em 1em;border-left:4px solid #d1d5db;color:#4b5563}
+pre{background:#f3f4f6;padding:12px 16px;border-radius:6px;overflow-x:auto;font-size:13px;line-height:1.5}
+code{font-family:SFMono-Regular,Consolas,"Liberation Mono",Menlo,monospace;background:#f3f4f6;padding:.1em .3em;border-radius:3px;font-size:.9em}
+pre code{background:none;padding:0}
+table{border-collapse:collapse;margin:1em 0}
+th,td{border:1px solid #d1d5db;padding:6px 10px;text-align:left;vertical-align:top}
+th{background:#f9fafb}
+hr{border:none;border-top:1px solid #e5e7eb;margin:2em 0}
+.pager{display:flex;justify-content:space-between;margin-top:48px;padding-top:16px;border-top:1px solid #e5e7eb}
+@media (max-width:800px){.layout{display:block}nav{position:static;width:auto;height:auto;border-right:none;border-bottom:1px solid #e5e7eb}main{padding:24px 16px}}
+@media print{nav,.pager{display:none}}
+`
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function runToHtml(run: TextRun): string {
+  let html = escapeHtml(run.text).replace(/\n/g, '<br>')
+  if (run.code) html = `<code>${html}</code>`
+  if (run.underline) html = `<u>${html}</u>`
+  if (run.strike) html = `<s>${html}</s>`
+  if (run.italic) html = `<em>${html}</em>`
+  if (run.bold) html = `<strong>${html}</strong>`
+
+  if (run.link) html = `<a href="${escapeHtml(run.link)}">${html}</a>`
+
+  return html
+}
+
+export function runsToHtml(runs: TextRun[]): string {
+  return runs.map(runToHtml).join('')
+}
+
+/**
+ * HTML of BODY paragraphs, with list items nested again
+ * @param headingOffset Levels added to headings inside the text
+ */
+export function paragraphsToHtml(paragraphs: Paragraph[], headingOffset = 0): string {
+  let html = ''
+  const lists: Array<'ul' | 'ol'> = []
+  const closeLists = (depth: number) => {
+    while (lists.length > depth) {
+      html += `</li></${lists.pop()}>`
+    }
+  }
+
+  for (const paragraph of paragraphs) {
+    const content = runsToHtml(paragraph.runs)
+
+    if (paragraph.kind === 'list') {
+      const { ordered, depth, index, first } = paragraph.list!
+      const tag = ordered ? 'ol' : 'ul'
+      closeLists(depth)
+      if (lists.length === depth && first) {
+        if (lists[depth - 1] === tag) {
+          html += '</li><li>'
+        } else {
+          closeLists(depth - 1)
+        }
+      }
+      while (lists.length < depth) {
+        const start = ordered && lists.length === depth - 1 && index !== 1 ? ` start="${index}"` : ''
+        html += `<${tag}${start}><li>`
+        lists.push(tag)
+      }
+      html += `<p>${content}</p>`
+      continue
+    }
+
+    closeLists(0)
+    switch (paragraph.kind) {
+      case 'heading': {
+        const level = Math.min(6, (paragraph.level ?? 1) + headingOffset)
+        html += `<h${level}>${content}</h${level}>`
+        break
+      }
+      case 'quote':
+        html += `<blockquote><p>${content}</p></blockquote>`
+        break
+      case 'code':
+        html += `<pre><code>${escapeHtml(paragraph.runs.map((run) => run.text).join(''))}</code></pre>`
+        break
+      case 'rule':
+        html += '<hr>'
+        break
+      default:
+        html += `<p>${content}</p>`
+    }
+  }
+  closeLists(0)
+
+  return html
+}
+
+function sectionAnchor(section: ExportSection) {
+  return `section-${section.number.replace(/\./g, '-')}`
+}
+
+async function blockToHtml(block: ExportBlock, headingOffset: number, assets: ExportAssets): Promise<string> {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(6, block.level + headingOffset)
+      return `<h${level}>${escapeHtml(block.text)}</h${level}>`
+    }
+    case 'body':
+      return paragraphsToHtml(block.paragraphs, headingOffset)
+    case 'image': {
+      const asset = block.path ? await assets.add(block.path) : null
+      if (!asset) {
+        return `<p class="meta">[이미지: ${escapeHtml(block.url)}]</p>`
+      }
+      const width = block.width ? ` width="${Math.round(block.width)}"` : ''
+      return `<p><img src="${escapeHtml(asset)}" alt=""${width}></p>`
+    }
+    case 'video': {
+      return isSafeLink(block.url)
+        ? `<p>동영상: <a href="${escapeHtml(block.url)}">${escapeHtml(block.url)}</a></p>`
+        : `<p>동영상: ${escapeHtml(block.url)}</p>`
+    }
+    case 'table': {
+      const [header, ...rows] = block.rows
+      const cell = (tag: string, text: string) => `<${tag}>${escapeHtml(text).replace(/\n/g, '<br>')}</${tag}>`
+      return (
+        '<table><thead><tr>' +
+        header.map((text) => cell('th', text)).join('') +
+        '</tr></thead><tbody>' +
+        rows.map((row) => `<tr>${row.map((text) => cell('td', text)).join('')}</tr>`).join('') +
+        '</tbody></table>'
+      )
+    }
+    case 'divider':
+      return '<hr>'
+    case 'code': {
+      const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : ''
+      return `<pre><code${language}>${escapeHtml(block.code)}</code></pre>`
+    }
+  }
+}
+
+async function sectionToHtml(section: ExportSection, assets: ExportAssets): Promise<string> {
+  // Each top-level section is a page of its own, so its title is the h1
+  const level = Math.min(6, section.depth)
+  let html =
+    `<section id="${sectionAnchor(section)}">` +
+    `<h${level}><span class="number">${section.number}</span>${escapeHtml(section.title)}</h${level}>`
+
+  for (const block of section.blocks) {
+    html += await blockToHtml(block, level, assets)
+  }
+  for (const child of section.children) {
+    html += await sectionToHtml(child, assets)
+  }
+
+  return html + '</section>'
+}
+
+function navToHtml(sections: ExportSection[], current: ExportSection | null, page?: ExportSection): string {
+  const items = sections.map((section) => {
+    const owner = page ?? section
+    const file = sectionFilename(owner, 'html')
+    const href = section.depth === 1 ? file : `${file}#${sectionAnchor(section)}`
+    const className = section === current ? ' class="current"' : ''
+    const children = section.children.length > 0 ? navToHtml(section.children, current, owner) : ''
+    return (
+      `<li><a href="${escapeHtml(href)}"${className}>` +
+      `<span class="number">${section.number}</span>${escapeHtml(section.title)}</a>${children}</li>`
+    )
+  })
+  return `<ul>${items.join('')}</ul>`
+}
+
+function page(document: ExportDocument, title: string, current: ExportSection | null, main: string): string {
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="style.css">
+</head>
+<body>
+<div class="layout">
+<nav><a class="title" href="index.html">${escapeHtml(document.title)}</a>${navToHtml(document.sections, current)}</nav>
+<main>
+${main}
+</main>
+</div>
+</body>
+</html>
+`
+}
+
+/**
+ * Files of the static site for an export document
+ */
+export async function renderHtmlSite(document: ExportDocument): Promise<ExportFiles> {
+  const files: ExportFiles = new Map()
+  const assets = new ExportAssets(files)
+  files.set('style.css', STYLE)
+
+  let index = ''
+  if (document.coverImage) {
+    const cover = await assets.add(document.coverImage)
+    if (cover) index += `<img class="cover" src="${escapeHtml(cover)}" alt="">`
+  }
+  index += `<h1>${escapeHtml(document.title)}</h1>`
+  if (document.description) {
+    index += `<p class="description">${escapeHtml(document.description).replace(/\n/g, '<br>')}</p>`
+  }
+  index += `<p class="meta">${document.published ? '게시본' : '작성 중인 버전'} · ${formatDate(document.exportedAt)} 내보냄</p>`
+  index +=
+    document.sections.length > 0
+      ? `<h2>목차</h2>${navToHtml(document.sections, null)}`
+      : '<p class="meta">내용이 없습니다</p>'
+  files.set('index.html', page(document, document.title, null, index))
+
+  for (const [position, section] of document.sections.entries()) {
+    const previous = document.sections[position - 1]
+    const next = document.sections[position + 1]
+    const link = (target: ExportSection | undefined, label: string) =>
+      target
+        ? `<a href="${escapeHtml(sectionFilename(target, 'html'))}">${label} ${escapeHtml(`${target.number} ${target.title}`)}</a>`
+        : '<span></span>'
+
+    const main =
+      (await sectionToHtml(section, assets)) +
+      `<div class="pager">${link(previous, '←')}${link(next, '→')}</div>`
+    files.set(
+      sectionFilename(section, 'html'),
+      page(document, `${section.number} ${section.title} - ${document.title}`, section, main)
+    )
+  }
+
+  return files
+}
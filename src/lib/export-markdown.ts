@@ -0,0 +1,253 @@
+/**
+ * Markdown export (GitHub Flavored Markdown)
+ * Either a single file or an index plus one file per top-level section; images are
+ * copied into `assets/`. Formatting Markdown cannot express (underline) stays as HTML.
+ */
+
+import {
+  ExportAssets,
+  sectionFilename,
+  type ExportBlock,
+  type ExportDocument,
+  type ExportFiles,
+  type ExportSection,
+  type Paragraph,
+  type TextRun,
+} from './export'
+import { formatDate } from './utils'
+
+export type MarkdownLayout = 'single' | 'sections'
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]{}<>#|~])/g, '\\$1').replace(/^(\s*)([-+]|\d+\.)(\s)/gm, '$1\\$2$3')
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((ticks) => ticks.length))
+  const fence = '`'.repeat(longest + 1)
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${text}${padding}${fence}`
+}
+
+function codeFence(code: string, language = ''): string {
+  const longest = Math.max(0, ...(code.match(/`{3,}/g) ?? []).map((ticks) => ticks.length))
+  const fence = '`'.repeat(Math.max(3, longest + 1))
+  return `${fence}${language}\n${code.replace(/\n$/, '')}\n${fence}`
+}
+
+function linkTarget(url: string): string {
+  return url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+}
+
+function runToMarkdown(run: TextRun): string {
+  if (run.code) {
+    return run.link ? `[${codeSpan(run.text)}](${linkTarget(run.link)})` : codeSpan(run.text)
+  }
+
+  // Keep surrounding spaces outside the markers, or they would not be parsed
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text)!
+  if (!core) return run.text
+
+  let text = escapeMarkdown(core).replace(/\n/g, '\\\n')
+  if (run.underline) text = `<u>${text}</u>`
+  if (run.strike) text = `~~${text}~~`
+  if (run.italic) text = `*${text}*`
+  if (run.bold) text = `**${text}**`
+  if (run.link) text = `[${text}](${linkTarget(run.link)})`
+
+  return leading + text + trailing
+}
+
+export function runsToMarkdown(runs: TextRun[]): string {
+  return runs.map(runToMarkdown).join('')
+}
+
+/**
+ * Markdown of BODY paragraphs
+ * @param headingOffset Levels added to headings inside the text
+ */
+export function paragraphsToMarkdown(paragraphs: Paragraph[], headingOffset = 0): string {
+  const parts: string[] = []
+  let previousList = false
+  // Type of the open list at each depth; a different type needs a blank line to start a new list
+  const listTypes: boolean[] = []
+
+  paragraphs.forEach((paragraph) => {
+    const text = runsToMarkdown(paragraph.runs)
+    let markdown: string
+
+    switch (paragraph.kind) {
+      case 'heading':
+        markdown = `${'#'.repeat(Math.min(6, (paragraph.level ?? 1) + headingOffset))} ${text}`
+        break
+      case 'quote':
+        markdown = text
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n')
+        break
+      case 'code':
+        markdown = codeFence(paragraph.runs.map((run) => run.text).join(''))
+        break
+      case 'rule':
+        markdown = '---'
+        break
+      case 'list': {
+        const { ordered, depth, index, first } = paragraph.list!
+        const indent = '    '.repeat(depth - 1)
+        const lines = text.split('\n')
+        markdown = first
+          ? `${indent}${ordered ? `${index}.` : '-'} ${lines.join(`\n${indent}    `)}`
+          : lines.map((line) => `${indent}    ${line}`).join('\n')
+        // Items of the same list are separated by a single line break (tight list)
+        const sameList = previousList && (depth > listTypes.length || listTypes[depth - 1] === ordered)
+        listTypes.length = depth
+        listTypes[depth - 1] = ordered
+        if (sameList && first) {
+          parts[parts.length - 1] += `\n${markdown}`
+          previousList = true
+          return
+        }
+        break
+      }
+      default:
+        markdown = text
+    }
+
+    parts.push(markdown)
+    previousList = paragraph.kind === 'list'
+    if (!previousList) listTypes.length = 0
+  })
+
+  return parts.join('\n\n')
+}
+
+function escapeTableCell(text: string): string {
+  return escapeMarkdown(text).replace(/\r?\n/g, '<br>') || ' '
+}
+
+function tableToMarkdown(rows: string[][]): string {
+  const [header, ...body] = rows
+  return [
+    `| ${header.map(escapeTableCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.map(escapeTableCell).join(' | ')} |`),
+  ].join('\n')
+}
+
+async function blockToMarkdown(
+  block: ExportBlock,
+  headingOffset: number,
+  assets: ExportAssets
+): Promise<string> {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(Math.min(6, block.level + headingOffset))} ${escapeMarkdown(block.text)}`
+    case 'body':
+      return paragraphsToMarkdown(block.paragraphs, headingOffset)
+    case 'image': {
+      const asset = block.path ? await assets.add(block.path) : null
+      return `![](${asset ?? block.url})`
+    }
+    case 'video':
+      return `[동영상](${block.url})`
+    case 'table':
+      return tableToMarkdown(block.rows)
+    case 'divider':
+      return '---'
+    case 'code':
+      return codeFence(block.code, block.language)
+  }
+}
+
+async function sectionToMarkdown(
+  section: ExportSection,
+  headingOffset: number,
+  assets: ExportAssets
+): Promise<string> {
+  const level = Math.min(6, section.depth + headingOffset)
+  const parts = [`${'#'.repeat(level)} ${section.number} ${escapeMarkdown(section.title)}`]
+
+  for (const block of section.blocks) {
+    const markdown = await blockToMarkdown(block, level, assets)
+    if (markdown) parts.push(markdown)
+  }
+  for (const child of section.children) {
+    parts.push(await sectionToMarkdown(child, headingOffset, assets))
+  }
+
+  return parts.join('\n\n')
+}
+
+function tocToMarkdown(sections: ExportSection[], link: (section: ExportSection) => string | null): string {
+  const lines: string[] = []
+  const walk = (items: ExportSection[]) =>
+    items.forEach((section) => {
+      const label = `${section.number} ${escapeMarkdown(section.title)}`
+      const target = link(section)
+      lines.push(`${'  '.repeat(section.depth - 1)}- ${target ? `[${label}](${target})` : label}`)
+      walk(section.children)
+    })
+  walk(sections)
+  return lines.join('\n')
+}
+
+/**
+ * Anchor GitHub generates for a heading (lowercase, punctuation removed, spaces to dashes)
+ */
+function headingAnchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+}
+
+async function documentHeader(document: ExportDocument, assets: ExportAssets): Promise<string[]> {
+  const parts = [`# ${escapeMarkdown(document.title)}`]
+  if (document.coverImage) {
+    const asset = await assets.add(document.coverImage)
+    if (asset) parts.push(`![](${asset})`)
+  }
+  if (document.description) {
+    parts.push(escapeMarkdown(document.description))
+  }
+  parts.push(`*${document.published ? '게시본' : '작성 중인 버전'} · ${formatDate(document.exportedAt)} 내보냄*`)
+  return parts
+}
+
+/**
+ * Markdown files of an export document
+ */
+export async function renderMarkdown(document: ExportDocument, layout: MarkdownLayout): Promise<ExportFiles> {
+  const files: ExportFiles = new Map()
+  const assets = new ExportAssets(files)
+  const header = await documentHeader(document, assets)
+
+  if (layout === 'single') {
+    const toc = tocToMarkdown(document.sections, (section) =>
+      `#${headingAnchor(`${section.number} ${section.title}`)}`
+    )
+    const sections = []
+    for (const section of document.sections) {
+      sections.push(await sectionToMarkdown(section, 1, assets))
+    }
+
+    files.set('README.md', [...header, ...(toc ? ['## 목차', toc] : []), ...sections].join('\n\n') + '\n')
+    return files
+  }
+
+  const toc = tocToMarkdown(document.sections, (section) => {
+    const root = document.sections.find(
+      (item) => section.number === item.number || section.number.startsWith(`${item.number}.`)
+    )!
+    const file = sectionFilename(root, 'md')
+    return section === root ? file : `${file}#${headingAnchor(`${section.number} ${section.title}`)}`
+  })
+  files.set('README.md', [...header, ...(toc ? ['## 목차', toc] : [])].join('\n\n') + '\n')
+
+  for (const section of document.sections) {
+    files.set(sectionFilename(section, 'md'), (await sectionToMarkdown(section, 0, assets)) + '\n')
+  }
+
+  return files
+}
@@ -0,0 +1,450 @@
+/**
+ * PDF rendering of an export document
+ * Cover page, table of contents with page numbers, numbered sections and running
+ * header/footer. Korean text needs an embedded font: Pretendard from node_modules
+ * unless PDF_FONT_PATH / PDF_BOLD_FONT_PATH point to other TrueType fonts.
+ */
+
+import { existsSync } from 'fs'
+import { join } from 'path'
+import PDFDocument from 'pdfkit'
+import {
+  readExportImage,
+  runsText,
+  type ExportBlock,
+  type ExportDocument,
+  type ExportSection,
+  type Paragraph,
+  type TextRun,
+} from './export'
+import { formatDate } from './utils'
+
+type PDFDoc = PDFKit.PDFDocument
+
+const FONT_DIR = join(process.cwd(), 'node_modules', 'pretendard', 'dist', 'public', 'static', 'alternative')
+const FONT_PATH = process.env.PDF_FONT_PATH || join(FONT_DIR, 'Pretendard-Regular.ttf')
+const BOLD_FONT_PATH = process.env.PDF_BOLD_FONT_PATH || join(FONT_DIR, 'Pretendard-Bold.ttf')
+
+const MARGIN = 56
+const TOC_LINE_HEIGHT = 20
+const SECTION_FONT_SIZES = [18, 15, 13]
+const HEADING_FONT_SIZES = [16, 14, 12]
+const BODY_FONT_SIZE = 10.5
+const CODE_FONT_SIZE = 9
+const MAX_IMAGE_HEIGHT = 420
+
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#d1d5db',
+  codeBackground: '#f3f4f6',
+  tableHeader: '#f9fafb',
+  link: '#2563eb',
+}
+
+interface TocEntry {
+  section: ExportSection
+  page: number
+}
+
+function flattenSections(sections: ExportSection[]): ExportSection[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children)])
+}
+
+function destination(section: ExportSection) {
+  return `section-${section.id}`
+}
+
+function contentWidth(doc: PDFDoc) {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right
+}
+
+function bottom(doc: PDFDoc) {
+  return doc.page.height - doc.page.margins.bottom
+}
+
+/**
+ * Start a new page unless `height` still fits on the current one
+ */
+function ensureSpace(doc: PDFDoc, height: number) {
+  if (doc.y + height > bottom(doc)) {
+    doc.addPage()
+  }
+}
+
+// The embedded font has no monospaced variant; ASCII-only code uses Courier
+function codeFont(text: string) {
+  return /^[\x00-\x7f]*$/.test(text) ? 'Courier' : 'body'
+}
+
+function renderParagraph(doc: PDFDoc, paragraph: Paragraph) {
+  const left = doc.page.margins.left
+  const width = contentWidth(doc)
+
+  if (paragraph.kind === 'rule') {
+    ensureSpace(doc, 12)
+    const y = doc.y + 4
+    doc.moveTo(left, y).lineTo(left + width, y).strokeColor(COLORS.border).lineWidth(0.5).stroke()
+    doc.y = y + 8
+    return
+  }
+
+  if (paragraph.kind === 'code') {
+    renderCode(doc, runsText(paragraph.runs))
+    return
+  }
+
+  let indent = 0
+  let prefix = ''
+  let fontSize = BODY_FONT_SIZE
+  let bold = false
+
+  if (paragraph.kind === 'heading') {
+    fontSize = HEADING_FONT_SIZES[(paragraph.level ?? 1) - 1]
+    bold = true
+  } else if (paragraph.kind === 'quote') {
+    indent = 12
+  } else if (paragraph.list) {
+    indent = 16 * paragraph.list.depth
+    if (paragraph.list.first) {
+      prefix = paragraph.list.ordered ? `${paragraph.list.index}. ` : '• '
+    }
+  }
+
+  doc.fontSize(fontSize)
+  const text = prefix + runsText(paragraph.runs)
+  const height = doc.font(bold ? 'bold' : 'body').heightOfString(text || ' ', { width: width - indent })
+  ensureSpace(doc, Math.min(height, 3 * fontSize))
+
+  const top = doc.y
+  const startPage = doc.bufferedPageRange().start + doc.bufferedPageRange().count
+  const runs: TextRun[] = prefix ? [{ text: prefix }, ...paragraph.runs] : paragraph.runs
+
+  doc.fillColor(paragraph.kind === 'quote' ? COLORS.muted : COLORS.text)
+  if (runs.length === 0) {
+    doc.font('body').text(' ', left + indent, doc.y, { width: width - indent })
+  }
+  runs.forEach((run, index) => {
+    doc.font(run.code ? codeFont(run.text) : bold || run.bold ? 'bold' : 'body')
+    doc.fillColor(run.link ? COLORS.link : paragraph.kind === 'quote' ? COLORS.muted : COLORS.text)
+    const options: PDFKit.Mixins.TextOptions = {
+      width: width - indent,
+      continued: index < runs.length - 1,
+      oblique: run.italic ? 12 : false,
+      underline: !!run.underline,
+      strike: !!run.strike,
+      link: run.link ?? null,
+    }
+    if (index === 0) {
+      doc.text(run.text, left + indent, doc.y, options)
+    } else {
+      doc.text(run.text, options)
+    }
+  })
+  doc.fillColor(COLORS.text)
+
+  // Bar beside quotes (only when the quote did not break across pages)
+  const endPage = doc.bufferedPageRange().start + doc.bufferedPageRange().count
+  if (paragraph.kind === 'quote' && startPage === endPage) {
+    doc.moveTo(left + 4, top).lineTo(left + 4, doc.y).strokeColor(COLORS.border).lineWidth(2).stroke()
+  }
+  doc.x = left
+  doc.moveDown(0.4)
+}
+
+function renderCode(doc: PDFDoc, code: string) {
+  const left = doc.page.margins.left
+  const width = contentWidth(doc)
+  const padding = 6
+
+  doc.fontSize(CODE_FONT_SIZE)
+  const lineHeight = doc.font('body').currentLineHeight(true)
+
+  doc.y += padding
+  for (const line of code.replace(/\n$/, '').split('\n')) {
+    const text = line.replace(/\t/g, '  ') || ' '
+    doc.font(codeFont(text))
+    const height = doc.heightOfString(text, { width: width - padding * 2 })
+    ensureSpace(doc, Math.min(height, lineHeight * 2))
+
+    const top = doc.y
+    doc.rect(left, top - padding / 2, width, height + padding).fill(COLORS.codeBackground)
+    doc.fillColor(COLORS.text).text(text, left + padding, top, { width: width - padding * 2 })
+    doc.y = top + height
+  }
+  doc.x = left
+  doc.y += padding
+  doc.moveDown(0.4)
+}
+
+async function renderImage(doc: PDFDoc, block: Extract<ExportBlock, { type: 'image' }>) {
+  const image = block.path ? await readExportImage(block.path) : null
+  if (!image) {
+    doc.font('body').fontSize(BODY_FONT_SIZE).fillColor(COLORS.muted)
+      .text(`[이미지를 불러올 수 없습니다: ${block.url}]`, doc.page.margins.left, doc.y, { width: contentWidth(doc) })
+    doc.fillColor(COLORS.text).moveDown(0.4)
+    return
+  }
+
+  // Block width is in screen pixels (1px = 0.75pt)
+  const maxWidth = Math.min(contentWidth(doc), (block.width ?? image.width) * 0.75)
+  const maxHeight = Math.min(MAX_IMAGE_HEIGHT, bottom(doc) - doc.page.margins.top)
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height)
+  const width = image.width * scale
+  const height = image.height * scale
+
+  ensureSpace(doc, height)
+  const top = doc.y
+  doc.image(image.data, doc.page.margins.left, top, { width, height })
+  doc.x = doc.page.margins.left
+  doc.y = top + height
+  doc.moveDown(0.6)
+}
+
+function renderTable(doc: PDFDoc, rows: string[][]) {
+  const left = doc.page.margins.left
+  const colWidth = contentWidth(doc) / rows[0].length
+  const padding = 4
+
+  doc.fontSize(BODY_FONT_SIZE - 1)
+  rows.forEach((row, rowIndex) => {
+    // The first row is shown as the header, as in the editor's templates
+    const font = rowIndex === 0 ? 'bold' : 'body'
+    doc.font(font)
+    const height =
+      Math.max(...row.map((cell) => doc.heightOfString(cell || ' ', { width: colWidth - padding * 2 }))) + padding * 2
+    ensureSpace(doc, height)
+
+    const top = doc.y
+    row.forEach((cell, col) => {
+      const x = left + col * colWidth
+      if (rowIndex === 0) {
+        doc.rect(x, top, colWidth, height).fill(COLORS.tableHeader)
+      }
+      doc.rect(x, top, colWidth, height).strokeColor(COLORS.border).lineWidth(0.5).stroke()
+      doc.font(font).fillColor(COLORS.text).text(cell, x + padding, top + padding, { width: colWidth - padding * 2 })
+    })
+    doc.y = top + height
+  })
+  doc.x = left
+  doc.moveDown(0.6)
+}
+
+async function renderBlock(doc: PDFDoc, block: ExportBlock) {
+  const left = doc.page.margins.left
+
+  switch (block.type) {
+    case 'heading':
+      renderParagraph(doc, { kind: 'heading', level: block.level, runs: [{ text: block.text }] })
+      break
+    case 'body':
+      block.paragraphs.forEach((paragraph) => renderParagraph(doc, paragraph))
+      break
+    case 'image':
+      await renderImage(doc, block)
+      break
+    case 'video':
+      renderParagraph(doc, { kind: 'paragraph', runs: [{ text: '동영상: ' }, { text: block.url, link: block.url }] })
+      break
+    case 'table':
+      renderTable(doc, block.rows)
+      break
+    case 'divider':
+      renderParagraph(doc, { kind: 'rule', runs: [] })
+      break
+    case 'code':
+      if (block.language) {
+        doc.font('body').fontSize(CODE_FONT_SIZE).fillColor(COLORS.muted).text(block.language, left, doc.y)
+        doc.fillColor(COLORS.text)
+      }
+      renderCode(doc, block.code)
+      break
+  }
+}
+
+async function renderSection(
+  doc: PDFDoc,
+  section: ExportSection,
+  toc: TocEntry[],
+  outline: PDFKit.PDFOutline
+) {
+  // Top-level sections start on a new page
+  if (section.depth === 1) {
+    doc.addPage()
+  } else {
+    doc.moveDown(0.6)
+    ensureSpace(doc, 60)
+  }
+
+  const range = doc.bufferedPageRange()
+  toc.push({ section, page: range.start + range.count })
+  const item = outline.addItem(`${section.number} ${section.title}`)
+
+  doc.font('bold').fontSize(SECTION_FONT_SIZES[section.depth - 1] ?? BODY_FONT_SIZE).fillColor(COLORS.text)
+  doc.text(`${section.number}  ${section.title}`, doc.page.margins.left, doc.y, {
+    width: contentWidth(doc),
+    destination: destination(section),
+  })
+  doc.moveDown(0.5)
+
+  for (const block of section.blocks) {
+    await renderBlock(doc, block)
+  }
+  for (const child of section.children) {
+    await renderSection(doc, child, toc, item)
+  }
+}
+
+async function renderCover(doc: PDFDoc, document: ExportDocument) {
+  const left = doc.page.margins.left
+  const width = contentWidth(doc)
+
+  doc.y = doc.page.height * 0.25
+  if (document.coverImage) {
+    const image = await readExportImage(document.coverImage)
+    if (image) {
+      const scale = Math.min(width / image.width, 240 / image.height)
+      doc.image(image.data, left + (width - image.width * scale) / 2, doc.page.margins.top, {
+        width: image.width * scale,
+        height: image.height * scale,
+      })
+      doc.y = doc.page.margins.top + image.height * scale + 48
+    }
+  }
+
+  doc.font('bold').fontSize(26).fillColor(COLORS.text).text(document.title, left, doc.y, { width, align: 'center' })
+  if (document.description) {
+    doc.moveDown(1)
+    doc.font('body').fontSize(12).fillColor(COLORS.muted).text(document.description, { width, align: 'center' })
+  }
+
+  doc.font('body').fontSize(10).fillColor(COLORS.muted)
+  doc.text(
+    `${document.published ? '게시본' : '작성 중인 버전'} · ${formatDate(document.exportedAt)} 내보냄`,
+    left,
+    bottom(doc) - 20,
+    { width, align: 'center', lineBreak: false }
+  )
+  doc.fillColor(COLORS.text)
+}
+
+/**
+ * Number of table of contents pages the entries need
+ */
+function tocPageCount(doc: PDFDoc, entries: number) {
+  const firstPage = Math.floor((bottom(doc) - doc.page.margins.top - 48) / TOC_LINE_HEIGHT)
+  const otherPages = Math.floor((bottom(doc) - doc.page.margins.top) / TOC_LINE_HEIGHT)
+  return entries <= firstPage ? 1 : 1 + Math.ceil((entries - firstPage) / otherPages)
+}
+
+function renderToc(doc: PDFDoc, firstPage: number, entries: TocEntry[]) {
+  const left = doc.page.margins.left
+  const width = contentWidth(doc)
+
+  doc.switchToPage(firstPage)
+  doc.font('bold').fontSize(18).fillColor(COLORS.text).text('목차', left, doc.page.margins.top)
+  doc.y = doc.page.margins.top + 48
+
+  let page = firstPage
+  for (const { section, page: sectionPage } of entries) {
+    if (doc.y + TOC_LINE_HEIGHT > bottom(doc)) {
+      doc.switchToPage(++page)
+      doc.y = doc.page.margins.top
+    }
+
+    const y = doc.y
+    const indent = (section.depth - 1) * 16
+    const label = `${section.number}  ${section.title}`
+    doc.font(section.depth === 1 ? 'bold' : 'body').fontSize(BODY_FONT_SIZE)
+    doc.text(label, left + indent, y, {
+      width: width - indent - 40,
+      height: TOC_LINE_HEIGHT,
+      ellipsis: true,
+      lineBreak: false,
+      goTo: destination(section),
+    })
+    doc.font('body').text(String(sectionPage), left + width - 40, y, { width: 40, align: 'right', lineBreak: false })
+    doc.y = y + TOC_LINE_HEIGHT
+  }
+}
+
+/**
+ * Title in the header and "page / total" in the footer of every page but the cover
+ */
+function renderHeaderFooter(doc: PDFDoc, title: string) {
+  const range = doc.bufferedPageRange()
+  for (let index = range.start + 1; index < range.start + range.count; index++) {
+    doc.switchToPage(index)
+    const left = doc.page.margins.left
+    const width = contentWidth(doc)
+    const { bottom: marginBottom } = doc.page.margins
+
+    // Writing into the bottom margin would otherwise add a page
+    doc.page.margins.bottom = 0
+    doc.font('body').fontSize(8).fillColor(COLORS.muted)
+    doc.text(title, left, MARGIN / 2, { width, height: 10, ellipsis: true, lineBreak: false })
+    doc.moveTo(left, MARGIN / 2 + 12).lineTo(left + width, MARGIN / 2 + 12).strokeColor(COLORS.border).lineWidth(0.5).stroke()
+    doc.text(`${index + 1} / ${range.count}`, left, doc.page.height - MARGIN / 2 - 8, {
+      width,
+      align: 'center',
+      lineBreak: false,
+    })
+    doc.page.margins.bottom = marginBottom
+  }
+}
+
+/**
+ * Render an export document as an A4 PDF
+ */
+export async function renderPdf(document: ExportDocument): Promise<Buffer> {
+  if (!existsSync(FONT_PATH)) {
+    throw new Error(`PDF font not found: ${FONT_PATH}`)
+  }
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    autoFirstPage: false,
+    info: { Title: document.title },
+    displayTitle: true,
+  })
+  doc.registerFont('body', FONT_PATH)
+  doc.registerFont('bold', existsSync(BOLD_FONT_PATH) ? BOLD_FONT_PATH : FONT_PATH)
+
+  const chunks: Buffer[] = []
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  doc.addPage()
+  await renderCover(doc, document)
+
+  const entries = flattenSections(document.sections)
+  const tocStart = doc.bufferedPageRange().count
+  if (entries.length > 0) {
+    const pages = tocPageCount(doc, entries.length)
+    for (let i = 0; i < pages; i++) {
+      doc.addPage()
+    }
+  }
+
+  const toc: TocEntry[] = []
+  for (const section of document.sections) {
+    await renderSection(doc, section, toc, doc.outline)
+  }
+
+  if (entries.length === 0) {
+    doc.addPage()
+    doc.font('body').fontSize(BODY_FONT_SIZE).fillColor(COLORS.muted).text('내용이 없습니다')
+  } else {
+    renderToc(doc, tocStart, toc)
+  }
+
+  renderHeaderFooter(doc, document.title)
+  doc.end()
+
+  return done
+}
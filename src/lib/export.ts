@@ -0,0 +1,526 @@
+/**
+ * Manual export
+ * Loads what the user may read of a manual (the published revision for viewers, the
+ * draft for editors) as a numbered section tree of parsed blocks. Each format
+ * (export-pdf, export-docx, export-markdown, export-html) renders this document; nothing is
+ * fetched over the network.
+ */
+
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { basename, extname, join, resolve, sep } from 'path'
+import sharp from 'sharp'
+import { strToU8, zipSync } from 'fflate'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { NotFoundError } from './errors'
+import type { ManualAccessInfo, PermissionResult } from './permissions'
+import { filterSnapshotSections, getSectionViewer } from './section-permissions'
+import { buildSnapshotTree, getPublishedSnapshot, type SnapshotTreeSection } from './publication'
+import { buildManualSnapshot } from './versions'
+import { safeJsonParse } from './utils'
+
+export const EXPORT_FORMATS = ['pdf', 'docx', 'md', 'html'] as const
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS, { message: '지원하지 않는 내보내기 형식입니다' }).default('pdf'),
+  // Markdown: one file, or one file per top-level section
+  layout: z.enum(['single', 'sections']).default('single'),
+  view: z.enum(['draft', 'published']).optional(),
+})
+
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  link?: string
+}
+
+export interface Paragraph {
+  kind: 'paragraph' | 'heading' | 'quote' | 'code' | 'list' | 'rule'
+  /** Heading level (1-3) */
+  level?: number
+  /** List item; only the first paragraph of an item shows the marker */
+  list?: { ordered: boolean; depth: number; index: number; first: boolean }
+  runs: TextRun[]
+}
+
+export type ExportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'body'; paragraphs: Paragraph[] }
+  | {
+      type: 'image'
+      url: string
+      path: string | null
+      /** Display size set in the editor (pixels) */
+      width?: number
+      height?: number
+      fileId?: string
+      /** Size stored on the File record of the upload (pixels) */
+      fileSize?: { width: number; height: number }
+    }
+  | { type: 'video'; url: string }
+  | { type: 'table'; rows: string[][] }
+  | { type: 'divider' }
+  | { type: 'code'; code: string; language?: string }
+
+export interface ExportSection {
+  id: string
+  /** Position in the tree, e.g. "1.2.3" */
+  number: string
+  title: string
+  depth: number
+  blocks: ExportBlock[]
+  children: ExportSection[]
+}
+
+export interface ExportDocument {
+  title: string
+  description: string | null
+  /** Local file of the cover image, if it is an upload */
+  coverImage: string | null
+  sections: ExportSection[]
+  /** Published revision (true) or the current draft */
+  published: boolean
+  exportedAt: Date
+}
+
+const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads')
+
+/**
+ * Local path of an uploaded file URL ("/uploads/<name>")
+ * @returns null for external URLs, malformed paths and missing files
+ */
+export function resolveUploadPath(url: string | null | undefined): string | null {
+  if (!url || !url.startsWith('/uploads/')) return null
+
+  let name: string
+  try {
+    name = decodeURIComponent(url.slice('/uploads/'.length).split(/[?#]/)[0])
+  } catch (e) {
+    return null
+  }
+
+  const path = resolve(UPLOAD_DIR, name)
+  if (!path.startsWith(UPLOAD_DIR + sep) || !existsSync(path)) return null
+
+  return path
+}
+
+export interface ExportImage {
+  data: Buffer
+  format: 'png' | 'jpg'
+  width: number
+  height: number
+}
+
+/**
+ * Read an uploaded image as PNG or JPEG (other formats are converted)
+ * @returns null if the file cannot be read as an image
+ */
+export async function readExportImage(path: string): Promise<ExportImage | null> {
+  try {
+    const ext = extname(path).toLowerCase()
+    const image = sharp(path)
+    const { width, height } = await image.metadata()
+    if (!width || !height) return null
+
+    if (ext === '.png' || ext === '.jpg' || ext === '.jpeg') {
+      return { data: await image.toBuffer(), format: ext === '.png' ? 'png' : 'jpg', width, height }
+    }
+    return { data: await image.png().toBuffer(), format: 'png', width, height }
+  } catch (e) {
+    return null
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Whether a link target is safe to keep in exported files (no script URLs)
+ */
+export function isSafeLink(href: string): boolean {
+  return /^(https?:|mailto:|#|\/|\.)/i.test(href.trim())
+}
+
+type Mark = 'bold' | 'italic' | 'underline' | 'strike' | 'code'
+
+const MARK_TAGS: Record<string, Mark> = {
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic',
+  u: 'underline',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code',
+}
+
+/**
+ * Paragraphs and formatted runs of BODY HTML (the markup the rich text editor produces)
+ */
+export function parseBodyHtml(html: string): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  const marks: Record<Mark, number> = { bold: 0, italic: 0, underline: 0, strike: 0, code: 0 }
+  const links: string[] = []
+  const lists: Array<{ ordered: boolean; index: number; itemStarted: boolean }> = []
+  let quote = 0
+  let pre = false
+  let heading = 0
+  let current: Paragraph | null = null
+
+  const start = (): Paragraph => {
+    if (current) return current
+
+    const list = lists[lists.length - 1]
+    if (pre) {
+      current = { kind: 'code', runs: [] }
+    } else if (heading) {
+      current = { kind: 'heading', level: heading, runs: [] }
+    } else if (list) {
+      current = {
+        kind: 'list',
+        list: { ordered: list.ordered, depth: lists.length, index: list.index, first: !list.itemStarted },
+        runs: [],
+      }
+      list.itemStarted = true
+    } else {
+      current = { kind: quote ? 'quote' : 'paragraph', runs: [] }
+    }
+    return current
+  }
+
+  const flush = () => {
+    if (current && (current.runs.length > 0 || current.kind === 'rule')) {
+      const last = current.runs[current.runs.length - 1]
+      if (last && current.kind !== 'code') last.text = last.text.trimEnd()
+      paragraphs.push(current)
+    }
+    current = null
+  }
+
+  const addText = (text: string) => {
+    if (!pre) {
+      text = text.replace(/\s+/g, ' ')
+      if (!current && !text.trim()) return
+      if (current && current.runs.length === 0) text = text.trimStart()
+    }
+    if (!text) return
+
+    const run: TextRun = { text }
+    if (marks.bold) run.bold = true
+    if (marks.italic) run.italic = true
+    if (marks.underline) run.underline = true
+    if (marks.strike) run.strike = true
+    if (marks.code && !pre) run.code = true
+    if (links[links.length - 1]) run.link = links[links.length - 1]
+
+    const paragraph = start()
+    const last = paragraph.runs[paragraph.runs.length - 1]
+    if (last && JSON.stringify({ ...last, text: '' }) === JSON.stringify({ ...run, text: '' })) {
+      last.text += text
+    } else {
+      paragraph.runs.push(run)
+    }
+  }
+
+  const tokens = html.matchAll(/<(\/?)([a-z][a-z0-9]*)([^>]*)>|([^<]+)/gi)
+  for (const [, closing, rawTag, attrs, text] of tokens) {
+    if (text !== undefined) {
+      addText(decodeEntities(text))
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    const open = !closing
+
+    if (MARK_TAGS[tag]) {
+      marks[MARK_TAGS[tag]] += open ? 1 : marks[MARK_TAGS[tag]] > 0 ? -1 : 0
+    } else if (tag === 'a') {
+      if (open) {
+        const href = /href\s*=\s*("([^"]*)"|'([^']*)')/i.exec(attrs)
+        const url = decodeEntities(href?.[2] ?? href?.[3] ?? '').trim()
+        links.push(isSafeLink(url) ? url : '')
+      } else {
+        links.pop()
+      }
+    } else if (tag === 'br') {
+      addText('\n')
+    } else if (tag === 'hr') {
+      flush()
+      paragraphs.push({ kind: 'rule', runs: [] })
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush()
+      if (open) {
+        const startAttr = /start\s*=\s*["']?(\d+)/i.exec(attrs)
+        lists.push({ ordered: tag === 'ol', index: startAttr ? Number(startAttr[1]) - 1 : 0, itemStarted: false })
+      } else {
+        lists.pop()
+      }
+    } else if (tag === 'li') {
+      flush()
+      const list = lists[lists.length - 1]
+      if (open && list) {
+        list.index += 1
+        list.itemStarted = false
+      }
+    } else if (tag === 'blockquote') {
+      flush()
+      quote += open ? 1 : quote > 0 ? -1 : 0
+    } else if (tag === 'pre') {
+      flush()
+      pre = open
+    } else if (/^h[1-6]$/.test(tag)) {
+      flush()
+      heading = open ? Math.min(Number(tag[1]), 3) : 0
+    } else if (tag === 'p' || tag === 'div') {
+      flush()
+    }
+  }
+  flush()
+
+  return paragraphs
+}
+
+/**
+ * Plain text of paragraph runs
+ */
+export function runsText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join('')
+}
+
+export function parseExportBlock(block: { type: string; content: string }): ExportBlock | null {
+  switch (block.type) {
+    case 'HEADING1':
+    case 'HEADING2':
+    case 'HEADING3': {
+      const { text } = safeJsonParse<{ text?: string }>(block.content, { text: block.content })
+      return { type: 'heading', level: Number(block.type.slice(-1)) as 1 | 2 | 3, text: text ?? '' }
+    }
+    case 'BODY':
+      return { type: 'body', paragraphs: parseBodyHtml(block.content) }
+    case 'IMAGE': {
+      const image = safeJsonParse<{ url?: string; fileId?: string; width?: number; height?: number }>(block.content, {})
+      if (!image.url) return null
+      return {
+        type: 'image',
+        url: image.url,
+        path: resolveUploadPath(image.url),
+        width: image.width,
+        height: image.height,
+        fileId: image.fileId,
+      }
+    }
+    case 'VIDEO': {
+      const { url } = safeJsonParse<{ url?: string }>(block.content, {})
+      return url ? { type: 'video', url } : null
+    }
+    case 'TABLE': {
+      const table = safeJsonParse<{ rows?: number; cols?: number; cells?: Record<string, string> }>(block.content, {})
+      const rows = Array.from({ length: table.rows || 0 }, (_, row) =>
+        Array.from({ length: table.cols || 0 }, (_, col) => table.cells?.[`${row}-${col}`] ?? '')
+      )
+      return rows.length > 0 && rows[0].length > 0 ? { type: 'table', rows } : null
+    }
+    case 'DIVIDER':
+      return { type: 'divider' }
+    case 'CODE': {
+      const code = safeJsonParse<{ code?: string; text?: string; language?: string } | null>(block.content, null)
+      if (code && typeof code === 'object') {
+        return { type: 'code', code: code.code ?? code.text ?? '', language: code.language }
+      }
+      return { type: 'code', code: block.content }
+    }
+    default:
+      return null
+  }
+}
+
+function toExportSections(sections: SnapshotTreeSection[], prefix = ''): ExportSection[] {
+  return sections.map((section, index) => {
+    const number = `${prefix}${index + 1}`
+    return {
+      id: section.id,
+      number,
+      title: section.title,
+      depth: section.depth,
+      blocks: section.blocks
+        .map(parseExportBlock)
+        .filter((block): block is ExportBlock => block !== null),
+      children: toExportSections(section.children, `${number}.`),
+    }
+  })
+}
+
+/**
+ * The manual as the user may read it, ready to be rendered
+ * Viewers get the published revision; editors get the draft unless `published` is set.
+ * Throws NotFoundError if a published revision is needed but there is none.
+ */
+export async function loadExportDocument(
+  manual: ManualAccessInfo & { id: string },
+  userId: string,
+  access: PermissionResult,
+  { published = false }: { published?: boolean } = {}
+): Promise<ExportDocument> {
+  const usePublished = published || !access.canEdit
+
+  let snapshot
+  if (usePublished) {
+    const publication = await getPublishedSnapshot(manual.id)
+    if (!publication) {
+      throw new NotFoundError('아직 게시되지 않은 매뉴얼입니다')
+    }
+    snapshot = publication.snapshot
+  } else {
+    snapshot = await buildManualSnapshot(manual.id)
+  }
+
+  snapshot = filterSnapshotSections(snapshot, getSectionViewer(manual, userId, access))
+
+  const { coverImage } = await prisma.manual.findUniqueOrThrow({
+    where: { id: manual.id },
+    select: { coverImage: true },
+  })
+
+  const sections = toExportSections(buildSnapshotTree(snapshot))
+  await attachFileSizes(sections)
+
+  return {
+    title: snapshot.title,
+    description: snapshot.description ?? null,
+    coverImage: resolveUploadPath(coverImage),
+    sections,
+    published: usePublished,
+    exportedAt: new Date(),
+  }
+}
+
+/**
+ * Fill in the stored size of uploaded images from their File records
+ */
+async function attachFileSizes(sections: ExportSection[]) {
+  const images: Array<Extract<ExportBlock, { type: 'image' }>> = []
+  const collect = (items: ExportSection[]) =>
+    items.forEach((section) => {
+      section.blocks.forEach((block) => {
+        if (block.type === 'image' && block.fileId) images.push(block)
+      })
+      collect(section.children)
+    })
+  collect(sections)
+  if (images.length === 0) return
+
+  const files = await prisma.file.findMany({
+    where: { id: { in: images.map((image) => image.fileId!) } },
+    select: { id: true, width: true, height: true },
+  })
+  const sizes = new Map(files.map((file) => [file.id, file]))
+
+  images.forEach((image) => {
+    const file = sizes.get(image.fileId!)
+    if (file?.width && file.height) {
+      image.fileSize = { width: file.width, height: file.height }
+    }
+  })
+}
+
+/**
+ * Files of a multi-file export (path inside the archive → content)
+ */
+export type ExportFiles = Map<string, string | Uint8Array>
+
+/**
+ * Copies uploaded images into an `assets/` folder of a multi-file export
+ */
+export class ExportAssets {
+  private names = new Map<string, string>()
+
+  constructor(private files: ExportFiles) {}
+
+  /**
+   * Path of the copied file relative to the export root
+   * @returns null if the file cannot be read
+   */
+  async add(path: string): Promise<string | null> {
+    const existing = this.names.get(path)
+    if (existing) return existing
+
+    let data: Buffer
+    try {
+      data = await readFile(path)
+    } catch (e) {
+      return null
+    }
+
+    const name = `assets/${basename(path)}`
+    this.names.set(path, name)
+    this.files.set(name, data)
+    return name
+  }
+}
+
+/**
+ * Name usable as a file name on every platform (keeps non-ASCII letters)
+ */
+export function fileSlug(title: string): string {
+  return (
+    title
+      .replace(/[\\/:*?"<>|#%&{}$!'@`=+\u0000-\u001f]+/g, ' ')
+      .trim()
+      .replace(/\s+/g, '-')
+      .slice(0, 60) || 'section'
+  )
+}
+
+/**
+ * File name of a top-level section in multi-file exports, e.g. "02-설치.md"
+ */
+export function sectionFilename(section: ExportSection, extension: string): string {
+  return `${section.number.padStart(2, '0')}-${fileSlug(section.title)}.${extension}`
+}
+
+export function zipFiles(files: ExportFiles): Uint8Array {
+  const entries: Record<string, Uint8Array> = {}
+  files.forEach((content, path) => {
+    entries[path] = typeof content === 'string' ? strToU8(content) : content
+  })
+  return zipSync(entries, { level: 6 })
+}
+
+/**
+ * Download file name for the manual title
+ */
+export function exportFilename(title: string, extension: string): string {
+  const name = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100)
+  return `${name || 'manual'}.${extension}`
+}
+
+/**
+ * Content-Disposition header value with a UTF-8 file name
+ */
+export function contentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, "'")
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
@@ -0,0 +1,67 @@
+import '@/test/prisma'
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomBytes } from 'crypto'
+import { strToU8, zipSync } from 'fflate'
+import { BadRequestError } from './errors'
+import { readZip } from './import'
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+
+/**
+ * Claim a smaller uncompressed size for every entry, in the local and central headers
+ */
+function understateSizes(zip: Uint8Array, size: number): Uint8Array {
+  const copy = zip.slice()
+  const view = new DataView(copy.buffer)
+  for (let offset = 0; offset + 4 <= copy.length; offset++) {
+    const signature = view.getUint32(offset, true)
+    if (signature === LOCAL_HEADER) view.setUint32(offset + 22, size, true)
+    if (signature === CENTRAL_HEADER) view.setUint32(offset + 24, size, true)
+  }
+  return copy
+}
+
+function rejectsWith(message: string) {
+  return (error: Error) => {
+    assert.ok(error instanceof BadRequestError)
+    assert.equal(error.message, message)
+    return true
+  }
+}
+
+describe('readZip', () => {
+  test('reads stored and compressed entries without folders and hidden files', () => {
+    const large = randomBytes(300 * 1024)
+    const zip = zipSync({
+      'docs/': {},
+      'docs/guide.md': strToU8('# Guide'),
+      'docs/image.png': [new Uint8Array(large), { level: 0 }],
+      'docs/.hidden.md': strToU8('hidden'),
+      '__MACOSX/docs/._guide.md': strToU8('resource fork'),
+    })
+
+    const entries = readZip(zip)
+    assert.deepEqual([...entries.keys()], ['docs/guide.md', 'docs/image.png'])
+    assert.equal(new TextDecoder().decode(entries.get('docs/guide.md')), '# Guide')
+    assert.deepEqual(Buffer.from(entries.get('docs/image.png')!), large)
+  })
+
+  test('limits the total uncompressed size', () => {
+    const zip = zipSync({ 'a.md': new Uint8Array(60 * 1024), 'b.md': new Uint8Array(60 * 1024) })
+
+    assert.equal(readZip(zip, 120 * 1024).size, 2)
+    assert.throws(() => readZip(zip, 100 * 1024), rejectsWith('압축을 푼 파일이 너무 큽니다'))
+  })
+
+  test('counts the inflated bytes when the headers understate them', () => {
+    const zip = understateSizes(zipSync({ 'bomb.md': new Uint8Array(4 * 1024 * 1024) }), 10)
+
+    assert.throws(() => readZip(zip, 1024 * 1024), rejectsWith('압축을 푼 파일이 너무 큽니다'))
+  })
+
+  test('rejects data that is not a zip', () => {
+    assert.throws(() => readZip(strToU8('not a zip file')), rejectsWith('zip 파일을 읽을 수 없습니다'))
+  })
+})
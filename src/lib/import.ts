@@ -0,0 +1,762 @@
+/**
+ * Manual import from Markdown, HTML and Word (DOCX) files, or a zip of them
+ * Every document is converted to HTML first. Headings become sections (at most three
+ * levels; deeper headings become heading blocks) and the content between them becomes
+ * blocks. Embedded images are stored as uploaded files when the import is committed.
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { extname, join, posix } from 'path'
+import type { BlockType } from '@prisma/client'
+import { Unzip, UnzipInflate, UnzipPassThrough, unzipSync } from 'fflate'
+import mammoth from 'mammoth'
+import MarkdownIt from 'markdown-it'
+import { parse, serializeOuter, type DefaultTreeAdapterTypes } from 'parse5'
+import sharp from 'sharp'
+import { BadRequestError } from './errors'
+import { resolveUploadPath } from './export'
+import { prisma } from './prisma'
+import { publishVersion } from './publication'
+import { copyTemplateSections, type TemplateBlock, type TemplateSection } from './templates'
+import { sanitizeHtml } from './utils'
+import { createManualVersion } from './versions'
+
+type Element = DefaultTreeAdapterTypes.Element
+type ChildNode = DefaultTreeAdapterTypes.ChildNode
+
+export const IMPORT_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.docx', '.zip'] as const
+
+export const MAX_IMPORT_SIZE = 50 * 1024 * 1024
+// Uncompressed size of all zip entries, so a small archive cannot expand without limit
+const MAX_UNZIPPED_SIZE = 200 * 1024 * 1024
+const MAX_IMAGE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760', 10)
+const MAX_SECTION_DEPTH = 3
+const MAX_TITLE_LENGTH = 100
+
+const UPLOAD_DIR = join(process.cwd(), 'public', 'uploads')
+const DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.docx']
+const IMAGE_FORMATS: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+}
+// Source attribute of images extracted from DOCX files
+const EMBEDDED_PREFIX = 'import-embedded:'
+
+// Parts of a page that are not content (navigation of exported sites and the like)
+const SKIPPED_TAGS = new Set(['head', 'nav', 'header', 'footer', 'aside', 'script', 'style', 'noscript', 'template', 'form', 'button'])
+const CONTAINER_TAGS = new Set(['html', 'body', 'main', 'article', 'section', 'div', 'figure', 'center'])
+const BODY_TAGS = new Set(['p', 'ul', 'ol', 'blockquote', 'pre', 'dl', 'figcaption', 'address', 'details'])
+
+export interface ImportImage {
+  name: string
+  data: Uint8Array
+  mimeType: string
+  width: number
+  height: number
+}
+
+export interface ImportResult {
+  title: string
+  sections: TemplateSection[]
+  // IMAGE blocks refer to these by index ({ importImage }) until the import is committed
+  images: ImportImage[]
+  warnings: string[]
+}
+
+export interface ImportPreviewSection {
+  title: string
+  blocks: number
+  images: number
+  children: ImportPreviewSection[]
+}
+
+export interface ImportPreview {
+  title: string
+  sections: ImportPreviewSection[]
+  stats: { sections: number; blocks: number; images: number; tables: number }
+  warnings: string[]
+}
+
+interface ImportSource {
+  path: string
+  html: string
+}
+
+/**
+ * Files read from the upload, shared by all of its documents
+ */
+interface ImportContext {
+  // Zip entries by normalized path
+  entries: Map<string, Uint8Array>
+  // Images extracted from DOCX files
+  embedded: Uint8Array[]
+  images: ImportImage[]
+  // Index in images by source, so an image used twice is stored once
+  imageIndex: Map<string, number | null>
+  warnings: string[]
+}
+
+type ImportEvent =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'body'; html: string }
+  | { kind: 'table'; rows: string[][] }
+  | { kind: 'image'; src: string }
+  | { kind: 'break' }
+
+const markdown = new MarkdownIt({ html: true, linkify: true })
+
+function attr(element: Element, name: string): string | undefined {
+  return element.attrs.find((attribute) => attribute.name === name)?.value
+}
+
+function isElement(node: ChildNode): node is Element {
+  return 'tagName' in node
+}
+
+function hasClass(element: Element, name: string): boolean {
+  return (attr(element, 'class') ?? '').split(/\s+/).includes(name)
+}
+
+/**
+ * Text of a node, without the section numbers of exported manuals
+ */
+function textContent(node: ChildNode): string {
+  if (node.nodeName === '#text') return (node as DefaultTreeAdapterTypes.TextNode).value
+  if (!isElement(node)) return ''
+  if (node.tagName === 'br') return '\n'
+  if (hasClass(node, 'number')) return ''
+  return node.childNodes.map(textContent).join('')
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function fileTitle(path: string): string {
+  const name = posix.basename(path, posix.extname(path))
+  return collapse(name.replace(/^\d+[-_ ]/, '').replace(/[-_]+/g, ' ')) || name
+}
+
+/**
+ * Directory all paths are in (a zip often has a single top-level folder)
+ */
+function commonDirectory(paths: string[]): string {
+  const directories = paths.map((path) => posix.dirname(path).split('/'))
+  const common: string[] = []
+  for (const [index, part] of directories[0].entries()) {
+    if (!directories.every((directory) => directory[index] === part)) break
+    common.push(part)
+  }
+  return common.join('/') || '.'
+}
+
+function isIndexFile(path: string, root: string): boolean {
+  return posix.dirname(path) === root && /^(readme|index)\.[a-z]+$/i.test(posix.basename(path))
+}
+
+/**
+ * Images below an element, removed from it
+ */
+function takeImages(element: Element): string[] {
+  const sources: string[] = []
+  element.childNodes = element.childNodes.filter((child) => {
+    if (!isElement(child)) return true
+    if (child.tagName === 'img') {
+      const src = attr(child, 'src')
+      if (src) sources.push(src)
+      return false
+    }
+    sources.push(...takeImages(child))
+    return true
+  })
+  return sources
+}
+
+function tableRows(table: Element): string[][] {
+  const rows: string[][] = []
+  const walk = (element: Element) => {
+    for (const child of element.childNodes) {
+      if (!isElement(child) || child.tagName === 'table') continue
+      if (child.tagName === 'tr') {
+        rows.push(
+          child.childNodes
+            .filter((cell): cell is Element => isElement(cell) && (cell.tagName === 'td' || cell.tagName === 'th'))
+            .map((cell) => textContent(cell).replace(/[ \t\r]+/g, ' ').replace(/ ?\n ?/g, '\n').trim())
+        )
+      } else {
+        walk(child)
+      }
+    }
+  }
+  walk(table)
+  return rows.filter((row) => row.length > 0)
+}
+
+/**
+ * Flatten a document into headings and content in reading order
+ */
+function documentEvents(html: string): ImportEvent[] {
+  const document = parse(html)
+  const events: ImportEvent[] = []
+  // Inline content outside any paragraph (text directly in a div, for instance)
+  let inline: ChildNode[] = []
+
+  const flushInline = () => {
+    if (inline.some((node) => isElement(node) || textContent(node).trim())) {
+      events.push({ kind: 'body', html: `<p>${inline.map((node) => (isElement(node) ? serializeOuter(node) : escapeText(node))).join('')}</p>` })
+    }
+    inline = []
+  }
+
+  const visit = (node: ChildNode) => {
+    if (!isElement(node)) {
+      if (node.nodeName === '#text') inline.push(node)
+      return
+    }
+
+    const tag = node.tagName
+    if (SKIPPED_TAGS.has(tag) || hasClass(node, 'pager')) return
+
+    const heading = /^h([1-6])$/.exec(tag)
+    if (heading) {
+      flushInline()
+      // The title of a Word document ranks above all of its headings
+      const level = hasClass(node, 'document-title') ? 0 : Number(heading[1])
+      events.push({ kind: 'heading', level, text: collapse(textContent(node)) })
+      return
+    }
+
+    if (tag === 'img') {
+      flushInline()
+      const src = attr(node, 'src')
+      if (src) events.push({ kind: 'image', src })
+      return
+    }
+
+    if (CONTAINER_TAGS.has(tag)) {
+      flushInline()
+      node.childNodes.forEach(visit)
+      flushInline()
+      return
+    }
+
+    if (tag === 'table') {
+      flushInline()
+      const images = takeImages(node)
+      const rows = tableRows(node)
+      if (rows.length > 0) events.push({ kind: 'table', rows })
+      images.forEach((src) => events.push({ kind: 'image', src }))
+      return
+    }
+
+    if (tag === 'hr') {
+      flushInline()
+      events.push({ kind: 'break' })
+      return
+    }
+
+    if (tag === 'p') {
+      // Images split the paragraph so they become blocks of their own, in place
+      flushInline()
+      let part: ChildNode[] = []
+      const flushPart = () => {
+        if (part.some((child) => isElement(child) || textContent(child).trim())) {
+          events.push({ kind: 'body', html: serializeOuter({ ...node, childNodes: part }) })
+        }
+        part = []
+      }
+      for (const child of node.childNodes) {
+        if (isElement(child) && child.tagName === 'img') {
+          flushPart()
+          visit(child)
+        } else if (isElement(child)) {
+          const images = takeImages(child)
+          part.push(child)
+          if (images.length > 0) {
+            flushPart()
+            images.forEach((src) => events.push({ kind: 'image', src }))
+          }
+        } else {
+          part.push(child)
+        }
+      }
+      flushPart()
+      return
+    }
+
+    if (BODY_TAGS.has(tag)) {
+      flushInline()
+      const images = takeImages(node)
+      events.push({ kind: 'body', html: serializeOuter(node) })
+      images.forEach((src) => events.push({ kind: 'image', src }))
+      return
+    }
+
+    // Inline element (span, a, strong, ...)
+    const images = takeImages(node)
+    inline.push(node)
+    if (images.length > 0) {
+      flushInline()
+      images.forEach((src) => events.push({ kind: 'image', src }))
+    }
+  }
+
+  // Pages of exported sites keep their content in <main>
+  const root = findElement(document.childNodes, 'main') ?? findElement(document.childNodes, 'body')
+  root?.childNodes.forEach(visit)
+  flushInline()
+
+  return events
+}
+
+function escapeText(node: ChildNode): string {
+  return textContent(node).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function findElement(nodes: ChildNode[], tag: string): Element | null {
+  for (const node of nodes) {
+    if (!isElement(node)) continue
+    if (node.tagName === tag) return node
+    const found = findElement(node.childNodes, tag)
+    if (found) return found
+  }
+  return null
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path)
+  } catch (e) {
+    return path
+  }
+}
+
+/**
+ * Image data of an image source: a DOCX image, a data URI, an uploaded file or a zip entry
+ */
+async function readImageSource(src: string, source: ImportSource, context: ImportContext) {
+  if (src.startsWith(EMBEDDED_PREFIX)) {
+    return context.embedded[Number(src.slice(EMBEDDED_PREFIX.length))] ?? null
+  }
+
+  const dataUri = /^data:image\/[\w.+-]+;base64,([\s\S]*)$/.exec(src)
+  if (dataUri) {
+    return new Uint8Array(Buffer.from(dataUri[1], 'base64'))
+  }
+
+  const upload = resolveUploadPath(src)
+  if (upload) {
+    return new Uint8Array(await readFile(upload))
+  }
+
+  const path = posix.normalize(posix.join(posix.dirname(source.path), decodePath(src.split(/[?#]/)[0])))
+  return context.entries.get(path) ?? null
+}
+
+/**
+ * Content of the IMAGE block for an image source
+ * @returns null (with a warning) if the image cannot be read
+ */
+async function imageContent(src: string, source: ImportSource, context: ImportContext): Promise<string | null> {
+  // External images stay where they are
+  if (/^https?:\/\//i.test(src)) {
+    return JSON.stringify({ url: src })
+  }
+
+  const key = src.startsWith(EMBEDDED_PREFIX) || src.startsWith('data:') ? `${source.path}#${src}` : `${posix.dirname(source.path)}/${src}`
+  if (!context.imageIndex.has(key)) {
+    context.imageIndex.set(key, await loadImage(src, source, context))
+  }
+
+  const index = context.imageIndex.get(key)
+  return index === null || index === undefined ? null : JSON.stringify({ importImage: index })
+}
+
+async function loadImage(src: string, source: ImportSource, context: ImportContext): Promise<number | null> {
+  const label = src.startsWith('data:') ? '(데이터 URI)' : src.startsWith(EMBEDDED_PREFIX) ? source.path : src
+  const data = await readImageSource(src, source, context)
+  if (!data) {
+    context.warnings.push(`이미지를 찾을 수 없습니다: ${label}`)
+    return null
+  }
+  if (data.length > MAX_IMAGE_SIZE) {
+    context.warnings.push(`이미지 크기가 너무 큽니다: ${label}`)
+    return null
+  }
+
+  try {
+    const { format, width, height } = await sharp(data).metadata()
+    if (!format || !IMAGE_FORMATS[format] || !width || !height) {
+      context.warnings.push(`지원하지 않는 이미지 형식입니다: ${label}`)
+      return null
+    }
+
+    const name = src.startsWith('data:') || src.startsWith(EMBEDDED_PREFIX) ? `image.${format}` : posix.basename(src.split(/[?#]/)[0])
+    return context.images.push({ name, data, mimeType: IMAGE_FORMATS[format], width, height }) - 1
+  } catch (e) {
+    context.warnings.push(`지원하지 않는 이미지 형식입니다: ${label}`)
+    return null
+  }
+}
+
+/**
+ * Build sections from document events under a parent
+ * Heading levels are ranked by the distinct levels in use, so a document using only
+ * h2 and h4 still gets two section levels. A heading never goes more than one level
+ * below the previous one.
+ */
+async function appendEvents(
+  parent: { section: TemplateSection; depth: number; number: string },
+  events: ImportEvent[],
+  source: ImportSource,
+  context: ImportContext
+) {
+  const levels = [...new Set(events.flatMap((event) => (event.kind === 'heading' ? [event.level] : [])))].sort()
+  const stack = [parent]
+  let body: string[] = []
+
+  const current = () => stack[stack.length - 1]
+  const flushBody = () => {
+    const html = sanitizeHtml(body.join('')).trim()
+    if (html.replace(/<[^>]*>/g, '').trim()) {
+      current().section.blocks.push({ type: 'BODY', content: html })
+    }
+    body = []
+  }
+
+  for (const event of events) {
+    if (event.kind === 'body') {
+      body.push(event.html)
+      continue
+    }
+    flushBody()
+
+    switch (event.kind) {
+      case 'heading': {
+        if (!event.text) break
+        const depth = Math.min(parent.depth + levels.indexOf(event.level) + 1, current().depth + 1)
+        if (depth > MAX_SECTION_DEPTH) {
+          const level = Math.min(3, depth - MAX_SECTION_DEPTH)
+          current().section.blocks.push({ type: `HEADING${level}` as BlockType, content: JSON.stringify({ text: event.text }) })
+          break
+        }
+
+        while (current().depth >= depth) stack.pop()
+        const owner = current()
+        const number = owner.number
+          ? `${owner.number}.${owner.section.children.length + 1}`
+          : String(owner.section.children.length + 1)
+        // Exported manuals put the section number in front of the title
+        const numbered = /^(\d+(?:\.\d+)*)\.?\s+(.+)$/.exec(event.text)
+        const title = numbered && numbered[1] === number ? numbered[2] : event.text
+
+        const section: TemplateSection = { title, blocks: [], children: [] }
+        owner.section.children.push(section)
+        stack.push({ section, depth, number })
+        break
+      }
+      case 'table': {
+        const cols = Math.max(...event.rows.map((row) => row.length))
+        const cells: Record<string, string> = {}
+        event.rows.forEach((row, rowIndex) =>
+          row.forEach((value, colIndex) => {
+            if (value) cells[`${rowIndex}-${colIndex}`] = value
+          })
+        )
+        current().section.blocks.push({
+          type: 'TABLE',
+          content: JSON.stringify({ rows: event.rows.length, cols, cells }),
+        })
+        break
+      }
+      case 'image': {
+        const content = await imageContent(event.src, source, context)
+        if (content) current().section.blocks.push({ type: 'IMAGE', content })
+        break
+      }
+    }
+  }
+  flushBody()
+}
+
+/**
+ * The single top-level heading of a document, if it comes first
+ */
+function documentTitle(events: ImportEvent[]): string | null {
+  const headings = events.filter((event): event is Extract<ImportEvent, { kind: 'heading' }> => event.kind === 'heading' && !!event.text)
+  if (headings.length === 0) return null
+
+  const top = Math.min(...headings.map((heading) => heading.level))
+  const first = headings[0]
+  if (first.level !== top || headings.filter((heading) => heading.level === top).length > 1) return null
+
+  events.splice(events.indexOf(first), 1)
+  return first.text
+}
+
+/**
+ * Drop the table of contents of exported manuals (a "목차" heading followed by a list)
+ * before sections are numbered
+ */
+function dropTableOfContents(events: ImportEvent[]) {
+  const start = events.findIndex(
+    (event) => event.kind === 'heading' && /^(목차|contents|table of contents)$/i.test(event.text)
+  )
+  if (start === -1) return
+
+  let end = start + 1
+  while (end < events.length && events[end].kind === 'body' && /^<(ul|ol)[\s>]/.test((events[end] as { html: string }).html)) {
+    end += 1
+  }
+  if (end > start + 1 && (end === events.length || events[end].kind === 'heading')) {
+    events.splice(start, end - start)
+  }
+}
+
+async function sourceHtml(path: string, data: Uint8Array, context: ImportContext): Promise<string> {
+  const extension = posix.extname(path).toLowerCase()
+  if (extension === '.docx') {
+    try {
+      const { value } = await mammoth.convertToHtml(
+        { buffer: Buffer.from(data) },
+        {
+          styleMap: ["p[style-name='Title'] => h1.document-title:fresh"],
+          convertImage: mammoth.images.imgElement(async (image) => ({
+            src: `${EMBEDDED_PREFIX}${context.embedded.push(new Uint8Array(await image.readAsBuffer())) - 1}`,
+          })),
+        }
+      )
+      return value
+    } catch (e) {
+      throw new BadRequestError(`Word 문서를 읽을 수 없습니다: ${path}`)
+    }
+  }
+
+  const text = new TextDecoder().decode(data)
+  return extension === '.md' || extension === '.markdown' ? markdown.render(text) : text
+}
+
+/**
+ * Entries of an uploaded zip by normalized path, without folders and hidden files
+ * The limit applies to the bytes actually inflated; sizes in the zip headers can lie.
+ * @param maxSize Limit of the total uncompressed size
+ */
+export function readZip(data: Uint8Array, maxSize = MAX_UNZIPPED_SIZE): Map<string, Uint8Array> {
+  const skipped = (name: string) => name.endsWith('/') || /(^|\/)(__MACOSX|\.)/.test(name)
+
+  try {
+    // Reads the central directory only, so a damaged archive fails before anything is inflated
+    unzipSync(data, { filter: () => false })
+  } catch (e) {
+    throw new BadRequestError('zip 파일을 읽을 수 없습니다')
+  }
+
+  const entries = new Map<string, Uint8Array>()
+  let total = 0
+
+  const unzip = new Unzip((file) => {
+    if (skipped(file.name)) return
+
+    const chunks: Uint8Array[] = []
+    file.ondata = (error, chunk, final) => {
+      // fflate reports errors thrown here back to this handler, including our own
+      if (error) {
+        throw error instanceof BadRequestError ? error : new BadRequestError('zip 파일을 읽을 수 없습니다')
+      }
+
+      total += chunk.length
+      if (total > maxSize) {
+        file.terminate()
+        throw new BadRequestError('압축을 푼 파일이 너무 큽니다')
+      }
+      chunks.push(chunk)
+
+      if (final) {
+        const content = new Uint8Array(chunks.reduce((size, part) => size + part.length, 0))
+        chunks.reduce((offset, part) => {
+          content.set(part, offset)
+          return offset + part.length
+        }, 0)
+        entries.set(posix.normalize(file.name), content)
+      }
+    }
+    file.start()
+  })
+  unzip.register(UnzipInflate)
+  unzip.register(UnzipPassThrough)
+
+  try {
+    unzip.push(data, true)
+  } catch (e) {
+    if (e instanceof BadRequestError) throw e
+    throw new BadRequestError('zip 파일을 읽을 수 없습니다')
+  }
+
+  return entries
+}
+
+/**
+ * Parse an uploaded file into sections and blocks
+ * A single document's only top-level heading becomes the manual title. In a zip every
+ * document becomes a top-level section, in file name order; a README or index file at
+ * the root only provides the title.
+ */
+export async function parseImportFile(filename: string, data: Uint8Array): Promise<ImportResult> {
+  const extension = extname(filename).toLowerCase()
+  if (!(IMPORT_EXTENSIONS as readonly string[]).includes(extension)) {
+    throw new BadRequestError('지원하지 않는 파일 형식입니다. (Markdown, HTML, DOCX, zip만 가능)')
+  }
+
+  const context: ImportContext = {
+    entries: extension === '.zip' ? readZip(data) : new Map([[filename, data]]),
+    embedded: [],
+    images: [],
+    imageIndex: new Map(),
+    warnings: [],
+  }
+
+  const paths = [...context.entries.keys()]
+    .filter((path) => DOCUMENT_EXTENSIONS.includes(posix.extname(path).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  if (paths.length === 0) {
+    throw new BadRequestError('가져올 문서가 없습니다')
+  }
+
+  const sources: ImportSource[] = []
+  for (const path of paths) {
+    sources.push({ path, html: await sourceHtml(path, context.entries.get(path)!, context) })
+  }
+
+  const root: TemplateSection = { title: '', blocks: [], children: [] }
+  let title: string | null = null
+
+  if (sources.length === 1) {
+    const [source] = sources
+    const events = documentEvents(source.html)
+    title = documentTitle(events)
+    dropTableOfContents(events)
+    await appendEvents({ section: root, depth: 0, number: '' }, events, source, context)
+    // Content before the first heading
+    if (root.blocks.length > 0) {
+      root.children.unshift({ title: '개요', blocks: root.blocks, children: [] })
+    }
+  } else {
+    const directory = commonDirectory(paths)
+    for (const source of sources) {
+      const events = documentEvents(source.html)
+      const heading = documentTitle(events)
+      dropTableOfContents(events)
+      if (isIndexFile(source.path, directory)) {
+        title = heading
+        continue
+      }
+
+      const section: TemplateSection = { title: heading ?? fileTitle(source.path), blocks: [], children: [] }
+      root.children.push(section)
+      await appendEvents({ section, depth: 1, number: String(root.children.length) }, events, source, context)
+    }
+  }
+
+  const sections = root.children
+  if (sections.length === 0) {
+    throw new BadRequestError('문서에 가져올 내용이 없습니다')
+  }
+
+  return {
+    title: (title || fileTitle(filename)).slice(0, MAX_TITLE_LENGTH),
+    sections,
+    images: context.images,
+    warnings: context.warnings,
+  }
+}
+
+/**
+ * Section tree and counts of a parsed import, for review before committing
+ */
+export function importPreview(result: ImportResult): ImportPreview {
+  const stats = { sections: 0, blocks: 0, images: 0, tables: 0 }
+  const preview = (sections: TemplateSection[]): ImportPreviewSection[] =>
+    sections.map((section) => {
+      const images = section.blocks.filter((block) => block.type === 'IMAGE').length
+      stats.sections += 1
+      stats.blocks += section.blocks.length
+      stats.images += images
+      stats.tables += section.blocks.filter((block) => block.type === 'TABLE').length
+      return { title: section.title, blocks: section.blocks.length, images, children: preview(section.children) }
+    })
+
+  const sections = preview(result.sections)
+  return { title: result.title, sections, stats, warnings: result.warnings }
+}
+
+/**
+ * Create a manual from a parsed import
+ * Images are written to the upload directory first and removed again if the manual
+ * cannot be created. Each IMAGE block gets its own File record.
+ * @returns ID of the new manual
+ */
+export async function commitImport(
+  result: ImportResult,
+  { title, teamId, userId }: { title: string; teamId: string; userId: string }
+): Promise<string> {
+  await mkdir(UPLOAD_DIR, { recursive: true })
+
+  const written: string[] = []
+  const stored: Array<ImportImage & { storedFilename: string }> = []
+  let manualId: string
+  try {
+    for (const image of result.images) {
+      const storedFilename = `${randomUUID()}.${image.mimeType.split('/')[1]}`
+      await writeFile(join(UPLOAD_DIR, storedFilename), image.data)
+      written.push(join(UPLOAD_DIR, storedFilename))
+      stored.push({ ...image, storedFilename })
+    }
+
+    manualId = await prisma.$transaction(async (tx) => {
+      const manual = await tx.manual.create({
+        data: { title, teamId, ownerId: userId, visibility: 'PRIVATE' },
+      })
+
+      await copyTemplateSections(tx, manual.id, userId, result.sections, {
+        blockContent: async (tx, block: TemplateBlock) => {
+          if (block.type !== 'IMAGE') return block.content
+
+          const { importImage } = JSON.parse(block.content) as { importImage?: number }
+          const image = importImage === undefined ? undefined : stored[importImage]
+          if (!image) return block.content
+
+          const file = await tx.file.create({
+            data: {
+              filename: image.name,
+              storedFilename: image.storedFilename,
+              mimeType: image.mimeType,
+              size: image.data.length,
+              path: `/uploads/${image.storedFilename}`,
+              width: image.width,
+              height: image.height,
+              uploadedBy: userId,
+              manualId: manual.id,
+            },
+          })
+          return JSON.stringify({ url: file.path, fileId: file.id, width: image.width, height: image.height })
+        },
+      })
+
+      return manual.id
+    }, { timeout: 60000 })
+  } catch (error) {
+    await Promise.all(written.map((path) => unlink(path).catch(() => undefined)))
+    throw error
+  }
+
+  const version = await createManualVersion(manualId, userId, {
+    kind: 'NAMED',
+    summary: '초기 버전',
+  })
+  await publishVersion(manualId, version.id)
+
+  return manualId
+}
@@ -0,0 +1,133 @@
+/**
+ * Mail templates
+ * Each function returns a complete MailMessage (plain text + HTML)
+ */
+
+import type { NotificationType } from '@prisma/client'
+import type { MailMessage } from './mail'
+import { NOTIFICATION_TYPE_LABELS, getNotificationLink } from './notification-utils'
+
+const APP_URL = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wrap body HTML in the common mail layout
+ */
+function layout(body: string): string {
+  return `<div style="font-family: sans-serif; max-width: 560px; margin: 0 auto; color: #111827;">
+<h2 style="color: #2563eb;">Menualic</h2>
+${body}
+<p style="margin-top: 32px; font-size: 12px; color: #6b7280;">알림 수신 설정은 내 정보 페이지에서 변경할 수 있습니다.</p>
+</div>`
+}
+
+function button(href: string, label: string): string {
+  return `<p><a href="${escapeHtml(href)}" style="display: inline-block; padding: 10px 20px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(label)}</a></p>`
+}
+
+/**
+ * Password reset mail
+ */
+export function passwordResetMail(to: string, resetUrl: string): MailMessage {
+  return {
+    to,
+    subject: '[Menualic] 비밀번호 재설정 안내',
+    text: `아래 링크에서 비밀번호를 재설정해주세요.\n\n${resetUrl}\n\n본인이 요청하지 않았다면 이 메일을 무시해주세요.`,
+    html: layout(`<p>아래 버튼을 눌러 비밀번호를 재설정해주세요.</p>
+${button(resetUrl, '비밀번호 재설정')}
+<p style="font-size: 13px; color: #6b7280;">본인이 요청하지 않았다면 이 메일을 무시해주세요.</p>`),
+  }
+}
+
+/**
+ * Team invitation mail
+ */
+export function invitationMail(params: {
+  to: string
+  teamName: string
+  senderName: string
+  roleLabel: string
+  invitationLink: string
+  expiresAt: Date
+}): MailMessage {
+  const { to, teamName, senderName, roleLabel, invitationLink, expiresAt } = params
+  const expires = expiresAt.toLocaleDateString('ko-KR')
+
+  return {
+    to,
+    subject: `[Menualic] ${senderName}님이 "${teamName}" 팀에 초대했습니다`,
+    text: `${senderName}님이 "${teamName}" 팀에 ${roleLabel}(으)로 초대했습니다.\n\n${invitationLink}\n\n초대 링크는 ${expires}까지 유효합니다.`,
+    html: layout(`<p>${escapeHtml(senderName)}님이 <strong>${escapeHtml(teamName)}</strong> 팀에 ${escapeHtml(roleLabel)}(으)로 초대했습니다.</p>
+${button(invitationLink, '초대 수락하기')}
+<p style="font-size: 13px; color: #6b7280;">초대 링크는 ${escapeHtml(expires)}까지 유효합니다.</p>`),
+  }
+}
+
+export interface MailNotification {
+  type: NotificationType
+  title: string
+  message: string
+  relatedId: string | null
+  createdAt: Date
+}
+
+function notificationUrl(notification: MailNotification): string {
+  const link = getNotificationLink(notification.type, notification.relatedId)
+  return `${APP_URL}${link || '/notifications'}`
+}
+
+/**
+ * Single notification mail (EMAIL_IMMEDIATE)
+ */
+export function notificationMail(to: string, notification: MailNotification): MailMessage {
+  const url = notificationUrl(notification)
+
+  return {
+    to,
+    subject: `[Menualic] ${notification.title}`,
+    text: `${notification.message}\n\n${url}`,
+    html: layout(`<p><strong>${escapeHtml(notification.title)}</strong></p>
+<p>${escapeHtml(notification.message)}</p>
+${button(url, '확인하기')}`),
+  }
+}
+
+/**
+ * Daily digest mail (DAILY_DIGEST)
+ */
+export function digestMail(
+  to: string,
+  userName: string,
+  notifications: MailNotification[]
+): MailMessage {
+  const lines = notifications.map(
+    (n) => `- [${NOTIFICATION_TYPE_LABELS[n.type]}] ${n.message} (${notificationUrl(n)})`
+  )
+  const items = notifications
+    .map(
+      (n) => `<li style="margin-bottom: 8px;">
+<span style="font-size: 12px; color: #6b7280;">${escapeHtml(NOTIFICATION_TYPE_LABELS[n.type])}</span><br />
+<a href="${escapeHtml(notificationUrl(n))}" style="color: #111827;">${escapeHtml(n.message)}</a>
+</li>`
+    )
+    .join('\n')
+
+  return {
+    to,
+    subject: `[Menualic] 오늘의 알림 요약 (${notifications.length}건)`,
+    text: `${userName}님, 지난 하루 동안의 알림입니다.\n\n${lines.join('\n')}\n\n${APP_URL}/notifications`,
+    html: layout(`<p>${escapeHtml(userName)}님, 지난 하루 동안의 알림입니다.</p>
+<ul style="padding-left: 20px;">
+${items}
+</ul>
+${button(`${APP_URL}/notifications`, '모든 알림 보기')}`),
+  }
+}
@@ -0,0 +1,98 @@
+import { prisma } from '@/test/prisma'
+import { after, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NextRequest } from 'next/server'
+import { ConsoleTransport, FileTransport, UnconfiguredTransport, getMailTransport, sendMail, setMailTransport } from './mail'
+import { POST as requestReset } from '@/app/api/auth/request-reset/route'
+
+const env = process.env as Record<string, string | undefined>
+
+describe('mail through the file transport', () => {
+  const dirs: string[] = []
+  let dir: string
+  let saved: { email: string; resetToken: string } | null
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'menualic-mail-'))
+    dirs.push(dir)
+    setMailTransport(new FileTransport(dir))
+    saved = null
+    prisma.user = {
+      findUnique: async ({ where }: { where: { email: string } }) =>
+        where.email === 'user@example.com' ? { id: 'user-1', email: where.email } : null,
+      update: async ({ where, data }: { where: { email: string }; data: { resetToken: string } }) => {
+        saved = { email: where.email, resetToken: data.resetToken }
+        return saved
+      },
+    }
+  })
+
+  after(async () => {
+    setMailTransport(null)
+    await Promise.all(dirs.map((path) => rm(path, { recursive: true, force: true })))
+  })
+
+  const sentMails = async () =>
+    Promise.all((await readdir(dir)).map(async (name) => JSON.parse(await readFile(join(dir, name), 'utf8'))))
+
+  const post = (email: string) =>
+    requestReset(
+      new NextRequest('http://localhost:3000/api/auth/request-reset', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      })
+    )
+
+  test('a password reset request mails the saved token', async () => {
+    const response = await post('user@example.com')
+    assert.equal(response.status, 200)
+
+    const mails = await sentMails()
+    assert.equal(mails.length, 1)
+    assert.equal(mails[0].to, 'user@example.com')
+    assert.ok(saved)
+    assert.ok(mails[0].text.includes(`/reset-password/${saved.resetToken}`))
+    assert.ok(mails[0].sentAt)
+  })
+
+  test('unknown addresses get the same answer and no mail', async () => {
+    const response = await post('nobody@example.com')
+
+    assert.equal(response.status, 200)
+    assert.equal((await response.json()).success, true)
+    assert.deepEqual(await sentMails(), [])
+  })
+})
+
+describe('default mail transport', () => {
+  const original = { NODE_ENV: env.NODE_ENV, MAIL_TRANSPORT: env.MAIL_TRANSPORT }
+
+  beforeEach(() => {
+    setMailTransport(null)
+    delete env.MAIL_TRANSPORT
+  })
+
+  after(() => {
+    for (const [key, value] of Object.entries(original)) {
+      if (value === undefined) delete env[key]
+      else env[key] = value
+    }
+    setMailTransport(null)
+  })
+
+  test('prints mails in development', () => {
+    env.NODE_ENV = 'development'
+    assert.ok(getMailTransport() instanceof ConsoleTransport)
+  })
+
+  test('fails to send outside development', async (t) => {
+    t.mock.method(console, 'error', () => undefined)
+    env.NODE_ENV = 'production'
+
+    assert.ok(getMailTransport() instanceof UnconfiguredTransport)
+    assert.equal(await sendMail({ to: 'user@example.com', subject: 'Reset', text: 'token' }), false)
+  })
+})
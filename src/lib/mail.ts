@@ -0,0 +1,154 @@
+/**
+ * Mail transport abstraction
+ * MAIL_TRANSPORT selects the implementation:
+ * - smtp: send through an SMTP server (production)
+ * - file: write each message as a JSON file to MAIL_FILE_DIR (tests, local inspection)
+ * - console: print messages to the server log (development only, the default there)
+ * Outside development, mails contain reset tokens and invitation links and are never
+ * printed; without a transport sending fails.
+ */
+
+import nodemailer from 'nodemailer'
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+const MAIL_FROM = process.env.EMAIL_FROM || 'Menualic <noreply@menualic.local>'
+
+/**
+ * SMTP transport (nodemailer)
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter
+
+  constructor(options: {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    pass?: string
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: MAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    })
+  }
+}
+
+/**
+ * File transport - writes every message to `<dir>/<timestamp>-<uuid>.json`
+ */
+export class FileTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    const filename = `${Date.now()}-${randomUUID()}.json`
+    await writeFile(
+      join(this.dir, filename),
+      JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2)
+    )
+  }
+}
+
+/**
+ * Console transport - prints messages to the server log
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log('\n============================================')
+    console.log(`[Mail] To: ${message.to}`)
+    console.log(`[Mail] Subject: ${message.subject}`)
+    console.log('--------------------------------------------')
+    console.log(message.text)
+    console.log('============================================\n')
+  }
+}
+
+/**
+ * Used when no transport is configured outside development; every send fails
+ */
+export class UnconfiguredTransport implements MailTransport {
+  async send(): Promise<void> {
+    throw new Error('메일 전송 방식이 설정되지 않았습니다 (MAIL_TRANSPORT)')
+  }
+}
+
+let transport: MailTransport | null = null
+
+/**
+ * Get the configured mail transport (created once per process)
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      transport = new SmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASSWORD,
+      })
+      break
+    case 'file':
+      transport = new FileTransport(process.env.MAIL_FILE_DIR || join(process.cwd(), '.mail'))
+      break
+    default:
+      if (process.env.NODE_ENV === 'development') {
+        transport = new ConsoleTransport()
+      } else {
+        console.error('[Mail] MAIL_TRANSPORT is not set to smtp or file; mails (password resets, invitations) will not be sent')
+        transport = new UnconfiguredTransport()
+      }
+  }
+
+  return transport
+}
+
+/**
+ * Replace the mail transport (e.g. with a FileTransport in tests)
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next
+}
+
+/**
+ * Send a mail through the configured transport
+ * Errors are logged and reported as `false` so callers can decide whether to fail
+ *
+ * @returns true if the message was handed to the transport
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send(message)
+    return true
+  } catch (error) {
+    console.error('Send mail error:', error)
+    return false
+  }
+}
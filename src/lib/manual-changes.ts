@@ -0,0 +1,389 @@
+/**
+ * Batched manual changes
+ * The editor sends its queued block/section operations in order; they are applied
+ * in one transaction, so a failing operation leaves the manual untouched.
+ * New items are sent with a client-side temporary ID that later operations in the
+ * same batch may reference; the response maps those to the real IDs.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { ConflictError } from './errors'
+import { collectSectionSubtree, requireSectionAccess, type SectionViewer } from './section-permissions'
+import { findBlockLockHolder } from './presence'
+
+type Tx = Prisma.TransactionClient
+
+const BLOCK_TYPES = ['HEADING1', 'HEADING2', 'HEADING3', 'BODY', 'IMAGE', 'VIDEO', 'TABLE', 'DIVIDER', 'CODE'] as const
+export type ManualBlockType = (typeof BLOCK_TYPES)[number]
+
+const orderListSchema = z.array(
+  z.object({
+    id: z.string(),
+    order: z.number(),
+  })
+)
+
+export const manualChangeSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('block.create'),
+    tempId: z.string(),
+    sectionId: z.string(),
+    type: z.enum(BLOCK_TYPES),
+    content: z.string(),
+    // Appended to the section when omitted
+    order: z.number().optional(),
+  }),
+  z.object({
+    op: z.literal('block.update'),
+    id: z.string(),
+    content: z.string().optional(),
+    order: z.number().optional(),
+    revision: z.number().int().optional(),
+  }),
+  z.object({
+    op: z.literal('block.delete'),
+    id: z.string(),
+  }),
+  z.object({
+    op: z.literal('block.reorder'),
+    blocks: orderListSchema,
+  }),
+  z.object({
+    op: z.literal('section.create'),
+    tempId: z.string(),
+    title: z.string().min(1, '섹션 제목을 입력해주세요'),
+    parentId: z.string().optional(),
+  }),
+  z.object({
+    op: z.literal('section.update'),
+    id: z.string(),
+    title: z.string().min(1, '섹션 제목을 입력해주세요').optional(),
+    order: z.number().optional(),
+    revision: z.number().int().optional(),
+  }),
+  z.object({
+    op: z.literal('section.delete'),
+    id: z.string(),
+  }),
+  z.object({
+    op: z.literal('section.reorder'),
+    sections: orderListSchema,
+  }),
+])
+
+export const manualChangesSchema = z.object({
+  changes: z.array(manualChangeSchema).min(1, '변경 사항이 없습니다').max(500, '한 번에 최대 500개의 변경만 저장할 수 있습니다'),
+})
+
+export type ManualChange = z.infer<typeof manualChangeSchema>
+
+export interface ManualChangesResult {
+  /** Temporary ID → created ID */
+  ids: Record<string, string>
+  /** New revisions of created and updated items */
+  revisions: {
+    blocks: Record<string, number>
+    sections: Record<string, number>
+  }
+}
+
+export const BLOCK_SELECT = {
+  id: true,
+  type: true,
+  content: true,
+  order: true,
+  revision: true,
+  sectionId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+/**
+ * Check that every section and block the batch touches is editable by the viewer
+ * and not locked by another user
+ * IDs created earlier in the batch are skipped (their parents are checked instead).
+ * IDs that no longer exist in this manual are left to `applyManualChanges`, so a
+ * replayed offline queue reports them as conflicts instead of failing as a whole.
+ */
+export async function requireChangesAccess(
+  manualId: string,
+  changes: ManualChange[],
+  viewer: SectionViewer,
+  userId: string
+) {
+  const tempIds = new Set<string>()
+  const sectionIds = new Set<string>()
+  const blockIds = new Set<string>()
+  // Index of the first change to each existing block, reported when the block is locked
+  const lockedBlockIds = new Map<string, number>()
+  const deletedSectionIds = new Set<string>()
+
+  const addSection = (id: string | undefined) => {
+    if (id && !tempIds.has(id)) sectionIds.add(id)
+  }
+  const addBlock = (id: string) => {
+    if (!tempIds.has(id)) blockIds.add(id)
+  }
+
+  for (const [index, change] of changes.entries()) {
+    switch (change.op) {
+      case 'block.create':
+        addSection(change.sectionId)
+        tempIds.add(change.tempId)
+        break
+      case 'block.update':
+      case 'block.delete':
+        addBlock(change.id)
+        if (!tempIds.has(change.id) && !lockedBlockIds.has(change.id)) lockedBlockIds.set(change.id, index)
+        break
+      case 'block.reorder':
+        change.blocks.forEach((block) => addBlock(block.id))
+        break
+      case 'section.create':
+        // Sub-sections inherit the parent's restriction, so the parent must be editable
+        addSection(change.parentId)
+        tempIds.add(change.tempId)
+        break
+      case 'section.update':
+        addSection(change.id)
+        break
+      case 'section.delete':
+        addSection(change.id)
+        if (!tempIds.has(change.id)) deletedSectionIds.add(change.id)
+        break
+      case 'section.reorder':
+        change.sections.forEach((section) => addSection(section.id))
+        break
+    }
+  }
+
+  if (blockIds.size > 0) {
+    const blocks = await prisma.contentBlock.findMany({
+      where: { id: { in: Array.from(blockIds) }, section: { manualId } },
+      select: { id: true, sectionId: true },
+    })
+    blocks.forEach((block) => sectionIds.add(block.sectionId))
+    lockedBlockIds.forEach((_, blockId) => {
+      if (!blocks.some((block) => block.id === blockId)) lockedBlockIds.delete(blockId)
+    })
+  }
+
+  const sections = await prisma.manualSection.findMany({
+    where: { manualId },
+    select: { id: true, parentId: true },
+  })
+
+  // Deleting a section deletes its sub-sections, which must be editable as well
+  deletedSectionIds.forEach((sectionId) => {
+    collectSectionSubtree(sections, sectionId).forEach((id) => sectionIds.add(id))
+  })
+
+  const existing = new Set(sections.map((section) => section.id))
+  await requireSectionAccess(
+    manualId,
+    Array.from(sectionIds).filter((id) => existing.has(id)),
+    viewer,
+    'edit'
+  )
+
+  // Reported like a stale revision, so the client sets the change aside and sends the rest
+  for (const [blockId, index] of lockedBlockIds) {
+    const holder = await findBlockLockHolder(manualId, blockId, userId)
+    if (holder) {
+      const block = await prisma.contentBlock.findUnique({ where: { id: blockId }, select: BLOCK_SELECT })
+      throw new ConflictError(`${holder}님이 편집 중인 블록입니다`, { index, block, lockedBy: holder })
+    }
+  }
+}
+
+/**
+ * Apply a batch of changes in order, all or nothing
+ * A stale revision or an item deleted in the meantime aborts the batch with a
+ * ConflictError carrying the index of the operation and the current server value
+ * (`null` when deleted). Deleting something that is already gone is not an error.
+ */
+export async function applyManualChanges(manualId: string, changes: ManualChange[]): Promise<ManualChangesResult> {
+  return prisma.$transaction((tx) => applyManualChangesInTransaction(tx, manualId, changes), { timeout: 30000 })
+}
+
+/**
+ * `applyManualChanges` as part of a larger transaction
+ */
+export async function applyManualChangesInTransaction(
+  tx: Tx,
+  manualId: string,
+  changes: ManualChange[]
+): Promise<ManualChangesResult> {
+  const result: ManualChangesResult = { ids: {}, revisions: { blocks: {}, sections: {} } }
+  const resolve = (id: string) => result.ids[id] ?? id
+
+  for (const [index, change] of changes.entries()) {
+    switch (change.op) {
+      case 'block.create': {
+        const sectionId = resolve(change.sectionId)
+        await requireSection(tx, manualId, sectionId, index)
+        const block = await tx.contentBlock.create({
+          data: {
+            sectionId,
+            type: change.type,
+            content: change.content,
+            order: change.order ?? (await nextBlockOrder(tx, sectionId)),
+          },
+          select: { id: true, revision: true },
+        })
+        result.ids[change.tempId] = block.id
+        result.revisions.blocks[block.id] = block.revision
+        break
+      }
+
+      case 'block.update': {
+        const id = resolve(change.id)
+        const { count } = await tx.contentBlock.updateMany({
+          where: {
+            id,
+            section: { manualId },
+            ...(change.revision !== undefined ? { revision: change.revision } : {}),
+          },
+          data: {
+            ...(change.content !== undefined ? { content: change.content } : {}),
+            ...(change.order !== undefined ? { order: change.order } : {}),
+            revision: { increment: 1 },
+          },
+        })
+
+        const block = await tx.contentBlock.findFirst({
+          where: { id, section: { manualId } },
+          select: BLOCK_SELECT,
+        })
+        if (!block) {
+          throw new ConflictError('다른 사용자가 이 블록을 삭제했습니다', { index, block: null })
+        }
+        if (count === 0) {
+          throw new ConflictError('다른 사용자가 이 블록을 먼저 수정했습니다', { index, block })
+        }
+        result.revisions.blocks[id] = block.revision
+        break
+      }
+
+      case 'block.delete': {
+        const id = resolve(change.id)
+        await tx.contentBlock.deleteMany({
+          where: { id, section: { manualId } },
+        })
+        delete result.revisions.blocks[id]
+        break
+      }
+
+      case 'block.reorder':
+        // Scoped to this manual so block IDs from other manuals are ignored
+        for (const block of change.blocks) {
+          await tx.contentBlock.updateMany({
+            where: { id: resolve(block.id), section: { manualId } },
+            data: { order: block.order },
+          })
+        }
+        break
+
+      case 'section.create': {
+        let depth = 1
+        const parentId = change.parentId ? resolve(change.parentId) : null
+        if (parentId) {
+          const parent = await requireSection(tx, manualId, parentId, index)
+          depth = parent.depth + 1
+        }
+
+        const last = await tx.manualSection.findFirst({
+          where: { manualId, parentId },
+          orderBy: { order: 'desc' },
+          select: { order: true },
+        })
+
+        const section = await tx.manualSection.create({
+          data: {
+            manualId,
+            title: change.title,
+            parentId,
+            depth,
+            order: (last?.order ?? -1) + 1,
+          },
+          select: { id: true, revision: true },
+        })
+        result.ids[change.tempId] = section.id
+        result.revisions.sections[section.id] = section.revision
+        break
+      }
+
+      case 'section.update': {
+        const id = resolve(change.id)
+        const { count } = await tx.manualSection.updateMany({
+          where: {
+            id,
+            manualId,
+            ...(change.revision !== undefined ? { revision: change.revision } : {}),
+          },
+          data: {
+            ...(change.title !== undefined ? { title: change.title } : {}),
+            ...(change.order !== undefined ? { order: change.order } : {}),
+            revision: { increment: 1 },
+          },
+        })
+
+        const section = await tx.manualSection.findFirst({
+          where: { id, manualId },
+        })
+        if (!section) {
+          throw new ConflictError('다른 사용자가 이 섹션을 삭제했습니다', { index, section: null })
+        }
+        if (count === 0) {
+          throw new ConflictError('다른 사용자가 이 섹션을 먼저 수정했습니다', { index, section })
+        }
+        result.revisions.sections[id] = section.revision
+        break
+      }
+
+      case 'section.delete':
+        // Cascades to blocks and child sections
+        await tx.manualSection.deleteMany({
+          where: { id: resolve(change.id), manualId },
+        })
+        break
+
+      case 'section.reorder':
+        // Scoped to this manual so section IDs from other manuals are ignored
+        for (const section of change.sections) {
+          await tx.manualSection.updateMany({
+            where: { id: resolve(section.id), manualId },
+            data: { order: section.order },
+          })
+        }
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Section new items are added to; deleted by someone else counts as a conflict
+ */
+async function requireSection(tx: Tx, manualId: string, sectionId: string, index: number) {
+  const section = await tx.manualSection.findFirst({
+    where: { id: sectionId, manualId },
+    select: { id: true, depth: true },
+  })
+  if (!section) {
+    throw new ConflictError('다른 사용자가 이 섹션을 삭제했습니다', { index, section: null })
+  }
+  return section
+}
+
+async function nextBlockOrder(tx: Tx, sectionId: string) {
+  const last = await tx.contentBlock.findFirst({
+    where: { sectionId },
+    orderBy: { order: 'desc' },
+    select: { order: true },
+  })
+  return (last?.order ?? -1) + 1
+}
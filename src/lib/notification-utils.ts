@@ -0,0 +1,57 @@
+/**
+ * Notification helpers shared by client and server
+ */
+
+import type { NotificationType } from '@prisma/client'
+
+/**
+ * Display name of each notification type
+ */
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  MANUAL_SHARED: '메뉴얼 공유',
+  MANUAL_UPDATED: '메뉴얼 수정',
+  TEAM_INVITATION: '팀 초대',
+  PERMISSION_CHANGED: '권한 변경',
+  MEMBER_JOINED: '팀원 가입',
+  MEMBER_LEFT: '팀원 탈퇴',
+  COMMENT_MENTION: '댓글 멘션',
+  REVIEW_REQUESTED: '검토 요청',
+  REVIEW_COMPLETED: '검토 완료',
+}
+
+/**
+ * Notification types whose relatedId is a manual
+ */
+const MANUAL_NOTIFICATION_TYPES: NotificationType[] = [
+  'MANUAL_SHARED',
+  'MANUAL_UPDATED',
+  'PERMISSION_CHANGED',
+  'COMMENT_MENTION',
+  'REVIEW_REQUESTED',
+  'REVIEW_COMPLETED',
+]
+
+/**
+ * Page a notification links to
+ *
+ * @param type - Notification type
+ * @param relatedId - ID of the related entity (manualId or teamId)
+ * @returns The path, or null if there is nowhere to go
+ */
+export function getNotificationLink(
+  type: NotificationType,
+  relatedId?: string | null
+): string | null {
+  if (!relatedId) return null
+
+  if (MANUAL_NOTIFICATION_TYPES.includes(type)) {
+    return `/manual/${relatedId}`
+  }
+
+  if (type === 'TEAM_INVITATION') {
+    return `/invite/${relatedId}`
+  }
+
+  // MEMBER_JOINED, MEMBER_LEFT - team notifications
+  return '/team/settings'
+}
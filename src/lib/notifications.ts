@@ -0,0 +1,528 @@
+/**
+ * Notification dispatcher
+ * Every route that causes a notification goes through this module so that
+ * recipient resolution, coalescing and user preferences are handled in one place
+ */
+
+import type { NotificationType, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { resolveManualPermission } from './permissions'
+import { sendMail } from './mail'
+import { notificationMail, digestMail } from './mail-templates'
+
+// Same-type notifications about the same entity within this window are merged into one
+const COALESCE_WINDOW_MS = parseInt(process.env.NOTIFICATION_COALESCE_WINDOW_MS || '600000', 10)
+
+// Daily digest covers notifications created within this period
+const DIGEST_PERIOD_MS = 24 * 60 * 60 * 1000
+
+export interface NotificationPayload {
+  type: NotificationType
+  title: string
+  message: string
+  relatedId?: string | null
+}
+
+interface DispatchOptions {
+  /** User who caused the event (never notified about their own action) */
+  actorId?: string
+  /** Skip recipients who already got the same notification within the coalesce window */
+  coalesce?: boolean
+}
+
+/**
+ * Create notifications for a set of users
+ * Errors are logged and swallowed so a failed notification never fails the mutation that caused it
+ *
+ * @returns Number of notifications created
+ */
+export async function notifyUsers(
+  userIds: string[],
+  payload: NotificationPayload,
+  options: DispatchOptions = {}
+): Promise<number> {
+  try {
+    let recipients = Array.from(new Set(userIds)).filter((id) => id !== options.actorId)
+
+    if (recipients.length === 0) {
+      return 0
+    }
+
+    if (options.coalesce) {
+      const recent = await prisma.notification.findMany({
+        where: {
+          userId: { in: recipients },
+          type: payload.type,
+          relatedId: payload.relatedId ?? null,
+          createdAt: { gte: new Date(Date.now() - COALESCE_WINDOW_MS) },
+        },
+        select: { userId: true },
+      })
+      const alreadyNotified = new Set(recent.map((n) => n.userId))
+      recipients = recipients.filter((id) => !alreadyNotified.has(id))
+
+      if (recipients.length === 0) {
+        return 0
+      }
+    }
+
+    // Apply per-type preferences (no row means IN_APP)
+    const preferences = await prisma.notificationPreference.findMany({
+      where: {
+        userId: { in: recipients },
+        type: payload.type,
+      },
+      select: { userId: true, channel: true },
+    })
+    const channelByUser = new Map(preferences.map((p) => [p.userId, p.channel]))
+    recipients = recipients.filter((id) => channelByUser.get(id) !== 'OFF')
+
+    if (recipients.length === 0) {
+      return 0
+    }
+
+    const emailed = await sendImmediateMails(
+      recipients.filter((id) => channelByUser.get(id) === 'EMAIL_IMMEDIATE'),
+      payload
+    )
+
+    const now = new Date()
+    const data: Prisma.NotificationCreateManyInput[] = recipients.map((userId) => ({
+      userId,
+      type: payload.type,
+      title: payload.title,
+      message: payload.message,
+      relatedId: payload.relatedId ?? null,
+      emailedAt: emailed.has(userId) ? now : null,
+    }))
+
+    const result = await prisma.notification.createMany({ data })
+    return result.count
+  } catch (error) {
+    console.error('Notification dispatch error:', error)
+    return 0
+  }
+}
+
+/**
+ * Send EMAIL_IMMEDIATE mails
+ *
+ * @returns IDs of users whose mail was sent
+ */
+async function sendImmediateMails(
+  userIds: string[],
+  payload: NotificationPayload
+): Promise<Set<string>> {
+  const sent = new Set<string>()
+  if (userIds.length === 0) return sent
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, email: true },
+  })
+
+  await Promise.all(
+    users.map(async (user) => {
+      const ok = await sendMail(
+        notificationMail(user.email, {
+          type: payload.type,
+          title: payload.title,
+          message: payload.message,
+          relatedId: payload.relatedId ?? null,
+          createdAt: new Date(),
+        })
+      )
+      if (ok) sent.add(user.id)
+    })
+  )
+
+  return sent
+}
+
+/**
+ * Send one digest mail per user for notification types set to DAILY_DIGEST
+ * Meant to be triggered once a day (see /api/cron/notification-digest)
+ *
+ * @returns Number of digest mails sent and notifications included
+ */
+export async function sendDailyDigests(): Promise<{ mails: number; notifications: number }> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { channel: 'DAILY_DIGEST' },
+    select: { userId: true, type: true },
+  })
+
+  const typesByUser = new Map<string, NotificationType[]>()
+  for (const preference of preferences) {
+    const types = typesByUser.get(preference.userId) || []
+    types.push(preference.type)
+    typesByUser.set(preference.userId, types)
+  }
+
+  const since = new Date(Date.now() - DIGEST_PERIOD_MS)
+  let mails = 0
+  let notifications = 0
+
+  for (const [userId, types] of Array.from(typesByUser.entries())) {
+    const pending = await prisma.notification.findMany({
+      where: {
+        userId,
+        type: { in: types },
+        emailedAt: null,
+        createdAt: { gte: since },
+      },
+      include: {
+        user: { select: { email: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (pending.length === 0) continue
+
+    const { email, name } = pending[0].user
+    const ok = await sendMail(digestMail(email, name, pending))
+    if (!ok) continue
+
+    await prisma.notification.updateMany({
+      where: { id: { in: pending.map((n) => n.id) } },
+      data: { emailedAt: new Date() },
+    })
+
+    mails += 1
+    notifications += pending.length
+  }
+
+  return { mails, notifications }
+}
+
+/**
+ * Get users who follow a manual (owner + explicitly shared users)
+ * With `draft`, only those who can edit and so see the working draft
+ */
+async function getManualRecipients(manualId: string, options: { draft?: boolean } = {}) {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    select: {
+      id: true,
+      title: true,
+      ownerId: true,
+      visibility: true,
+      team: { select: { ownerId: true, members: { select: { userId: true, role: true } } } },
+      shares: { select: { userId: true, permission: true } },
+    },
+  })
+
+  if (!manual) {
+    return null
+  }
+
+  const shares = manual.shares.filter((share) => {
+    if (!options.draft) return true
+    const permission = resolveManualPermission(
+      {
+        ownerId: manual.ownerId,
+        visibility: manual.visibility,
+        team: {
+          ownerId: manual.team.ownerId,
+          members: manual.team.members.filter((member) => member.userId === share.userId),
+        },
+        shares: [share],
+      },
+      share.userId
+    )
+    return permission === 'OWNER' || permission === 'EDITOR'
+  })
+
+  return {
+    manual,
+    userIds: [manual.ownerId, ...shares.map((share) => share.userId)],
+  }
+}
+
+/**
+ * Get team owners (team creator + members with OWNER role)
+ */
+async function getTeamOwnerIds(teamId: string): Promise<string[]> {
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+    select: {
+      ownerId: true,
+      members: {
+        where: { role: 'OWNER' },
+        select: { userId: true },
+      },
+    },
+  })
+
+  if (!team) {
+    return []
+  }
+
+  return [team.ownerId, ...team.members.map((member) => member.userId)]
+}
+
+/**
+ * MANUAL_UPDATED - the draft of a manual changed
+ * Coalesced so a burst of block edits produces one notification per recipient per window.
+ * Viewers only hear about published revisions (notifyManualPublished).
+ */
+export async function notifyManualUpdated(manualId: string, actorId: string) {
+  try {
+    const target = await getManualRecipients(manualId, { draft: true })
+    if (!target) return 0
+
+    return await notifyUsers(
+      target.userIds,
+      {
+        type: 'MANUAL_UPDATED',
+        title: '메뉴얼 수정',
+        message: `"${target.manual.title}" 메뉴얼이 수정되었습니다`,
+        relatedId: manualId,
+      },
+      { actorId, coalesce: true }
+    )
+  } catch (error) {
+    console.error('Notification dispatch error:', error)
+    return 0
+  }
+}
+
+/**
+ * MANUAL_SHARED - a manual was shared with a user
+ */
+export async function notifyManualShared(
+  manual: { id: string; title: string },
+  userId: string,
+  actorId: string
+) {
+  return notifyUsers(
+    [userId],
+    {
+      type: 'MANUAL_SHARED',
+      title: '새 메뉴얼 공유',
+      message: `"${manual.title}" 메뉴얼이 공유되었습니다`,
+      relatedId: manual.id,
+    },
+    { actorId }
+  )
+}
+
+/**
+ * PERMISSION_CHANGED - a user's share permission on a manual changed or was revoked
+ */
+export async function notifyManualPermissionChanged(
+  manual: { id: string; title: string },
+  userId: string,
+  permission: 'EDITOR' | 'VIEWER' | null,
+  actorId: string
+) {
+  const message = permission
+    ? `"${manual.title}" 메뉴얼의 권한이 ${permission === 'EDITOR' ? '편집자' : '뷰어'}로 변경되었습니다`
+    : `"${manual.title}" 메뉴얼의 공유가 해제되었습니다`
+
+  return notifyUsers(
+    [userId],
+    {
+      type: 'PERMISSION_CHANGED',
+      title: '권한 변경',
+      message,
+      // A revoked share has nothing left to link to
+      relatedId: permission ? manual.id : null,
+    },
+    { actorId }
+  )
+}
+
+/**
+ * COMMENT_MENTION - users were @mentioned in a comment
+ */
+export async function notifyCommentMention(
+  manual: { id: string; title: string },
+  userIds: string[],
+  author: { id: string; name: string }
+) {
+  return notifyUsers(
+    userIds,
+    {
+      type: 'COMMENT_MENTION',
+      title: '댓글 멘션',
+      message: `${author.name}님이 "${manual.title}" 메뉴얼의 댓글에서 회원님을 언급했습니다`,
+      relatedId: manual.id,
+    },
+    { actorId: author.id }
+  )
+}
+
+/**
+ * REVIEW_REQUESTED - a manual draft was submitted to its reviewers
+ */
+export async function notifyReviewRequested(
+  manual: { id: string; title: string },
+  reviewerIds: string[],
+  requester: { id: string; name: string }
+) {
+  return notifyUsers(
+    reviewerIds,
+    {
+      type: 'REVIEW_REQUESTED',
+      title: '검토 요청',
+      message: `${requester.name}님이 "${manual.title}" 메뉴얼의 게시 검토를 요청했습니다`,
+      relatedId: manual.id,
+    },
+    { actorId: requester.id }
+  )
+}
+
+/**
+ * REVIEW_COMPLETED - a reviewer approved or sent back a submitted draft
+ */
+export async function notifyReviewCompleted(
+  manual: { id: string; title: string },
+  requesterId: string,
+  reviewer: { id: string; name: string },
+  approved: boolean
+) {
+  return notifyUsers(
+    [requesterId],
+    {
+      type: 'REVIEW_COMPLETED',
+      title: approved ? '검토 승인' : '수정 요청',
+      message: approved
+        ? `${reviewer.name}님이 "${manual.title}" 메뉴얼을 승인하여 게시했습니다`
+        : `${reviewer.name}님이 "${manual.title}" 메뉴얼에 수정을 요청했습니다`,
+      relatedId: manual.id,
+    },
+    { actorId: reviewer.id }
+  )
+}
+
+/**
+ * MANUAL_UPDATED - a new revision of a manual was published
+ */
+export async function notifyManualPublished(manualId: string, actorId: string) {
+  try {
+    const target = await getManualRecipients(manualId)
+    if (!target) return 0
+
+    return await notifyUsers(
+      target.userIds,
+      {
+        type: 'MANUAL_UPDATED',
+        title: '메뉴얼 게시',
+        message: `"${target.manual.title}" 메뉴얼의 새 버전이 게시되었습니다`,
+        relatedId: manualId,
+      },
+      { actorId }
+    )
+  } catch (error) {
+    console.error('Notification dispatch error:', error)
+    return 0
+  }
+}
+
+/**
+ * PERMISSION_CHANGED - a user's team role changed
+ * relatedId is left empty because PERMISSION_CHANGED links point to manuals
+ */
+export async function notifyTeamRoleChanged(
+  team: { id: string; name: string },
+  userId: string,
+  role: 'OWNER' | 'EDITOR' | 'VIEWER',
+  actorId: string
+) {
+  const roleLabel = role === 'OWNER' ? '소유자' : role === 'EDITOR' ? '편집자' : '뷰어'
+
+  return notifyUsers(
+    [userId],
+    {
+      type: 'PERMISSION_CHANGED',
+      title: '권한 변경',
+      message: `"${team.name}" 팀에서의 역할이 ${roleLabel}(으)로 변경되었습니다`,
+    },
+    { actorId }
+  )
+}
+
+/**
+ * MEMBER_JOINED - a user joined the team (notifies team owners)
+ */
+export async function notifyMemberJoined(teamId: string, member: { id: string; name: string }) {
+  try {
+    const ownerIds = await getTeamOwnerIds(teamId)
+
+    return await notifyUsers(
+      ownerIds,
+      {
+        type: 'MEMBER_JOINED',
+        title: '새 팀원이 가입했습니다',
+        message: `${member.name}님이 팀에 가입했습니다`,
+        relatedId: teamId,
+      },
+      { actorId: member.id }
+    )
+  } catch (error) {
+    console.error('Notification dispatch error:', error)
+    return 0
+  }
+}
+
+/**
+ * MEMBER_LEFT - a user was removed from the team
+ * Notifies the removed user and the other team owners
+ */
+export async function notifyMemberLeft(
+  team: { id: string; name: string },
+  member: { id: string; name: string },
+  actorId: string
+) {
+  try {
+    const ownerIds = await getTeamOwnerIds(team.id)
+
+    const [toOwners, toMember] = await Promise.all([
+      notifyUsers(
+        ownerIds.filter((id) => id !== member.id),
+        {
+          type: 'MEMBER_LEFT',
+          title: '팀원이 팀을 떠났습니다',
+          message: `${member.name}님이 팀에서 제외되었습니다`,
+          relatedId: team.id,
+        },
+        { actorId }
+      ),
+      notifyUsers(
+        [member.id],
+        {
+          type: 'MEMBER_LEFT',
+          title: '팀에서 제외되었습니다',
+          message: `"${team.name}" 팀에서 제외되었습니다`,
+        },
+        { actorId }
+      ),
+    ])
+
+    return toOwners + toMember
+  } catch (error) {
+    console.error('Notification dispatch error:', error)
+    return 0
+  }
+}
+
+/**
+ * TEAM_INVITATION - an existing user was invited to a team
+ * relatedId is the invitation token so the notification links to the accept page
+ */
+export async function notifyTeamInvitation(
+  userId: string,
+  invitation: { token: string; teamName: string; senderName: string },
+  actorId: string
+) {
+  return notifyUsers(
+    [userId],
+    {
+      type: 'TEAM_INVITATION',
+      title: '팀 초대',
+      message: `${invitation.senderName}님이 "${invitation.teamName}" 팀에 초대했습니다`,
+      relatedId: invitation.token,
+    },
+    { actorId }
+  )
+}
@@ -0,0 +1,76 @@
+/**
+ * Unsent manual changes kept in IndexedDB (browser only)
+ * The editor writes its change queue here, so edits made offline or before a crash
+ * survive a reload and are sent once the connection is back.
+ */
+
+import type { ManualChange } from './manual-changes'
+
+const DB_NAME = 'menualic-offline'
+const DB_VERSION = 1
+const STORE = 'pendingChanges'
+
+interface PendingChangesRecord {
+  manualId: string
+  changes: ManualChange[]
+  updatedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'manualId' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      dbPromise = null
+      throw error
+    }) as Promise<IDBDatabase>
+  }
+  return dbPromise
+}
+
+function isAvailable() {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Changes of a manual that were not confirmed by the server yet
+ */
+export async function loadPendingChanges(manualId: string): Promise<ManualChange[]> {
+  if (!isAvailable()) return []
+
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(manualId)
+    request.onsuccess = () => resolve((request.result as PendingChangesRecord | undefined)?.changes ?? [])
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Replace the stored changes of a manual (an empty list removes the entry)
+ */
+export async function savePendingChanges(manualId: string, changes: ManualChange[]): Promise<void> {
+  if (!isAvailable()) return
+
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite')
+    const store = transaction.objectStore(STORE)
+
+    if (changes.length === 0) {
+      store.delete(manualId)
+    } else {
+      store.put({ manualId, changes, updatedAt: Date.now() } satisfies PendingChangesRecord)
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
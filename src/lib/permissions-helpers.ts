@@ -3,38 +3,65 @@
  * Centralizes permission checking logic to reduce duplication
  */
 
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession, type Session } from 'next-auth'
+import { authOptions } from './auth'
 import { prisma } from './prisma'
-import { ForbiddenError, NotFoundError } from './errors'
+import { ForbiddenError, NotFoundError, UnauthorizedError, handleApiError } from './errors'
+import {
+  manualAccessInclude,
+  resolveManualPermission,
+  toPermissionResult,
+  type ManualAccessInfo,
+  type PermissionResult,
+} from './permissions'
 
-export interface ManualWithTeamMembers {
+export type ManualWithTeamMembers = ManualAccessInfo & {
   id: string
-  ownerId: string
   teamId: string
-  team: {
-    members: Array<{
-      role: string
-    }>
+}
+
+export type ManualAction = 'view' | 'edit' | 'delete' | 'share'
+
+const FORBIDDEN_MESSAGES: Record<ManualAction, string> = {
+  view: '이 메뉴얼을 볼 권한이 없습니다',
+  edit: '편집 권한이 없습니다',
+  delete: '메뉴얼을 삭제할 권한이 없습니다',
+  share: '공유 설정 권한이 없습니다',
+}
+
+/**
+ * Check whether a permission result allows an action
+ */
+export function canPerform(access: PermissionResult, action: ManualAction): boolean {
+  switch (action) {
+    case 'view':
+      return access.canView
+    case 'edit':
+      return access.canEdit
+    case 'delete':
+      return access.canDelete
+    case 'share':
+      return access.canShare
   }
 }
 
 /**
- * Check if user can edit manual (owner or team editor/owner)
+ * Check if user can edit manual (owner, team owner, team editor on a team-visible manual or share editor)
  */
 export function checkManualEditPermission(
   manual: ManualWithTeamMembers,
   userId: string
 ): void {
-  const isOwner = manual.ownerId === userId
-  const teamMember = manual.team.members[0]
-  const canEdit = isOwner || teamMember?.role === 'OWNER' || teamMember?.role === 'EDITOR'
+  const access = toPermissionResult(resolveManualPermission(manual, userId))
 
-  if (!canEdit) {
-    throw new ForbiddenError('편집 권한이 없습니다')
+  if (!access.canEdit) {
+    throw new ForbiddenError(FORBIDDEN_MESSAGES.edit)
   }
 }
 
 /**
- * Get manual with user's team member info in one query
+ * Get manual with user's team member and share info in one query
  */
 export async function getManualWithUserAccess(
   manualId: string,
@@ -42,18 +69,7 @@ export async function getManualWithUserAccess(
 ) {
   const manual = await prisma.manual.findUnique({
     where: { id: manualId },
-    include: {
-      team: {
-        include: {
-          members: {
-            where: { userId },
-            select: {
-              role: true,
-            },
-          },
-        },
-      },
-    },
+    include: manualAccessInclude(userId),
   })
 
   if (!manual) {
@@ -63,6 +79,25 @@ export async function getManualWithUserAccess(
   return manual
 }
 
+/**
+ * Check and ensure user may perform an action on a manual
+ * Throws error if not found or no permission
+ */
+export async function requireManualAccess(
+  manualId: string,
+  userId: string,
+  action: ManualAction
+) {
+  const manual = await getManualWithUserAccess(manualId, userId)
+  const access = toPermissionResult(resolveManualPermission(manual, userId))
+
+  if (!canPerform(access, action)) {
+    throw new ForbiddenError(FORBIDDEN_MESSAGES[action])
+  }
+
+  return { manual, access }
+}
+
 /**
  * Check and ensure user has edit permission for manual
  * Throws error if not found or no permission
@@ -71,7 +106,58 @@ export async function requireManualEditAccess(
   manualId: string,
   userId: string
 ) {
-  const manual = await getManualWithUserAccess(manualId, userId)
-  checkManualEditPermission(manual, userId)
+  const { manual } = await requireManualAccess(manualId, userId, 'edit')
   return manual
 }
+
+export type ManualWithAccess = Awaited<ReturnType<typeof getManualWithUserAccess>>
+
+/**
+ * Context passed to handlers wrapped with withManualAccess
+ */
+export interface ManualRouteContext<P extends { id: string }> {
+  params: P
+  session: Session
+  userId: string
+  manual: ManualWithAccess
+  access: PermissionResult
+}
+
+/**
+ * Route wrapper for /api/manual/[id]/** handlers
+ * Resolves the session, loads the manual, enforces the action and
+ * turns thrown errors into standard errorResponse bodies
+ *
+ * @example
+ * export const PUT = withManualAccess('edit', async (request, { params, userId }) => { ... })
+ */
+export function withManualAccess<P extends { id: string } = { id: string }>(
+  action: ManualAction,
+  handler: (request: NextRequest, context: ManualRouteContext<P>) => Promise<NextResponse>
+) {
+  return async (
+    request: NextRequest,
+    { params }: { params: Promise<P> }
+  ): Promise<NextResponse> => {
+    try {
+      const session = await getServerSession(authOptions)
+
+      if (!session?.user) {
+        throw new UnauthorizedError()
+      }
+
+      const resolvedParams = await params
+      const { manual, access } = await requireManualAccess(resolvedParams.id, session.user.id, action)
+
+      return await handler(request, {
+        params: resolvedParams,
+        session,
+        userId: session.user.id,
+        manual,
+        access,
+      })
+    } catch (error) {
+      return handleApiError(error)
+    }
+  }
+}
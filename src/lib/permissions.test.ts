@@ -0,0 +1,210 @@
+import { prisma } from '@/test/prisma'
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { ForbiddenError, NotFoundError } from './errors'
+import { resolveManualPermission, toPermissionResult, type Permission } from './permissions'
+import { canPerform, requireManualAccess, type ManualAction, type ManualWithTeamMembers } from './permissions-helpers'
+import { encodeKeyframe } from './version-storage'
+import type { ManualSnapshot } from './versions'
+import { GET as getSharedManual } from '@/app/api/share/[token]/route'
+
+const USER = 'user-1'
+const ACTIONS: ManualAction[] = ['view', 'edit', 'share', 'delete']
+
+interface Scenario {
+  name: string
+  owner?: boolean
+  teamOwner?: boolean
+  teamRole?: 'OWNER' | 'EDITOR' | 'VIEWER'
+  visibility: 'PRIVATE' | 'TEAM'
+  share?: 'EDITOR' | 'VIEWER'
+  expected: Permission
+}
+
+// Access rows as loaded by manualAccessInclude(USER)
+function manualFor(scenario: Scenario): ManualWithTeamMembers {
+  return {
+    id: 'manual-1',
+    teamId: 'team-1',
+    ownerId: scenario.owner ? USER : 'manual-owner',
+    visibility: scenario.visibility,
+    team: {
+      ownerId: scenario.teamOwner ? USER : 'team-owner',
+      members: scenario.teamRole ? [{ role: scenario.teamRole }] : [],
+    },
+    shares: scenario.share ? [{ permission: scenario.share }] : [],
+  }
+}
+
+const SCENARIOS: Scenario[] = [
+  { name: 'manual owner', owner: true, teamRole: 'EDITOR', visibility: 'PRIVATE', expected: 'OWNER' },
+  { name: 'team owner', teamOwner: true, visibility: 'PRIVATE', expected: 'OWNER' },
+  { name: 'team member with OWNER role', teamRole: 'OWNER', visibility: 'PRIVATE', expected: 'OWNER' },
+  { name: 'team editor, team-visible manual', teamRole: 'EDITOR', visibility: 'TEAM', expected: 'EDITOR' },
+  { name: 'team viewer, team-visible manual', teamRole: 'VIEWER', visibility: 'TEAM', expected: 'VIEWER' },
+  { name: 'team editor, private manual', teamRole: 'EDITOR', visibility: 'PRIVATE', expected: 'NONE' },
+  { name: 'team viewer, private manual', teamRole: 'VIEWER', visibility: 'PRIVATE', expected: 'NONE' },
+  { name: 'team viewer shared as editor, private', teamRole: 'VIEWER', visibility: 'PRIVATE', share: 'EDITOR', expected: 'EDITOR' },
+  { name: 'team viewer shared as editor, team-visible', teamRole: 'VIEWER', visibility: 'TEAM', share: 'EDITOR', expected: 'EDITOR' },
+  { name: 'team editor shared as viewer, team-visible', teamRole: 'EDITOR', visibility: 'TEAM', share: 'VIEWER', expected: 'EDITOR' },
+  { name: 'team editor shared as viewer, private', teamRole: 'EDITOR', visibility: 'PRIVATE', share: 'VIEWER', expected: 'VIEWER' },
+  { name: 'not a team member, shared as editor', visibility: 'PRIVATE', share: 'EDITOR', expected: 'NONE' },
+  { name: 'not a team member, team-visible manual', visibility: 'TEAM', expected: 'NONE' },
+]
+
+const ALLOWED: Record<Permission, ManualAction[]> = {
+  OWNER: ['view', 'edit', 'share', 'delete'],
+  EDITOR: ['view', 'edit'],
+  VIEWER: ['view'],
+  NONE: [],
+}
+
+describe('manual permission', () => {
+  for (const scenario of SCENARIOS) {
+    test(`${scenario.name} is ${scenario.expected}`, () => {
+      assert.equal(resolveManualPermission(manualFor(scenario), USER), scenario.expected)
+    })
+  }
+})
+
+describe('permission × action', () => {
+  for (const permission of Object.keys(ALLOWED) as Permission[]) {
+    for (const action of ACTIONS) {
+      const allowed = ALLOWED[permission].includes(action)
+      test(`${permission} ${allowed ? 'may' : 'may not'} ${action}`, () => {
+        assert.equal(canPerform(toPermissionResult(permission), action), allowed)
+      })
+    }
+  }
+})
+
+describe('requireManualAccess', () => {
+  for (const scenario of SCENARIOS) {
+    for (const action of ACTIONS) {
+      const allowed = ALLOWED[scenario.expected].includes(action)
+      test(`${scenario.name}: ${action} is ${allowed ? 'allowed' : 'forbidden'}`, async () => {
+        prisma.manual = { findUnique: async () => manualFor(scenario) }
+
+        if (allowed) {
+          const { access } = await requireManualAccess('manual-1', USER, action)
+          assert.equal(access.permission, scenario.expected)
+        } else {
+          await assert.rejects(requireManualAccess('manual-1', USER, action), ForbiddenError)
+        }
+      })
+    }
+  }
+
+  test('missing manual is not found for every action', async () => {
+    prisma.manual = { findUnique: async () => null }
+    for (const action of ACTIONS) {
+      await assert.rejects(requireManualAccess('missing', USER, action), NotFoundError)
+    }
+  })
+})
+
+describe('external share link', () => {
+  const published: ManualSnapshot = {
+    title: 'Published title',
+    description: null,
+    sections: [
+      {
+        id: 'open',
+        title: 'Open',
+        order: 0,
+        depth: 1,
+        parentId: null,
+        restricted: false,
+        accessRules: [],
+        blocks: [{ id: 'b1', type: 'BODY', content: '<p>published text</p>', order: 0 }],
+      },
+      {
+        id: 'restricted',
+        title: 'Restricted',
+        order: 1,
+        depth: 1,
+        parentId: null,
+        restricted: true,
+        accessRules: [{ userId: null, role: 'VIEWER', permission: 'VIEWER' }],
+        blocks: [{ id: 'b2', type: 'BODY', content: '<p>secret text</p>', order: 0 }],
+      },
+      {
+        id: 'restricted-child',
+        title: 'Restricted child',
+        order: 0,
+        depth: 2,
+        parentId: 'restricted',
+        restricted: false,
+        accessRules: [],
+        blocks: [{ id: 'b3', type: 'BODY', content: '<p>inherited secret</p>', order: 0 }],
+      },
+    ],
+  }
+
+  const link = (overrides: Record<string, unknown> = {}) => ({
+    token: 'token-1',
+    isActive: true,
+    expiresAt: null,
+    accessType: 'FULL',
+    manual: {
+      id: 'manual-1',
+      title: 'Draft title',
+      owner: { id: 'manual-owner', name: 'Owner', email: 'owner@example.com' },
+      team: { id: 'team-1', name: 'Team' },
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-02'),
+    },
+    ...overrides,
+  })
+
+  const setUp = (shareLink: unknown, publishedVersionId: string | null) => {
+    prisma.externalShareLink = { findUnique: async () => shareLink }
+    prisma.manual = {
+      findUnique: async () => ({ publishedVersionId, publishedAt: publishedVersionId ? new Date('2026-01-03') : null }),
+    }
+    prisma.manualVersion = {
+      findUnique: async () => ({ id: 'version-1', ...encodeKeyframe(published) }),
+    }
+  }
+
+  const open = async (token = 'token-1') => {
+    const response = await getSharedManual(new NextRequest(`http://localhost/api/share/${token}`), {
+      params: Promise.resolve({ token }),
+    })
+    return { status: response.status, body: await response.json() }
+  }
+
+  test('shows only unrestricted sections of the published revision', async () => {
+    setUp(link(), 'version-1')
+    const { status, body } = await open()
+
+    assert.equal(status, 200)
+    assert.equal(body.manual.title, 'Published title')
+    assert.deepEqual(body.manual.sections.map((section: { id: string }) => section.id), ['open'])
+    assert.doesNotMatch(JSON.stringify(body), /secret/)
+  })
+
+  test('TITLE_ONLY links get no block content', async () => {
+    setUp(link({ accessType: 'TITLE_ONLY' }), 'version-1')
+    const { body } = await open()
+
+    assert.deepEqual(body.manual.sections[0].blocks, [])
+  })
+
+  test('unpublished manuals are not found', async () => {
+    setUp(link(), null)
+    assert.equal((await open()).status, 404)
+  })
+
+  test('unknown, inactive and expired links are refused', async () => {
+    setUp(null, 'version-1')
+    assert.equal((await open('unknown')).status, 404)
+
+    setUp(link({ isActive: false }), 'version-1')
+    assert.equal((await open()).status, 403)
+
+    setUp(link({ expiresAt: new Date(Date.now() - 1000) }), 'version-1')
+    assert.equal((await open()).status, 410)
+  })
+})
@@ -1,66 +1,132 @@
+import type { Prisma, ManualVisibility } from '@prisma/client'
 import { prisma } from './prisma'
 
 export type Permission = 'OWNER' | 'EDITOR' | 'VIEWER' | 'NONE'
 
-interface PermissionResult {
+export interface PermissionResult {
   permission: Permission
+  canView: boolean
   canEdit: boolean
   canDelete: boolean
   canShare: boolean
 }
 
 /**
- * Check user's permission for a manual
- * @param userId - User ID to check permissions for
- * @param manualId - Manual ID to check permissions on
- * @returns Permission result object
+ * Fields needed to resolve a user's permission on a manual
+ * Load them with `manualAccessInclude(userId)`
  */
-export async function checkManualPermission(
-  userId: string,
-  manualId: string
-): Promise<PermissionResult> {
-  const manual = await prisma.manual.findUnique({
-    where: { id: manualId },
-    include: {
-      team: {
-        include: {
-          members: {
-            where: { userId },
-          },
+export interface ManualAccessInfo {
+  ownerId: string
+  visibility: ManualVisibility
+  team: {
+    ownerId: string
+    members: Array<{ role: string }>
+  }
+  shares: Array<{ permission: string }>
+}
+
+export const PERMISSION_RANK: Record<Permission, number> = {
+  NONE: 0,
+  VIEWER: 1,
+  EDITOR: 2,
+  OWNER: 3,
+}
+
+/**
+ * Prisma include that loads only the access rows of the given user
+ */
+export function manualAccessInclude(userId: string) {
+  return {
+    team: {
+      select: {
+        ownerId: true,
+        members: {
+          where: { userId },
+          select: { role: true },
         },
       },
     },
-  })
+    shares: {
+      where: { userId },
+      select: { permission: true },
+    },
+  } satisfies Prisma.ManualInclude
+}
 
-  if (!manual) {
-    return {
-      permission: 'NONE',
-      canEdit: false,
-      canDelete: false,
-      canShare: false,
-    }
+/**
+ * Resolve the effective permission of a user on a manual
+ *
+ * - Manual owner and team owners: OWNER
+ * - Users outside the team: NONE (shares only apply to team members)
+ * - Explicit ManualShare grant: EDITOR / VIEWER
+ * - TEAM visibility: team role (EDITOR / VIEWER) also applies
+ * The highest applicable permission wins.
+ */
+export function resolveManualPermission(manual: ManualAccessInfo, userId: string): Permission {
+  if (manual.ownerId === userId || manual.team.ownerId === userId) {
+    return 'OWNER'
+  }
+
+  const teamRole = manual.team.members[0]?.role
+  if (!teamRole) {
+    return 'NONE'
   }
 
-  const isOwner = manual.ownerId === userId
-  const teamMember = manual.team.members[0]
+  if (teamRole === 'OWNER') {
+    return 'OWNER'
+  }
 
   let permission: Permission = 'NONE'
-  if (isOwner || teamMember?.role === 'OWNER') {
-    permission = 'OWNER'
-  } else if (teamMember?.role === 'EDITOR') {
-    permission = 'EDITOR'
-  } else if (teamMember?.role === 'VIEWER') {
-    permission = 'VIEWER'
+
+  const share = manual.shares[0]
+  if (share?.permission === 'EDITOR' || share?.permission === 'VIEWER') {
+    permission = share.permission
   }
 
+  if (manual.visibility === 'TEAM' && (teamRole === 'EDITOR' || teamRole === 'VIEWER')) {
+    if (PERMISSION_RANK[teamRole] > PERMISSION_RANK[permission]) {
+      permission = teamRole
+    }
+  }
+
+  return permission
+}
+
+/**
+ * Expand a permission into capability flags
+ */
+export function toPermissionResult(permission: Permission): PermissionResult {
   return {
     permission,
+    canView: permission !== 'NONE',
     canEdit: permission === 'OWNER' || permission === 'EDITOR',
     canDelete: permission === 'OWNER',
     canShare: permission === 'OWNER',
   }
 }
 
+/**
+ * Check user's permission for a manual
+ * @param userId - User ID to check permissions for
+ * @param manualId - Manual ID to check permissions on
+ * @returns Permission result object
+ */
+export async function checkManualPermission(
+  userId: string,
+  manualId: string
+): Promise<PermissionResult> {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    include: manualAccessInclude(userId),
+  })
+
+  if (!manual) {
+    return toPermissionResult('NONE')
+  }
+
+  return toPermissionResult(resolveManualPermission(manual, userId))
+}
+
 /**
  * Check if user has permission to edit a manual
  * @param userId - User ID to check
@@ -75,6 +141,28 @@ export async function canEditManual(
   return result.canEdit
 }
 
+/**
+ * Prisma filter matching every manual the user can at least view
+ * Mirrors resolveManualPermission for list and search queries
+ * @param userId - User ID to filter for
+ */
+export function accessibleManualWhere(userId: string): Prisma.ManualWhereInput {
+  return {
+    OR: [
+      { ownerId: userId },
+      { team: { ownerId: userId } },
+      {
+        team: { members: { some: { userId } } },
+        OR: [
+          { team: { members: { some: { userId, role: 'OWNER' } } } },
+          { shares: { some: { userId } } },
+          { visibility: 'TEAM' },
+        ],
+      },
+    ],
+  }
+}
+
 /**
  * Check user's permission for a team
  * @param userId - User ID to check permissions for
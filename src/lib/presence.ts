@@ -0,0 +1,166 @@
+/**
+ * Manual presence and soft block locks
+ * Each open editor tab sends a heartbeat with the section it shows and the block
+ * it is editing. Entries expire when heartbeats stop (tab closed, connection lost),
+ * locks expire as soon as the holder stops typing for a while.
+ */
+
+import { prisma } from './prisma'
+import { ConflictError } from './errors'
+
+// A tab counts as present while its last heartbeat is younger than this (ms)
+const PRESENCE_TIMEOUT_MS = parseInt(process.env.PRESENCE_TIMEOUT_MS || '30000', 10)
+// A block stays locked while its editor typed within this window (ms)
+const LOCK_IDLE_MS = parseInt(process.env.PRESENCE_LOCK_IDLE_MS || '15000', 10)
+
+/**
+ * warn: other editors see who is typing in a block
+ * block: other editors cannot edit the block until the lock expires
+ */
+export type LockMode = 'warn' | 'block'
+
+export function getLockMode(): LockMode {
+  return process.env.PRESENCE_LOCK_MODE === 'block' ? 'block' : 'warn'
+}
+
+export interface PresenceUpdate {
+  clientId: string
+  sectionId?: string | null
+  blockId?: string | null
+  /** The user typed in `blockId` since the last heartbeat */
+  typing?: boolean
+}
+
+export interface PresenceEntry {
+  clientId: string
+  userId: string
+  name: string
+  profileImage: string | null
+  sectionId: string | null
+  /** Block the user is typing in, only while the lock is active */
+  lockedBlockId: string | null
+}
+
+function presenceCutoff(now: Date) {
+  return new Date(now.getTime() - PRESENCE_TIMEOUT_MS)
+}
+
+function lockCutoff(now: Date) {
+  return new Date(now.getTime() - LOCK_IDLE_MS)
+}
+
+/**
+ * Record a heartbeat of a tab and drop expired entries of the manual
+ */
+export async function updatePresence(manualId: string, userId: string, update: PresenceUpdate) {
+  const now = new Date()
+  const blockId = update.blockId ?? null
+
+  const existing = await prisma.manualPresence.findUnique({
+    where: { manualId_clientId: { manualId, clientId: update.clientId } },
+    select: { userId: true, blockId: true, typingAt: true },
+  })
+
+  // Client IDs are per tab, never take over another user's entry
+  if (existing && existing.userId !== userId) {
+    throw new ConflictError('이미 사용 중인 접속 ID입니다')
+  }
+
+  // Typing keeps the lock alive; moving to another block releases it
+  const typingAt = !blockId
+    ? null
+    : update.typing
+      ? now
+      : existing?.blockId === blockId
+        ? existing.typingAt
+        : null
+
+  await prisma.manualPresence.upsert({
+    where: { manualId_clientId: { manualId, clientId: update.clientId } },
+    create: {
+      manualId,
+      userId,
+      clientId: update.clientId,
+      sectionId: update.sectionId ?? null,
+      blockId,
+      typingAt,
+      lastSeenAt: now,
+    },
+    update: {
+      sectionId: update.sectionId ?? null,
+      blockId,
+      typingAt,
+      lastSeenAt: now,
+    },
+  })
+
+  await prisma.manualPresence.deleteMany({
+    where: { manualId, lastSeenAt: { lt: presenceCutoff(now) } },
+  })
+}
+
+/**
+ * Remove a tab's entry (tab closed or navigated away)
+ */
+export async function removePresence(manualId: string, userId: string, clientId: string) {
+  await prisma.manualPresence.deleteMany({
+    where: { manualId, userId, clientId },
+  })
+}
+
+/**
+ * Tabs currently open on a manual
+ */
+export async function listPresence(manualId: string): Promise<PresenceEntry[]> {
+  const now = new Date()
+  const entries = await prisma.manualPresence.findMany({
+    where: { manualId, lastSeenAt: { gte: presenceCutoff(now) } },
+    include: {
+      user: {
+        select: { id: true, name: true, profileImage: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const locked = lockCutoff(now)
+  return entries.map((entry) => ({
+    clientId: entry.clientId,
+    userId: entry.userId,
+    name: entry.user.name,
+    profileImage: entry.user.profileImage,
+    sectionId: entry.sectionId,
+    lockedBlockId: entry.blockId && entry.typingAt && entry.typingAt >= locked ? entry.blockId : null,
+  }))
+}
+
+/**
+ * Name of another user typing in a block, while PRESENCE_LOCK_MODE=block
+ */
+export async function findBlockLockHolder(manualId: string, blockId: string, userId: string): Promise<string | null> {
+  if (getLockMode() !== 'block') return null
+
+  const now = new Date()
+  const holder = await prisma.manualPresence.findFirst({
+    where: {
+      manualId,
+      blockId,
+      userId: { not: userId },
+      typingAt: { gte: lockCutoff(now) },
+      lastSeenAt: { gte: presenceCutoff(now) },
+    },
+    select: { user: { select: { name: true } } },
+  })
+
+  return holder?.user.name ?? null
+}
+
+/**
+ * Reject changes to a block another user is typing in (PRESENCE_LOCK_MODE=block)
+ */
+export async function requireBlockUnlocked(manualId: string, blockId: string, userId: string) {
+  const holder = await findBlockLockHolder(manualId, blockId, userId)
+  if (holder) {
+    throw new ConflictError(`${holder}님이 편집 중인 블록입니다`)
+  }
+}
@@ -0,0 +1,26 @@
+import { prisma } from '@/test/prisma'
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { loadPublishedSnapshot } from './publication'
+import { encodeKeyframe } from './version-storage'
+import type { ManualSnapshot } from './versions'
+
+const snapshot: ManualSnapshot = { title: 'Handbook', description: null, sections: [] }
+
+describe('loadPublishedSnapshot', () => {
+  test('decodes each published version once', async () => {
+    const loaded: string[] = []
+    prisma.manualVersion = {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        loaded.push(where.id)
+        return { id: where.id, ...encodeKeyframe({ ...snapshot, title: where.id }) }
+      },
+    }
+
+    assert.equal((await loadPublishedSnapshot('manual-1', 'version-1')).title, 'version-1')
+    assert.equal((await loadPublishedSnapshot('manual-1', 'version-1')).title, 'version-1')
+    assert.equal((await loadPublishedSnapshot('manual-1', 'version-2')).title, 'version-2')
+
+    assert.deepEqual(loaded, ['version-1', 'version-2'])
+  })
+})
@@ -0,0 +1,389 @@
+/**
+ * Draft / review / publish workflow
+ * Editors change the working draft (the live sections and blocks); viewers and
+ * external share links only ever see the published revision, a named version
+ * created when a reviewer approves a submitted draft.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { ConflictError, ForbiddenError, NotFoundError } from './errors'
+import { resolveManualPermission } from './permissions'
+import { filterSnapshotSections, type SectionViewer } from './section-permissions'
+import { buildManualSnapshot, createManualVersion, hashSnapshot, type ManualSnapshot, type SnapshotBlock } from './versions'
+import { loadVersionSnapshot } from './version-storage'
+
+export const submitReviewSchema = z.object({
+  message: z.string().max(1000, '요청 메모는 최대 1000자까지 입력 가능합니다').optional(),
+})
+
+export const decideReviewSchema = z.object({
+  action: z.enum(['approve', 'request_changes', 'cancel']),
+  comment: z.string().max(2000, '검토 의견은 최대 2000자까지 입력 가능합니다').optional(),
+  // Summary of the published version (defaults to the request message)
+  summary: z.string().max(200).optional(),
+})
+
+export const updateReviewersSchema = z.object({
+  userIds: z.array(z.string()).max(50),
+})
+
+const REVIEW_USER_SELECT = {
+  id: true,
+  name: true,
+  profileImage: true,
+} as const
+
+export const REVIEW_INCLUDE = {
+  requestedBy: { select: REVIEW_USER_SELECT },
+  reviewedBy: { select: REVIEW_USER_SELECT },
+  version: { select: { id: true, summary: true, createdAt: true } },
+} as const
+
+// Decoded published revisions kept in memory (least recently used are dropped)
+const SNAPSHOT_CACHE_SIZE = parseInt(process.env.PUBLISHED_SNAPSHOT_CACHE_SIZE || '200', 10)
+
+const snapshotCache = new Map<string, ManualSnapshot>()
+
+export interface ReviewerUser {
+  id: string
+  name: string
+  email: string
+  profileImage: string | null
+}
+
+/**
+ * Snapshot of a published version, decoded once per process
+ * Stored versions never change their content, so the cache needs no invalidation.
+ * The returned snapshot is shared and must not be modified.
+ */
+export async function loadPublishedSnapshot(manualId: string, versionId: string): Promise<ManualSnapshot> {
+  const key = `${manualId}:${versionId}`
+  const cached = snapshotCache.get(key)
+  if (cached) {
+    snapshotCache.delete(key)
+    snapshotCache.set(key, cached)
+    return cached
+  }
+
+  const snapshot = await loadVersionSnapshot(manualId, versionId)
+  snapshotCache.set(key, snapshot)
+  if (snapshotCache.size > SNAPSHOT_CACHE_SIZE) {
+    snapshotCache.delete(snapshotCache.keys().next().value!)
+  }
+  return snapshot
+}
+
+/**
+ * The published revision of a manual, or null if it was never published
+ */
+export async function getPublishedSnapshot(manualId: string) {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    select: { publishedVersionId: true, publishedAt: true },
+  })
+
+  if (!manual?.publishedVersionId) return null
+
+  return {
+    versionId: manual.publishedVersionId,
+    publishedAt: manual.publishedAt,
+    snapshot: await loadPublishedSnapshot(manualId, manual.publishedVersionId),
+  }
+}
+
+export interface PublishedContent {
+  sectionIds: Set<string>
+  blocks: Map<string, SnapshotBlock>
+}
+
+/**
+ * Sections and blocks of the published revision the viewer can see
+ * Null for owners and editors, who work on the draft; users who cannot edit must
+ * not get anything anchored to draft-only content (comments, suggestions).
+ */
+export async function getPublishedContent(manualId: string, viewer: SectionViewer): Promise<PublishedContent | null> {
+  if (viewer.permission === 'OWNER' || viewer.permission === 'EDITOR') return null
+
+  const published = await getPublishedSnapshot(manualId)
+  const sections = published ? filterSnapshotSections(published.snapshot, viewer).sections : []
+
+  return {
+    sectionIds: new Set(sections.map((section) => section.id)),
+    blocks: new Map(sections.flatMap((section) => section.blocks.map((block) => [block.id, block] as const))),
+  }
+}
+
+/**
+ * Publish a version without review (the initial version of a new manual)
+ */
+export async function publishVersion(manualId: string, versionId: string) {
+  await prisma.manual.update({
+    where: { id: manualId },
+    data: { publishedVersionId: versionId, publishedAt: new Date() },
+  })
+}
+
+export interface SnapshotTreeSection {
+  id: string
+  title: string
+  order: number
+  depth: number
+  parentId: string | null
+  blocks: Array<{ id: string; type: string; content: string; order: number; sectionId: string }>
+  children: SnapshotTreeSection[]
+}
+
+/**
+ * Nest the flat sections of a snapshot like the live section tree
+ */
+export function buildSnapshotTree(snapshot: ManualSnapshot): SnapshotTreeSection[] {
+  const byId = new Map<string, SnapshotTreeSection>()
+  snapshot.sections.forEach((section) => {
+    byId.set(section.id, {
+      id: section.id,
+      title: section.title,
+      order: section.order,
+      depth: section.depth,
+      parentId: section.parentId,
+      blocks: section.blocks.map((block) => ({ ...block, sectionId: section.id })),
+      children: [],
+    })
+  })
+
+  const roots: SnapshotTreeSection[] = []
+  snapshot.sections.forEach((section) => {
+    const node = byId.get(section.id)!
+    const parent = section.parentId ? byId.get(section.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else if (!section.parentId) {
+      roots.push(node)
+    }
+  })
+
+  const sortTree = (sections: SnapshotTreeSection[]) => {
+    sections.sort((a, b) => a.order - b.order)
+    sections.forEach((section) => sortTree(section.children))
+  }
+  sortTree(roots)
+
+  return roots
+}
+
+/**
+ * Sections and blocks of a snapshot that contain the search query
+ * Case-insensitive, like the draft search on the default MySQL collation.
+ */
+export function searchSnapshot(snapshot: ManualSnapshot, query: string) {
+  const needle = query.toLowerCase()
+  const matches = (value: string | null | undefined) => !!value && value.toLowerCase().includes(needle)
+
+  return {
+    manual: matches(snapshot.title) || matches(snapshot.description),
+    sections: snapshot.sections.filter((section) => matches(section.title)),
+    blocks: snapshot.sections.flatMap((section) =>
+      section.blocks.filter((block) => matches(block.content)).map((block) => ({ ...block, section }))
+    ),
+  }
+}
+
+/**
+ * Team members who can edit the manual (candidates for reviewers)
+ */
+export async function getEditorUsers(manualId: string): Promise<ReviewerUser[]> {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    select: {
+      ownerId: true,
+      visibility: true,
+      team: {
+        select: {
+          ownerId: true,
+          owner: { select: { id: true, name: true, email: true, profileImage: true } },
+          members: {
+            select: {
+              role: true,
+              user: { select: { id: true, name: true, email: true, profileImage: true } },
+            },
+          },
+        },
+      },
+      shares: { select: { userId: true, permission: true } },
+    },
+  })
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  const candidates = new Map<string, { user: ReviewerUser; role: string | null }>()
+  candidates.set(manual.team.owner.id, { user: manual.team.owner, role: 'OWNER' })
+  manual.team.members.forEach((member) => {
+    if (!candidates.has(member.user.id)) {
+      candidates.set(member.user.id, { user: member.user, role: member.role })
+    }
+  })
+
+  const result: ReviewerUser[] = []
+  for (const [userId, { user, role }] of candidates) {
+    const permission = resolveManualPermission(
+      {
+        ownerId: manual.ownerId,
+        visibility: manual.visibility,
+        team: { ownerId: manual.team.ownerId, members: role ? [{ role }] : [] },
+        shares: manual.shares.filter((share) => share.userId === userId),
+      },
+      userId
+    )
+    if (permission === 'OWNER' || permission === 'EDITOR') {
+      result.push(user)
+    }
+  }
+
+  return result.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * IDs of the users who review drafts of a manual
+ * Designated reviewers that can still edit it, otherwise the manual owner.
+ */
+export async function getReviewerIds(manualId: string): Promise<string[]> {
+  const [manual, designated, editors] = await Promise.all([
+    prisma.manual.findUnique({ where: { id: manualId }, select: { ownerId: true } }),
+    prisma.manualReviewer.findMany({ where: { manualId }, select: { userId: true } }),
+    getEditorUsers(manualId),
+  ])
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  const editorIds = new Set(editors.map((user) => user.id))
+  const reviewerIds = designated.map((reviewer) => reviewer.userId).filter((id) => editorIds.has(id))
+
+  return reviewerIds.length > 0 ? reviewerIds : [manual.ownerId]
+}
+
+/**
+ * Replace the designated reviewers of a manual (each must be able to edit it)
+ */
+export async function setReviewers(manualId: string, userIds: string[]) {
+  const ids = Array.from(new Set(userIds))
+  const editorIds = new Set((await getEditorUsers(manualId)).map((user) => user.id))
+
+  if (ids.some((id) => !editorIds.has(id))) {
+    throw new ForbiddenError('편집 권한이 있는 사용자만 검토자로 지정할 수 있습니다')
+  }
+
+  await prisma.$transaction([
+    prisma.manualReviewer.deleteMany({ where: { manualId, userId: { notIn: ids } } }),
+    prisma.manualReviewer.createMany({
+      data: ids.map((userId) => ({ manualId, userId })),
+      skipDuplicates: true,
+    }),
+  ])
+}
+
+/**
+ * Submit the current draft for review
+ * Only one review can be pending at a time.
+ */
+export async function submitForReview(manualId: string, userId: string, message?: string) {
+  const pending = await prisma.manualReview.findFirst({
+    where: { manualId, status: 'PENDING' },
+    select: { id: true },
+  })
+  if (pending) {
+    throw new ConflictError('이미 검토 대기 중인 요청이 있습니다')
+  }
+
+  const snapshot = await buildManualSnapshot(manualId)
+
+  return prisma.manualReview.create({
+    data: {
+      manualId,
+      requestedById: userId,
+      message: message || null,
+      contentHash: hashSnapshot(JSON.stringify(snapshot)),
+    },
+    include: REVIEW_INCLUDE,
+  })
+}
+
+/**
+ * Approve (publish the draft as a named version), request changes, or cancel a pending review
+ * Approval fails with a ConflictError if the draft changed after it was submitted,
+ * so reviewers never publish content they have not seen.
+ */
+export async function decideReview(
+  manualId: string,
+  reviewId: string,
+  userId: string,
+  input: z.infer<typeof decideReviewSchema>
+) {
+  const review = await prisma.manualReview.findFirst({
+    where: { id: reviewId, manualId },
+  })
+
+  if (!review) {
+    throw new NotFoundError('검토 요청을 찾을 수 없습니다')
+  }
+  if (review.status !== 'PENDING') {
+    throw new ConflictError('이미 처리된 검토 요청입니다')
+  }
+
+  if (input.action === 'cancel') {
+    if (review.requestedById !== userId) {
+      throw new ForbiddenError('검토 요청자만 취소할 수 있습니다')
+    }
+  } else if (!(await getReviewerIds(manualId)).includes(userId)) {
+    throw new ForbiddenError('이 메뉴얼의 검토자가 아닙니다')
+  }
+
+  let versionId: string | null = null
+  if (input.action === 'approve') {
+    const snapshot = await buildManualSnapshot(manualId)
+    if (hashSnapshot(JSON.stringify(snapshot)) !== review.contentHash) {
+      throw new ConflictError('검토 요청 이후 초안이 변경되었습니다. 변경 내용을 확인한 뒤 다시 요청해주세요')
+    }
+
+    const version = await createManualVersion(manualId, userId, {
+      kind: 'NAMED',
+      summary: input.summary || review.message || '게시',
+      snapshot,
+    })
+    versionId = version.id
+  }
+
+  const status = { approve: 'APPROVED', request_changes: 'CHANGES_REQUESTED', cancel: 'CANCELLED' } as const
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the review so concurrent decisions cannot both apply
+    const { count } = await tx.manualReview.updateMany({
+      where: { id: reviewId, status: 'PENDING' },
+      data: {
+        status: status[input.action],
+        comment: input.comment || null,
+        reviewedById: input.action === 'cancel' ? null : userId,
+        reviewedAt: new Date(),
+        versionId,
+      },
+    })
+    if (count === 0) {
+      throw new ConflictError('이미 처리된 검토 요청입니다')
+    }
+
+    if (versionId) {
+      await tx.manual.update({
+        where: { id: manualId },
+        data: { publishedVersionId: versionId, publishedAt: new Date() },
+      })
+    }
+
+    return tx.manualReview.findUniqueOrThrow({
+      where: { id: reviewId },
+      include: REVIEW_INCLUDE,
+    })
+  })
+}
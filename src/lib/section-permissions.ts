@@ -0,0 +1,275 @@
+/**
+ * Section-level access control
+ * A restricted section narrows the manual permission for itself and all descendants.
+ * Only users/roles matched by one of its rules keep access, capped at the rule permission.
+ * Manual OWNERs (owner, team owners) are never restricted.
+ */
+
+import { prisma } from './prisma'
+import { ForbiddenError, NotFoundError } from './errors'
+import {
+  PERMISSION_RANK,
+  manualAccessInclude,
+  resolveManualPermission,
+  toPermissionResult,
+  type Permission,
+  type ManualAccessInfo,
+  type PermissionResult,
+} from './permissions'
+import type { ManualSnapshot } from './versions'
+
+export interface SectionAccessRuleInfo {
+  userId: string | null
+  role: string | null
+  permission: string
+}
+
+export interface SectionAccessNode {
+  id: string
+  parentId: string | null
+  restricted: boolean
+  accessRules: SectionAccessRuleInfo[]
+}
+
+/**
+ * The user a section permission is resolved for
+ * `userId: null` is an anonymous viewer (external share links)
+ */
+export interface SectionViewer {
+  userId: string | null
+  teamRole: string | null
+  permission: Permission
+}
+
+export const SECTION_ACCESS_SELECT = {
+  id: true,
+  parentId: true,
+  restricted: true,
+  accessRules: {
+    select: {
+      userId: true,
+      role: true,
+      permission: true,
+    },
+  },
+} as const
+
+function minPermission(a: Permission, b: Permission): Permission {
+  return PERMISSION_RANK[a] <= PERMISSION_RANK[b] ? a : b
+}
+
+/**
+ * Highest permission granted to the viewer by a restricted section's rules
+ */
+function ruleGrant(rules: SectionAccessRuleInfo[], viewer: SectionViewer): Permission {
+  let grant: Permission = 'NONE'
+
+  for (const rule of rules) {
+    const matches =
+      (rule.userId !== null && rule.userId === viewer.userId) ||
+      (rule.role !== null && rule.role === viewer.teamRole)
+
+    if (matches && (rule.permission === 'EDITOR' || rule.permission === 'VIEWER')) {
+      if (PERMISSION_RANK[rule.permission] > PERMISSION_RANK[grant]) {
+        grant = rule.permission
+      }
+    }
+  }
+
+  return grant
+}
+
+/**
+ * Resolve the effective permission of every section
+ */
+export function resolveSectionPermissions(
+  sections: SectionAccessNode[],
+  viewer: SectionViewer
+): Map<string, Permission> {
+  const result = new Map<string, Permission>()
+
+  if (viewer.permission === 'OWNER') {
+    sections.forEach((section) => result.set(section.id, 'OWNER'))
+    return result
+  }
+
+  const byId = new Map(sections.map((section) => [section.id, section]))
+
+  const resolve = (section: SectionAccessNode): Permission => {
+    const cached = result.get(section.id)
+    if (cached) return cached
+
+    const parent = section.parentId ? byId.get(section.parentId) : undefined
+    let permission = parent ? resolve(parent) : viewer.permission
+
+    if (section.restricted) {
+      permission = minPermission(permission, ruleGrant(section.accessRules, viewer))
+    }
+
+    result.set(section.id, permission)
+    return permission
+  }
+
+  sections.forEach(resolve)
+  return result
+}
+
+/**
+ * Build the viewer for a manual loaded with manualAccessInclude
+ */
+export function getSectionViewer(
+  manual: ManualAccessInfo,
+  userId: string,
+  access: PermissionResult
+): SectionViewer {
+  return {
+    userId,
+    teamRole: manual.team.ownerId === userId ? 'OWNER' : manual.team.members[0]?.role ?? null,
+    permission: access.permission,
+  }
+}
+
+/**
+ * Load and resolve section permissions of a manual
+ */
+export async function getSectionPermissions(
+  manualId: string,
+  viewer: SectionViewer
+): Promise<Map<string, Permission>> {
+  if (viewer.permission === 'OWNER' || viewer.permission === 'NONE') {
+    const sections = await prisma.manualSection.findMany({
+      where: { manualId },
+      select: { id: true },
+    })
+    return new Map(sections.map((section) => [section.id, viewer.permission]))
+  }
+
+  const sections = await prisma.manualSection.findMany({
+    where: { manualId },
+    select: SECTION_ACCESS_SELECT,
+  })
+
+  return resolveSectionPermissions(sections, viewer)
+}
+
+export function canViewSection(permission: Permission | undefined): boolean {
+  return permission !== undefined && permission !== 'NONE'
+}
+
+export function canEditSection(permission: Permission | undefined): boolean {
+  return permission === 'OWNER' || permission === 'EDITOR'
+}
+
+/**
+ * IDs of a section and all its descendants
+ */
+export function collectSectionSubtree(
+  sections: Array<{ id: string; parentId: string | null }>,
+  rootId: string
+): string[] {
+  const ids = [rootId]
+  for (let i = 0; i < ids.length; i++) {
+    sections.forEach((section) => {
+      if (section.parentId === ids[i]) ids.push(section.id)
+    })
+  }
+  return ids
+}
+
+/**
+ * Ensure the viewer may view/edit the given sections of a manual
+ * Throws NotFoundError if a section does not belong to the manual
+ */
+export async function requireSectionAccess(
+  manualId: string,
+  sectionIds: string[],
+  viewer: SectionViewer,
+  action: 'view' | 'edit'
+): Promise<Map<string, Permission>> {
+  const permissions = await getSectionPermissions(manualId, viewer)
+
+  for (const sectionId of sectionIds) {
+    const permission = permissions.get(sectionId)
+
+    if (!canViewSection(permission)) {
+      throw new NotFoundError('섹션을 찾을 수 없습니다')
+    }
+
+    if (action === 'edit' && !canEditSection(permission)) {
+      throw new ForbiddenError('이 섹션을 편집할 권한이 없습니다')
+    }
+  }
+
+  return permissions
+}
+
+type SectionTreeNode = { id: string; children?: SectionTreeNode[] }
+
+/**
+ * Drop sections the viewer cannot see (with their subtree) and mark editable ones
+ */
+export function filterSectionTree<T extends SectionTreeNode>(
+  sections: T[],
+  permissions: Map<string, Permission>
+): Array<T & { canEdit: boolean }> {
+  return sections
+    .filter((section) => canViewSection(permissions.get(section.id)))
+    .map((section) => ({
+      ...section,
+      canEdit: canEditSection(permissions.get(section.id)),
+      ...(section.children ? { children: filterSectionTree(section.children, permissions) } : {}),
+    }))
+}
+
+/**
+ * IDs of sections the user cannot see, across several manuals
+ * Only manuals that contain restricted sections are resolved
+ */
+export async function getHiddenSectionIds(
+  userId: string,
+  manualIds: string[]
+): Promise<Set<string>> {
+  const hidden = new Set<string>()
+  if (manualIds.length === 0) return hidden
+
+  const manuals = await prisma.manual.findMany({
+    where: {
+      id: { in: manualIds },
+      sections: { some: { restricted: true } },
+    },
+    include: manualAccessInclude(userId),
+  })
+
+  for (const manual of manuals) {
+    const access = toPermissionResult(resolveManualPermission(manual, userId))
+    const permissions = await getSectionPermissions(manual.id, getSectionViewer(manual, userId, access))
+    permissions.forEach((permission, sectionId) => {
+      if (!canViewSection(permission)) hidden.add(sectionId)
+    })
+  }
+
+  return hidden
+}
+
+/**
+ * Drop sections of a version snapshot the viewer could not see
+ * Uses the restrictions stored in the snapshot itself (older snapshots have none)
+ */
+export function filterSnapshotSections<T extends ManualSnapshot>(snapshot: T, viewer: SectionViewer): T {
+  if (viewer.permission === 'OWNER') return snapshot
+
+  const permissions = resolveSectionPermissions(
+    snapshot.sections.map((section) => ({
+      id: section.id,
+      parentId: section.parentId,
+      restricted: section.restricted ?? false,
+      accessRules: section.accessRules ?? [],
+    })),
+    viewer
+  )
+
+  return {
+    ...snapshot,
+    sections: snapshot.sections.filter((section) => canViewSection(permissions.get(section.id))),
+  }
+}
@@ -0,0 +1,181 @@
+import { prisma } from '@/test/prisma'
+import { beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConflictError } from './errors'
+import { createSuggestion, reviewSuggestions } from './suggestions'
+import { encodeKeyframe } from './version-storage'
+import type { SectionViewer } from './section-permissions'
+
+const VIEWER: SectionViewer = { userId: 'viewer', teamRole: 'VIEWER', permission: 'VIEWER' }
+const OTHER_VIEWER: SectionViewer = { userId: 'other-viewer', teamRole: 'VIEWER', permission: 'VIEWER' }
+const OWNER: SectionViewer = { userId: 'owner', teamRole: 'OWNER', permission: 'OWNER' }
+
+interface BlockRow {
+  id: string
+  sectionId: string
+  type: string
+  content: string
+  order: number
+  revision: number
+}
+
+interface SuggestionRow {
+  id: string
+  manualId: string
+  authorId: string
+  change: unknown
+  baseContent: string | null
+  status: string
+  sectionId: string | null
+  blockId: string | null
+  createdAt: Date
+}
+
+let blocks: BlockRow[] = []
+let suggestions: SuggestionRow[] = []
+let published = ''
+let publishedVersionId = ''
+let publishCount = 0
+
+const findBlock = (id: string) => blocks.find((block) => block.id === id) ?? null
+
+function publishBlock() {
+  published = findBlock('block-1')!.content
+  publishedVersionId = `version-${++publishCount}`
+}
+
+// Draft edit by an editor, as the changes endpoint makes it
+function editBlock(content: string) {
+  const block = findBlock('block-1')!
+  block.content = content
+  block.revision++
+}
+
+beforeEach(() => {
+  blocks = [{ id: 'block-1', sectionId: 'intro', type: 'BODY', content: '<p>Original</p>', order: 0, revision: 1 }]
+  suggestions = []
+  publishBlock()
+
+  prisma.manualSection = {
+    findMany: async () => [{ id: 'intro', parentId: null, restricted: false, accessRules: [] }],
+  }
+  prisma.manual = { findUnique: async () => ({ publishedVersionId, publishedAt: new Date() }) }
+  prisma.manualVersion = {
+    findUnique: async () => ({
+      id: publishedVersionId,
+      ...encodeKeyframe({
+        title: 'Handbook',
+        sections: [
+          {
+            id: 'intro',
+            title: 'Intro',
+            order: 0,
+            depth: 1,
+            parentId: null,
+            blocks: [{ id: 'block-1', type: 'BODY', content: published, order: 0 }],
+          },
+        ],
+      }),
+    }),
+  }
+  prisma.contentBlock = {
+    findFirst: async ({ where }: { where: { id: string } }) => findBlock(where.id),
+    findUnique: async ({ where }: { where: { id: string } }) => findBlock(where.id),
+    findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+      blocks.filter((block) => where.id.in.includes(block.id)),
+    updateMany: async ({ where, data }: { where: { id: string; revision?: number }; data: { content?: string } }) => {
+      const block = findBlock(where.id)
+      if (!block || (where.revision !== undefined && block.revision !== where.revision)) return { count: 0 }
+      if (data.content !== undefined) block.content = data.content
+      block.revision++
+      return { count: 1 }
+    },
+  }
+  prisma.suggestion = {
+    findMany: async ({ where }: { where: { id?: { in: string[] }; authorId?: string; blockId?: string } }) =>
+      suggestions.filter(
+        (suggestion) =>
+          (!where.id || where.id.in.includes(suggestion.id)) &&
+          (!where.authorId || (suggestion.authorId === where.authorId && suggestion.blockId === where.blockId))
+      ),
+    create: async ({ data }: { data: Omit<SuggestionRow, 'id' | 'status' | 'createdAt'> }) => {
+      const suggestion = {
+        id: `suggestion-${suggestions.length + 1}`,
+        status: 'PENDING',
+        createdAt: new Date(Date.now() + suggestions.length),
+        ...data,
+      }
+      suggestions.push(suggestion)
+      return suggestion
+    },
+    update: async ({ where, data }: { where: { id: string }; data: { change: unknown } }) =>
+      Object.assign(suggestions.find((suggestion) => suggestion.id === where.id)!, data),
+    updateMany: async ({ where, data }: { where: { id: { in: string[] } }; data: { status: string } }) => {
+      const pending = suggestions.filter((suggestion) => where.id.in.includes(suggestion.id) && suggestion.status === 'PENDING')
+      pending.forEach((suggestion) => Object.assign(suggestion, data))
+      return { count: pending.length }
+    },
+  }
+  prisma.$transaction = async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma)
+})
+
+const suggest = async (content: string, viewer = VIEWER) =>
+  (await createSuggestion('manual-1', viewer.userId!, { op: 'block.update', id: 'block-1', content }, viewer))!
+
+const accept = (ids: string[]) =>
+  reviewSuggestions('manual-1', ids, 'accept', { userId: 'owner', viewer: OWNER })
+
+async function acceptConflict(ids: string[]) {
+  try {
+    await accept(ids)
+  } catch (error) {
+    assert.ok(error instanceof ConflictError)
+    return error.current as { suggestionId?: string; block: BlockRow | null }
+  }
+  assert.fail('expected a conflict')
+}
+
+describe('accepting block update suggestions', () => {
+  test('applies the suggestion when the block is unchanged', async () => {
+    const suggestion = await suggest('<p>Suggested</p>')
+    assert.equal(suggestion.baseContent, '<p>Original</p>')
+
+    await accept([suggestion.id])
+    assert.equal(findBlock('block-1')!.content, '<p>Suggested</p>')
+  })
+
+  test('conflicts when the block was edited after the suggestion', async () => {
+    const suggestion = await suggest('<p>Suggested</p>')
+    editBlock('<p>Draft edit</p>')
+
+    const current = await acceptConflict([suggestion.id])
+    assert.equal(current.suggestionId, suggestion.id)
+    assert.equal(current.block?.content, '<p>Draft edit</p>')
+    assert.equal(findBlock('block-1')!.content, '<p>Draft edit</p>')
+  })
+
+  test('conflicts when the draft already differed from the published text', async () => {
+    editBlock('<p>Unpublished edit</p>')
+    const suggestion = await suggest('<p>Suggested</p>')
+    assert.equal(suggestion.baseContent, '<p>Original</p>')
+
+    assert.equal((await acceptConflict([suggestion.id])).suggestionId, suggestion.id)
+  })
+
+  test('a second suggestion on the same block conflicts with the first', async () => {
+    const first = await suggest('<p>First</p>')
+    const second = await suggest('<p>Second</p>', OTHER_VIEWER)
+
+    assert.equal((await acceptConflict([first.id, second.id])).suggestionId, second.id)
+  })
+
+  test('a revised suggestion keeps its base', async () => {
+    const suggestion = await suggest('<p>Suggested</p>')
+    editBlock('<p>Draft edit</p>')
+    publishBlock()
+
+    const revised = await suggest('<p>Suggested again</p>')
+    assert.equal(revised.id, suggestion.id)
+    assert.equal(revised.baseContent, '<p>Original</p>')
+  })
+})
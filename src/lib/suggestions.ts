@@ -0,0 +1,364 @@
+/**
+ * Suggestion mode (track changes)
+ * Anyone who can view a section, VIEWERs included, may propose block and section
+ * changes instead of applying them. A suggestion holds one manual change; owners and
+ * editors accept it (applied like their own edit) or reject it.
+ * Block updates remember the content their author saw (the published revision for
+ * users who cannot edit); accepting one after the block changed is a conflict.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from './errors'
+import { canViewSection, getSectionPermissions, requireSectionAccess, type SectionViewer } from './section-permissions'
+import { getPublishedContent } from './publication'
+import {
+  BLOCK_SELECT,
+  applyManualChangesInTransaction,
+  manualChangeSchema,
+  requireChangesAccess,
+  type ManualChange,
+  type ManualChangesResult,
+} from './manual-changes'
+
+const SUGGESTION_OPS = [
+  'block.create',
+  'block.update',
+  'block.delete',
+  'section.create',
+  'section.update',
+  'section.delete',
+] as const
+
+export const suggestionChangeSchema = manualChangeSchema.refine(
+  (change) => (SUGGESTION_OPS as readonly string[]).includes(change.op),
+  { message: '순서 변경은 제안할 수 없습니다' }
+)
+
+export const reviewSuggestionsSchema = z.object({
+  ids: z.array(z.string()).min(1, '제안을 선택해주세요').max(500),
+  action: z.enum(['accept', 'reject']),
+})
+
+export const SUGGESTION_INCLUDE = {
+  author: { select: { id: true, name: true, profileImage: true } },
+  reviewedBy: { select: { id: true, name: true, profileImage: true } },
+} as const
+
+type SuggestionTarget = { sectionId: string | null; blockId: string | null }
+
+/**
+ * Keep only what a suggestion may change
+ * Orders and revisions are left out: suggested blocks are appended, and block
+ * updates are checked against their base content when accepted.
+ */
+function normalizeChange(change: ManualChange): ManualChange {
+  switch (change.op) {
+    case 'block.create':
+      return { op: change.op, tempId: change.tempId, sectionId: change.sectionId, type: change.type, content: change.content }
+    case 'block.update':
+      if (change.content === undefined) {
+        throw new BadRequestError('수정할 내용이 없습니다')
+      }
+      return { op: change.op, id: change.id, content: change.content }
+    case 'section.update':
+      if (change.title === undefined) {
+        throw new BadRequestError('수정할 제목이 없습니다')
+      }
+      return { op: change.op, id: change.id, title: change.title }
+    default:
+      return change
+  }
+}
+
+/**
+ * Section and block a change applies to (must exist in the manual)
+ */
+async function resolveTarget(manualId: string, change: ManualChange): Promise<SuggestionTarget> {
+  const requireSectionExists = async (sectionId: string) => {
+    const section = await prisma.manualSection.findFirst({
+      where: { id: sectionId, manualId },
+      select: { id: true },
+    })
+    if (!section) {
+      throw new NotFoundError('섹션을 찾을 수 없습니다')
+    }
+  }
+
+  switch (change.op) {
+    case 'block.create':
+      await requireSectionExists(change.sectionId)
+      return { sectionId: change.sectionId, blockId: null }
+    case 'block.update':
+    case 'block.delete': {
+      const block = await prisma.contentBlock.findFirst({
+        where: { id: change.id, section: { manualId } },
+        select: { id: true, sectionId: true },
+      })
+      if (!block) {
+        throw new NotFoundError('블록을 찾을 수 없습니다')
+      }
+      return { sectionId: block.sectionId, blockId: block.id }
+    }
+    case 'section.create':
+      if (change.parentId) {
+        await requireSectionExists(change.parentId)
+      }
+      return { sectionId: change.parentId ?? null, blockId: null }
+    case 'section.update':
+    case 'section.delete':
+      await requireSectionExists(change.id)
+      return { sectionId: change.id, blockId: null }
+    default:
+      throw new BadRequestError('순서 변경은 제안할 수 없습니다')
+  }
+}
+
+/**
+ * Content of the block as the author sees it: the published revision for users
+ * who cannot edit, the draft for editors
+ */
+async function getBaseContent(manualId: string, blockId: string, viewer: SectionViewer): Promise<string> {
+  const published = await getPublishedContent(manualId, viewer)
+  const content = published
+    ? published.blocks.get(blockId)?.content
+    : (await prisma.contentBlock.findUnique({ where: { id: blockId }, select: { content: true } }))?.content
+
+  if (content === undefined) {
+    throw new NotFoundError('블록을 찾을 수 없습니다')
+  }
+  return content
+}
+
+/**
+ * Whether an update suggests what the block (as the author saw it) or section already has
+ */
+async function matchesCurrent(change: ManualChange, baseContent: string | null): Promise<boolean> {
+  if (change.op === 'block.update') {
+    return baseContent === change.content
+  }
+  if (change.op === 'section.update') {
+    const section = await prisma.manualSection.findUnique({ where: { id: change.id }, select: { title: true } })
+    return section?.title === change.title
+  }
+  return false
+}
+
+/**
+ * Record a suggested change
+ * Edits of the same block or section title by the same author update their pending
+ * suggestion; an edit back to the current content withdraws it (returns null).
+ */
+export async function createSuggestion(
+  manualId: string,
+  authorId: string,
+  input: ManualChange,
+  viewer: SectionViewer
+) {
+  const change = normalizeChange(input)
+  const target = await resolveTarget(manualId, change)
+
+  if (target.sectionId) {
+    await requireSectionAccess(manualId, [target.sectionId], viewer, 'view')
+
+    const published = await getPublishedContent(manualId, viewer)
+    if (published && !published.sectionIds.has(target.sectionId)) {
+      throw new NotFoundError('섹션을 찾을 수 없습니다')
+    }
+  }
+
+  const baseContent = change.op === 'block.update' ? await getBaseContent(manualId, change.id, viewer) : null
+
+  if (change.op !== 'block.create' && change.op !== 'section.create') {
+    const pending = await prisma.suggestion.findMany({
+      where: { manualId, authorId, status: 'PENDING', blockId: target.blockId, sectionId: target.sectionId },
+      include: SUGGESTION_INCLUDE,
+    })
+    const existing = pending.find((suggestion) => (suggestion.change as ManualChange).op === change.op)
+
+    if (change.op === 'block.delete' || change.op === 'section.delete') {
+      if (existing) return existing
+    } else {
+      if (await matchesCurrent(change, baseContent)) {
+        if (existing) {
+          await prisma.suggestion.delete({ where: { id: existing.id } })
+        }
+        return null
+      }
+
+      // A revised suggestion keeps the base it was first written against
+      if (existing) {
+        return prisma.suggestion.update({
+          where: { id: existing.id },
+          data: { change },
+          include: SUGGESTION_INCLUDE,
+        })
+      }
+    }
+  }
+
+  return prisma.suggestion.create({
+    data: {
+      manualId,
+      authorId,
+      change,
+      baseContent,
+      sectionId: target.sectionId,
+      blockId: target.blockId,
+    },
+    include: SUGGESTION_INCLUDE,
+  })
+}
+
+/**
+ * Suggestions as the viewer may see them
+ * Drops suggestions on sections the viewer cannot see and, for users who cannot
+ * edit, suggestions on sections and blocks that exist only in the draft.
+ */
+export async function filterVisibleSuggestions<T extends SuggestionTarget>(
+  manualId: string,
+  suggestions: T[],
+  viewer: SectionViewer
+): Promise<T[]> {
+  const permissions = await getSectionPermissions(manualId, viewer)
+  const published = await getPublishedContent(manualId, viewer)
+
+  return suggestions.filter(
+    (suggestion) =>
+      (!suggestion.sectionId ||
+        (canViewSection(permissions.get(suggestion.sectionId)) &&
+          (!published || published.sectionIds.has(suggestion.sectionId)))) &&
+      (!suggestion.blockId || !published || published.blocks.has(suggestion.blockId))
+  )
+}
+
+/**
+ * A pending suggestion of the manual written by the user
+ */
+export async function findOwnPendingSuggestion(manualId: string, suggestionId: string, userId: string) {
+  const suggestion = await prisma.suggestion.findFirst({
+    where: { id: suggestionId, manualId },
+  })
+
+  if (!suggestion) {
+    throw new NotFoundError('제안을 찾을 수 없습니다')
+  }
+  if (suggestion.authorId !== userId) {
+    throw new ForbiddenError('제안 작성자만 할 수 있습니다')
+  }
+  if (suggestion.status !== 'PENDING') {
+    throw new ConflictError('이미 처리된 제안입니다')
+  }
+
+  return suggestion
+}
+
+/**
+ * Change the content of a suggested block or the title of a suggested section
+ */
+export function reviseSuggestedChange(
+  change: ManualChange,
+  patch: { content?: string; title?: string }
+): ManualChange {
+  if ((change.op === 'block.create' || change.op === 'block.update') && patch.content !== undefined) {
+    return { ...change, content: patch.content }
+  }
+  if ((change.op === 'section.create' || change.op === 'section.update') && patch.title) {
+    return { ...change, title: patch.title }
+  }
+  throw new BadRequestError('이 제안은 수정할 수 없습니다')
+}
+
+/**
+ * Changes of accepted suggestions, with block updates pinned to the current revision
+ * A block whose content differs from the suggestion's base was changed after the
+ * suggestion was made; later suggestions on a block changed earlier in the same
+ * batch fail on the pinned revision.
+ */
+async function pinSuggestedChanges(
+  tx: Prisma.TransactionClient,
+  manualId: string,
+  suggestions: Array<{ id: string; change: Prisma.JsonValue; baseContent: string | null }>
+): Promise<ManualChange[]> {
+  const changes: ManualChange[] = []
+
+  for (const [index, suggestion] of suggestions.entries()) {
+    const change = suggestion.change as ManualChange
+    if (change.op !== 'block.update' || suggestion.baseContent === null) {
+      changes.push(change)
+      continue
+    }
+
+    const block = await tx.contentBlock.findFirst({
+      where: { id: change.id, section: { manualId } },
+      select: BLOCK_SELECT,
+    })
+    if (block && block.content !== suggestion.baseContent) {
+      throw new ConflictError('제안 이후 다른 사용자가 이 블록을 수정했습니다', { index, block })
+    }
+    changes.push(block ? { ...change, revision: block.revision } : change)
+  }
+
+  return changes
+}
+
+/**
+ * Accept (apply in order, all or nothing) or reject pending suggestions
+ * A suggestion that is no longer pending, or whose change conflicts with the
+ * current manual, fails the whole request with a ConflictError naming it.
+ */
+export async function reviewSuggestions(
+  manualId: string,
+  suggestionIds: string[],
+  action: 'accept' | 'reject',
+  reviewer: { userId: string; viewer: SectionViewer }
+): Promise<ManualChangesResult | null> {
+  const ids = Array.from(new Set(suggestionIds))
+  const suggestions = await prisma.suggestion.findMany({
+    where: { id: { in: ids }, manualId },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  if (suggestions.length !== ids.length) {
+    throw new NotFoundError('제안을 찾을 수 없습니다')
+  }
+
+  const changes = suggestions.map((suggestion) => suggestion.change as ManualChange)
+  if (action === 'accept') {
+    await requireChangesAccess(manualId, changes, reviewer.viewer, reviewer.userId)
+  } else {
+    const sectionIds = suggestions.flatMap((suggestion) => (suggestion.sectionId ? [suggestion.sectionId] : []))
+    await requireSectionAccess(manualId, Array.from(new Set(sectionIds)), reviewer.viewer, 'edit')
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the suggestions first so concurrent reviews cannot apply one twice
+    const { count } = await tx.suggestion.updateMany({
+      where: { id: { in: ids }, manualId, status: 'PENDING' },
+      data: {
+        status: action === 'accept' ? 'ACCEPTED' : 'REJECTED',
+        reviewedById: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+    })
+    if (count !== ids.length) {
+      throw new ConflictError('이미 처리된 제안이 있습니다')
+    }
+
+    if (action === 'reject') return null
+
+    try {
+      return await applyManualChangesInTransaction(tx, manualId, await pinSuggestedChanges(tx, manualId, suggestions))
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        const index = (error.current as { index?: number } | undefined)?.index
+        throw new ConflictError(error.message, {
+          ...(error.current as Record<string, unknown>),
+          suggestionId: index !== undefined ? suggestions[index]?.id : undefined,
+        })
+      }
+      throw error
+    }
+  }, { timeout: 30000 })
+}
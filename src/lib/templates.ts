@@ -0,0 +1,298 @@
+/**
+ * Manual templates
+ * A template stores the section tree and blocks of a manual without IDs. Teams save
+ * their own from existing manuals; built-in ones are defined in builtin-templates.
+ */
+
+import type { BlockType, Prisma, Permission as PermissionLevel, Role } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { NotFoundError } from './errors'
+import type { Permission } from './permissions'
+import { canViewSection } from './section-permissions'
+import { BUILTIN_TEMPLATES } from './builtin-templates'
+
+// Plain types (not interfaces) so template content can be stored as Prisma JSON
+export type TemplateBlock = {
+  type: BlockType
+  content: string
+}
+
+export type TemplateSection = {
+  title: string
+  blocks: TemplateBlock[]
+  children: TemplateSection[]
+  // Kept when duplicating sections, never stored in templates
+  restricted?: boolean
+  accessRules?: Array<{ userId: string | null; role: Role | null; permission: PermissionLevel }>
+}
+
+export type TemplateContent = {
+  sections: TemplateSection[]
+}
+
+export const saveTemplateSchema = z.object({
+  name: z.string().min(1, '템플릿 이름을 입력해주세요').max(100, '이름은 최대 100자까지 입력 가능합니다'),
+  description: z.string().max(500, '설명은 최대 500자까지 입력 가능합니다').optional(),
+})
+
+export interface TemplateSummary {
+  id: string
+  name: string
+  description: string | null
+  builtin: boolean
+  sectionCount: number
+  createdBy: { id: string; name: string } | null
+  createdAt: string | null
+}
+
+function countSections(sections: TemplateSection[]): number {
+  return sections.reduce((count, section) => count + 1 + countSections(section.children), 0)
+}
+
+/**
+ * Built-in templates followed by the team's own
+ */
+export async function listTemplates(teamId: string): Promise<TemplateSummary[]> {
+  const templates = await prisma.manualTemplate.findMany({
+    where: { teamId },
+    include: { createdBy: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return [
+    ...BUILTIN_TEMPLATES.map((template) => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      builtin: true,
+      sectionCount: countSections(template.content.sections),
+      createdBy: null,
+      createdAt: null,
+    })),
+    ...templates.map((template) => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      builtin: false,
+      sectionCount: countSections((template.content as unknown as TemplateContent).sections),
+      createdBy: template.createdBy,
+      createdAt: template.createdAt.toISOString(),
+    })),
+  ]
+}
+
+/**
+ * Content of a built-in template or a template of the team
+ */
+export async function getTemplateContent(templateId: string, teamId: string): Promise<TemplateContent> {
+  const builtin = BUILTIN_TEMPLATES.find((template) => template.id === templateId)
+  if (builtin) return builtin.content
+
+  const template = await prisma.manualTemplate.findFirst({
+    where: { id: templateId, teamId },
+    select: { content: true },
+  })
+
+  if (!template) {
+    throw new NotFoundError('템플릿을 찾을 수 없습니다')
+  }
+
+  return template.content as unknown as TemplateContent
+}
+
+interface TemplateFromManualOptions {
+  /** Only this section and its descendants */
+  rootSectionId?: string
+  /** Resolved section permissions; sections the user cannot see are left out */
+  permissions?: Map<string, Permission>
+  /** Keep section restrictions and access rules */
+  withAccess?: boolean
+  /** Leave out restricted sections with their descendants (content the whole team can read) */
+  skipRestricted?: boolean
+}
+
+/**
+ * Section tree and blocks of a manual as template content
+ */
+export async function templateFromManual(
+  manualId: string,
+  options: TemplateFromManualOptions = {}
+): Promise<TemplateContent> {
+  const sections = await prisma.manualSection.findMany({
+    where: { manualId },
+    select: {
+      id: true,
+      title: true,
+      parentId: true,
+      restricted: true,
+      accessRules: {
+        select: { userId: true, role: true, permission: true },
+      },
+      blocks: {
+        select: { type: true, content: true },
+        orderBy: { order: 'asc' },
+      },
+    },
+    orderBy: { order: 'asc' },
+  })
+
+  const { rootSectionId, permissions, withAccess, skipRestricted } = options
+  // Descendants are only reached through their parent, so they are left out with it
+  const visible = sections.filter(
+    (section) =>
+      (!permissions || canViewSection(permissions.get(section.id))) && !(skipRestricted && section.restricted)
+  )
+
+  const toTemplate = (section: (typeof sections)[number]): TemplateSection => ({
+    title: section.title,
+    blocks: section.blocks,
+    children: build(section.id),
+    ...(withAccess ? { restricted: section.restricted, accessRules: section.accessRules } : {}),
+  })
+  const build = (parentId: string): TemplateSection[] =>
+    visible.filter((section) => section.parentId === parentId).map(toTemplate)
+
+  if (rootSectionId) {
+    const root = visible.find((section) => section.id === rootSectionId)
+    if (!root) {
+      throw new NotFoundError('섹션을 찾을 수 없습니다')
+    }
+    return { sections: [toTemplate(root)] }
+  }
+
+  return { sections: visible.filter((section) => !section.parentId).map(toTemplate) }
+}
+
+/**
+ * Number of levels of a section tree (1 for sections without children)
+ */
+export function templateDepth(sections: TemplateSection[]): number {
+  return sections.reduce((max, section) => Math.max(max, 1 + templateDepth(section.children)), 0)
+}
+
+/**
+ * Content of a copied block in the given manual
+ * IMAGE blocks get their own File record; it references the same stored file, so
+ * nothing is re-uploaded and the copy keeps working if the source manual is deleted.
+ */
+export async function copyBlockContent(
+  tx: Prisma.TransactionClient,
+  block: TemplateBlock,
+  manualId: string,
+  userId: string
+): Promise<string> {
+  const { content } = block
+  if (block.type !== 'IMAGE') return content
+
+  let image: { fileId?: string } & Record<string, unknown>
+  try {
+    image = JSON.parse(content)
+  } catch (e) {
+    return content
+  }
+  if (!image?.fileId) return content
+
+  const file = await tx.file.findUnique({ where: { id: image.fileId } })
+  if (!file) return content
+
+  const copy = await tx.file.create({
+    data: {
+      filename: file.filename,
+      storedFilename: file.storedFilename,
+      mimeType: file.mimeType,
+      size: file.size,
+      path: file.path,
+      width: file.width,
+      height: file.height,
+      uploadedBy: userId,
+      manualId,
+    },
+  })
+
+  return JSON.stringify({ ...image, fileId: copy.id })
+}
+
+interface CopySectionsOptions {
+  /** Parent section of the copies (top level if omitted) */
+  parent?: { id: string; depth: number } | null
+  /** Position of the first copy among its siblings (appended if omitted) */
+  order?: number
+  /** Content of each created block (copyBlockContent if omitted) */
+  blockContent?: (tx: Prisma.TransactionClient, block: TemplateBlock) => Promise<string>
+}
+
+/**
+ * Create the sections and blocks of template content in a manual
+ * Levels beyond the 3-level limit are dropped.
+ * @returns IDs of the created top-level sections
+ */
+export async function copyTemplateSections(
+  tx: Prisma.TransactionClient,
+  manualId: string,
+  userId: string,
+  sections: TemplateSection[],
+  { parent = null, order, blockContent }: CopySectionsOptions = {}
+): Promise<string[]> {
+  const depth = (parent?.depth ?? 0) + 1
+  if (depth > 3 || sections.length === 0) return []
+
+  let firstOrder = order
+  if (firstOrder === undefined) {
+    const last = await tx.manualSection.findFirst({
+      where: { manualId, parentId: parent?.id ?? null },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+    firstOrder = last ? last.order + 1 : 0
+  } else {
+    // Make room among the siblings
+    await tx.manualSection.updateMany({
+      where: { manualId, parentId: parent?.id ?? null, order: { gte: firstOrder } },
+      data: { order: { increment: sections.length } },
+    })
+  }
+
+  const ids: string[] = []
+  for (const [index, section] of sections.entries()) {
+    const created = await tx.manualSection.create({
+      data: {
+        manualId,
+        title: section.title,
+        order: firstOrder + index,
+        depth,
+        parentId: parent?.id ?? null,
+        restricted: section.restricted ?? false,
+      },
+    })
+    ids.push(created.id)
+
+    if (section.accessRules && section.accessRules.length > 0) {
+      await tx.sectionAccessRule.createMany({
+        data: section.accessRules.map((rule) => ({ ...rule, sectionId: created.id })),
+      })
+    }
+
+    const blocks = []
+    for (const [blockOrder, block] of section.blocks.entries()) {
+      blocks.push({
+        sectionId: created.id,
+        type: block.type,
+        order: blockOrder,
+        content: blockContent
+          ? await blockContent(tx, block)
+          : await copyBlockContent(tx, block, manualId, userId),
+      })
+    }
+    if (blocks.length > 0) {
+      await tx.contentBlock.createMany({ data: blocks })
+    }
+
+    await copyTemplateSections(tx, manualId, userId, section.children, {
+      parent: { id: created.id, depth },
+      blockContent,
+    })
+  }
+
+  return ids
+}
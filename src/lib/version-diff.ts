@@ -0,0 +1,448 @@
+/**
+ * Section/block level diff between two manual snapshots
+ * Sections and blocks are matched by ID, so moves are told apart from remove + add
+ */
+
+import type { ManualSnapshot, SnapshotBlock, SnapshotSection } from './versions'
+import { safeJsonParse } from './utils'
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export interface TextDiffPart {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface TableCellDiff {
+  row: number
+  col: number
+  before: string
+  after: string
+  status: DiffStatus
+}
+
+export interface TableDiff {
+  rows: number
+  cols: number
+  cells: TableCellDiff[]
+}
+
+export interface BlockDiff {
+  id: string
+  type: string
+  status: DiffStatus
+  /** Order changed within the section or moved from another section */
+  moved: boolean
+  /** Section the block was in before, when it moved across sections */
+  fromSectionId?: string
+  /** Word diff of the block text (all blocks except TABLE) */
+  text?: TextDiffPart[]
+  /** Cell diff (TABLE blocks) */
+  table?: TableDiff
+  /** Content changed but the visible text did not (e.g. formatting only) */
+  formatOnly?: boolean
+}
+
+export interface SectionDiff {
+  id: string
+  status: DiffStatus
+  /** Parent changed or order changed among siblings */
+  moved: boolean
+  title: string
+  previousTitle?: string
+  depth: number
+  blocks: BlockDiff[]
+}
+
+export interface ManualDiff {
+  title: TextDiffPart[] | null
+  description: TextDiffPart[] | null
+  sections: SectionDiff[]
+  stats: Record<'added' | 'removed' | 'modified' | 'moved', number>
+}
+
+// Above this many token comparisons the word diff falls back to replace-all
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Longest common subsequence of two sequences
+ * @returns Matched index pairs in order
+ */
+function lcs<T>(a: T[], b: T[]): Array<[number, number]> {
+  const n = a.length
+  const m = b.length
+  const table: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const pairs: Array<[number, number]> = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+function pushPart(parts: TextDiffPart[], type: TextDiffPart['type'], text: string) {
+  if (!text) return
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+/**
+ * Word-level diff of two strings (whitespace is kept as its own token)
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const parts: TextDiffPart[] = []
+  if (before === after) {
+    pushPart(parts, 'equal', before)
+    return parts
+  }
+
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+
+  // Common prefix and suffix keep the LCS table small for typical edits
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  pushPart(parts, 'equal', a.slice(0, start).join(''))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'delete', midA.join(''))
+    pushPart(parts, 'insert', midB.join(''))
+  } else {
+    let i = 0
+    let j = 0
+    for (const [pi, pj] of lcs(midA, midB)) {
+      pushPart(parts, 'delete', midA.slice(i, pi).join(''))
+      pushPart(parts, 'insert', midB.slice(j, pj).join(''))
+      pushPart(parts, 'equal', midA[pi])
+      i = pi + 1
+      j = pj + 1
+    }
+    pushPart(parts, 'delete', midA.slice(i).join(''))
+    pushPart(parts, 'insert', midB.slice(j).join(''))
+  }
+
+  pushPart(parts, 'equal', a.slice(endA).join(''))
+  return parts
+}
+
+/**
+ * Visible text of BODY HTML, keeping block boundaries as line breaks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{2,}/g, '\n')
+    .trim()
+}
+
+/**
+ * Comparable text of a block
+ */
+export function blockText(block: Pick<SnapshotBlock, 'type' | 'content'>): string {
+  if (block.type === 'BODY') {
+    return htmlToText(block.content)
+  }
+  if (block.type === 'DIVIDER') {
+    return ''
+  }
+  const parsed = safeJsonParse<{ text?: string; url?: string } | null>(block.content, null)
+  if (parsed && typeof parsed === 'object') {
+    return parsed.text || parsed.url || ''
+  }
+  return block.content
+}
+
+interface TableData {
+  rows: number
+  cols: number
+  cells: Record<string, string>
+}
+
+function parseTable(content: string | undefined): TableData {
+  const parsed = content ? safeJsonParse<Partial<TableData>>(content, {}) : {}
+  return {
+    rows: parsed.rows || 0,
+    cols: parsed.cols || 0,
+    cells: parsed.cells || {},
+  }
+}
+
+/**
+ * Cell-level diff of TABLE block JSON
+ */
+export function diffTable(before: string | undefined, after: string | undefined): TableDiff {
+  const a = parseTable(before)
+  const b = parseTable(after)
+  const rows = Math.max(a.rows, b.rows)
+  const cols = Math.max(a.cols, b.cols)
+  const cells: TableCellDiff[] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const key = `${row}-${col}`
+      const inBefore = row < a.rows && col < a.cols
+      const inAfter = row < b.rows && col < b.cols
+      const beforeValue = inBefore ? a.cells[key] || '' : ''
+      const afterValue = inAfter ? b.cells[key] || '' : ''
+
+      let status: DiffStatus = 'unchanged'
+      if (!inBefore) status = 'added'
+      else if (!inAfter) status = 'removed'
+      else if (beforeValue !== afterValue) status = 'modified'
+
+      cells.push({ row, col, before: beforeValue, after: afterValue, status })
+    }
+  }
+
+  return { rows, cols, cells }
+}
+
+/**
+ * IDs present in both lists whose relative order changed
+ */
+function movedIds(before: string[], after: string[]): Set<string> {
+  const afterSet = new Set(after)
+  const beforeSet = new Set(before)
+  const commonBefore = before.filter((id) => afterSet.has(id))
+  const commonAfter = after.filter((id) => beforeSet.has(id))
+
+  const stable = new Set(lcs(commonBefore, commonAfter).map(([i]) => commonBefore[i]))
+  return new Set(commonBefore.filter((id) => !stable.has(id)))
+}
+
+function diffBlock(before: SnapshotBlock | undefined, after: SnapshotBlock | undefined): BlockDiff {
+  const block = (after ?? before)!
+  const status: DiffStatus = !before
+    ? 'added'
+    : !after
+      ? 'removed'
+      : before.content !== after.content || before.type !== after.type
+        ? 'modified'
+        : 'unchanged'
+
+  const result: BlockDiff = { id: block.id, type: block.type, status, moved: false }
+
+  if (block.type === 'TABLE') {
+    result.table = diffTable(before?.content, after?.content)
+  } else {
+    const beforeText = before ? blockText(before) : ''
+    const afterText = after ? blockText(after) : ''
+    result.text = diffWords(beforeText, afterText)
+    if (status === 'modified' && beforeText === afterText) {
+      result.formatOnly = true
+    }
+  }
+
+  return result
+}
+
+/**
+ * Sections in reading order (parents before children, siblings by order)
+ */
+function flattenSections(sections: SnapshotSection[]): SnapshotSection[] {
+  const byParent = new Map<string | null, SnapshotSection[]>()
+  const ids = new Set(sections.map((section) => section.id))
+
+  for (const section of sections) {
+    const parentId = section.parentId && ids.has(section.parentId) ? section.parentId : null
+    const siblings = byParent.get(parentId) ?? []
+    siblings.push(section)
+    byParent.set(parentId, siblings)
+  }
+
+  const result: SnapshotSection[] = []
+  const visit = (parentId: string | null) => {
+    const children = (byParent.get(parentId) ?? []).sort((a, b) => a.order - b.order)
+    for (const child of children) {
+      result.push(child)
+      visit(child.id)
+    }
+  }
+  visit(null)
+  return result
+}
+
+function siblingIds(sections: SnapshotSection[], parentId: string | null): string[] {
+  return sections
+    .filter((section) => section.parentId === parentId)
+    .sort((a, b) => a.order - b.order)
+    .map((section) => section.id)
+}
+
+/**
+ * Compare two manual snapshots
+ */
+export function diffSnapshots(before: ManualSnapshot, after: ManualSnapshot): ManualDiff {
+  const beforeSections = flattenSections(before.sections)
+  const afterSections = flattenSections(after.sections)
+  const beforeById = new Map(beforeSections.map((section) => [section.id, section]))
+  const afterById = new Map(afterSections.map((section) => [section.id, section]))
+
+  // Where every block lives on each side
+  const beforeBlocks = new Map<string, { block: SnapshotBlock; sectionId: string }>()
+  const afterBlocks = new Map<string, { block: SnapshotBlock; sectionId: string }>()
+  beforeSections.forEach((section) =>
+    section.blocks.forEach((block) => beforeBlocks.set(block.id, { block, sectionId: section.id }))
+  )
+  afterSections.forEach((section) =>
+    section.blocks.forEach((block) => afterBlocks.set(block.id, { block, sectionId: section.id }))
+  )
+
+  // Sections whose order changed among siblings that exist on both sides
+  const movedSections = new Set<string>()
+  const parentIds = new Set([...beforeSections, ...afterSections].map((section) => section.parentId))
+  parentIds.forEach((parentId) => {
+    movedIds(siblingIds(beforeSections, parentId), siblingIds(afterSections, parentId)).forEach((id) =>
+      movedSections.add(id)
+    )
+  })
+
+  const stats = { added: 0, removed: 0, modified: 0, moved: 0 }
+
+  const buildSection = (sectionId: string): SectionDiff => {
+    const previous = beforeById.get(sectionId)
+    const current = afterById.get(sectionId)
+    const section = (current ?? previous)!
+
+    const previousBlocks = [...(previous?.blocks ?? [])].sort((a, b) => a.order - b.order)
+    const currentBlocks = [...(current?.blocks ?? [])].sort((a, b) => a.order - b.order)
+    const reordered = movedIds(
+      previousBlocks.map((block) => block.id),
+      currentBlocks.map((block) => block.id)
+    )
+
+    const blocks: BlockDiff[] = []
+
+    // Current blocks in order, with blocks that left this section inserted where they were
+    const currentIds = new Set(currentBlocks.map((block) => block.id))
+    const departed = previousBlocks.filter((block) => !currentIds.has(block.id))
+    const departedAfter = new Map<string | null, SnapshotBlock[]>()
+    departed.forEach((block) => {
+      const index = previousBlocks.indexOf(block)
+      const anchor = previousBlocks.slice(0, index).reverse().find((b) => currentIds.has(b.id))
+      const key = anchor?.id ?? null
+      departedAfter.set(key, [...(departedAfter.get(key) ?? []), block])
+    })
+
+    const pushDeparted = (anchorId: string | null) => {
+      for (const block of departedAfter.get(anchorId) ?? []) {
+        const target = afterBlocks.get(block.id)
+        // Blocks moved to another section are listed there
+        if (target && afterById.has(target.sectionId)) continue
+        blocks.push(diffBlock(block, undefined))
+      }
+    }
+
+    pushDeparted(null)
+    for (const block of currentBlocks) {
+      const origin = beforeBlocks.get(block.id)
+      const diff = diffBlock(origin?.block, block)
+      if (origin && origin.sectionId !== sectionId) {
+        diff.moved = true
+        diff.fromSectionId = origin.sectionId
+      } else if (reordered.has(block.id)) {
+        diff.moved = true
+      }
+      blocks.push(diff)
+      pushDeparted(block.id)
+    }
+
+    blocks.forEach((block) => {
+      if (block.status !== 'unchanged') stats[block.status]++
+      if (block.moved) stats.moved++
+    })
+
+    const status: DiffStatus = !previous
+      ? 'added'
+      : !current
+        ? 'removed'
+        : previous.title !== current.title || blocks.some((block) => block.status !== 'unchanged' || block.moved)
+          ? 'modified'
+          : 'unchanged'
+
+    const moved = !!previous && !!current &&
+      (previous.parentId !== current.parentId || movedSections.has(sectionId))
+
+    return {
+      id: sectionId,
+      status,
+      moved,
+      title: section.title,
+      previousTitle: previous && current && previous.title !== current.title ? previous.title : undefined,
+      depth: section.depth,
+      blocks,
+    }
+  }
+
+  // Current reading order, with removed sections inserted after their previous neighbour
+  const order: string[] = []
+  const removedAfter = new Map<string | null, string[]>()
+  beforeSections.forEach((section, index) => {
+    if (afterById.has(section.id)) return
+    const anchor = beforeSections.slice(0, index).reverse().find((s) => afterById.has(s.id))
+    const key = anchor?.id ?? null
+    removedAfter.set(key, [...(removedAfter.get(key) ?? []), section.id])
+  })
+
+  order.push(...(removedAfter.get(null) ?? []))
+  afterSections.forEach((section) => {
+    order.push(section.id)
+    order.push(...(removedAfter.get(section.id) ?? []))
+  })
+
+  const sections = order.map(buildSection)
+  sections.forEach((section) => {
+    if (section.status === 'added' || section.status === 'removed') stats[section.status]++
+    if (section.moved) stats.moved++
+  })
+
+  return {
+    title: before.title !== after.title ? diffWords(before.title, after.title) : null,
+    description:
+      (before.description ?? '') !== (after.description ?? '')
+        ? diffWords(before.description ?? '', after.description ?? '')
+        : null,
+    sections,
+    stats,
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * Version restore
+ * Reconciles a snapshot against the current section/block tree by ID: rows that
+ * differ are updated, missing rows are reinserted with their original IDs and
+ * rows absent from the snapshot are deleted. Untouched rows keep their IDs, so
+ * links, search hits and comments anchored to them stay valid.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { BadRequestError, NotFoundError } from './errors'
+import type { ManualSnapshot, SnapshotBlock, SnapshotSection } from './versions'
+
+type Tx = Prisma.TransactionClient
+
+export type RestoreScope =
+  | { type: 'manual' }
+  | { type: 'section'; sectionId: string }
+  | { type: 'block'; blockId: string }
+
+export interface RestoreResult {
+  created: number
+  updated: number
+  deleted: number
+}
+
+type CurrentSection = Awaited<ReturnType<typeof loadCurrentSections>>[number]
+type CurrentBlock = CurrentSection['blocks'][number]
+type SnapshotRule = NonNullable<SnapshotSection['accessRules']>[number]
+
+const BLOCK_TYPES = ['HEADING1', 'HEADING2', 'HEADING3', 'BODY', 'IMAGE', 'VIDEO', 'TABLE', 'DIVIDER', 'CODE'] as const
+type BlockType = (typeof BLOCK_TYPES)[number]
+
+function loadCurrentSections(client: Tx | typeof prisma, manualId: string) {
+  return client.manualSection.findMany({
+    where: { manualId },
+    include: {
+      blocks: {
+        omit: { collabState: true },
+      },
+      accessRules: {
+        select: { userId: true, role: true, permission: true },
+      },
+    },
+  })
+}
+
+function toBlockType(type: string): BlockType {
+  if (!(BLOCK_TYPES as readonly string[]).includes(type)) {
+    throw new BadRequestError('버전 데이터가 손상되었습니다')
+  }
+  return type as BlockType
+}
+
+function findSnapshotBlock(snapshot: ManualSnapshot, blockId: string) {
+  for (const section of snapshot.sections) {
+    const block = section.blocks.find((b) => b.id === blockId)
+    if (block) return { section, block }
+  }
+  return null
+}
+
+/**
+ * IDs of current sections a restore will modify or delete
+ * Used to enforce section-level edit permission before restoring
+ */
+export async function getAffectedSectionIds(
+  manualId: string,
+  snapshot: ManualSnapshot,
+  scope: RestoreScope
+): Promise<string[]> {
+  const current = await loadCurrentSections(prisma, manualId)
+  const currentIds = new Set(current.map((section) => section.id))
+
+  if (scope.type === 'manual') {
+    return current.map((section) => section.id)
+  }
+
+  if (scope.type === 'section') {
+    const target = snapshot.sections.find((section) => section.id === scope.sectionId)
+    if (!target) {
+      throw new NotFoundError('이 버전에 해당 섹션이 없습니다')
+    }
+
+    const affected = new Set<string>()
+    if (currentIds.has(target.id)) {
+      affected.add(target.id)
+    } else if (target.parentId && currentIds.has(target.parentId)) {
+      affected.add(target.parentId)
+    }
+
+    // Blocks pulled back from other sections
+    const blockIds = new Set(target.blocks.map((block) => block.id))
+    current.forEach((section) => {
+      if (section.blocks.some((block) => blockIds.has(block.id))) affected.add(section.id)
+    })
+    return Array.from(affected)
+  }
+
+  const found = findSnapshotBlock(snapshot, scope.blockId)
+  if (!found) {
+    throw new NotFoundError('이 버전에 해당 블록이 없습니다')
+  }
+
+  const holder = current.find((section) => section.blocks.some((block) => block.id === scope.blockId))
+  if (holder) return [holder.id]
+  return currentIds.has(found.section.id) ? [found.section.id] : []
+}
+
+/**
+ * IDs (out of `ids`) already used by rows of another manual
+ * Those rows cannot be reinserted with their original ID and get a new one
+ */
+async function findForeignIds(tx: Tx, manualId: string, sectionIds: string[], blockIds: string[]) {
+  const [sections, blocks] = await Promise.all([
+    tx.manualSection.findMany({
+      where: { id: { in: sectionIds }, manualId: { not: manualId } },
+      select: { id: true },
+    }),
+    tx.contentBlock.findMany({
+      where: { id: { in: blockIds }, section: { manualId: { not: manualId } } },
+      select: { id: true },
+    }),
+  ])
+  return new Set([...sections, ...blocks].map((row) => row.id))
+}
+
+function sameRules(current: SnapshotRule[], snapshot: SnapshotRule[]): boolean {
+  const key = (rule: SnapshotRule) => `${rule.userId ?? ''}|${rule.role ?? ''}|${rule.permission}`
+  const a = current.map(key).sort()
+  const b = snapshot.map(key).sort()
+  return a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+class Reconciler {
+  result: RestoreResult = { created: 0, updated: 0, deleted: 0 }
+  // Snapshot ID -> actual row ID (differs only for foreign ID collisions)
+  private idMap = new Map<string, string>()
+
+  constructor(
+    private tx: Tx,
+    private manualId: string,
+    private foreignIds: Set<string>,
+    private existingUserIds: Set<string>,
+    private restoreAccess: boolean
+  ) {}
+
+  actualId(snapshotId: string): string {
+    return this.idMap.get(snapshotId) ?? snapshotId
+  }
+
+  /**
+   * Create or update a section at the given placement
+   * Without `restoreAccess` an existing section keeps its restriction and rules;
+   * a recreated one gets the recorded ones back.
+   */
+  async upsertSection(
+    snap: SnapshotSection,
+    current: CurrentSection | undefined,
+    placement: { parentId: string | null; order: number; depth: number }
+  ) {
+    const keepAccess = !!current && !this.restoreAccess
+    const restricted = keepAccess ? current.restricted : snap.restricted ?? current?.restricted ?? false
+
+    if (current) {
+      if (
+        current.title !== snap.title ||
+        current.order !== placement.order ||
+        current.depth !== placement.depth ||
+        current.parentId !== placement.parentId ||
+        current.restricted !== restricted
+      ) {
+        await this.tx.manualSection.update({
+          where: { id: current.id },
+          data: {
+            title: snap.title,
+            order: placement.order,
+            depth: placement.depth,
+            parentId: placement.parentId,
+            restricted,
+            revision: { increment: 1 },
+          },
+        })
+        this.result.updated++
+      }
+    } else {
+      const created = await this.tx.manualSection.create({
+        data: {
+          ...(this.foreignIds.has(snap.id) ? {} : { id: snap.id }),
+          manualId: this.manualId,
+          title: snap.title,
+          order: placement.order,
+          depth: placement.depth,
+          parentId: placement.parentId,
+          restricted,
+        },
+      })
+      this.idMap.set(snap.id, created.id)
+      this.result.created++
+    }
+
+    if (!keepAccess) {
+      await this.syncRules(this.actualId(snap.id), current?.accessRules ?? [], snap.accessRules)
+    }
+  }
+
+  /**
+   * Replace section access rules when the snapshot recorded them
+   * Rules of users that no longer exist are dropped
+   */
+  private async syncRules(sectionId: string, current: SnapshotRule[], snapshot: SnapshotRule[] | undefined) {
+    if (!snapshot) return
+
+    const rules = snapshot.filter((rule) => !rule.userId || this.existingUserIds.has(rule.userId))
+    if (sameRules(current, rules)) return
+
+    await this.tx.sectionAccessRule.deleteMany({ where: { sectionId } })
+    if (rules.length > 0) {
+      await this.tx.sectionAccessRule.createMany({
+        data: rules.map((rule) => ({
+          sectionId,
+          userId: rule.userId,
+          role: rule.role as 'OWNER' | 'EDITOR' | 'VIEWER' | null,
+          permission: rule.permission as 'EDITOR' | 'VIEWER',
+        })),
+      })
+    }
+  }
+
+  async upsertBlock(snap: SnapshotBlock, current: CurrentBlock | undefined, sectionId: string, order: number) {
+    const type = toBlockType(snap.type)
+
+    if (current) {
+      if (
+        current.type !== type ||
+        current.content !== snap.content ||
+        current.order !== order ||
+        current.sectionId !== sectionId
+      ) {
+        await this.tx.contentBlock.update({
+          where: { id: current.id },
+          data: { type, content: snap.content, order, sectionId, revision: { increment: 1 } },
+        })
+        this.result.updated++
+      }
+    } else {
+      await this.tx.contentBlock.create({
+        data: {
+          ...(this.foreignIds.has(snap.id) ? {} : { id: snap.id }),
+          sectionId,
+          type,
+          content: snap.content,
+          order,
+        },
+      })
+      this.result.created++
+    }
+  }
+
+  async deleteSections(ids: string[]) {
+    if (ids.length === 0) return
+    const { count } = await this.tx.manualSection.deleteMany({
+      where: { id: { in: ids }, manualId: this.manualId },
+    })
+    this.result.deleted += count
+  }
+
+  async deleteBlocks(ids: string[]) {
+    if (ids.length === 0) return
+    const { count } = await this.tx.contentBlock.deleteMany({
+      where: { id: { in: ids }, section: { manualId: this.manualId } },
+    })
+    this.result.deleted += count
+  }
+
+  /**
+   * Shift siblings so that `order` is free
+   */
+  async makeSectionRoom(parentId: string | null, order: number) {
+    await this.tx.manualSection.updateMany({
+      where: { manualId: this.manualId, parentId, order: { gte: order } },
+      data: { order: { increment: 1 } },
+    })
+  }
+
+  async makeBlockRoom(sectionId: string, order: number) {
+    await this.tx.contentBlock.updateMany({
+      where: { sectionId, order: { gte: order } },
+      data: { order: { increment: 1 } },
+    })
+  }
+}
+
+/**
+ * Snapshot sections ordered so that parents come before their children
+ * Sections whose parent is missing from the snapshot are treated as top level
+ */
+function parentsFirst(sections: SnapshotSection[]): SnapshotSection[] {
+  const ids = new Set(sections.map((section) => section.id))
+  const result = sections.filter((section) => !section.parentId || !ids.has(section.parentId))
+  const placed = new Set(result.map((section) => section.id))
+
+  for (let i = 0; i < result.length; i++) {
+    for (const section of sections) {
+      if (section.parentId === result[i].id && !placed.has(section.id)) {
+        result.push(section)
+        placed.add(section.id)
+      }
+    }
+  }
+  return result
+}
+
+async function restoreManual(r: Reconciler, tx: Tx, manualId: string, snapshot: ManualSnapshot, current: CurrentSection[]) {
+  const manual = await tx.manual.findUniqueOrThrow({ where: { id: manualId } })
+  const description = snapshot.description === undefined ? manual.description : snapshot.description
+  if (manual.title !== snapshot.title || manual.description !== description) {
+    await tx.manual.update({
+      where: { id: manualId },
+      data: { title: snapshot.title, description, revision: { increment: 1 } },
+    })
+    r.result.updated++
+  }
+
+  const currentById = new Map(current.map((section) => [section.id, section]))
+  const snapshotIds = new Set(snapshot.sections.map((section) => section.id))
+
+  // 1. Sections, parents first so every parent row exists when a child points to it
+  for (const snap of parentsFirst(snapshot.sections)) {
+    const parentId = snap.parentId && snapshotIds.has(snap.parentId) ? r.actualId(snap.parentId) : null
+    await r.upsertSection(snap, currentById.get(snap.id), {
+      parentId,
+      order: snap.order,
+      depth: snap.depth,
+    })
+  }
+
+  // 2. Blocks, before any section is deleted so moved blocks survive the cascade
+  const currentBlocks = new Map(current.flatMap((section) => section.blocks).map((block) => [block.id, block]))
+  const snapshotBlockIds = new Set<string>()
+  for (const snap of snapshot.sections) {
+    for (const block of snap.blocks) {
+      snapshotBlockIds.add(block.id)
+      await r.upsertBlock(block, currentBlocks.get(block.id), r.actualId(snap.id), block.order)
+    }
+  }
+
+  // 3. Rows that are not in the snapshot
+  await r.deleteBlocks(Array.from(currentBlocks.keys()).filter((id) => !snapshotBlockIds.has(id)))
+  await r.deleteSections(current.filter((section) => !snapshotIds.has(section.id)).map((section) => section.id))
+}
+
+async function restoreSection(r: Reconciler, snapshot: ManualSnapshot, current: CurrentSection[], sectionId: string) {
+  const snap = snapshot.sections.find((section) => section.id === sectionId)
+  if (!snap) {
+    throw new NotFoundError('이 버전에 해당 섹션이 없습니다')
+  }
+
+  const currentById = new Map(current.map((section) => [section.id, section]))
+  const existing = currentById.get(snap.id)
+
+  if (existing) {
+    // An existing section keeps its current position
+    await r.upsertSection(snap, existing, {
+      parentId: existing.parentId,
+      order: existing.order,
+      depth: existing.depth,
+    })
+  } else {
+    // A deleted section goes back under its old parent, or to the top level if that is gone too
+    const parent = snap.parentId ? currentById.get(snap.parentId) : undefined
+    const parentId = parent?.id ?? null
+    await r.makeSectionRoom(parentId, snap.order)
+    await r.upsertSection(snap, undefined, {
+      parentId,
+      order: snap.order,
+      depth: parent ? parent.depth + 1 : 1,
+    })
+  }
+
+  const targetId = r.actualId(snap.id)
+  const currentBlocks = new Map(current.flatMap((section) => section.blocks).map((block) => [block.id, block]))
+  const snapshotBlockIds = new Set(snap.blocks.map((block) => block.id))
+
+  for (const block of snap.blocks) {
+    await r.upsertBlock(block, currentBlocks.get(block.id), targetId, block.order)
+  }
+
+  await r.deleteBlocks(
+    (existing?.blocks ?? []).filter((block) => !snapshotBlockIds.has(block.id)).map((block) => block.id)
+  )
+}
+
+async function restoreBlock(r: Reconciler, snapshot: ManualSnapshot, current: CurrentSection[], blockId: string) {
+  const found = findSnapshotBlock(snapshot, blockId)
+  if (!found) {
+    throw new NotFoundError('이 버전에 해당 블록이 없습니다')
+  }
+
+  const existing = current.flatMap((section) => section.blocks).find((block) => block.id === blockId)
+
+  if (existing) {
+    // An existing block keeps its current position
+    await r.upsertBlock(found.block, existing, existing.sectionId, existing.order)
+    return
+  }
+
+  if (!current.some((section) => section.id === found.section.id)) {
+    throw new BadRequestError('블록이 있던 섹션이 삭제되었습니다. 섹션을 먼저 복원해주세요')
+  }
+
+  await r.makeBlockRoom(found.section.id, found.block.order)
+  await r.upsertBlock(found.block, undefined, found.section.id, found.block.order)
+}
+
+/**
+ * Restore a snapshot (or one of its sections/blocks) into a manual
+ * Section restrictions and access rules are only restored with `restoreAccess`
+ * (share permission, as required to change them directly).
+ */
+export async function restoreFromSnapshot(
+  manualId: string,
+  snapshot: ManualSnapshot,
+  scope: RestoreScope,
+  options: { restoreAccess: boolean }
+): Promise<RestoreResult> {
+  return prisma.$transaction(async (tx) => {
+    const current = await loadCurrentSections(tx, manualId)
+
+    const sectionIds = snapshot.sections.map((section) => section.id)
+    const blockIds = snapshot.sections.flatMap((section) => section.blocks.map((block) => block.id))
+    const foreignIds = await findForeignIds(tx, manualId, sectionIds, blockIds)
+
+    const ruleUserIds = snapshot.sections.flatMap((section) =>
+      (section.accessRules ?? []).map((rule) => rule.userId).filter((id): id is string => !!id)
+    )
+    const users = ruleUserIds.length > 0
+      ? await tx.user.findMany({ where: { id: { in: ruleUserIds } }, select: { id: true } })
+      : []
+
+    const reconciler = new Reconciler(tx, manualId, foreignIds, new Set(users.map((user) => user.id)), options.restoreAccess)
+
+    switch (scope.type) {
+      case 'manual':
+        await restoreManual(reconciler, tx, manualId, snapshot, current)
+        break
+      case 'section':
+        await restoreSection(reconciler, snapshot, current, scope.sectionId)
+        break
+      case 'block':
+        await restoreBlock(reconciler, snapshot, current, scope.blockId)
+        break
+    }
+
+    return reconciler.result
+  })
+}
@@ -0,0 +1,290 @@
+/**
+ * Version storage
+ * Versions are stored as gzip-compressed keyframes (full snapshots) and deltas
+ * against the previous version of the same manual. Every
+ * VERSION_KEYFRAME_INTERVAL versions a new keyframe starts a chain, so reading a
+ * version never replays more than that many deltas.
+ *
+ * Formats (ManualVersion.format):
+ * - JSON: legacy plain snapshot in `content`
+ * - KEYFRAME: compressed snapshot in `data`
+ * - DELTA: compressed SnapshotDelta in `data`, applied on top of `baseId`
+ */
+
+import { gzipSync, gunzipSync } from 'zlib'
+import type { VersionFormat } from '@prisma/client'
+import { prisma } from './prisma'
+import { BadRequestError, NotFoundError } from './errors'
+import { parseSnapshot, type ManualSnapshot, type SnapshotBlock, type SnapshotSection } from './versions'
+
+// Maximum number of deltas between two keyframes
+const KEYFRAME_INTERVAL = parseInt(process.env.VERSION_KEYFRAME_INTERVAL || '20', 10)
+
+type SectionHeader = Omit<SnapshotSection, 'blocks'>
+type BlockBody = Omit<SnapshotBlock, 'order'>
+
+/**
+ * Changes from a base snapshot to the next one
+ * Only new/changed section headers and block bodies are stored; sections
+ * and blocks are otherwise referenced by ID from the base
+ */
+export interface SnapshotDelta {
+  title: string
+  description: string | null
+  /** Section IDs of the target snapshot in stored order */
+  sectionIds: string[]
+  /** Section headers that are new or differ from the base */
+  sections: SectionHeader[]
+  /** Sections whose block list, order or block bodies differ from the base */
+  blocks: Record<string, { ids: string[]; orders: number[]; changed: BlockBody[] }>
+}
+
+/** Row fields that hold a stored version */
+export interface StoredVersionFields {
+  format: VersionFormat
+  content: string | null
+  data: Uint8Array<ArrayBuffer> | null
+  baseId: string | null
+  chainDepth: number
+}
+
+type StoredVersion = StoredVersionFields & { id: string }
+
+const STORED_VERSION_SELECT = {
+  id: true,
+  format: true,
+  content: true,
+  data: true,
+  baseId: true,
+  chainDepth: true,
+} as const
+
+function compress(value: unknown): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(gzipSync(Buffer.from(JSON.stringify(value), 'utf8')))
+}
+
+function decompress<T>(data: Uint8Array): T {
+  return JSON.parse(gunzipSync(data).toString('utf8')) as T
+}
+
+function splitSection(section: SnapshotSection): SectionHeader {
+  const { blocks: _blocks, ...header } = section
+  return header
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Compute the delta that turns `base` into `target`
+ */
+export function createDelta(base: ManualSnapshot, target: ManualSnapshot): SnapshotDelta {
+  const baseSections = new Map(base.sections.map((section) => [section.id, section]))
+  const baseBlocks = new Map<string, SnapshotBlock>()
+  base.sections.forEach((section) => section.blocks.forEach((block) => baseBlocks.set(block.id, block)))
+
+  const delta: SnapshotDelta = {
+    title: target.title,
+    description: target.description ?? null,
+    sectionIds: target.sections.map((section) => section.id),
+    sections: [],
+    blocks: {},
+  }
+
+  for (const section of target.sections) {
+    const previous = baseSections.get(section.id)
+    const header = splitSection(section)
+    if (!previous || !sameJson(splitSection(previous), header)) {
+      delta.sections.push(header)
+    }
+
+    const changed = section.blocks
+      .filter((block) => {
+        const before = baseBlocks.get(block.id)
+        return !before || before.type !== block.type || before.content !== block.content
+      })
+      .map(({ order: _order, ...body }) => body)
+
+    const ids = section.blocks.map((block) => block.id)
+    const orders = section.blocks.map((block) => block.order)
+    const previousIds = previous?.blocks.map((block) => block.id) ?? []
+    const previousOrders = previous?.blocks.map((block) => block.order) ?? []
+
+    if (changed.length > 0 || !sameJson(ids, previousIds) || !sameJson(orders, previousOrders)) {
+      delta.blocks[section.id] = { ids, orders, changed }
+    }
+  }
+
+  return delta
+}
+
+/**
+ * Rebuild the target snapshot from a base snapshot and a delta
+ */
+export function applyDelta(base: ManualSnapshot, delta: SnapshotDelta): ManualSnapshot {
+  const baseSections = new Map(base.sections.map((section) => [section.id, section]))
+  const headers = new Map(delta.sections.map((header) => [header.id, header]))
+  const baseBlocks = new Map<string, SnapshotBlock>()
+  base.sections.forEach((section) => section.blocks.forEach((block) => baseBlocks.set(block.id, block)))
+
+  const sections = delta.sectionIds.map((sectionId): SnapshotSection => {
+    const previous = baseSections.get(sectionId)
+    const header = headers.get(sectionId) ?? (previous ? splitSection(previous) : undefined)
+    if (!header) {
+      throw new BadRequestError('버전 데이터가 손상되었습니다')
+    }
+
+    const blockChanges = delta.blocks[sectionId]
+    if (!blockChanges) {
+      return { ...header, blocks: previous?.blocks ?? [] }
+    }
+
+    const changed = new Map(blockChanges.changed.map((block) => [block.id, block]))
+    const blocks = blockChanges.ids.map((blockId, index): SnapshotBlock => {
+      const body = changed.get(blockId) ?? baseBlocks.get(blockId)
+      if (!body) {
+        throw new BadRequestError('버전 데이터가 손상되었습니다')
+      }
+      return { id: body.id, type: body.type, content: body.content, order: blockChanges.orders[index] }
+    })
+
+    return { ...header, blocks }
+  })
+
+  return { title: delta.title, description: delta.description, sections }
+}
+
+/**
+ * Storage fields for a new version of a manual
+ * Deltas are taken against the latest stored version while the chain is short enough
+ */
+export async function encodeVersion(manualId: string, snapshot: ManualSnapshot): Promise<StoredVersionFields> {
+  const latest = await prisma.manualVersion.findFirst({
+    where: { manualId },
+    orderBy: { createdAt: 'desc' },
+    select: STORED_VERSION_SELECT,
+  })
+
+  if (!latest || latest.chainDepth + 1 >= KEYFRAME_INTERVAL) {
+    return encodeKeyframe(snapshot)
+  }
+
+  return encodeAfter({ ...latest, snapshot: await readStoredSnapshot(latest) }, snapshot)
+}
+
+/**
+ * Storage fields for a version that follows `previous`
+ */
+export function encodeAfter(
+  previous: { id: string; chainDepth: number; snapshot: ManualSnapshot } | null,
+  snapshot: ManualSnapshot
+): StoredVersionFields {
+  if (!previous || previous.chainDepth + 1 >= KEYFRAME_INTERVAL) {
+    return encodeKeyframe(snapshot)
+  }
+
+  return {
+    format: 'DELTA',
+    content: null,
+    data: compress(createDelta(previous.snapshot, snapshot)),
+    baseId: previous.id,
+    chainDepth: previous.chainDepth + 1,
+  }
+}
+
+export function encodeKeyframe(snapshot: ManualSnapshot): StoredVersionFields {
+  return {
+    format: 'KEYFRAME',
+    content: null,
+    data: compress(snapshot),
+    baseId: null,
+    chainDepth: 0,
+  }
+}
+
+/**
+ * Reconstruct the snapshot of a stored version
+ */
+export async function readStoredSnapshot(version: StoredVersion): Promise<ManualSnapshot> {
+  // Walk back to the nearest full snapshot, then replay the deltas forward
+  const chain: StoredVersion[] = [version]
+  let current = version
+
+  while (current.format === 'DELTA') {
+    if (!current.baseId || chain.length > KEYFRAME_INTERVAL * 2) {
+      throw new BadRequestError('버전 데이터가 손상되었습니다')
+    }
+
+    const base = await prisma.manualVersion.findUnique({
+      where: { id: current.baseId },
+      select: STORED_VERSION_SELECT,
+    })
+    if (!base) {
+      throw new BadRequestError('버전 데이터가 손상되었습니다')
+    }
+
+    chain.push(base)
+    current = base
+  }
+
+  let snapshot = readFullSnapshot(current)
+  for (let i = chain.length - 2; i >= 0; i--) {
+    snapshot = applyDelta(snapshot, decompress<SnapshotDelta>(chain[i].data!))
+  }
+  return snapshot
+}
+
+function readFullSnapshot(version: StoredVersion): ManualSnapshot {
+  if (version.format === 'KEYFRAME' && version.data) {
+    return parseSnapshot(gunzipSync(version.data).toString('utf8'))
+  }
+  if (version.format === 'JSON' && version.content !== null) {
+    return parseSnapshot(version.content)
+  }
+  throw new BadRequestError('버전 데이터가 손상되었습니다')
+}
+
+/**
+ * Load and reconstruct a version of a manual
+ */
+export async function loadVersionSnapshot(manualId: string, versionId: string): Promise<ManualSnapshot> {
+  const version = await prisma.manualVersion.findUnique({
+    where: { id: versionId, manualId },
+    select: STORED_VERSION_SELECT,
+  })
+
+  if (!version) {
+    throw new NotFoundError('버전을 찾을 수 없습니다')
+  }
+
+  return readStoredSnapshot(version)
+}
+
+/**
+ * Turn deltas based on the given versions into keyframes
+ * Must run before those versions are deleted, or their dependents become unreadable
+ */
+export async function detachDependentVersions(versionIds: string[]) {
+  if (versionIds.length === 0) return 0
+
+  const removing = new Set(versionIds)
+  const dependents = await prisma.manualVersion.findMany({
+    where: { baseId: { in: versionIds } },
+    select: STORED_VERSION_SELECT,
+  })
+
+  let detached = 0
+  for (const dependent of dependents) {
+    if (removing.has(dependent.id)) continue
+
+    const snapshot = await readStoredSnapshot(dependent)
+    await prisma.manualVersion.update({
+      where: { id: dependent.id },
+      data: encodeKeyframe(snapshot),
+    })
+    detached++
+  }
+
+  return detached
+}
@@ -0,0 +1,95 @@
+import { prisma } from '@/test/prisma'
+import { beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { pruneAutoVersions } from './versions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface VersionRow {
+  id: string
+  manualId: string
+  kind: 'AUTO' | 'NAMED'
+  createdAt: Date
+  baseId: string | null
+}
+
+interface DateFilter {
+  lt?: Date
+  gte?: Date
+}
+
+interface VersionWhere {
+  kind?: string
+  createdAt?: DateFilter
+  publishedManual?: { is: null }
+  id?: { in: string[] }
+  baseId?: { in: string[] }
+}
+
+let versions: VersionRow[] = []
+let publishedVersionIds: string[] = []
+
+function matches(version: VersionRow, where: VersionWhere) {
+  const { kind, createdAt, publishedManual, id, baseId } = where
+  if (kind && version.kind !== kind) return false
+  if (createdAt?.lt && !(version.createdAt < createdAt.lt)) return false
+  if (createdAt?.gte && !(version.createdAt >= createdAt.gte)) return false
+  if (publishedManual && publishedVersionIds.includes(version.id)) return false
+  if (id && !id.in.includes(version.id)) return false
+  if (baseId && !(version.baseId && baseId.in.includes(version.baseId))) return false
+  return true
+}
+
+prisma.manualVersion = {
+  findMany: async ({ where }: { where: VersionWhere }) =>
+    versions
+      .filter((version) => matches(version, where))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+  deleteMany: async ({ where }: { where: VersionWhere }) => {
+    const before = versions.length
+    versions = versions.filter((version) => !matches(version, where))
+    return { count: before - versions.length }
+  },
+}
+
+function version(id: string, manualId: string, daysAgo: number, kind: VersionRow['kind'] = 'AUTO'): VersionRow {
+  return { id, manualId, kind, createdAt: new Date(Date.now() - daysAgo * DAY_MS), baseId: null }
+}
+
+describe('pruneAutoVersions', () => {
+  beforeEach(() => {
+    versions = [
+      version('expired', 'manual-1', 100),
+      version('expired-named', 'manual-1', 100, 'NAMED'),
+      version('expired-published', 'manual-2', 100),
+      // Two auto versions on the same day, 30 days ago
+      version('daily-latest', 'manual-1', 30),
+      version('daily-older', 'manual-1', 30.01),
+      version('daily-latest-2', 'manual-3', 30),
+      version('daily-older-published', 'manual-3', 30.01),
+      version('recent', 'manual-1', 1),
+    ]
+    publishedVersionIds = ['expired-published', 'daily-older-published']
+  })
+
+  test('thins out old auto versions', async () => {
+    publishedVersionIds = []
+    const { deleted } = await pruneAutoVersions()
+
+    assert.equal(deleted, 4)
+    assert.deepEqual(
+      versions.map((row) => row.id),
+      ['expired-named', 'daily-latest', 'daily-latest-2', 'recent']
+    )
+  })
+
+  test('keeps the published version of a manual', async () => {
+    const { deleted } = await pruneAutoVersions()
+
+    assert.equal(deleted, 2)
+    assert.deepEqual(
+      versions.map((row) => row.id),
+      ['expired-named', 'expired-published', 'daily-latest', 'daily-latest-2', 'daily-older-published', 'recent']
+    )
+  })
+})
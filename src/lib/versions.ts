@@ -0,0 +1,293 @@
+/**
+ * Manual version snapshots
+ * Named versions are saved explicitly by users, auto versions are taken by the
+ * version cron once a manual has been quiet for VERSION_QUIET_PERIOD_MS after an edit
+ */
+
+import { createHash } from 'crypto'
+import type { VersionKind } from '@prisma/client'
+import { prisma } from './prisma'
+import { BadRequestError, NotFoundError } from './errors'
+import { detachDependentVersions, encodeVersion } from './version-storage'
+
+// An auto version is taken once nobody has edited the manual for this long
+const QUIET_PERIOD_MS = parseInt(process.env.VERSION_QUIET_PERIOD_MS || '300000', 10)
+
+// Retention of auto versions (named versions are kept forever)
+const KEEP_ALL_DAYS = parseInt(process.env.VERSION_KEEP_ALL_DAYS || '7', 10)
+const KEEP_DAILY_DAYS = parseInt(process.env.VERSION_KEEP_DAILY_DAYS || '90', 10)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Record an edit of a manual
+ * Bumps updatedAt and (re)starts the quiet period before the next auto version
+ */
+export async function markManualEdited(manualId: string, userId: string) {
+  const now = new Date()
+
+  await prisma.manual.update({
+    where: { id: manualId },
+    data: {
+      updatedAt: now,
+      lastEditedById: userId,
+      autoVersionDueAt: new Date(now.getTime() + QUIET_PERIOD_MS),
+    },
+  })
+}
+
+export interface SnapshotBlock {
+  id: string
+  type: string
+  content: string
+  order: number
+}
+
+export interface SnapshotSection {
+  id: string
+  title: string
+  order: number
+  depth: number
+  parentId: string | null
+  restricted?: boolean
+  accessRules?: Array<{ userId: string | null; role: string | null; permission: string }>
+  blocks: SnapshotBlock[]
+}
+
+/**
+ * Full state of a manual at one version (see version-storage for how it is stored)
+ * Older snapshots may lack description and section access fields
+ */
+export interface ManualSnapshot {
+  title: string
+  description?: string | null
+  sections: SnapshotSection[]
+}
+
+/**
+ * Parse a stored snapshot
+ * Throws BadRequestError if the content is not a valid snapshot
+ */
+export function parseSnapshot(content: string): ManualSnapshot {
+  let snapshot
+  try {
+    snapshot = JSON.parse(content)
+  } catch (e) {
+    throw new BadRequestError('버전 데이터가 손상되었습니다')
+  }
+
+  if (!snapshot || typeof snapshot.title !== 'string' || !Array.isArray(snapshot.sections)) {
+    throw new BadRequestError('버전 데이터가 손상되었습니다')
+  }
+
+  return {
+    title: snapshot.title,
+    description: snapshot.description ?? null,
+    sections: snapshot.sections.map((section: SnapshotSection) => ({
+      ...section,
+      parentId: section.parentId ?? null,
+      blocks: section.blocks ?? [],
+    })),
+  }
+}
+
+/**
+ * Build a snapshot of the current manual state
+ */
+export async function buildManualSnapshot(manualId: string): Promise<ManualSnapshot> {
+  const manual = await prisma.manual.findUnique({
+    where: { id: manualId },
+    include: {
+      sections: {
+        include: {
+          blocks: {
+            orderBy: { order: 'asc' },
+            omit: { collabState: true },
+          },
+          accessRules: {
+            select: { userId: true, role: true, permission: true },
+          },
+        },
+        orderBy: { order: 'asc' },
+      },
+    },
+  })
+
+  if (!manual) {
+    throw new NotFoundError('메뉴얼을 찾을 수 없습니다')
+  }
+
+  return {
+    title: manual.title,
+    description: manual.description,
+    sections: manual.sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      order: section.order,
+      depth: section.depth,
+      parentId: section.parentId,
+      restricted: section.restricted,
+      accessRules: section.accessRules,
+      blocks: section.blocks.map((block) => ({
+        id: block.id,
+        type: block.type,
+        content: block.content,
+        order: block.order,
+      })),
+    })),
+  }
+}
+
+export function hashSnapshot(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+interface CreateVersionOptions {
+  kind: VersionKind
+  summary?: string | null
+  /** Pre-built snapshot (defaults to the current manual state) */
+  snapshot?: ManualSnapshot
+}
+
+/**
+ * Snapshot the current state of a manual
+ */
+export async function createManualVersion(
+  manualId: string,
+  userId: string,
+  options: CreateVersionOptions
+) {
+  const snapshot = options.snapshot ?? await buildManualSnapshot(manualId)
+  const stored = await encodeVersion(manualId, snapshot)
+
+  return prisma.manualVersion.create({
+    data: {
+      manualId,
+      createdBy: userId,
+      ...stored,
+      contentHash: hashSnapshot(JSON.stringify(snapshot)),
+      kind: options.kind,
+      summary: options.summary || null,
+    },
+    include: {
+      creator: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Take an auto version unless the latest version already has the same content
+ * @returns The created version, or null when nothing changed
+ */
+export async function createAutoVersionIfChanged(manualId: string, userId: string, summary?: string) {
+  const snapshot = await buildManualSnapshot(manualId)
+
+  const latest = await prisma.manualVersion.findFirst({
+    where: { manualId },
+    orderBy: { createdAt: 'desc' },
+    select: { content: true, contentHash: true },
+  })
+
+  const latestHash = latest?.contentHash ?? (latest?.content ? hashSnapshot(latest.content) : null)
+  if (latestHash === hashSnapshot(JSON.stringify(snapshot))) {
+    return null
+  }
+
+  return createManualVersion(manualId, userId, { kind: 'AUTO', snapshot, summary })
+}
+
+/**
+ * Take auto versions of every manual whose quiet period has passed
+ */
+export async function createDueAutoVersions() {
+  const now = new Date()
+
+  const manuals = await prisma.manual.findMany({
+    where: { autoVersionDueAt: { lte: now } },
+    select: { id: true, ownerId: true, lastEditedById: true, autoVersionDueAt: true },
+  })
+
+  let created = 0
+  let skipped = 0
+
+  for (const manual of manuals) {
+    try {
+      const version = await createAutoVersionIfChanged(manual.id, manual.lastEditedById ?? manual.ownerId)
+
+      if (version) created++
+      else skipped++
+
+      // Only clear the due date if nobody edited the manual in the meantime
+      await prisma.manual.updateMany({
+        where: { id: manual.id, autoVersionDueAt: manual.autoVersionDueAt },
+        data: { autoVersionDueAt: null },
+      })
+    } catch (error) {
+      console.error(`Auto version error (manual ${manual.id}):`, error)
+    }
+  }
+
+  return { created, skipped }
+}
+
+/**
+ * Thin out old auto versions
+ *
+ * - Younger than VERSION_KEEP_ALL_DAYS: keep all
+ * - Younger than VERSION_KEEP_DAILY_DAYS: keep the latest auto version of each day
+ * - Older: delete
+ * Named versions and the published version of a manual are never deleted.
+ */
+export async function pruneAutoVersions() {
+  const now = Date.now()
+  const keepAllSince = new Date(now - KEEP_ALL_DAYS * DAY_MS)
+  const keepDailySince = new Date(now - KEEP_DAILY_DAYS * DAY_MS)
+
+  const expired = await prisma.manualVersion.findMany({
+    where: {
+      kind: 'AUTO',
+      createdAt: { lt: keepDailySince },
+      publishedManual: { is: null },
+    },
+    select: { id: true },
+  })
+
+  const candidates = await prisma.manualVersion.findMany({
+    where: {
+      kind: 'AUTO',
+      createdAt: { gte: keepDailySince, lt: keepAllSince },
+      publishedManual: { is: null },
+    },
+    select: { id: true, manualId: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  // Newest first, so the first version seen for a manual/day is the one kept
+  const keptDays = new Set<string>()
+  const thinnedIds: string[] = []
+
+  for (const version of candidates) {
+    const dayKey = `${version.manualId}:${version.createdAt.toISOString().slice(0, 10)}`
+    if (keptDays.has(dayKey)) {
+      thinnedIds.push(version.id)
+    } else {
+      keptDays.add(dayKey)
+    }
+  }
+
+  const deleteIds = [...expired.map((version) => version.id), ...thinnedIds]
+  if (deleteIds.length === 0) {
+    return { deleted: 0 }
+  }
+
+  // Versions stored as deltas on top of deleted ones become keyframes first
+  await detachDependentVersions(deleteIds)
+
+  const { count } = await prisma.manualVersion.deleteMany({ where: { id: { in: deleteIds } } })
+  return { deleted: count }
+}
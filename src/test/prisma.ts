@@ -0,0 +1,10 @@
+/**
+ * In-memory stand-in for the Prisma client in tests
+ * `@/lib/prisma` reuses a client found on globalThis, so importing this module first
+ * gives every module under test this object instead of a database connection.
+ * Each test file assigns the model methods its code paths use.
+ */
+
+export const prisma: Record<string, any> = {}
+
+;(globalThis as unknown as { prisma: unknown }).prisma = prisma
@@ -1,6 +1,6 @@
-import { Role, Permission, BlockType, AccessType, NotificationType, InvitationStatus } from '@prisma/client'
+import { Role, Permission, BlockType, AccessType, NotificationType, NotificationChannel, InvitationStatus, ManualVisibility, VersionKind, VersionFormat } from '@prisma/client'
 
-export type { Role, Permission, BlockType, AccessType, NotificationType, InvitationStatus }
+export type { Role, Permission, BlockType, AccessType, NotificationType, NotificationChannel, InvitationStatus, ManualVisibility, VersionKind, VersionFormat }
 
 export interface User {
   id: string
@@ -35,8 +35,10 @@ export interface Manual {
   title: string
   description?: string | null
   coverImage?: string | null
+  visibility: ManualVisibility
   teamId: string
   ownerId: string
+  revision: number
   createdAt: Date
   updatedAt: Date
   team?: Team
@@ -50,10 +52,22 @@ export interface ManualSection {
   depth: number
   manualId: string
   parentId?: string | null
+  restricted: boolean
+  revision: number
   createdAt: Date
   updatedAt: Date
   children?: ManualSection[]
   blocks?: ContentBlock[]
+  accessRules?: SectionAccessRule[]
+}
+
+export interface SectionAccessRule {
+  id: string
+  sectionId: string
+  userId?: string | null
+  role?: Role | null
+  permission: Permission
+  createdAt: Date
 }
 
 export interface ContentBlock {
@@ -62,6 +76,7 @@ export interface ContentBlock {
   content: string
   order: number
   sectionId: string
+  revision: number
   createdAt: Date
   updatedAt: Date
 }
@@ -88,7 +103,12 @@ export interface ExternalShareLink {
 export interface ManualVersion {
   id: string
   manualId: string
-  content: string
+  format: VersionFormat
+  content?: string | null
+  baseId?: string | null
+  chainDepth: number
+  contentHash?: string | null
+  kind: VersionKind
   summary?: string | null
   createdBy: string
   createdAt: Date
@@ -117,5 +137,14 @@ export interface Notification {
   isRead: boolean
   userId: string
   relatedId?: string | null
+  emailedAt?: Date | null
   createdAt: Date
 }
+
+export interface NotificationPreference {
+  id: string
+  userId: string
+  type: NotificationType
+  channel: NotificationChannel
+  updatedAt: Date
+}